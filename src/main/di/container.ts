@@ -5,11 +5,31 @@
 
 import type { TypedStore } from "../persistence/store.js";
 import { getAppStore } from "../persistence/store.js";
+import { GlossaryRepositoryImpl } from "../repository/glossary-repository.js";
 import { LanguageRepository } from "../repository/language-repository.js";
+import { PostEditRepositoryImpl } from "../repository/post-edit-repository.js";
+import { PromptTemplateRepositoryImpl } from "../repository/prompt-template-repository.js";
 import { ThemeRepository } from "../repository/theme-repository.js";
+import { TranslationCacheRepositoryImpl } from "../repository/translation-cache-repository.js";
+import { TranslationHistoryRepositoryImpl } from "../repository/translation-history-repository.js";
+import { TranslationMemoryRepositoryImpl } from "../repository/translation-memory-repository.js";
 import { TranslationSettingsRepositoryImpl } from "../repository/translation-settings-repository.js";
+import { DocumentServiceImpl } from "../services/document-service.js";
+import { GlossaryServiceImpl } from "../services/glossary-service.js";
+import { I18nResourceServiceImpl } from "../services/i18n-resource-service.js";
+import { LanguageDetectionServiceImpl } from "../services/language-detection-service.js";
+import { LocalizationFileServiceImpl } from "../services/localization-file-service.js";
 import { OllamaServiceImpl } from "../services/ollama-service.js";
+import { PostEditServiceImpl } from "../services/post-edit-service.js";
+import { PromptTemplateServiceImpl } from "../services/prompt-template-service.js";
+import { SubtitleServiceImpl } from "../services/subtitle-service.js";
+import { TranslationCacheServiceImpl } from "../services/translation-cache-service.js";
+import { TranslationChatServiceImpl } from "../services/translation-chat-service.js";
+import { TranslationHistoryServiceImpl } from "../services/translation-history-service.js";
+import { TranslationJobManagerImpl } from "../services/translation-job-manager.js";
+import { TranslationMemoryServiceImpl } from "../services/translation-memory-service.js";
 import { TranslationServiceImpl } from "../services/translation-service.js";
+import { WordLookupServiceImpl } from "../services/word-lookup-service.js";
 
 /**
  * Lazy-loaded singleton container for application dependencies
@@ -22,8 +42,34 @@ class DIContainer {
   private translationSettingsRepository:
     | TranslationSettingsRepositoryImpl
     | undefined;
+  private glossaryRepository: GlossaryRepositoryImpl | undefined;
+  private promptTemplateRepository: PromptTemplateRepositoryImpl | undefined;
+  private translationCacheRepository:
+    | TranslationCacheRepositoryImpl
+    | undefined;
+  private translationHistoryRepository:
+    | TranslationHistoryRepositoryImpl
+    | undefined;
+  private translationMemoryRepository:
+    | TranslationMemoryRepositoryImpl
+    | undefined;
+  private postEditRepository: PostEditRepositoryImpl | undefined;
   private ollamaService: OllamaServiceImpl | undefined;
+  private languageDetectionService: LanguageDetectionServiceImpl | undefined;
+  private glossaryService: GlossaryServiceImpl | undefined;
+  private promptTemplateService: PromptTemplateServiceImpl | undefined;
+  private translationCacheService: TranslationCacheServiceImpl | undefined;
+  private translationHistoryService: TranslationHistoryServiceImpl | undefined;
+  private translationMemoryService: TranslationMemoryServiceImpl | undefined;
+  private postEditService: PostEditServiceImpl | undefined;
+  private translationJobManager: TranslationJobManagerImpl | undefined;
   private translationService: TranslationServiceImpl | undefined;
+  private translationChatService: TranslationChatServiceImpl | undefined;
+  private wordLookupService: WordLookupServiceImpl | undefined;
+  private i18nResourceService: I18nResourceServiceImpl | undefined;
+  private documentService: DocumentServiceImpl | undefined;
+  private subtitleService: SubtitleServiceImpl | undefined;
+  private localizationFileService: LocalizationFileServiceImpl | undefined;
 
   /**
    * Ensure container is initialized
@@ -40,12 +86,67 @@ class DIContainer {
     this.translationSettingsRepository = new TranslationSettingsRepositoryImpl(
       this.store,
     );
+    this.glossaryRepository = new GlossaryRepositoryImpl(this.store);
+    this.promptTemplateRepository = new PromptTemplateRepositoryImpl(
+      this.store,
+    );
+    this.translationCacheRepository = new TranslationCacheRepositoryImpl(
+      this.store,
+    );
+    this.translationHistoryRepository = new TranslationHistoryRepositoryImpl(
+      this.store,
+    );
+    this.translationMemoryRepository = new TranslationMemoryRepositoryImpl(
+      this.store,
+    );
+    this.postEditRepository = new PostEditRepositoryImpl(this.store);
 
     // Initialize services
     this.ollamaService = new OllamaServiceImpl();
+    this.languageDetectionService = new LanguageDetectionServiceImpl();
+
+    this.glossaryService = new GlossaryServiceImpl(this.glossaryRepository);
+    this.promptTemplateService = new PromptTemplateServiceImpl(
+      this.promptTemplateRepository,
+    );
+    this.translationCacheService = new TranslationCacheServiceImpl(
+      this.translationCacheRepository,
+    );
+    this.translationHistoryService = new TranslationHistoryServiceImpl(
+      this.translationHistoryRepository,
+    );
+    this.translationMemoryService = new TranslationMemoryServiceImpl(
+      this.translationMemoryRepository,
+    );
+    this.postEditService = new PostEditServiceImpl(
+      this.postEditRepository,
+      this.translationMemoryService,
+    );
+
+    this.translationJobManager = new TranslationJobManagerImpl();
+
     this.translationService = new TranslationServiceImpl(
       this.ollamaService,
       this.translationSettingsRepository,
+      this.languageDetectionService,
+      this.glossaryService,
+      this.promptTemplateService,
+      this.translationCacheService,
+      this.translationHistoryService,
+      this.translationJobManager,
+      this.translationMemoryService,
+    );
+    this.translationChatService = new TranslationChatServiceImpl(
+      this.ollamaService,
+    );
+    this.wordLookupService = new WordLookupServiceImpl(this.ollamaService);
+    this.i18nResourceService = new I18nResourceServiceImpl(
+      this.translationService,
+    );
+    this.documentService = new DocumentServiceImpl();
+    this.subtitleService = new SubtitleServiceImpl(this.translationService);
+    this.localizationFileService = new LocalizationFileServiceImpl(
+      this.translationService,
     );
 
     this.initialized = true;
@@ -91,6 +192,70 @@ class DIContainer {
     return this.ollamaService!;
   }
 
+  /**
+   * Get the Language detection service
+   */
+  async getLanguageDetectionService(): Promise<LanguageDetectionServiceImpl> {
+    await this.ensureInitialized();
+    return this.languageDetectionService!;
+  }
+
+  /**
+   * Get the Glossary service
+   */
+  async getGlossaryService(): Promise<GlossaryServiceImpl> {
+    await this.ensureInitialized();
+    return this.glossaryService!;
+  }
+
+  /**
+   * Get the Prompt template service
+   */
+  async getPromptTemplateService(): Promise<PromptTemplateServiceImpl> {
+    await this.ensureInitialized();
+    return this.promptTemplateService!;
+  }
+
+  /**
+   * Get the Translation cache service
+   */
+  async getTranslationCacheService(): Promise<TranslationCacheServiceImpl> {
+    await this.ensureInitialized();
+    return this.translationCacheService!;
+  }
+
+  /**
+   * Get the Translation history service
+   */
+  async getTranslationHistoryService(): Promise<TranslationHistoryServiceImpl> {
+    await this.ensureInitialized();
+    return this.translationHistoryService!;
+  }
+
+  /**
+   * Get the Translation memory service
+   */
+  async getTranslationMemoryService(): Promise<TranslationMemoryServiceImpl> {
+    await this.ensureInitialized();
+    return this.translationMemoryService!;
+  }
+
+  /**
+   * Get the Post-edit service
+   */
+  async getPostEditService(): Promise<PostEditServiceImpl> {
+    await this.ensureInitialized();
+    return this.postEditService!;
+  }
+
+  /**
+   * Get the Translation job manager
+   */
+  async getTranslationJobManager(): Promise<TranslationJobManagerImpl> {
+    await this.ensureInitialized();
+    return this.translationJobManager!;
+  }
+
   /**
    * Get the Translation service
    */
@@ -98,6 +263,54 @@ class DIContainer {
     await this.ensureInitialized();
     return this.translationService!;
   }
+
+  /**
+   * Get the Translation chat service
+   */
+  async getTranslationChatService(): Promise<TranslationChatServiceImpl> {
+    await this.ensureInitialized();
+    return this.translationChatService!;
+  }
+
+  /**
+   * Get the Word lookup service
+   */
+  async getWordLookupService(): Promise<WordLookupServiceImpl> {
+    await this.ensureInitialized();
+    return this.wordLookupService!;
+  }
+
+  /**
+   * Get the i18n resource file service
+   */
+  async getI18nResourceService(): Promise<I18nResourceServiceImpl> {
+    await this.ensureInitialized();
+    return this.i18nResourceService!;
+  }
+
+  /**
+   * Get the Document file service
+   */
+  async getDocumentService(): Promise<DocumentServiceImpl> {
+    await this.ensureInitialized();
+    return this.documentService!;
+  }
+
+  /**
+   * Get the Subtitle service
+   */
+  async getSubtitleService(): Promise<SubtitleServiceImpl> {
+    await this.ensureInitialized();
+    return this.subtitleService!;
+  }
+
+  /**
+   * Get the XLIFF / PO localization file service
+   */
+  async getLocalizationFileService(): Promise<LocalizationFileServiceImpl> {
+    await this.ensureInitialized();
+    return this.localizationFileService!;
+  }
 }
 
 // Export singleton instance
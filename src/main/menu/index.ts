@@ -1,8 +1,22 @@
 import type { MenuItemConstructorOptions } from "electron";
-import { app, Menu } from "electron";
+import { app, BrowserWindow, Menu } from "electron";
 import type { TFunction } from "i18next";
+import type { MenuAction } from "../../shared/domain/document.js";
 import { getI18n } from "../i18n/index.js";
 
+/**
+ * Forwards a File menu command to the renderer, which runs the same flow
+ * as the matching toolbar button
+ * @param action The menu command
+ */
+function sendMenuAction(action: MenuAction): void {
+  const window =
+    BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0];
+  if (window && !window.isDestroyed()) {
+    window.webContents.send("menu-action", action);
+  }
+}
+
 /**
  * Creates the application menu with translated strings
  * @param t The i18next translation function
@@ -37,15 +51,18 @@ function createAppMenu(t: TFunction): Menu {
         {
           label: t("menu:menu.file.new"),
           accelerator: "CmdOrCtrl+N",
+          click: () => sendMenuAction("new"),
         },
         {
           label: t("menu:menu.file.open"),
           accelerator: "CmdOrCtrl+O",
+          click: () => sendMenuAction("open"),
         },
         { type: "separator" as const },
         {
           label: t("menu:menu.file.save"),
           accelerator: "CmdOrCtrl+S",
+          click: () => sendMenuAction("save"),
         },
         ...(isMac
           ? []
@@ -1,5 +1,17 @@
+import type { GlossaryEntry } from "#shared/domain/glossary.js";
 import type { Language } from "#shared/domain/language.js";
+import type { PostEdit, PostEditSettings } from "#shared/domain/post-edit.js";
+import type { PromptTemplateSettings } from "#shared/domain/prompt-template.js";
 import type { Theme } from "#shared/domain/theme.js";
+import type {
+  TranslationCacheEntry,
+  TranslationCacheSettings,
+} from "#shared/domain/translation-cache.js";
+import type {
+  HistoryEntry,
+  HistorySettings,
+} from "#shared/domain/translation-history.js";
+import type { TranslationMemoryEntry } from "#shared/domain/translation-memory.js";
 import type { TranslationSettings } from "#shared/domain/translation.js";
 import { ElectronPersistenceStore } from "./electron-store.js";
 import type { PersistenceStore } from "./store-interface.js";
@@ -12,6 +24,19 @@ export type StoreSchema = {
   theme: Theme;
   userLanguage: Language;
   "translation-settings": TranslationSettings;
+  glossary: GlossaryEntry[];
+  "prompt-templates": PromptTemplateSettings;
+  "translation-cache-settings": TranslationCacheSettings;
+  /** Cached translations, only written when persistence is enabled */
+  "translation-cache": TranslationCacheEntry[];
+  "translation-history-settings": HistorySettings;
+  /** Recorded translations, only written while history is enabled */
+  "translation-history": HistoryEntry[];
+  /** Human-approved segment pairs reused before asking the model */
+  "translation-memory": TranslationMemoryEntry[];
+  "post-edit-settings": PostEditSettings;
+  /** Corrected machine translations, only written while capture is enabled */
+  "post-edits": PostEdit[];
 };
 
 /** Typed Store interface that knows about our schema */
@@ -61,6 +86,7 @@ export async function getAppStore(): Promise<TypedStore> {
     defaults: {
       theme: "system",
       userLanguage: "en",
+      glossary: [],
     },
   });
 
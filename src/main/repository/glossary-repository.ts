@@ -0,0 +1,114 @@
+import { NotFoundError } from "#shared/errors.js";
+import { GlossaryEntry } from "../../shared/domain/glossary.js";
+import type { SupportedLanguage } from "../../shared/domain/translation.js";
+import type { TypedStore } from "../persistence/store.js";
+import type { Repository } from "./interfaces.js";
+
+export interface GlossaryRepository extends Repository<GlossaryEntry> {
+  findById(id: string): Promise<GlossaryEntry | undefined>;
+  findByLanguagePair(
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+  ): Promise<GlossaryEntry[]>;
+  save(entry: GlossaryEntry): Promise<GlossaryEntry>;
+  update(id: string, entry: Partial<GlossaryEntry>): Promise<GlossaryEntry>;
+  delete(id: string): Promise<void>;
+  /** Replace the whole glossary, e.g. after an import */
+  replaceAll(entries: GlossaryEntry[]): Promise<void>;
+}
+
+/**
+ * Repository for glossary entries, stored as a single list.
+ * Invalid entries (e.g. from an older schema) are dropped on read.
+ */
+export class GlossaryRepositoryImpl implements GlossaryRepository {
+  private readonly GLOSSARY_KEY = "glossary";
+
+  constructor(private readonly store: TypedStore) {}
+
+  async findAll(): Promise<GlossaryEntry[]> {
+    try {
+      const data = await this.store.get(this.GLOSSARY_KEY);
+      if (!Array.isArray(data)) {
+        return [];
+      }
+
+      return data.flatMap((item) => {
+        const parsed = GlossaryEntry.safeParse(item);
+        return parsed.success ? [parsed.data] : [];
+      });
+    } catch (error) {
+      console.error("Failed to get glossary:", error);
+      return [];
+    }
+  }
+
+  async findById(id: string): Promise<GlossaryEntry | undefined> {
+    const entries = await this.findAll();
+    return entries.find((entry) => entry.id === id);
+  }
+
+  async findByLanguagePair(
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+  ): Promise<GlossaryEntry[]> {
+    const entries = await this.findAll();
+    return entries.filter(
+      (entry) =>
+        entry.sourceLanguage === sourceLanguage &&
+        entry.targetLanguage === targetLanguage,
+    );
+  }
+
+  async save(entry: GlossaryEntry): Promise<GlossaryEntry> {
+    const entries = await this.findAll();
+    const existingIndex = entries.findIndex((e) => e.id === entry.id);
+
+    if (existingIndex >= 0) {
+      entries[existingIndex] = entry;
+    } else {
+      entries.push(entry);
+    }
+
+    await this.store.set(this.GLOSSARY_KEY, entries);
+    return entry;
+  }
+
+  async update(
+    id: string,
+    changes: Partial<GlossaryEntry>,
+  ): Promise<GlossaryEntry> {
+    const entries = await this.findAll();
+    const index = entries.findIndex((entry) => entry.id === id);
+
+    if (index < 0) {
+      throw new NotFoundError("Glossary entry", id);
+    }
+
+    const updated: GlossaryEntry = {
+      ...entries[index],
+      ...changes,
+      id,
+      updatedAt: new Date().toISOString(),
+    };
+    entries[index] = updated;
+
+    await this.store.set(this.GLOSSARY_KEY, entries);
+    return updated;
+  }
+
+  async delete(id: string): Promise<void> {
+    const entries = await this.findAll();
+    const remaining = entries.filter((entry) => entry.id !== id);
+
+    if (remaining.length === entries.length) {
+      throw new NotFoundError("Glossary entry", id);
+    }
+
+    await this.store.set(this.GLOSSARY_KEY, remaining);
+  }
+
+  async replaceAll(entries: GlossaryEntry[]): Promise<void> {
+    await this.store.set(this.GLOSSARY_KEY, entries);
+  }
+}
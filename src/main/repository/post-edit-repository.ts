@@ -0,0 +1,84 @@
+import { NotFoundError } from "#shared/errors.js";
+import type { PostEditSettings } from "../../shared/domain/post-edit.js";
+import {
+  PostEdit,
+  PostEditSettings as PostEditSettingsSchema,
+} from "../../shared/domain/post-edit.js";
+import type { TypedStore } from "../persistence/store.js";
+import type { Repository } from "./interfaces.js";
+
+export interface PostEditRepository extends Repository<PostEdit> {
+  save(postEdit: PostEdit): Promise<PostEdit>;
+  delete(id: string): Promise<void>;
+  /** Replace every stored post-edit, e.g. to purge them */
+  replaceAll(postEdits: PostEdit[]): Promise<void>;
+  getSettings(): Promise<PostEditSettings>;
+  saveSettings(settings: PostEditSettings): Promise<PostEditSettings>;
+}
+
+/**
+ * Repository for captured post-edits, stored as a single list in
+ * insertion order. Invalid entries are dropped on read.
+ */
+export class PostEditRepositoryImpl implements PostEditRepository {
+  private readonly POST_EDITS_KEY = "post-edits";
+  private readonly SETTINGS_KEY = "post-edit-settings";
+
+  constructor(private readonly store: TypedStore) {}
+
+  async findAll(): Promise<PostEdit[]> {
+    try {
+      const data = await this.store.get(this.POST_EDITS_KEY);
+      if (!Array.isArray(data)) {
+        return [];
+      }
+
+      return data.flatMap((item) => {
+        const parsed = PostEdit.safeParse(item);
+        return parsed.success ? [parsed.data] : [];
+      });
+    } catch (error) {
+      console.error("Failed to get post-edits:", error);
+      return [];
+    }
+  }
+
+  async save(postEdit: PostEdit): Promise<PostEdit> {
+    const postEdits = await this.findAll();
+    postEdits.push(postEdit);
+    await this.store.set(this.POST_EDITS_KEY, postEdits);
+    return postEdit;
+  }
+
+  async delete(id: string): Promise<void> {
+    const postEdits = await this.findAll();
+    const remaining = postEdits.filter((postEdit) => postEdit.id !== id);
+
+    if (remaining.length === postEdits.length) {
+      throw new NotFoundError("Post-edit", id);
+    }
+
+    await this.store.set(this.POST_EDITS_KEY, remaining);
+  }
+
+  async replaceAll(postEdits: PostEdit[]): Promise<void> {
+    await this.store.set(this.POST_EDITS_KEY, postEdits);
+  }
+
+  async getSettings(): Promise<PostEditSettings> {
+    try {
+      const parsed = PostEditSettingsSchema.safeParse(
+        (await this.store.get(this.SETTINGS_KEY)) ?? {},
+      );
+      return parsed.success ? parsed.data : PostEditSettingsSchema.parse({});
+    } catch (error) {
+      console.error("Failed to get post-edit settings:", error);
+      return PostEditSettingsSchema.parse({});
+    }
+  }
+
+  async saveSettings(settings: PostEditSettings): Promise<PostEditSettings> {
+    await this.store.set(this.SETTINGS_KEY, settings);
+    return settings;
+  }
+}
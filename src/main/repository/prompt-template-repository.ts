@@ -0,0 +1,54 @@
+import type { PromptTemplateSettings } from "../../shared/domain/prompt-template.js";
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  DEFAULT_PROMPT_TEMPLATE_ID,
+  PromptTemplateSettings as PromptTemplateSettingsSchema,
+} from "../../shared/domain/prompt-template.js";
+import type { TypedStore } from "../persistence/store.js";
+
+export interface PromptTemplateRepository {
+  getSettings(): Promise<PromptTemplateSettings>;
+  saveSettings(
+    settings: PromptTemplateSettings,
+  ): Promise<PromptTemplateSettings>;
+}
+
+export class PromptTemplateRepositoryImpl implements PromptTemplateRepository {
+  private readonly SETTINGS_KEY = "prompt-templates";
+
+  constructor(private readonly store: TypedStore) {}
+
+  /**
+   * Stored template settings, always including the built-in default template
+   */
+  async getSettings(): Promise<PromptTemplateSettings> {
+    let settings: PromptTemplateSettings;
+    try {
+      const parsed = PromptTemplateSettingsSchema.safeParse(
+        (await this.store.get(this.SETTINGS_KEY)) ?? {},
+      );
+      settings = parsed.success
+        ? parsed.data
+        : PromptTemplateSettingsSchema.parse({});
+    } catch (error) {
+      console.error("Failed to get prompt templates:", error);
+      settings = PromptTemplateSettingsSchema.parse({});
+    }
+
+    if (!settings.templates.some((t) => t.id === DEFAULT_PROMPT_TEMPLATE_ID)) {
+      settings.templates.unshift({
+        ...DEFAULT_PROMPT_TEMPLATE,
+        updatedAt: new Date(0).toISOString(),
+      });
+    }
+
+    return settings;
+  }
+
+  async saveSettings(
+    settings: PromptTemplateSettings,
+  ): Promise<PromptTemplateSettings> {
+    await this.store.set(this.SETTINGS_KEY, settings);
+    return settings;
+  }
+}
@@ -0,0 +1,70 @@
+import type {
+  TranslationCacheEntry,
+  TranslationCacheSettings,
+} from "../../shared/domain/translation-cache.js";
+import {
+  TranslationCacheEntry as TranslationCacheEntrySchema,
+  TranslationCacheSettings as TranslationCacheSettingsSchema,
+} from "../../shared/domain/translation-cache.js";
+import type { TypedStore } from "../persistence/store.js";
+
+export interface TranslationCacheRepository {
+  getSettings(): Promise<TranslationCacheSettings>;
+  saveSettings(
+    settings: TranslationCacheSettings,
+  ): Promise<TranslationCacheSettings>;
+  /** Persisted entries, least recently used first */
+  loadEntries(): Promise<TranslationCacheEntry[]>;
+  saveEntries(entries: TranslationCacheEntry[]): Promise<void>;
+}
+
+export class TranslationCacheRepositoryImpl
+  implements TranslationCacheRepository
+{
+  private readonly SETTINGS_KEY = "translation-cache-settings";
+  private readonly ENTRIES_KEY = "translation-cache";
+
+  constructor(private readonly store: TypedStore) {}
+
+  async getSettings(): Promise<TranslationCacheSettings> {
+    try {
+      const parsed = TranslationCacheSettingsSchema.safeParse(
+        (await this.store.get(this.SETTINGS_KEY)) ?? {},
+      );
+      return parsed.success
+        ? parsed.data
+        : TranslationCacheSettingsSchema.parse({});
+    } catch (error) {
+      console.error("Failed to get translation cache settings:", error);
+      return TranslationCacheSettingsSchema.parse({});
+    }
+  }
+
+  async saveSettings(
+    settings: TranslationCacheSettings,
+  ): Promise<TranslationCacheSettings> {
+    await this.store.set(this.SETTINGS_KEY, settings);
+    return settings;
+  }
+
+  async loadEntries(): Promise<TranslationCacheEntry[]> {
+    try {
+      const data = await this.store.get(this.ENTRIES_KEY);
+      if (!Array.isArray(data)) {
+        return [];
+      }
+
+      return data.flatMap((item) => {
+        const parsed = TranslationCacheEntrySchema.safeParse(item);
+        return parsed.success ? [parsed.data] : [];
+      });
+    } catch (error) {
+      console.error("Failed to load translation cache:", error);
+      return [];
+    }
+  }
+
+  async saveEntries(entries: TranslationCacheEntry[]): Promise<void> {
+    await this.store.set(this.ENTRIES_KEY, entries);
+  }
+}
@@ -0,0 +1,92 @@
+import { NotFoundError } from "#shared/errors.js";
+import type { HistorySettings } from "../../shared/domain/translation-history.js";
+import {
+  HistoryEntry,
+  HistorySettings as HistorySettingsSchema,
+} from "../../shared/domain/translation-history.js";
+import type { TypedStore } from "../persistence/store.js";
+import type { Repository } from "./interfaces.js";
+
+export interface TranslationHistoryRepository extends Repository<HistoryEntry> {
+  findById(id: string): Promise<HistoryEntry | undefined>;
+  save(entry: HistoryEntry): Promise<HistoryEntry>;
+  delete(id: string): Promise<void>;
+  /** Replace the whole history, e.g. after applying retention */
+  replaceAll(entries: HistoryEntry[]): Promise<void>;
+  getSettings(): Promise<HistorySettings>;
+  saveSettings(settings: HistorySettings): Promise<HistorySettings>;
+}
+
+/**
+ * Repository for translation history, stored as a single list in
+ * insertion order. Invalid entries are dropped on read.
+ */
+export class TranslationHistoryRepositoryImpl
+  implements TranslationHistoryRepository
+{
+  private readonly HISTORY_KEY = "translation-history";
+  private readonly SETTINGS_KEY = "translation-history-settings";
+
+  constructor(private readonly store: TypedStore) {}
+
+  async findAll(): Promise<HistoryEntry[]> {
+    try {
+      const data = await this.store.get(this.HISTORY_KEY);
+      if (!Array.isArray(data)) {
+        return [];
+      }
+
+      return data.flatMap((item) => {
+        const parsed = HistoryEntry.safeParse(item);
+        return parsed.success ? [parsed.data] : [];
+      });
+    } catch (error) {
+      console.error("Failed to get translation history:", error);
+      return [];
+    }
+  }
+
+  async findById(id: string): Promise<HistoryEntry | undefined> {
+    const entries = await this.findAll();
+    return entries.find((entry) => entry.id === id);
+  }
+
+  async save(entry: HistoryEntry): Promise<HistoryEntry> {
+    const entries = await this.findAll();
+    entries.push(entry);
+    await this.store.set(this.HISTORY_KEY, entries);
+    return entry;
+  }
+
+  async delete(id: string): Promise<void> {
+    const entries = await this.findAll();
+    const remaining = entries.filter((entry) => entry.id !== id);
+
+    if (remaining.length === entries.length) {
+      throw new NotFoundError("History entry", id);
+    }
+
+    await this.store.set(this.HISTORY_KEY, remaining);
+  }
+
+  async replaceAll(entries: HistoryEntry[]): Promise<void> {
+    await this.store.set(this.HISTORY_KEY, entries);
+  }
+
+  async getSettings(): Promise<HistorySettings> {
+    try {
+      const parsed = HistorySettingsSchema.safeParse(
+        (await this.store.get(this.SETTINGS_KEY)) ?? {},
+      );
+      return parsed.success ? parsed.data : HistorySettingsSchema.parse({});
+    } catch (error) {
+      console.error("Failed to get history settings:", error);
+      return HistorySettingsSchema.parse({});
+    }
+  }
+
+  async saveSettings(settings: HistorySettings): Promise<HistorySettings> {
+    await this.store.set(this.SETTINGS_KEY, settings);
+    return settings;
+  }
+}
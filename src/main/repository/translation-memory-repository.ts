@@ -0,0 +1,93 @@
+import { NotFoundError } from "#shared/errors.js";
+import { TranslationMemoryEntry } from "../../shared/domain/translation-memory.js";
+import type { SupportedLanguage } from "../../shared/domain/translation.js";
+import type { TypedStore } from "../persistence/store.js";
+import type { Repository } from "./interfaces.js";
+
+export interface TranslationMemoryRepository
+  extends Repository<TranslationMemoryEntry> {
+  findById(id: string): Promise<TranslationMemoryEntry | undefined>;
+  findByLanguagePair(
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+  ): Promise<TranslationMemoryEntry[]>;
+  save(entry: TranslationMemoryEntry): Promise<TranslationMemoryEntry>;
+  delete(id: string): Promise<void>;
+  /** Replace the whole memory, e.g. after a TMX import */
+  replaceAll(entries: TranslationMemoryEntry[]): Promise<void>;
+}
+
+/**
+ * Repository for translation memory segments, stored as a single list.
+ * Invalid entries (e.g. from an older schema) are dropped on read.
+ */
+export class TranslationMemoryRepositoryImpl
+  implements TranslationMemoryRepository
+{
+  private readonly MEMORY_KEY = "translation-memory";
+
+  constructor(private readonly store: TypedStore) {}
+
+  async findAll(): Promise<TranslationMemoryEntry[]> {
+    try {
+      const data = await this.store.get(this.MEMORY_KEY);
+      if (!Array.isArray(data)) {
+        return [];
+      }
+
+      return data.flatMap((item) => {
+        const parsed = TranslationMemoryEntry.safeParse(item);
+        return parsed.success ? [parsed.data] : [];
+      });
+    } catch (error) {
+      console.error("Failed to get translation memory:", error);
+      return [];
+    }
+  }
+
+  async findById(id: string): Promise<TranslationMemoryEntry | undefined> {
+    const entries = await this.findAll();
+    return entries.find((entry) => entry.id === id);
+  }
+
+  async findByLanguagePair(
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+  ): Promise<TranslationMemoryEntry[]> {
+    const entries = await this.findAll();
+    return entries.filter(
+      (entry) =>
+        entry.sourceLanguage === sourceLanguage &&
+        entry.targetLanguage === targetLanguage,
+    );
+  }
+
+  async save(entry: TranslationMemoryEntry): Promise<TranslationMemoryEntry> {
+    const entries = await this.findAll();
+    const existingIndex = entries.findIndex((e) => e.id === entry.id);
+
+    if (existingIndex >= 0) {
+      entries[existingIndex] = entry;
+    } else {
+      entries.push(entry);
+    }
+
+    await this.store.set(this.MEMORY_KEY, entries);
+    return entry;
+  }
+
+  async delete(id: string): Promise<void> {
+    const entries = await this.findAll();
+    const remaining = entries.filter((entry) => entry.id !== id);
+
+    if (remaining.length === entries.length) {
+      throw new NotFoundError("Translation memory entry", id);
+    }
+
+    await this.store.set(this.MEMORY_KEY, remaining);
+  }
+
+  async replaceAll(entries: TranslationMemoryEntry[]): Promise<void> {
+    await this.store.set(this.MEMORY_KEY, entries);
+  }
+}
@@ -1,8 +1,14 @@
+import { getLanguagePairKey } from "../../shared/domain/prompt-template.js";
 import type {
+  LanguagePair,
   TranslationModel,
   TranslationSettings,
+  TranslationStyle,
+} from "../../shared/domain/translation.js";
+import {
+  AUTO_DETECT_LANGUAGE,
+  TranslationSettings as TranslationSettingsSchema,
 } from "../../shared/domain/translation.js";
-import { TranslationSettings as TranslationSettingsSchema } from "../../shared/domain/translation.js";
 import type { TypedStore } from "../persistence/store.js";
 
 export interface TranslationSettingsRepository {
@@ -15,6 +21,16 @@ export interface TranslationSettingsRepository {
   setDefaultModel(modelName: string): Promise<TranslationSettings>;
   getModels(): Promise<TranslationModel[]>;
   updateModelUsage(modelName: string): Promise<void>;
+  rememberLanguagePair(pair: LanguagePair): Promise<TranslationSettings>;
+  rememberStyle(
+    pair: LanguagePair,
+    style: TranslationStyle,
+  ): Promise<TranslationSettings>;
+  /** Prefer a model for a language pair; null forgets the preference */
+  setLanguagePairModel(
+    pair: LanguagePair,
+    modelName: string | null,
+  ): Promise<TranslationSettings>;
 }
 
 export class TranslationSettingsRepositoryImpl
@@ -24,6 +40,9 @@ export class TranslationSettingsRepositoryImpl
   private readonly DEFAULT_SETTINGS: TranslationSettings = {
     defaultModel: undefined,
     models: [],
+    preferredTargetLanguages: {},
+    stylePreferences: {},
+    languagePairModels: {},
   };
 
   constructor(private readonly store: TypedStore) {}
@@ -129,4 +148,58 @@ export class TranslationSettingsRepositoryImpl
       console.warn(`Model "${modelName}" not found for usage tracking`);
     }
   }
+
+  async rememberLanguagePair(pair: LanguagePair): Promise<TranslationSettings> {
+    const settings = await this.getSettings();
+    const updated: TranslationSettings = {
+      ...settings,
+      lastLanguagePair: pair,
+      // Auto-detect has no fixed source, so there is no preference to record
+      preferredTargetLanguages:
+        pair.sourceLanguage === AUTO_DETECT_LANGUAGE
+          ? settings.preferredTargetLanguages
+          : {
+              ...settings.preferredTargetLanguages,
+              [pair.sourceLanguage]: pair.targetLanguage,
+            },
+    };
+
+    await this.store.set(this.SETTINGS_KEY as "translation-settings", updated);
+    return updated;
+  }
+
+  async rememberStyle(
+    pair: LanguagePair,
+    style: TranslationStyle,
+  ): Promise<TranslationSettings> {
+    const settings = await this.getSettings();
+    const updated: TranslationSettings = {
+      ...settings,
+      stylePreferences: {
+        ...settings.stylePreferences,
+        [getLanguagePairKey(pair.sourceLanguage, pair.targetLanguage)]: style,
+      },
+    };
+
+    await this.store.set(this.SETTINGS_KEY as "translation-settings", updated);
+    return updated;
+  }
+
+  async setLanguagePairModel(
+    pair: LanguagePair,
+    modelName: string | null,
+  ): Promise<TranslationSettings> {
+    const settings = await this.getSettings();
+    const key = getLanguagePairKey(pair.sourceLanguage, pair.targetLanguage);
+    const languagePairModels = Object.fromEntries(
+      Object.entries(settings.languagePairModels).filter(([k]) => k !== key),
+    );
+    if (modelName !== null) {
+      languagePairModels[key] = modelName;
+    }
+
+    const updated: TranslationSettings = { ...settings, languagePairModels };
+    await this.store.set(this.SETTINGS_KEY as "translation-settings", updated);
+    return updated;
+  }
 }
@@ -0,0 +1,42 @@
+/** YAML (---) or TOML (+++) front matter at the very start of a file */
+const FRONT_MATTER_PATTERN =
+  /^(---|\+\+\+)[ \t]*\r?\n(?:[\s\S]*?\r?\n)?\1[ \t]*(?:\r?\n|$)/;
+
+const FRONT_MATTER_EXTENSIONS = [".md", ".markdown"];
+
+export interface SplitDocument {
+  /** Front matter including its fences and final line break */
+  frontMatter?: string;
+  body: string;
+}
+
+/**
+ * Separate Markdown front matter from the text to translate.
+ * Other files, and Markdown without front matter, are all body.
+ */
+export function splitFrontMatter(
+  content: string,
+  fileName: string,
+): SplitDocument {
+  const text = content.replace(/^\uFEFF/, "");
+  const lowerName = fileName.toLowerCase();
+  if (!FRONT_MATTER_EXTENSIONS.some((ext) => lowerName.endsWith(ext))) {
+    return { body: text };
+  }
+
+  const match = FRONT_MATTER_PATTERN.exec(text);
+  if (!match) return { body: text };
+
+  return {
+    frontMatter: match[0],
+    body: text.slice(match[0].length).replace(/^(?:\r?\n)+/, ""),
+  };
+}
+
+/** Put front matter back in front of a translated body */
+export function joinFrontMatter(body: string, frontMatter?: string): string {
+  if (!frontMatter) return body;
+
+  const separator = frontMatter.endsWith("\n") ? "\n" : "\n\n";
+  return `${frontMatter}${separator}${body}`;
+}
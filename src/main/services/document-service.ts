@@ -0,0 +1,85 @@
+import type { OpenDialogOptions, SaveDialogOptions } from "electron";
+import { BrowserWindow, dialog } from "electron";
+import { readFile, writeFile } from "node:fs/promises";
+import { basename } from "node:path";
+import type {
+  OpenedDocument,
+  SavedDocument,
+  SaveDocumentRequest,
+} from "../../shared/domain/document.js";
+import { DOCUMENT_EXTENSIONS } from "../../shared/domain/document.js";
+import { joinFrontMatter, splitFrontMatter } from "./document-format.js";
+
+/** Native file pickers; each resolves to undefined when the user cancels */
+export interface DocumentDialogs {
+  showOpenDialog(options: OpenDialogOptions): Promise<string | undefined>;
+  showSaveDialog(options: SaveDialogOptions): Promise<string | undefined>;
+}
+
+export interface DocumentService {
+  /** Pick a text or Markdown file and read it; null when cancelled */
+  openDocument(): Promise<OpenedDocument | null>;
+  /** Pick a destination and write the text to it; null when cancelled */
+  saveDocument(request: SaveDocumentRequest): Promise<SavedDocument | null>;
+}
+
+/** Dialogs attached to the focused window, so they open as sheets on macOS */
+export const electronDocumentDialogs: DocumentDialogs = {
+  async showOpenDialog(options) {
+    const window = BrowserWindow.getFocusedWindow();
+    const result = window
+      ? await dialog.showOpenDialog(window, options)
+      : await dialog.showOpenDialog(options);
+    return result.canceled ? undefined : result.filePaths[0];
+  },
+
+  async showSaveDialog(options) {
+    const window = BrowserWindow.getFocusedWindow();
+    const result = window
+      ? await dialog.showSaveDialog(window, options)
+      : await dialog.showSaveDialog(options);
+    return result.canceled ? undefined : result.filePath;
+  },
+};
+
+export class DocumentServiceImpl implements DocumentService {
+  constructor(
+    private readonly dialogs: DocumentDialogs = electronDocumentDialogs,
+  ) {}
+
+  async openDocument(): Promise<OpenedDocument | null> {
+    const filePath = await this.dialogs.showOpenDialog({
+      properties: ["openFile"],
+      filters: [
+        { name: "Text and Markdown", extensions: [...DOCUMENT_EXTENSIONS] },
+      ],
+    });
+    if (!filePath) return null;
+
+    const fileName = basename(filePath);
+    const { frontMatter, body } = splitFrontMatter(
+      await readFile(filePath, "utf8"),
+      fileName,
+    );
+    return { filePath, fileName, text: body, frontMatter };
+  }
+
+  async saveDocument(
+    request: SaveDocumentRequest,
+  ): Promise<SavedDocument | null> {
+    const filePath = await this.dialogs.showSaveDialog({
+      defaultPath: request.defaultFileName,
+      filters: [
+        { name: "Text and Markdown", extensions: [...DOCUMENT_EXTENSIONS] },
+      ],
+    });
+    if (!filePath) return null;
+
+    await writeFile(
+      filePath,
+      joinFrontMatter(request.text, request.frontMatter),
+      "utf8",
+    );
+    return { filePath, fileName: basename(filePath) };
+  }
+}
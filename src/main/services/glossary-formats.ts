@@ -0,0 +1,325 @@
+import { ValidationError } from "#shared/errors.js";
+import type {
+  GlossaryEntry,
+  GlossaryLanguagePair,
+} from "../../shared/domain/glossary.js";
+import { resolveLanguageCode } from "../../shared/domain/language-registry.js";
+import type { SupportedLanguage } from "../../shared/domain/translation.js";
+import { escapeXml, unescapeXml } from "./xml-text.js";
+
+/** Term read from an imported file, before it becomes a glossary entry */
+export interface ParsedGlossaryTerm {
+  sourceLanguage?: SupportedLanguage;
+  targetLanguage?: SupportedLanguage;
+  sourceTerm: string;
+  targetTerm: string;
+  caseSensitive: boolean;
+  doNotTranslate: boolean;
+  note?: string;
+}
+
+export interface ParsedGlossary {
+  terms: ParsedGlossaryTerm[];
+  /** Rows or concepts that could not be used (unknown language, no term) */
+  skipped: number;
+}
+
+const CSV_COLUMNS = [
+  "source_language",
+  "target_language",
+  "source_term",
+  "target_term",
+  "case_sensitive",
+  "do_not_translate",
+  "note",
+] as const;
+
+type CsvColumn = (typeof CSV_COLUMNS)[number];
+
+/** Header spellings accepted on import, besides the canonical column names */
+const CSV_COLUMN_ALIASES: Record<string, CsvColumn> = {
+  source: "source_term",
+  term: "source_term",
+  target: "target_term",
+  translation: "target_term",
+  source_lang: "source_language",
+  target_lang: "target_language",
+  dnt: "do_not_translate",
+  comment: "note",
+};
+
+export function serializeGlossaryCsv(entries: GlossaryEntry[]): string {
+  const rows = entries.map((entry) => [
+    entry.sourceLanguage,
+    entry.targetLanguage,
+    entry.sourceTerm,
+    entry.targetTerm,
+    String(entry.caseSensitive),
+    String(entry.doNotTranslate),
+    entry.note ?? "",
+  ]);
+
+  return [[...CSV_COLUMNS], ...rows]
+    .map((row) => row.map(escapeCsvField).join(","))
+    .join("\r\n")
+    .concat("\r\n");
+}
+
+/**
+ * Parse a CSV glossary.
+ * A header row is optional; without one, columns are read as
+ * source term, target term and note.
+ */
+export function parseGlossaryCsv(content: string): ParsedGlossary {
+  const rows = parseCsvRows(content.replace(/^\uFEFF/, "")).filter((row) =>
+    row.some((cell) => cell.trim() !== ""),
+  );
+  if (rows.length === 0) {
+    return { terms: [], skipped: 0 };
+  }
+
+  const header = rows[0].map(normalizeCsvHeader);
+  const hasHeader = header.includes("source_term");
+  const columns: Array<CsvColumn | undefined> = hasHeader
+    ? header
+    : ["source_term", "target_term", "note"];
+
+  const result: ParsedGlossary = { terms: [], skipped: 0 };
+
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    const cell = (column: CsvColumn): string => {
+      const index = columns.indexOf(column);
+      return index >= 0 ? (row[index] ?? "").trim() : "";
+    };
+
+    const sourceTerm = cell("source_term");
+    const sourceLanguageTag = cell("source_language");
+    const targetLanguageTag = cell("target_language");
+    const sourceLanguage = sourceLanguageTag
+      ? resolveLanguageCode(sourceLanguageTag)
+      : undefined;
+    const targetLanguage = targetLanguageTag
+      ? resolveLanguageCode(targetLanguageTag)
+      : undefined;
+
+    // Skip rows naming a language we cannot translate
+    if (
+      !sourceTerm ||
+      (sourceLanguageTag && !sourceLanguage) ||
+      (targetLanguageTag && !targetLanguage)
+    ) {
+      result.skipped++;
+      continue;
+    }
+
+    result.terms.push({
+      sourceLanguage,
+      targetLanguage,
+      sourceTerm,
+      targetTerm: cell("target_term"),
+      caseSensitive: parseBoolean(cell("case_sensitive")),
+      doNotTranslate: parseBoolean(cell("do_not_translate")),
+      note: cell("note") || undefined,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Serialize entries as TBX-Basic (TBX v3, DCA style).
+ * Entry flags are stored as private `x-` term notes on the source term.
+ */
+export function serializeGlossaryTbx(entries: GlossaryEntry[]): string {
+  const concepts = entries.map((entry) => {
+    const sourceNotes = [
+      entry.caseSensitive && '<termNote type="x-caseSensitive">true</termNote>',
+      entry.doNotTranslate &&
+        '<termNote type="x-doNotTranslate">true</termNote>',
+    ].filter(Boolean);
+    const targetTerm = entry.doNotTranslate
+      ? entry.sourceTerm
+      : entry.targetTerm;
+
+    return [
+      `      <conceptEntry id="${escapeXml(entry.id)}">`,
+      ...(entry.note ? [`        <note>${escapeXml(entry.note)}</note>`] : []),
+      `        <langSec xml:lang="${entry.sourceLanguage}">`,
+      `          <termSec>`,
+      `            <term>${escapeXml(entry.sourceTerm)}</term>`,
+      ...sourceNotes.map((note) => `            ${note}`),
+      `          </termSec>`,
+      `        </langSec>`,
+      `        <langSec xml:lang="${entry.targetLanguage}">`,
+      `          <termSec>`,
+      `            <term>${escapeXml(targetTerm)}</term>`,
+      `          </termSec>`,
+      `        </langSec>`,
+      `      </conceptEntry>`,
+    ].join("\n");
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tbx style="dca" type="TBX-Basic" xml:lang="en" xmlns="urn:iso:std:iso:30042:ed-2">
+  <tbxHeader>
+    <fileDesc>
+      <sourceDesc>
+        <p>DeepLlama glossary export</p>
+      </sourceDesc>
+    </fileDesc>
+  </tbxHeader>
+  <text>
+    <body>
+${concepts.join("\n")}
+    </body>
+  </text>
+</tbx>
+`;
+}
+
+/**
+ * Parse a TBX file (v2 `termEntry`/`langSet`/`tig` or v3
+ * `conceptEntry`/`langSec`/`termSec`).
+ * When a language pair is given only those languages are read; otherwise the
+ * first language of each concept is the source and every other one a target.
+ */
+export function parseGlossaryTbx(
+  content: string,
+  pair?: GlossaryLanguagePair,
+): ParsedGlossary {
+  if (!/<(?:[\w-]+:)?(?:tbx|martif)\b/.test(content)) {
+    throw new ValidationError("Not a TBX document");
+  }
+
+  const result: ParsedGlossary = { terms: [], skipped: 0 };
+  const conceptPattern = /<(conceptEntry|termEntry)\b[^>]*>([\s\S]*?)<\/\1>/g;
+
+  for (const [, , concept] of content.matchAll(conceptPattern)) {
+    const languages = readTbxLanguages(concept);
+    const note = readXmlElement(concept, "note");
+    const caseSensitive = hasTbxFlag(concept, "x-caseSensitive");
+    const doNotTranslate = hasTbxFlag(concept, "x-doNotTranslate");
+
+    const source = pair
+      ? languages.find((language) => language.code === pair.sourceLanguage)
+      : languages[0];
+    const targets = pair
+      ? languages.filter((language) => language.code === pair.targetLanguage)
+      : languages.slice(1);
+
+    if (!source || targets.length === 0) {
+      result.skipped++;
+      continue;
+    }
+
+    for (const target of targets) {
+      result.terms.push({
+        sourceLanguage: source.code,
+        targetLanguage: target.code,
+        sourceTerm: source.term,
+        targetTerm: doNotTranslate ? "" : target.term,
+        caseSensitive,
+        doNotTranslate,
+        note,
+      });
+    }
+  }
+
+  return result;
+}
+
+function readTbxLanguages(
+  concept: string,
+): Array<{ code: SupportedLanguage; term: string }> {
+  const languagePattern =
+    /<(langSec|langSet)\b[^>]*xml:lang=["']([^"']+)["'][^>]*>([\s\S]*?)<\/\1>/g;
+
+  return [...concept.matchAll(languagePattern)].flatMap(
+    ([, , tag, section]) => {
+      const code = resolveLanguageCode(tag);
+      const term = readXmlElement(section, "term");
+      return code && term ? [{ code, term }] : [];
+    },
+  );
+}
+
+function readXmlElement(xml: string, name: string): string | undefined {
+  const match = new RegExp(`<${name}\\b[^>]*>([\\s\\S]*?)</${name}>`).exec(xml);
+  if (!match) return undefined;
+
+  // Inline markup such as <hi> is dropped, only the text is kept
+  const text = unescapeXml(match[1].replace(/<[^>]+>/g, "")).trim();
+  return text || undefined;
+}
+
+function hasTbxFlag(concept: string, type: string): boolean {
+  const match = new RegExp(
+    `<termNote\\b[^>]*type="${type}"[^>]*>([\\s\\S]*?)</termNote>`,
+  ).exec(concept);
+  return match ? parseBoolean(match[1]) : false;
+}
+
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new ValidationError("Malformed CSV: unterminated quoted field");
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function normalizeCsvHeader(cell: string): CsvColumn | undefined {
+  const key = cell
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, "_");
+  if ((CSV_COLUMNS as readonly string[]).includes(key)) {
+    return key as CsvColumn;
+  }
+  return CSV_COLUMN_ALIASES[key];
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function parseBoolean(value: string): boolean {
+  return ["true", "1", "yes", "y", "x"].includes(value.trim().toLowerCase());
+}
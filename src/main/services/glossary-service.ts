@@ -0,0 +1,302 @@
+import { NotFoundError, ValidationError } from "#shared/errors.js";
+import { randomUUID } from "node:crypto";
+import type {
+  GlossaryEntry,
+  GlossaryEntryInput,
+  GlossaryEntryUpdate,
+  GlossaryFormat,
+  GlossaryImportMode,
+  GlossaryImportResult,
+  GlossaryLanguagePair,
+} from "../../shared/domain/glossary.js";
+import {
+  GlossaryEntryInput as GlossaryEntryInputSchema,
+  getExpectedTargetTerm,
+} from "../../shared/domain/glossary.js";
+import type {
+  MissingGlossaryTerm,
+  SupportedLanguage,
+} from "../../shared/domain/translation.js";
+import type { GlossaryRepository } from "../repository/glossary-repository.js";
+import type { ParsedGlossary } from "./glossary-formats.js";
+import {
+  parseGlossaryCsv,
+  parseGlossaryTbx,
+  serializeGlossaryCsv,
+  serializeGlossaryTbx,
+} from "./glossary-formats.js";
+
+export interface GlossaryImportOptions {
+  format: GlossaryFormat;
+  content: string;
+  /** "replace" drops existing entries of the imported language pairs */
+  mode: GlossaryImportMode;
+  /** Language pair for rows that do not name their languages */
+  pair?: GlossaryLanguagePair;
+}
+
+export interface GlossaryService {
+  listEntries(pair?: GlossaryLanguagePair): Promise<GlossaryEntry[]>;
+  createEntry(input: GlossaryEntryInput): Promise<GlossaryEntry>;
+  updateEntry(id: string, changes: GlossaryEntryUpdate): Promise<GlossaryEntry>;
+  deleteEntry(id: string): Promise<void>;
+  findMatchingEntries(
+    text: string,
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+  ): Promise<GlossaryEntry[]>;
+  findMissingTerms(
+    entries: GlossaryEntry[],
+    translatedText: string,
+  ): MissingGlossaryTerm[];
+  importEntries(options: GlossaryImportOptions): Promise<GlossaryImportResult>;
+  exportEntries(
+    format: GlossaryFormat,
+    pair?: GlossaryLanguagePair,
+  ): Promise<string>;
+}
+
+export class GlossaryServiceImpl implements GlossaryService {
+  constructor(private readonly glossaryRepository: GlossaryRepository) {}
+
+  async listEntries(pair?: GlossaryLanguagePair): Promise<GlossaryEntry[]> {
+    const entries = pair
+      ? await this.glossaryRepository.findByLanguagePair(
+          pair.sourceLanguage,
+          pair.targetLanguage,
+        )
+      : await this.glossaryRepository.findAll();
+
+    return [...entries].sort((a, b) =>
+      a.sourceTerm.localeCompare(b.sourceTerm),
+    );
+  }
+
+  async createEntry(input: GlossaryEntryInput): Promise<GlossaryEntry> {
+    const parsed = GlossaryEntryInputSchema.parse(input);
+    this.validateEntry(parsed);
+    await this.ensureUniqueTerm(parsed);
+
+    const now = new Date().toISOString();
+    return this.glossaryRepository.save({
+      ...parsed,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  async updateEntry(
+    id: string,
+    changes: GlossaryEntryUpdate,
+  ): Promise<GlossaryEntry> {
+    const current = await this.glossaryRepository.findById(id);
+    if (!current) {
+      throw new NotFoundError("Glossary entry", id);
+    }
+
+    const updated = { ...current, ...changes };
+    this.validateEntry(updated);
+    await this.ensureUniqueTerm(updated, id);
+
+    return this.glossaryRepository.update(id, changes);
+  }
+
+  async deleteEntry(id: string): Promise<void> {
+    await this.glossaryRepository.delete(id);
+  }
+
+  async findMatchingEntries(
+    text: string,
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+  ): Promise<GlossaryEntry[]> {
+    const entries = await this.glossaryRepository.findByLanguagePair(
+      sourceLanguage,
+      targetLanguage,
+    );
+
+    return entries.filter((entry) =>
+      containsTerm(text, entry.sourceTerm, entry.caseSensitive),
+    );
+  }
+
+  findMissingTerms(
+    entries: GlossaryEntry[],
+    translatedText: string,
+  ): MissingGlossaryTerm[] {
+    return entries.flatMap((entry) => {
+      const expectedTerm = getExpectedTargetTerm(entry);
+      if (containsTerm(translatedText, expectedTerm, entry.caseSensitive)) {
+        return [];
+      }
+
+      return [
+        { entryId: entry.id, sourceTerm: entry.sourceTerm, expectedTerm },
+      ];
+    });
+  }
+
+  async importEntries({
+    format,
+    content,
+    mode,
+    pair,
+  }: GlossaryImportOptions): Promise<GlossaryImportResult> {
+    const parsed: ParsedGlossary =
+      format === "csv"
+        ? parseGlossaryCsv(content)
+        : parseGlossaryTbx(content, pair);
+
+    const existing = await this.glossaryRepository.findAll();
+    const now = new Date().toISOString();
+    const result: GlossaryImportResult = {
+      imported: 0,
+      updated: 0,
+      skipped: parsed.skipped,
+    };
+
+    const incoming: GlossaryEntry[] = [];
+    for (const term of parsed.terms) {
+      const sourceLanguage = term.sourceLanguage ?? pair?.sourceLanguage;
+      const targetLanguage = term.targetLanguage ?? pair?.targetLanguage;
+      const candidate = GlossaryEntryInputSchema.safeParse({
+        ...term,
+        sourceLanguage,
+        targetLanguage,
+      });
+
+      if (!candidate.success || !isValidEntry(candidate.data)) {
+        result.skipped++;
+        continue;
+      }
+
+      incoming.push({
+        ...candidate.data,
+        id: randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    // Replacing only affects the language pairs present in the file
+    const importedPairs = new Set(incoming.map(pairKey));
+    const entries =
+      mode === "replace"
+        ? existing.filter((entry) => !importedPairs.has(pairKey(entry)))
+        : existing;
+
+    for (const entry of incoming) {
+      const index = entries.findIndex((e) => isSameTerm(e, entry));
+      if (index >= 0) {
+        entries[index] = {
+          ...entry,
+          id: entries[index].id,
+          createdAt: entries[index].createdAt,
+        };
+        result.updated++;
+      } else {
+        entries.push(entry);
+        result.imported++;
+      }
+    }
+
+    await this.glossaryRepository.replaceAll(entries);
+    return result;
+  }
+
+  async exportEntries(
+    format: GlossaryFormat,
+    pair?: GlossaryLanguagePair,
+  ): Promise<string> {
+    const entries = await this.listEntries(pair);
+    return format === "csv"
+      ? serializeGlossaryCsv(entries)
+      : serializeGlossaryTbx(entries);
+  }
+
+  private validateEntry(entry: GlossaryEntryInput): void {
+    if (entry.sourceLanguage === entry.targetLanguage) {
+      throw new ValidationError(
+        "Glossary source and target languages must differ",
+      );
+    }
+
+    if (!isValidEntry(entry)) {
+      throw new ValidationError(
+        `Glossary entry "${entry.sourceTerm}" needs a target term or the "do not translate" flag`,
+      );
+    }
+  }
+
+  /** One entry per source term and language pair; `excludeId` is the entry being edited */
+  private async ensureUniqueTerm(
+    entry: GlossaryEntryInput,
+    excludeId?: string,
+  ): Promise<void> {
+    const existing = await this.glossaryRepository.findByLanguagePair(
+      entry.sourceLanguage,
+      entry.targetLanguage,
+    );
+    if (
+      existing.some(
+        (other) => other.id !== excludeId && isSameTerm(other, entry),
+      )
+    ) {
+      throw new ValidationError(
+        `Glossary already contains "${entry.sourceTerm}" for this language pair`,
+      );
+    }
+  }
+}
+
+function isValidEntry(entry: GlossaryEntryInput): boolean {
+  return (
+    entry.sourceLanguage !== entry.targetLanguage &&
+    (Boolean(entry.doNotTranslate) || Boolean(entry.targetTerm?.trim()))
+  );
+}
+
+function pairKey(entry: GlossaryLanguagePair): string {
+  return `${entry.sourceLanguage}>${entry.targetLanguage}`;
+}
+
+/** Entries collide when they map the same source term within one pair */
+function isSameTerm(
+  a: Pick<GlossaryEntry, "sourceLanguage" | "targetLanguage" | "sourceTerm">,
+  b: Pick<GlossaryEntry, "sourceLanguage" | "targetLanguage" | "sourceTerm">,
+): boolean {
+  return (
+    pairKey(a) === pairKey(b) &&
+    a.sourceTerm.toLowerCase() === b.sourceTerm.toLowerCase()
+  );
+}
+
+/** Scripts whose words or particles are written without spaces */
+const UNSPACED_SCRIPT =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+
+/**
+ * Letter or digit that continues a word. Unspaced-script characters end a
+ * word, so "DeepLlama" is found in "DeepLlamaアプリ".
+ */
+const WORD_CHARACTER = `(?:(?!${UNSPACED_SCRIPT.source})[\\p{L}\\p{N}])`;
+
+/**
+ * Whether `text` contains `term` as a whole word.
+ * Terms in scripts without word spacing (CJK, Thai) match as substrings.
+ */
+export function containsTerm(
+  text: string,
+  term: string,
+  caseSensitive: boolean,
+): boolean {
+  const escaped = term.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  if (!escaped) return true;
+
+  const pattern = UNSPACED_SCRIPT.test(term)
+    ? escaped
+    : `(?<!${WORD_CHARACTER})${escaped}(?!${WORD_CHARACTER})`;
+
+  return new RegExp(pattern, caseSensitive ? "u" : "iu").test(text);
+}
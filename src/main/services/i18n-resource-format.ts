@@ -0,0 +1,422 @@
+import { ValidationError } from "#shared/errors.js";
+import type { SupportedLanguage } from "../../shared/domain/translation.js";
+
+export type I18nResourceValue =
+  | string
+  | number
+  | boolean
+  | null
+  | I18nResourceValue[]
+  | { [key: string]: I18nResourceValue };
+
+export type I18nResourceObject = { [key: string]: I18nResourceValue };
+
+/** A string value met while walking a resource */
+export interface ResourceString {
+  /** Dot-separated key path in the output */
+  key: string;
+  /** Key path of the source value, which differs for added plural forms */
+  sourceKey: string;
+  text: string;
+}
+
+/** Piece of a value: translatable text, or syntax to keep verbatim */
+export interface ResourceTextPiece {
+  text: string;
+  token: boolean;
+}
+
+export interface TokenMismatch {
+  missingTokens: string[];
+  unexpectedTokens: string[];
+}
+
+/** CLDR plural categories, in the order i18next files list them */
+const PLURAL_CATEGORIES = ["zero", "one", "two", "few", "many", "other"];
+
+/** i18next v4 plural keys such as `item_one` or `place_ordinal_few` */
+const PLURAL_KEY_PATTERN = /^(.+)_(ordinal_)?(zero|one|two|few|many|other)$/;
+
+/**
+ * Placeholders that are not ICU arguments: i18next interpolation
+ * ({{name}}, {{- html}}, {{value, number}}), nesting ($t(key)),
+ * and printf conversions (%s, %1$d, %(name)s, %%)
+ */
+const SIMPLE_TOKEN_PATTERNS = [
+  /\{\{[^{}]+\}\}/y,
+  /\$t\([^()]*\)/y,
+  /%(?:\d+\$|\([\w.]+\))?[-+0#]*\d*(?:\.\d+)?[sdifuxXoeEgGc@]|%%/y,
+];
+
+/** Start of an ICU argument: `{name}`, `{name, number}` or `{count, plural,` */
+const ICU_ARGUMENT_PATTERN =
+  /\{\s*([\p{L}\p{N}_.-]+)\s*(?:,\s*(\w+)\s*)?([,}])/uy;
+
+/** Selector opening a plural or select branch, e.g. ` one {` or ` =0 {` */
+const ICU_SELECTOR_PATTERN =
+  /\s*(?:offset:\s*\d+\s+)?(?:=\d+|[\p{L}\p{N}_]+)\s*\{/uy;
+
+const ICU_CLOSE_PATTERN = /\s*\}/y;
+
+const ICU_BRANCHING_TYPES = new Set(["plural", "select", "selectordinal"]);
+
+export function parseI18nResource(content: string): I18nResourceObject {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content.replace(/^\uFEFF/, ""));
+  } catch (error) {
+    throw new ValidationError(
+      `Resource file is not valid JSON: ${(error as Error).message}`,
+    );
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new ValidationError("Resource file must contain a JSON object");
+  }
+  return parsed as I18nResourceObject;
+}
+
+export function serializeI18nResource(resource: I18nResourceObject): string {
+  return `${JSON.stringify(resource, null, 2)}\n`;
+}
+
+/**
+ * Rebuild a resource for the target language, replacing every string
+ * with what `visit` returns for it. Numbers, booleans and nulls are kept.
+ * Plural keys are regrouped for the target language's plural rules:
+ * categories it lacks are dropped and new ones start from the `_other` form.
+ */
+export function mapI18nResource(
+  resource: I18nResourceObject,
+  targetLanguage: SupportedLanguage,
+  visit: (entry: ResourceString) => string,
+): I18nResourceObject {
+  return mapObject(resource, [], targetLanguage, visit);
+}
+
+/**
+ * Split a value into translatable text and syntax that must survive
+ * translation verbatim: interpolations, nesting, printf conversions, and
+ * ICU arguments, where only the text inside plural and select branches
+ * is translatable.
+ */
+export function splitResourceText(text: string): ResourceTextPiece[] {
+  const pieces: ResourceTextPiece[] = [];
+  readMessage(text, 0, false, false, pieces);
+  return pieces;
+}
+
+export function extractResourceTokens(text: string): string[] {
+  return splitResourceText(text)
+    .filter((piece) => piece.token)
+    .map((piece) => piece.text);
+}
+
+/** Whether a value has any words for the model to translate */
+export function hasTranslatableText(text: string): boolean {
+  return splitResourceText(text).some(
+    (piece) => !piece.token && /\p{L}/u.test(piece.text),
+  );
+}
+
+/**
+ * Wrap the syntax of a value in {{notranslate}} markers, so the translation
+ * service hands it to the model as placeholders and restores it afterwards
+ */
+export function protectResourceText(text: string): string {
+  let result = "";
+  let pendingToken = "";
+
+  for (const piece of splitResourceText(text)) {
+    if (piece.token) {
+      pendingToken += piece.text;
+      continue;
+    }
+    if (pendingToken) {
+      result += `{{notranslate}}${pendingToken}{{/notranslate}}`;
+      pendingToken = "";
+    }
+    result += piece.text;
+  }
+
+  if (pendingToken) {
+    result += `{{notranslate}}${pendingToken}{{/notranslate}}`;
+  }
+  return result;
+}
+
+/**
+ * Compare the syntax of a translation with its source value.
+ * Whitespace inside tokens is ignored; their order may change.
+ */
+export function findTokenMismatch(
+  sourceText: string,
+  translatedText: string,
+): TokenMismatch {
+  const remaining = new Map<string, number>();
+  for (const token of extractResourceTokens(sourceText)) {
+    const normalized = normalizeToken(token);
+    remaining.set(normalized, (remaining.get(normalized) ?? 0) + 1);
+  }
+
+  const unexpectedTokens: string[] = [];
+  for (const token of extractResourceTokens(translatedText)) {
+    const normalized = normalizeToken(token);
+    const count = remaining.get(normalized) ?? 0;
+    if (count > 0) {
+      remaining.set(normalized, count - 1);
+    } else {
+      unexpectedTokens.push(token.trim());
+    }
+  }
+
+  const missingTokens = Array.from(remaining).flatMap(([token, count]) =>
+    Array<string>(count).fill(token),
+  );
+  return { missingTokens, unexpectedTokens };
+}
+
+function mapValue(
+  value: I18nResourceValue,
+  path: string[],
+  sourcePath: string[],
+  targetLanguage: SupportedLanguage,
+  visit: (entry: ResourceString) => string,
+): I18nResourceValue {
+  if (typeof value === "string") {
+    return visit({
+      key: path.join("."),
+      sourceKey: sourcePath.join("."),
+      text: value,
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      mapValue(
+        item,
+        [...path, String(index)],
+        [...sourcePath, String(index)],
+        targetLanguage,
+        visit,
+      ),
+    );
+  }
+  if (typeof value === "object" && value !== null) {
+    return mapObject(value, path, targetLanguage, visit);
+  }
+  return value;
+}
+
+function mapObject(
+  object: I18nResourceObject,
+  path: string[],
+  targetLanguage: SupportedLanguage,
+  visit: (entry: ResourceString) => string,
+): I18nResourceObject {
+  const result: I18nResourceObject = {};
+  const mappedGroups = new Set<string>();
+
+  for (const [key, value] of Object.entries(object)) {
+    const group = getPluralGroup(object, key);
+    if (!group) {
+      result[key] = mapValue(
+        value,
+        [...path, key],
+        [...path, key],
+        targetLanguage,
+        visit,
+      );
+      continue;
+    }
+
+    // The whole group is written where its first key appears
+    if (mappedGroups.has(group.prefix)) continue;
+    mappedGroups.add(group.prefix);
+
+    for (const category of getTargetPluralCategories(
+      object,
+      group,
+      targetLanguage,
+    )) {
+      const targetKey = `${group.prefix}${category}`;
+      const sourceKey =
+        targetKey in object ? targetKey : `${group.prefix}other`;
+      result[targetKey] = mapValue(
+        object[sourceKey],
+        [...path, targetKey],
+        [...path, sourceKey],
+        targetLanguage,
+        visit,
+      );
+    }
+  }
+
+  return result;
+}
+
+interface PluralGroup {
+  /** Key up to the category, e.g. `item_` or `place_ordinal_` */
+  prefix: string;
+  ordinal: boolean;
+}
+
+/** Plural group of a key, when its siblings include the `_other` form */
+function getPluralGroup(
+  object: I18nResourceObject,
+  key: string,
+): PluralGroup | undefined {
+  const match = PLURAL_KEY_PATTERN.exec(key);
+  if (!match || typeof object[key] !== "string") return undefined;
+
+  const prefix = `${match[1]}_${match[2] ?? ""}`;
+  if (typeof object[`${prefix}other`] !== "string") return undefined;
+  return { prefix, ordinal: match[2] !== undefined };
+}
+
+/** Categories the target language needs, plus an explicit `_zero` form */
+function getTargetPluralCategories(
+  object: I18nResourceObject,
+  group: PluralGroup,
+  targetLanguage: SupportedLanguage,
+): string[] {
+  const categories = new Set<string>(
+    new Intl.PluralRules(targetLanguage, {
+      type: group.ordinal ? "ordinal" : "cardinal",
+    }).resolvedOptions().pluralCategories,
+  );
+  if (`${group.prefix}zero` in object) categories.add("zero");
+
+  return PLURAL_CATEGORIES.filter((category) => categories.has(category));
+}
+
+/**
+ * Read message text into `pieces` until the end of `text` or, inside an
+ * ICU branch, the `}` that closes it. Returns where reading stopped.
+ */
+function readMessage(
+  text: string,
+  position: number,
+  inBranch: boolean,
+  inPlural: boolean,
+  pieces: ResourceTextPiece[],
+): number {
+  let textStart = position;
+  const pushToken = (tokenPieces: ResourceTextPiece[], end: number): void => {
+    if (position > textStart) {
+      pieces.push({ text: text.slice(textStart, position), token: false });
+    }
+    pieces.push(...tokenPieces);
+    position = end;
+    textStart = end;
+  };
+
+  while (position < text.length) {
+    const char = text[position];
+    if (char === "}" && inBranch) break;
+
+    // `#` stands for the number inside plural branches
+    if (char === "#" && inPlural) {
+      pushToken([{ text: "#", token: true }], position + 1);
+      continue;
+    }
+
+    const simpleEnd = matchSimpleToken(text, position);
+    if (simpleEnd !== -1) {
+      pushToken(
+        [{ text: text.slice(position, simpleEnd), token: true }],
+        simpleEnd,
+      );
+      continue;
+    }
+
+    if (char === "{") {
+      const argument = readIcuArgument(text, position, inPlural);
+      if (argument) {
+        pushToken(argument.pieces, argument.end);
+        continue;
+      }
+    }
+
+    position++;
+  }
+
+  if (position > textStart) {
+    pieces.push({ text: text.slice(textStart, position), token: false });
+  }
+  return position;
+}
+
+function matchSimpleToken(text: string, position: number): number {
+  for (const pattern of SIMPLE_TOKEN_PATTERNS) {
+    pattern.lastIndex = position;
+    if (pattern.test(text)) return pattern.lastIndex;
+  }
+  return -1;
+}
+
+/**
+ * Read an ICU argument starting at `position`, or return undefined when
+ * the braces there are not one. Plural and select arguments become tokens
+ * for their syntax around the pieces of each branch.
+ */
+function readIcuArgument(
+  text: string,
+  position: number,
+  inPlural: boolean,
+): { pieces: ResourceTextPiece[]; end: number } | undefined {
+  ICU_ARGUMENT_PATTERN.lastIndex = position;
+  const header = ICU_ARGUMENT_PATTERN.exec(text);
+  if (!header) return undefined;
+
+  const [headerText, , type, terminator] = header;
+  if (terminator === "}") {
+    return {
+      pieces: [{ text: headerText, token: true }],
+      end: ICU_ARGUMENT_PATTERN.lastIndex,
+    };
+  }
+  if (!type) return undefined;
+
+  // Styles such as {price, number, ::currency/EUR} are not translated
+  if (!ICU_BRANCHING_TYPES.has(type)) {
+    const close = text.indexOf("}", ICU_ARGUMENT_PATTERN.lastIndex);
+    if (close === -1) return undefined;
+    return {
+      pieces: [{ text: text.slice(position, close + 1), token: true }],
+      end: close + 1,
+    };
+  }
+
+  const pieces: ResourceTextPiece[] = [{ text: headerText, token: true }];
+  const branchInPlural = type === "select" ? inPlural : true;
+  let end = ICU_ARGUMENT_PATTERN.lastIndex;
+
+  for (let branches = 0; ; branches++) {
+    ICU_CLOSE_PATTERN.lastIndex = end;
+    const close = ICU_CLOSE_PATTERN.exec(text);
+    if (close && branches > 0) {
+      pieces.push({ text: close[0], token: true });
+      return { pieces, end: ICU_CLOSE_PATTERN.lastIndex };
+    }
+
+    ICU_SELECTOR_PATTERN.lastIndex = end;
+    const selector = ICU_SELECTOR_PATTERN.exec(text);
+    if (!selector) return undefined;
+    pieces.push({ text: selector[0], token: true });
+
+    const branchEnd = readMessage(
+      text,
+      ICU_SELECTOR_PATTERN.lastIndex,
+      true,
+      branchInPlural,
+      pieces,
+    );
+    if (text[branchEnd] !== "}") return undefined;
+    pieces.push({ text: "}", token: true });
+    end = branchEnd + 1;
+  }
+}
+
+function normalizeToken(token: string): string {
+  return token.replace(/\s+/g, "");
+}
@@ -0,0 +1,160 @@
+import { describeError } from "#shared/errors.js";
+import type {
+  I18nResourceIssue,
+  I18nResourceTranslationEvent,
+  I18nResourceTranslationRequest,
+} from "../../shared/domain/i18n-resource.js";
+import type { ResourceString } from "./i18n-resource-format.js";
+import {
+  findTokenMismatch,
+  hasTranslatableText,
+  mapI18nResource,
+  parseI18nResource,
+  protectResourceText,
+  serializeI18nResource,
+} from "./i18n-resource-format.js";
+import type { TranslationService } from "./translation-service.js";
+
+/** Tells the model what kind of text each value is */
+const RESOURCE_CONTEXT = "A string from the user interface of an application";
+
+export interface I18nResourceService {
+  /**
+   * Translate the values of an i18next resource file, one at a time.
+   * Yields progress after each value and a final "done" event with the
+   * translated file. Translations that change the value's interpolations
+   * or ICU syntax are reported and the source value is written instead.
+   */
+  translateResource(
+    request: I18nResourceTranslationRequest,
+    signal?: AbortSignal,
+  ): AsyncGenerator<I18nResourceTranslationEvent, void, unknown>;
+}
+
+export class I18nResourceServiceImpl implements I18nResourceService {
+  constructor(private readonly translationService: TranslationService) {}
+
+  async *translateResource(
+    request: I18nResourceTranslationRequest,
+    signal?: AbortSignal,
+  ): AsyncGenerator<I18nResourceTranslationEvent, void, unknown> {
+    const resource = parseI18nResource(request.content);
+
+    const strings: ResourceString[] = [];
+    mapI18nResource(resource, request.targetLanguage, (entry) => {
+      strings.push(entry);
+      return entry.text;
+    });
+
+    const translations = new Map<string, string>();
+    // Plural forms added for the target language often repeat a source value
+    const translatedTexts = new Map<string, string>();
+    const failedKeys: I18nResourceIssue[] = [];
+    let translatedKeys = 0;
+    let copiedKeys = 0;
+
+    yield { type: "progress", completedKeys: 0, totalKeys: strings.length };
+
+    for (const [index, entry] of strings.entries()) {
+      signal?.throwIfAborted();
+
+      const known = translatedTexts.get(entry.text);
+      if (known !== undefined) {
+        translations.set(entry.key, known);
+        translatedKeys++;
+      } else if (!hasTranslatableText(entry.text)) {
+        copiedKeys++;
+      } else {
+        const outcome = await this.translateValue(entry, request, signal);
+        if ("issue" in outcome) {
+          failedKeys.push(outcome.issue);
+        } else {
+          translations.set(entry.key, outcome.text);
+          translatedTexts.set(entry.text, outcome.text);
+          translatedKeys++;
+        }
+      }
+
+      yield {
+        type: "progress",
+        completedKeys: index + 1,
+        totalKeys: strings.length,
+      };
+    }
+
+    const translated = mapI18nResource(
+      resource,
+      request.targetLanguage,
+      (entry) => translations.get(entry.key) ?? entry.text,
+    );
+
+    yield {
+      type: "done",
+      result: {
+        content: serializeI18nResource(translated),
+        translatedKeys,
+        copiedKeys,
+        failedKeys,
+      },
+    };
+  }
+
+  private async translateValue(
+    entry: ResourceString,
+    request: I18nResourceTranslationRequest,
+    signal?: AbortSignal,
+  ): Promise<{ text: string } | { issue: I18nResourceIssue }> {
+    let translatedText: string;
+    try {
+      const response = await this.translationService.translate(
+        {
+          text: protectResourceText(entry.text),
+          sourceLanguage: request.sourceLanguage,
+          targetLanguage: request.targetLanguage,
+          modelName: request.modelName,
+          context: [
+            `${RESOURCE_CONTEXT}, key "${entry.sourceKey}".`,
+            request.context,
+          ]
+            .filter(Boolean)
+            .join("\n"),
+          formality: request.formality,
+          domain: request.domain,
+          // Batch work yields to interactive translations
+          priority: "low",
+        },
+        signal,
+      );
+      translatedText = response.translatedText;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      return {
+        issue: {
+          key: entry.key,
+          reason: "translation_failed",
+          sourceText: entry.text,
+          missingTokens: [],
+          unexpectedTokens: [],
+          error: describeError(error),
+        },
+      };
+    }
+
+    const mismatch = findTokenMismatch(entry.text, translatedText);
+    if (
+      mismatch.missingTokens.length > 0 ||
+      mismatch.unexpectedTokens.length > 0
+    ) {
+      return {
+        issue: {
+          key: entry.key,
+          reason: "tokens_changed",
+          sourceText: entry.text,
+          translatedText,
+          ...mismatch,
+        },
+      };
+    }
+    return { text: translatedText };
+  }
+}
@@ -0,0 +1,350 @@
+import type {
+  LanguageDetectionResult,
+  SupportedLanguage,
+} from "../../shared/domain/translation.js";
+
+export interface LanguageDetectionService {
+  /**
+   * Detect the language of a text. Keeps no state: text that is too short
+   * or matches nothing resolves to the fallback, English by default.
+   */
+  detect(text: string, fallback?: SupportedLanguage): LanguageDetectionResult;
+}
+
+/** Language assumed when the caller names no fallback */
+const DEFAULT_FALLBACK_LANGUAGE: SupportedLanguage = "en";
+
+/** Minimum number of letters before detection is attempted */
+const MIN_DETECTION_LENGTH = 3;
+
+/** Confidence at or above which a result is considered reliable */
+const RELIABLE_CONFIDENCE = 0.5;
+
+/** Script groups recognised by the heuristic pass */
+type ScriptGroup =
+  | "kana"
+  | "han"
+  | "hangul"
+  | "cyrillic"
+  | "arabic"
+  | "hebrew"
+  | "thai"
+  | "devanagari"
+  | "latin";
+
+const SCRIPT_PATTERNS: Array<[ScriptGroup, RegExp]> = [
+  ["kana", /[\p{Script=Hiragana}\p{Script=Katakana}]/u],
+  ["han", /\p{Script=Han}/u],
+  ["hangul", /\p{Script=Hangul}/u],
+  ["cyrillic", /\p{Script=Cyrillic}/u],
+  ["arabic", /\p{Script=Arabic}/u],
+  ["hebrew", /\p{Script=Hebrew}/u],
+  ["thai", /\p{Script=Thai}/u],
+  ["devanagari", /\p{Script=Devanagari}/u],
+  ["latin", /\p{Script=Latin}/u],
+];
+
+/** Scripts used by exactly one registered language */
+const SINGLE_LANGUAGE_SCRIPTS: Partial<Record<ScriptGroup, SupportedLanguage>> =
+  {
+    kana: "ja",
+    hangul: "ko",
+    arabic: "ar",
+    hebrew: "he",
+    thai: "th",
+    devanagari: "hi",
+  };
+
+/**
+ * Characters that only occur in one of the two Chinese scripts.
+ * Forms shared with Japanese kanji (e.g. 東, 時) are left out on purpose.
+ */
+const SIMPLIFIED_ONLY =
+  /[这个们说时对发经过还进动样为东车书长门问见间现实无马开关么吗里]/gu;
+const TRADITIONAL_ONLY = /[這們來說會對發經學樣與實點關麼嗎裡]/gu;
+
+/** Letters specific to Ukrainian among Cyrillic languages */
+const UKRAINIAN_ONLY = /[іїєґ]/giu;
+
+type LatinLanguage = Extract<
+  SupportedLanguage,
+  "en" | "fr" | "de" | "es" | "pt-BR" | "it" | "nl" | "pl" | "tr" | "vi" | "id"
+>;
+
+/**
+ * Most frequent character trigrams per Latin-script language, in rank order
+ * and separated by spaces. "_" marks a word boundary.
+ */
+const TRIGRAM_PROFILES: Record<LatinLanguage, string> = {
+  en: [
+    "_th the he_ _an nd_ and ing ng_ _to _of of_ ion _in ed_ tio to_ ",
+    "er_ is_ _is ent re_ _co hat tha at_ es_ for _fo or_ _be you _yo ",
+    "ou_ _wi ith wit th_ in_ ll_ _it",
+  ].join(""),
+  fr: [
+    "_de es_ de_ le_ ent _le _la la_ ion nt_ on_ _et et_ les _pa re_ ",
+    "_un _co que ue_ _qu ne_ men ati tio _pr des ons _po our _en ait ",
+    "est _es lle eur ais _ce _ne _du",
+  ].join(""),
+  de: [
+    "en_ er_ _de der ie_ _di die ch_ sch ein ich che _un und nd_ cht ",
+    "_ei den in_ _ge ten gen ung ng_ te_ _zu _da das _ve ver _be ine ",
+    "ber _in ist _is st_ nde _wi uf_",
+  ].join(""),
+  es: [
+    "_de de_ os_ _la la_ el_ _el es_ _en en_ as_ ent _co _qu que ue_ ",
+    "_lo los ión on_ _se ado nte _pa ara par _po _es est con _un una ",
+    "do_ ien _re ra_ _al aci _y_ _su ía_ _me ona sta che",
+  ].join(""),
+  "pt-BR": [
+    "_de de_ os_ _qu que ue_ _do do_ da_ _da _co _e_ ão_ ção ent _pa ",
+    "as_ _se nte _um um_ com est _em em_ ara par _no _na _po não _nã ",
+    "ado es_ men ica _es _pr ra_ ões",
+  ].join(""),
+  it: [
+    "_di di_ _de la_ _la to_ _co che _ch he_ re_ ell del _il il_ _in ",
+    "ent one ne_ _pe per er_ are _no no_ ion _un zio azi lla _e_ ta_ ",
+    "con ato tto li_ gli _gl _si sta",
+  ].join(""),
+  nl: [
+    "en_ de_ _de an_ _he het et_ _en van _va ing _ee een er_ _in cht ",
+    "_ve ver aar ijk _te ede den and _zi _ge _op _is is_ oor _vo ten ",
+    "ie_ _da dat _wa nde erd ij_ _ni",
+  ].join(""),
+  pl: [
+    "_pr nie _ni ie_ _po _na ego wie _w_ _za owa _do _je ch_ ych prz ",
+    "rze ani _si się ię_ ni_ est jes _ko dzi cze sta ać_ _to ki_ ny_ ",
+    "ia_ _z_ ej_ ość ści _mo go_ em_",
+  ].join(""),
+  tr: [
+    "lar ler _bi bir ir_ in_ _ve ve_ an_ en_ da_ de_ eri ara _ol ini ",
+    "_bu nda ınd ın_ lan la_ ası _de _ka esi len _ya yor ını mak _ge ",
+    "dır ak_ rin _ha _ço le_ ık_ iç_",
+  ].join(""),
+  vi: [
+    "_ng ng_ _th _nh nh_ _tr _kh _ch _cá các ác_ _là là_ _củ của ủa_ ",
+    "_và và_ _có có_ _đư ược ợc_ ời_ ngư ười ông hôn _kh _đi _mộ một ",
+    "ột_ _đã đã_ _ch ch_ _ti _vi iệt",
+  ].join(""),
+  id: [
+    "an_ kan _me _da dan ang ng_ _di _ya yan ber ada nya ya_ _be _ke ",
+    "men _in ini ran _se eng _pe per _ti tid dak ak_ aka gan _sa _ad ",
+    "ah_ lah _ak ing _it itu tu_ _un",
+  ].join(""),
+};
+
+/** Diacritics that strongly suggest a particular Latin-script language */
+const DISTINCTIVE_LETTERS: Partial<Record<LatinLanguage, RegExp>> = {
+  fr: /[èêëîïôœç]/giu,
+  de: /[äöüß]/giu,
+  es: /[ñ¿¡]/giu,
+  "pt-BR": /[ãõç]/giu,
+  pl: /[ąćęłńśźż]/giu,
+  tr: /[ğışİ]/gu,
+  vi: /[ăơưđạảấầẩẫậắằẳẵặẹẻẽếềểễệỉịọỏốồổỗộớờởỡợụủứừửữựỳỵỷỹ]/giu,
+};
+
+/** Weight of a trigram by rank: the most frequent trigram weighs 1 */
+const TRIGRAM_WEIGHTS = Object.fromEntries(
+  Object.entries(TRIGRAM_PROFILES).map(([language, profile]) => {
+    const trigrams = profile.split(" ");
+    const weights = new Map<string, number>();
+    trigrams.forEach((trigram, rank) => {
+      if (!weights.has(trigram)) {
+        weights.set(trigram, 1 - rank / trigrams.length);
+      }
+    });
+    return [language, weights];
+  }),
+) as Record<LatinLanguage, Map<string, number>>;
+
+/**
+ * Offline language detector.
+ * Uses Unicode script heuristics first and falls back to character trigram
+ * statistics for Latin-script text. Input shorter than three letters, or
+ * text that matches nothing, resolves to the fallback language.
+ */
+export class LanguageDetectionServiceImpl implements LanguageDetectionService {
+  detect(
+    text: string,
+    fallback: SupportedLanguage = DEFAULT_FALLBACK_LANGUAGE,
+  ): LanguageDetectionResult {
+    const letters = Array.from(text).filter((char) => /\p{L}/u.test(char));
+
+    if (letters.length < MIN_DETECTION_LENGTH) {
+      return this.fallbackResult(fallback);
+    }
+
+    const counts = this.countScripts(letters);
+    return (
+      this.detectByScript(text, letters.length, counts, fallback) ??
+      this.detectByNgrams(text, letters.length, fallback)
+    );
+  }
+
+  private countScripts(letters: string[]): Record<ScriptGroup, number> {
+    const counts = Object.fromEntries(
+      SCRIPT_PATTERNS.map(([group]) => [group, 0]),
+    ) as Record<ScriptGroup, number>;
+
+    for (const letter of letters) {
+      const match = SCRIPT_PATTERNS.find(([, pattern]) => pattern.test(letter));
+      if (match) counts[match[0]]++;
+    }
+    return counts;
+  }
+
+  private detectByScript(
+    text: string,
+    total: number,
+    counts: Record<ScriptGroup, number>,
+    fallback: SupportedLanguage,
+  ): LanguageDetectionResult | null {
+    // CJK text commonly embeds Latin terms, so CJK wins once it is a fifth of the text
+    const cjk = counts.kana + counts.han + counts.hangul;
+    if (cjk / total >= 0.2) {
+      if (counts.kana > 0) {
+        return this.result("ja", (counts.kana + counts.han) / total, total);
+      }
+      if (counts.hangul >= counts.han) {
+        return this.result("ko", counts.hangul / total, total);
+      }
+      return this.detectHan(text, total, counts.han, fallback);
+    }
+
+    const [dominant, dominantCount] = (
+      Object.entries(counts) as Array<[ScriptGroup, number]>
+    ).reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+
+    if (dominant === "latin" || dominantCount === 0) {
+      return null;
+    }
+
+    if (dominant === "cyrillic") {
+      const language =
+        (text.match(UKRAINIAN_ONLY)?.length ?? 0) > 0 ? "uk" : "ru";
+      return this.result(language, dominantCount / total, total);
+    }
+
+    const language = SINGLE_LANGUAGE_SCRIPTS[dominant];
+    return language
+      ? this.result(language, dominantCount / total, total)
+      : null;
+  }
+
+  /** Han-only text: Chinese, unless the user has been writing Japanese */
+  private detectHan(
+    text: string,
+    total: number,
+    han: number,
+    fallback: SupportedLanguage,
+  ): LanguageDetectionResult {
+    const simplified = text.match(SIMPLIFIED_ONLY)?.length ?? 0;
+    const traditional = text.match(TRADITIONAL_ONLY)?.length ?? 0;
+
+    if (simplified === traditional && fallback === "ja") {
+      // Kanji-only strings such as "東京都" are ambiguous; keep Japanese at low confidence
+      return this.result("ja", (han / total) * 0.5, total);
+    }
+
+    if (traditional > simplified) {
+      return this.result("zh-Hant", han / total, total);
+    }
+    if (simplified > traditional) {
+      return this.result("zh-Hans", han / total, total);
+    }
+
+    // No script-specific characters: prefer the Chinese variant used last
+    const variant = fallback === "zh-Hant" ? "zh-Hant" : "zh-Hans";
+    return this.result(variant, (han / total) * 0.7, total);
+  }
+
+  private detectByNgrams(
+    text: string,
+    total: number,
+    fallback: SupportedLanguage,
+  ): LanguageDetectionResult {
+    const trigrams = this.extractTrigrams(text);
+    if (trigrams.size === 0) {
+      return this.fallbackResult(fallback);
+    }
+
+    let trigramCount = 0;
+    trigrams.forEach((count) => (trigramCount += count));
+
+    const scores = (Object.keys(TRIGRAM_WEIGHTS) as LatinLanguage[])
+      .map((language) => {
+        let score = 0;
+        trigrams.forEach((count, trigram) => {
+          score += count * (TRIGRAM_WEIGHTS[language].get(trigram) ?? 0);
+        });
+        score /= trigramCount;
+
+        const distinctive = DISTINCTIVE_LETTERS[language];
+        const distinctiveCount = distinctive
+          ? (text.match(distinctive)?.length ?? 0)
+          : 0;
+        score += 0.15 * Math.min(1, distinctiveCount / 3);
+
+        return { language, score };
+      })
+      .sort((a, b) => b.score - a.score);
+
+    const [best, second] = scores;
+    if (best.score <= 0) {
+      return this.fallbackResult(fallback);
+    }
+
+    // Confidence blends the margin over the runner-up with the absolute score
+    const margin = (best.score - second.score) / best.score;
+    const strength = Math.min(1, best.score * 2);
+    const language =
+      best.language === "pt-BR" && fallback === "pt-PT"
+        ? "pt-PT"
+        : best.language;
+
+    return {
+      ...this.result(language, margin * 0.6 + strength * 0.4, total),
+      method: "ngram",
+    };
+  }
+
+  private extractTrigrams(text: string): Map<string, number> {
+    const trigrams = new Map<string, number>();
+    const words = text.toLowerCase().match(/\p{L}+/gu) ?? [];
+
+    for (const word of words) {
+      const padded = `_${word}_`;
+      for (let i = 0; i < padded.length - 2; i++) {
+        const trigram = padded.slice(i, i + 3);
+        trigrams.set(trigram, (trigrams.get(trigram) ?? 0) + 1);
+      }
+    }
+    return trigrams;
+  }
+
+  /** Build a result, scaling confidence down for short input */
+  private result(
+    language: SupportedLanguage,
+    ratio: number,
+    letterCount: number,
+  ): LanguageDetectionResult {
+    const lengthWeight = Math.min(1, 0.5 + letterCount / 40);
+    const confidence = Math.max(0, Math.min(1, ratio * lengthWeight));
+    return {
+      language,
+      confidence,
+      isReliable: confidence >= RELIABLE_CONFIDENCE,
+      method: "script",
+    };
+  }
+
+  private fallbackResult(language: SupportedLanguage): LanguageDetectionResult {
+    return {
+      language,
+      confidence: 0,
+      isReliable: false,
+      method: "fallback",
+    };
+  }
+}
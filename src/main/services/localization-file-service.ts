@@ -0,0 +1,162 @@
+import { describeError } from "#shared/errors.js";
+import type {
+  LocalizationFileTranslationEvent,
+  LocalizationFileTranslationRequest,
+  LocalizationUnitIssue,
+} from "../../shared/domain/localization-file.js";
+import type {
+  LocalizationDocument,
+  LocalizationUnit,
+} from "./localization-formats.js";
+import {
+  findUnitTokenMismatch,
+  parseLocalizationFile,
+  serializeLocalizationFile,
+} from "./localization-formats.js";
+import type { TranslationService } from "./translation-service.js";
+
+/** Tells the model what kind of text each unit is */
+const UNIT_CONTEXT = "A string from a software localization file";
+
+export interface LocalizationFileService {
+  /**
+   * Pre-translate the untranslated and fuzzy units of an XLIFF 1.2, XLIFF
+   * 2.0 or gettext PO file, one unit at a time. Yields progress after each
+   * unit and a final "done" event with the file, where translated units are
+   * marked for review. Notes, msgctxt and comments are given to the model
+   * as context; units whose inline tags or placeholders change are left
+   * untranslated and reported.
+   */
+  translateFile(
+    request: LocalizationFileTranslationRequest,
+    signal?: AbortSignal,
+  ): AsyncGenerator<LocalizationFileTranslationEvent, void, unknown>;
+}
+
+export class LocalizationFileServiceImpl implements LocalizationFileService {
+  constructor(private readonly translationService: TranslationService) {}
+
+  async *translateFile(
+    request: LocalizationFileTranslationRequest,
+    signal?: AbortSignal,
+  ): AsyncGenerator<LocalizationFileTranslationEvent, void, unknown> {
+    const document = parseLocalizationFile(request.content, request.format);
+    const pending = document.units.flatMap((unit, index) =>
+      unit.needsTranslation ? [index] : [],
+    );
+
+    const translations: (string[] | undefined)[] = [];
+    const issues: LocalizationUnitIssue[] = [];
+
+    yield { type: "progress", completedUnits: 0, totalUnits: pending.length };
+
+    for (const [completed, index] of pending.entries()) {
+      signal?.throwIfAborted();
+
+      const outcome = await this.translateUnit(
+        document,
+        index,
+        request,
+        signal,
+      );
+      if ("issue" in outcome) issues.push(outcome.issue);
+      else translations[index] = outcome.texts;
+
+      yield {
+        type: "progress",
+        completedUnits: completed + 1,
+        totalUnits: pending.length,
+      };
+    }
+
+    yield {
+      type: "done",
+      result: {
+        content: serializeLocalizationFile(
+          document,
+          translations,
+          request.targetLanguage,
+        ),
+        format: document.format,
+        totalUnits: document.units.length,
+        translatedUnits: translations.filter(Boolean).length,
+        skippedUnits: document.units.length - pending.length,
+        issues,
+      },
+    };
+  }
+
+  private async translateUnit(
+    document: LocalizationDocument,
+    index: number,
+    request: LocalizationFileTranslationRequest,
+    signal?: AbortSignal,
+  ): Promise<{ texts: string[] } | { issue: LocalizationUnitIssue }> {
+    const unit: LocalizationUnit = document.units[index];
+    const texts: string[] = [];
+
+    try {
+      for (const sourceText of unit.sourceTexts) {
+        texts.push(await this.translate(sourceText, unit, request, signal));
+      }
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      return {
+        issue: {
+          unit: unit.id,
+          reason: "translation_failed",
+          missingTokens: [],
+          unexpectedTokens: [],
+          error: describeError(error),
+        },
+      };
+    }
+
+    const mismatch = findUnitTokenMismatch(document, index, texts);
+    if (
+      mismatch.missingTokens.length > 0 ||
+      mismatch.unexpectedTokens.length > 0
+    ) {
+      return { issue: { unit: unit.id, reason: "tags_changed", ...mismatch } };
+    }
+    return { texts };
+  }
+
+  private async translate(
+    text: string,
+    unit: LocalizationUnit,
+    request: LocalizationFileTranslationRequest,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    // Keep blank text as is; a PO msgid may be only a line break
+    if (text.trim() === "") return text;
+
+    const response = await this.translationService.translate(
+      {
+        text: text.trim(),
+        sourceLanguage: request.sourceLanguage,
+        targetLanguage: request.targetLanguage,
+        modelName: request.modelName,
+        context: [
+          `${UNIT_CONTEXT}, unit "${unit.id}".`,
+          unit.notes.length > 0 &&
+            `Notes for translators:\n${unit.notes.join("\n")}`,
+          request.context,
+        ]
+          .filter(Boolean)
+          .join("\n"),
+        formality: request.formality,
+        domain: request.domain,
+        // Batch work yields to interactive translations
+        priority: "low",
+      },
+      signal,
+    );
+
+    // Leading and trailing whitespace, such as a final "\n" in a PO
+    // string, must match the source
+    const leading = /^\s*/.exec(text)![0];
+    const trailing = /\s*$/.exec(text)![0];
+    return leading + response.translatedText.trim() + trailing;
+  }
+}
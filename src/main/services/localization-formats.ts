@@ -0,0 +1,778 @@
+import { ValidationError } from "#shared/errors.js";
+import type { LocalizationFileFormat } from "../../shared/domain/localization-file.js";
+import type { SupportedLanguage } from "../../shared/domain/translation.js";
+import type { TokenMismatch } from "./i18n-resource-format.js";
+import {
+  findTokenMismatch,
+  protectResourceText,
+} from "./i18n-resource-format.js";
+import { escapeXml, unescapeXml } from "./xml-text.js";
+
+/** Translatable unit of a localization file */
+export interface LocalizationUnit {
+  /** Unit id (XLIFF) or msgid with its msgctxt (PO), shown in reports */
+  id: string;
+  /**
+   * Source texts as sent to the model, with inline codes wrapped in
+   * {{notranslate}} markers. Gettext plurals have a singular and a plural.
+   */
+  sourceTexts: string[];
+  /** Notes, comments and context written for translators */
+  notes: string[];
+  /** Whether the unit is untranslated or fuzzy */
+  needsTranslation: boolean;
+}
+
+/** XLIFF <trans-unit> (1.2) or <segment> (2.0) */
+export interface XliffUnit extends LocalizationUnit {
+  /** Offsets of the element in the file content */
+  start: number;
+  end: number;
+  /** Inline codes of the source, which a translation must keep */
+  codes: string[];
+}
+
+export interface PoEntry {
+  /** Lines of the entry in the file, end exclusive */
+  startLine: number;
+  endLine: number;
+  flags: string[];
+  msgctxt?: string;
+  msgid: string;
+  msgidPlural?: string;
+  msgstr: string[];
+}
+
+export interface PoUnit extends LocalizationUnit {
+  entry: PoEntry;
+}
+
+export type LocalizationDocument =
+  | { format: "xliff-1.2" | "xliff-2.0"; content: string; units: XliffUnit[] }
+  | {
+      format: "po";
+      lines: string[];
+      /** Line ending of the source file, reused when writing */
+      lineEnding: "\n" | "\r\n";
+      /** Entry with an empty msgid that holds the file's metadata */
+      header?: PoEntry;
+      units: PoUnit[];
+    };
+
+/** XLIFF 1.2 target state of machine translations awaiting review */
+const XLIFF_12_REVIEW_STATE = "needs-review-translation";
+
+/**
+ * Inline codes of XLIFF source text. The content of 1.2 <ph>, <bpt>, <ept>
+ * and <it> elements is native code, so the whole element is one code.
+ */
+const XLIFF_CODE_PATTERN = /<(ph|bpt|ept|it)\b[^>]*>[\s\S]*?<\/\1>|<[^>]+>/g;
+
+const PO_KEYWORD_PATTERN =
+  /^(msgctxt|msgid_plural|msgid|msgstr)(?:\[(\d+)\])?\s+"(.*)"\s*$/;
+
+/**
+ * Plural-Forms headers from the gettext manual, used when a file does not
+ * declare how many plural forms the target language has
+ */
+const PO_PLURAL_FORMS: Record<SupportedLanguage, string> = {
+  en: "nplurals=2; plural=(n != 1);",
+  ja: "nplurals=1; plural=0;",
+  "zh-Hans": "nplurals=1; plural=0;",
+  "zh-Hant": "nplurals=1; plural=0;",
+  ko: "nplurals=1; plural=0;",
+  fr: "nplurals=2; plural=(n > 1);",
+  de: "nplurals=2; plural=(n != 1);",
+  es: "nplurals=2; plural=(n != 1);",
+  "pt-BR": "nplurals=2; plural=(n > 1);",
+  "pt-PT": "nplurals=2; plural=(n != 1);",
+  it: "nplurals=2; plural=(n != 1);",
+  nl: "nplurals=2; plural=(n != 1);",
+  pl: "nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);",
+  ru: "nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);",
+  uk: "nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);",
+  tr: "nplurals=2; plural=(n != 1);",
+  vi: "nplurals=1; plural=0;",
+  id: "nplurals=1; plural=0;",
+  th: "nplurals=1; plural=0;",
+  hi: "nplurals=2; plural=(n != 1);",
+  ar: "nplurals=6; plural=(n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5);",
+  he: "nplurals=2; plural=(n != 1);",
+};
+
+export function detectLocalizationFormat(
+  content: string,
+): LocalizationFileFormat {
+  const xliff = /<xliff\b([^>]*)>/.exec(content);
+  if (xliff) {
+    const version = readXmlAttribute(xliff[0], "version");
+    return version?.startsWith("2") ? "xliff-2.0" : "xliff-1.2";
+  }
+  if (/^\s*(?:msgctxt|msgid)\s+"/m.test(content)) return "po";
+  throw new ValidationError("File is neither XLIFF nor gettext PO");
+}
+
+export function parseLocalizationFile(
+  content: string,
+  format: LocalizationFileFormat = detectLocalizationFormat(content),
+): LocalizationDocument {
+  const text = content.replace(/^\uFEFF/, "");
+  const document: LocalizationDocument =
+    format === "po"
+      ? parsePo(text)
+      : {
+          format,
+          content: text,
+          units:
+            format === "xliff-1.2"
+              ? parseXliff12Units(text)
+              : parseXliff20Units(text),
+        };
+
+  if (document.units.length === 0) {
+    throw new ValidationError("File contains no translation units");
+  }
+  return document;
+}
+
+/**
+ * Write a localization file with the given unit translations, indexed like
+ * `document.units`. Translated units are marked for review: XLIFF 1.2
+ * targets get the `needs-review-translation` state, XLIFF 2.0 segments the
+ * `translated` state (the last one before review) and PO entries the
+ * `fuzzy` flag. Everything else is written back exactly as read.
+ */
+export function serializeLocalizationFile(
+  document: LocalizationDocument,
+  translations: (string[] | undefined)[],
+  targetLanguage: SupportedLanguage,
+): string {
+  if (document.format === "po") {
+    return serializePo(document, translations, targetLanguage);
+  }
+
+  let content = document.content;
+  // From the end, so earlier offsets stay valid
+  for (let index = document.units.length - 1; index >= 0; index--) {
+    const texts = translations[index];
+    if (!texts) continue;
+
+    const unit = document.units[index];
+    const target = restoreInlineCodes(texts[0], unit.codes).xml;
+    content =
+      content.slice(0, unit.start) +
+      writeXliffTarget(
+        content.slice(unit.start, unit.end),
+        document.format,
+        target,
+      ) +
+      content.slice(unit.end);
+  }
+
+  // Targets are only valid once the file names their language
+  return document.format === "xliff-1.2"
+    ? content.replace(/<file\b[^>]*>/g, (tag) =>
+        readXmlAttribute(tag, "target-language")
+          ? tag
+          : setXmlAttribute(tag, "target-language", targetLanguage),
+      )
+    : content.replace(/<xliff\b[^>]*>/, (tag) =>
+        readXmlAttribute(tag, "trgLang")
+          ? tag
+          : setXmlAttribute(tag, "trgLang", targetLanguage),
+      );
+}
+
+/**
+ * Compare the inline codes (XLIFF) or placeholders (PO) of a unit's
+ * translations with its source
+ */
+export function findUnitTokenMismatch(
+  document: LocalizationDocument,
+  index: number,
+  texts: string[],
+): TokenMismatch {
+  if (document.format === "po") {
+    const { entry } = document.units[index];
+    const sources = [entry.msgid, entry.msgidPlural ?? entry.msgid];
+    const mismatches = texts.map((text, form) =>
+      findTokenMismatch(sources[form], text),
+    );
+    return {
+      missingTokens: mismatches.flatMap((mismatch) => mismatch.missingTokens),
+      unexpectedTokens: mismatches.flatMap(
+        (mismatch) => mismatch.unexpectedTokens,
+      ),
+    };
+  }
+
+  const { codes } = document.units[index];
+  const remaining = [...codes];
+  const unexpectedTokens: string[] = [];
+  for (const code of restoreInlineCodes(texts[0], codes).codes) {
+    const position = remaining.indexOf(code);
+    if (position === -1) unexpectedTokens.push(code);
+    else remaining.splice(position, 1);
+  }
+  return { missingTokens: remaining, unexpectedTokens };
+}
+
+function parseXliff12Units(content: string): XliffUnit[] {
+  const units: XliffUnit[] = [];
+
+  for (const match of content.matchAll(
+    /<trans-unit\b[^>]*>[\s\S]*?<\/trans-unit>/g,
+  )) {
+    const element = match[0];
+    const openTag = element.slice(0, element.indexOf(">") + 1);
+    // Alternative translations have sources and targets of their own
+    const body = maskElements(
+      element.slice(openTag.length, -"</trans-unit>".length),
+      "alt-trans",
+    );
+
+    const source = readXmlElementContent(body, "source");
+    if (source === undefined) continue;
+
+    const target = findXmlElement(body, "target");
+    const state = target && readXmlAttribute(target.openTag, "state");
+    const stateQualifier =
+      target && readXmlAttribute(target.openTag, "state-qualifier");
+    const locked =
+      readXmlAttribute(openTag, "translate") === "no" ||
+      readXmlAttribute(openTag, "approved") === "yes";
+
+    units.push({
+      id: readXmlAttribute(openTag, "id") ?? String(units.length + 1),
+      start: match.index,
+      end: match.index + element.length,
+      ...toInlineText(source),
+      notes: [
+        ...readXmlElementTexts(body, "note"),
+        ...readXmlElementTexts(body, "context"),
+      ],
+      needsTranslation:
+        !locked &&
+        (!target ||
+          isBlankXml(target.content) ||
+          state === "new" ||
+          state === "needs-translation" ||
+          stateQualifier === "fuzzy-match"),
+    });
+  }
+  return units;
+}
+
+function parseXliff20Units(content: string): XliffUnit[] {
+  const units: XliffUnit[] = [];
+
+  for (const unitMatch of content.matchAll(/<unit\b[^>]*>[\s\S]*?<\/unit>/g)) {
+    const unitElement = unitMatch[0];
+    const unitOpenTag = unitElement.slice(0, unitElement.indexOf(">") + 1);
+    const unitId = readXmlAttribute(unitOpenTag, "id") ?? "";
+    const locked = readXmlAttribute(unitOpenTag, "translate") === "no";
+    const notes = readXmlElementTexts(unitElement, "note");
+    const segments = Array.from(
+      unitElement.matchAll(/<segment\b[^>]*>[\s\S]*?<\/segment>/g),
+    );
+
+    for (const segmentMatch of segments) {
+      const element = segmentMatch[0];
+      const openTag = element.slice(0, element.indexOf(">") + 1);
+      const body = element.slice(openTag.length, -"</segment>".length);
+
+      const source = readXmlElementContent(body, "source");
+      if (source === undefined) continue;
+
+      const target = findXmlElement(body, "target");
+      const state = readXmlAttribute(openTag, "state") ?? "initial";
+      const segmentId = readXmlAttribute(openTag, "id");
+      const start = unitMatch.index + segmentMatch.index;
+
+      units.push({
+        id:
+          segments.length > 1 && segmentId ? `${unitId}/${segmentId}` : unitId,
+        start,
+        end: start + element.length,
+        ...toInlineText(source),
+        notes,
+        // An initial segment's target is an unconfirmed suggestion
+        needsTranslation:
+          !locked &&
+          (!target || isBlankXml(target.content) || state === "initial"),
+      });
+    }
+  }
+  return units;
+}
+
+/** Write a target into a <trans-unit> or <segment> element */
+function writeXliffTarget(
+  element: string,
+  format: "xliff-1.2" | "xliff-2.0",
+  targetXml: string,
+): string {
+  let openTag = element.slice(0, element.indexOf(">") + 1);
+  const closeStart = element.lastIndexOf("</");
+  const body = element.slice(openTag.length, closeStart);
+  const searchable = maskElements(body, "alt-trans");
+
+  if (format === "xliff-2.0") {
+    openTag = setXmlAttribute(openTag, "state", "translated");
+  }
+
+  const target = findXmlElement(searchable, "target");
+  let newBody: string;
+  if (target) {
+    let targetTag = target.openTag.replace(/\s*\/>$/, ">");
+    if (format === "xliff-1.2") {
+      targetTag = setXmlAttribute(targetTag, "state", XLIFF_12_REVIEW_STATE);
+      targetTag = setXmlAttribute(
+        targetTag,
+        "state-qualifier",
+        "mt-suggestion",
+      );
+    }
+    newBody =
+      body.slice(0, target.start) +
+      `${targetTag}${targetXml}</target>` +
+      body.slice(target.end);
+  } else {
+    const targetTag =
+      format === "xliff-1.2"
+        ? `<target state="${XLIFF_12_REVIEW_STATE}" state-qualifier="mt-suggestion">`
+        : "<target>";
+    // After the source (and 1.2 segmented source), indented like the source
+    const after =
+      findXmlElement(searchable, "seg-source") ??
+      findXmlElement(searchable, "source");
+    const indent = /(\r?\n[ \t]*)<source\b/.exec(searchable)?.[1] ?? "";
+    const position = after ? after.end : 0;
+    newBody =
+      body.slice(0, position) +
+      `${indent}${targetTag}${targetXml}</target>` +
+      body.slice(position);
+  }
+
+  return openTag + newBody + element.slice(closeStart);
+}
+
+/** Source content as model text, with its inline codes kept aside */
+function toInlineText(xml: string): { sourceTexts: string[]; codes: string[] } {
+  const codes: string[] = [];
+  let text = "";
+  let pendingCodes = "";
+  let position = 0;
+
+  const flush = (): void => {
+    if (pendingCodes) text += `{{notranslate}}${pendingCodes}{{/notranslate}}`;
+    pendingCodes = "";
+  };
+
+  for (const match of xml.matchAll(XLIFF_CODE_PATTERN)) {
+    const between = xml.slice(position, match.index);
+    if (between) {
+      flush();
+      text += unescapeXml(between);
+    }
+    codes.push(match[0]);
+    pendingCodes += match[0];
+    position = match.index + match[0].length;
+  }
+  const rest = xml.slice(position);
+  if (rest) {
+    flush();
+    text += unescapeXml(rest);
+  }
+  flush();
+
+  return { sourceTexts: [text], codes };
+}
+
+/**
+ * Turn translated model text back into XLIFF content: the source's inline
+ * codes are written as they were and all other text is escaped
+ */
+function restoreInlineCodes(
+  text: string,
+  codes: string[],
+): { xml: string; codes: string[] } {
+  const candidates = Array.from(new Set(codes)).sort(
+    (a, b) => b.length - a.length,
+  );
+  const found: string[] = [];
+  let xml = "";
+  let plain = "";
+
+  for (let position = 0; position < text.length; ) {
+    const code = candidates.find((candidate) =>
+      text.startsWith(candidate, position),
+    );
+    if (code) {
+      xml += escapeXml(plain) + code;
+      plain = "";
+      found.push(code);
+      position += code.length;
+    } else {
+      plain += text[position];
+      position++;
+    }
+  }
+
+  return { xml: xml + escapeXml(plain), codes: found };
+}
+
+function parsePo(content: string): LocalizationDocument {
+  const lineEnding = content.includes("\r\n") ? "\r\n" : "\n";
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+  const units: PoUnit[] = [];
+  let header: PoEntry | undefined;
+
+  for (let startLine = 0; startLine < lines.length; ) {
+    if (lines[startLine].trim() === "") {
+      startLine++;
+      continue;
+    }
+    let endLine = startLine;
+    while (endLine < lines.length && lines[endLine].trim() !== "") endLine++;
+
+    const parsed = parsePoEntry(lines, startLine, endLine);
+    startLine = endLine;
+    if (!parsed) continue;
+
+    const { entry, notes } = parsed;
+    if (entry.msgid === "" && entry.msgctxt === undefined) {
+      header = entry;
+      continue;
+    }
+
+    units.push({
+      id:
+        entry.msgctxt !== undefined
+          ? `${entry.msgctxt} | ${entry.msgid}`
+          : entry.msgid,
+      sourceTexts: [entry.msgid, entry.msgidPlural]
+        .filter((text) => text !== undefined)
+        .map(protectResourceText),
+      notes: [
+        ...(entry.msgctxt ? [`Context: ${entry.msgctxt}`] : []),
+        ...notes,
+      ],
+      needsTranslation:
+        entry.flags.includes("fuzzy") ||
+        entry.msgstr.every((text) => text === ""),
+      entry,
+    });
+  }
+
+  return { format: "po", lines, lineEnding, header, units };
+}
+
+/** Entry of the given lines, or null for comments and obsolete entries */
+function parsePoEntry(
+  lines: string[],
+  startLine: number,
+  endLine: number,
+): { entry: PoEntry; notes: string[] } | null {
+  const entry: PoEntry = {
+    startLine,
+    endLine,
+    flags: [],
+    msgid: "",
+    msgstr: [],
+  };
+  const notes: string[] = [];
+  let hasMsgid = false;
+  let append: ((text: string) => void) | undefined;
+
+  for (let index = startLine; index < endLine; index++) {
+    const line = lines[index].trim();
+
+    if (line.startsWith("#~")) return null;
+    if (line.startsWith("#,")) {
+      entry.flags.push(
+        ...line
+          .slice(2)
+          .split(",")
+          .map((flag) => flag.trim())
+          .filter(Boolean),
+      );
+      continue;
+    }
+    // Translator (#) and extracted (#.) comments; references and previous
+    // msgids are not shown to the model
+    if (line.startsWith("#.") || /^#(?:\s|$)/.test(line)) {
+      const note = line.slice(line.startsWith("#.") ? 2 : 1).trim();
+      if (note) notes.push(note);
+      continue;
+    }
+    if (line.startsWith("#")) continue;
+
+    const continuation = /^"(.*)"$/.exec(line);
+    if (continuation && append) {
+      append(unescapePoString(continuation[1]));
+      continue;
+    }
+
+    const keyword = PO_KEYWORD_PATTERN.exec(line);
+    if (!keyword) {
+      throw new ValidationError(`Invalid PO syntax on line ${index + 1}`);
+    }
+    const [, name, form, value] = keyword;
+    const field = name as "msgctxt" | "msgid_plural" | "msgid" | "msgstr";
+    if (field === "msgstr") {
+      const position = form === undefined ? 0 : Number(form);
+      entry.msgstr[position] = unescapePoString(value);
+      append = (text) => {
+        entry.msgstr[position] += text;
+      };
+    } else {
+      const key = field === "msgid_plural" ? "msgidPlural" : field;
+      hasMsgid ||= field === "msgid";
+      entry[key] = unescapePoString(value);
+      append = (text) => {
+        entry[key] += text;
+      };
+    }
+  }
+
+  return hasMsgid ? { entry, notes } : null;
+}
+
+function serializePo(
+  document: Extract<LocalizationDocument, { format: "po" }>,
+  translations: (string[] | undefined)[],
+  targetLanguage: SupportedLanguage,
+): string {
+  const lines = [...document.lines];
+  const pluralForms = readPoHeader(document.header, "Plural-Forms");
+  const formCount =
+    Number(/nplurals\s*=\s*(\d+)/.exec(pluralForms ?? "")?.[1]) ||
+    Number(/nplurals=(\d+)/.exec(PO_PLURAL_FORMS[targetLanguage])![1]);
+
+  const edits: { entry: PoEntry; lines: string[] }[] = [];
+  document.units.forEach((unit, index) => {
+    const texts = translations[index];
+    if (!texts) return;
+
+    const { entry } = unit;
+    const msgstr =
+      entry.msgidPlural === undefined
+        ? [texts[0]]
+        : Array.from({ length: formCount }, (_, form) =>
+            // Languages with one form use the plural text for every number
+            form === 0 && formCount > 1 ? texts[0] : (texts[1] ?? texts[0]),
+          );
+    const flags = ["fuzzy", ...entry.flags.filter((flag) => flag !== "fuzzy")];
+    edits.push({
+      entry,
+      lines: rewritePoEntry(lines, entry, flags, msgstr),
+    });
+  });
+
+  const header = document.header;
+  if (header) {
+    const metadata = updatePoHeader(
+      header.msgstr[0] ?? "",
+      targetLanguage,
+      pluralForms,
+    );
+    if (metadata !== header.msgstr[0]) {
+      edits.push({
+        entry: header,
+        lines: rewritePoEntry(lines, header, header.flags, [metadata]),
+      });
+    }
+  }
+
+  // From the end, so earlier line numbers stay valid
+  edits.sort((a, b) => b.entry.startLine - a.entry.startLine);
+  for (const edit of edits) {
+    lines.splice(
+      edit.entry.startLine,
+      edit.entry.endLine - edit.entry.startLine,
+      ...edit.lines,
+    );
+  }
+  return lines.join(document.lineEnding);
+}
+
+/** Lines of an entry with new flags and msgstr, keeping everything else */
+function rewritePoEntry(
+  lines: string[],
+  entry: PoEntry,
+  flags: string[],
+  msgstr: string[],
+): string[] {
+  const kept: string[] = [];
+  let inMsgstr = false;
+  let flagsWritten = flags.length === 0;
+
+  for (const line of lines.slice(entry.startLine, entry.endLine)) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith("#,")) continue;
+    if (trimmed.startsWith("msgstr")) {
+      inMsgstr = true;
+      continue;
+    }
+    if (inMsgstr && trimmed.startsWith('"')) continue;
+    inMsgstr = false;
+
+    // Flags go after the comments, before previous msgids and keywords
+    if (
+      !flagsWritten &&
+      (trimmed.startsWith("#|") || !trimmed.startsWith("#"))
+    ) {
+      kept.push(`#, ${flags.join(", ")}`);
+      flagsWritten = true;
+    }
+    kept.push(line);
+  }
+
+  const plural = entry.msgidPlural !== undefined;
+  return [
+    ...kept,
+    ...msgstr.map(
+      (text, form) =>
+        `${plural ? `msgstr[${form}]` : "msgstr"} ${formatPoString(text)}`,
+    ),
+  ];
+}
+
+function readPoHeader(
+  header: PoEntry | undefined,
+  name: string,
+): string | undefined {
+  const match = new RegExp(`^${name}:[ \\t]*(.*)$`, "m").exec(
+    header?.msgstr[0] ?? "",
+  );
+  return match?.[1].trim() || undefined;
+}
+
+/** Set the Language header and a Plural-Forms header when they are missing */
+function updatePoHeader(
+  metadata: string,
+  targetLanguage: SupportedLanguage,
+  pluralForms: string | undefined,
+): string {
+  // Gettext locale names use underscores, e.g. pt_BR
+  let result = setPoHeader(
+    metadata,
+    "Language",
+    targetLanguage.replace("-", "_"),
+    (value) => value === "",
+  );
+  // Templates carry "nplurals=INTEGER; plural=EXPRESSION;"
+  if (!/nplurals\s*=\s*\d/.test(pluralForms ?? "")) {
+    result = setPoHeader(
+      result,
+      "Plural-Forms",
+      PO_PLURAL_FORMS[targetLanguage],
+      () => true,
+    );
+  }
+  return result;
+}
+
+/** Add a header line, or replace its value when `replace` agrees */
+function setPoHeader(
+  metadata: string,
+  name: string,
+  value: string,
+  replace: (current: string) => boolean,
+): string {
+  const pattern = new RegExp(`^${name}:[ \\t]*(.*)$`, "m");
+  const current = pattern.exec(metadata);
+  if (current) {
+    return replace(current[1].trim())
+      ? metadata.replace(pattern, `${name}: ${value}`)
+      : metadata;
+  }
+  const separator = metadata === "" || metadata.endsWith("\n") ? "" : "\n";
+  return `${metadata}${separator}${name}: ${value}\n`;
+}
+
+function unescapePoString(value: string): string {
+  return value.replace(/\\(.)/g, (_, char: string) => {
+    switch (char) {
+      case "n":
+        return "\n";
+      case "t":
+        return "\t";
+      case "r":
+        return "\r";
+      default:
+        return char;
+    }
+  });
+}
+
+/** Quoted PO string, split after each line break when it has several lines */
+function formatPoString(value: string): string {
+  const escaped = (text: string): string =>
+    `"${text
+      .replace(/\\/g, "\\\\")
+      .replace(/"/g, '\\"')
+      .replace(/\t/g, "\\t")
+      .replace(/\r/g, "\\r")
+      .replace(/\n/g, "\\n")}"`;
+
+  const lines = value.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+  return lines.length > 1
+    ? ['""', ...lines.map(escaped)].join("\n")
+    : escaped(value);
+}
+
+function readXmlAttribute(tag: string, name: string): string | undefined {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(["'])(.*?)\\1`).exec(tag);
+  return match ? unescapeXml(match[2]) : undefined;
+}
+
+function setXmlAttribute(tag: string, name: string, value: string): string {
+  const pattern = new RegExp(`(\\s${name}\\s*=\\s*)(["']).*?\\2`);
+  const attribute = `"${escapeXml(value)}"`;
+  return pattern.test(tag)
+    ? tag.replace(pattern, (_, prefix: string) => `${prefix}${attribute}`)
+    : tag.replace(/\s*(\/?)>$/, ` ${name}=${attribute}$1>`);
+}
+
+/** First element with the given name, including self-closing ones */
+function findXmlElement(
+  xml: string,
+  name: string,
+): { start: number; end: number; openTag: string; content: string } | null {
+  const match = new RegExp(
+    `(<${name}\\b[^>]*?)(?:/>|>([\\s\\S]*?)</${name}>)`,
+  ).exec(xml);
+  if (!match) return null;
+  return {
+    start: match.index,
+    end: match.index + match[0].length,
+    openTag: `${match[1]}>`,
+    content: match[2] ?? "",
+  };
+}
+
+function readXmlElementContent(xml: string, name: string): string | undefined {
+  return findXmlElement(xml, name)?.content;
+}
+
+/** Text of every element with the given name, without inline markup */
+function readXmlElementTexts(xml: string, name: string): string[] {
+  return Array.from(
+    xml.matchAll(new RegExp(`<${name}\\b[^>]*>([\\s\\S]*?)</${name}>`, "g")),
+    (match) => unescapeXml(match[1].replace(/<[^>]+>/g, "")).trim(),
+  ).filter(Boolean);
+}
+
+/** Blank out elements, keeping offsets, so later searches skip them */
+function maskElements(xml: string, name: string): string {
+  return xml.replace(
+    new RegExp(`<${name}\\b[\\s\\S]*?</${name}>`, "g"),
+    (element) => " ".repeat(element.length),
+  );
+}
+
+function isBlankXml(xml: string): boolean {
+  return xml.replace(/<[^>]+>/g, "").trim() === "";
+}
@@ -1,9 +1,15 @@
+import type { AbortableAsyncIterator, ChatResponse, Fetch } from "ollama";
 import { Ollama } from "ollama";
 import type {
+  GenerationMetrics,
+  OllamaChatChunk,
   OllamaChatRequest,
+  OllamaChatResponse,
+  OllamaChatResult,
   OllamaConnectionStatus,
   OllamaModel,
 } from "../../shared/domain/ollama.js";
+import { getTokensPerSecond } from "../../shared/domain/ollama.js";
 import type { TranslationError } from "../../shared/domain/translation.js";
 
 export interface OllamaService {
@@ -11,8 +17,11 @@ export interface OllamaService {
   getConnectionStatus(): Promise<OllamaConnectionStatus>;
   listModels(): Promise<OllamaModel[]>;
   modelExists(modelName: string): Promise<boolean>;
-  chat(request: OllamaChatRequest): Promise<string>;
-  chatStream(request: OllamaChatRequest): AsyncGenerator<string, void, unknown>;
+  getContextLength(modelName: string): Promise<number | undefined>;
+  chat(request: OllamaChatRequest): Promise<OllamaChatResult>;
+  chatStream(
+    request: OllamaChatRequest,
+  ): AsyncGenerator<OllamaChatChunk, void, unknown>;
 }
 
 export class OllamaServiceImpl implements OllamaService {
@@ -20,8 +29,32 @@ export class OllamaServiceImpl implements OllamaService {
   private connectionStatus: OllamaConnectionStatus = "disconnected";
   private statusUpdateInProgress: Promise<void> = Promise.resolve();
 
-  constructor(host: string = "http://localhost:11434") {
-    this.ollama = new Ollama({ host });
+  constructor(
+    private readonly host: string = "http://localhost:11434",
+    private readonly fetchImpl: Fetch = fetch,
+  ) {
+    this.ollama = new Ollama({ host, fetch: fetchImpl });
+  }
+
+  /**
+   * Client whose HTTP requests are aborted together with `signal`,
+   * so cancelling stops generation in Ollama instead of only ignoring the reply
+   */
+  private clientFor(signal: AbortSignal | undefined): Ollama {
+    if (!signal) return this.ollama;
+
+    const fetchImpl = this.fetchImpl;
+    return new Ollama({
+      host: this.host,
+      fetch: (input, init) =>
+        fetchImpl(input, {
+          ...init,
+          // Keep the library's own signal, which aborts streams it stops reading
+          signal: init?.signal
+            ? AbortSignal.any([init.signal, signal])
+            : signal,
+        }),
+    });
   }
 
   /**
@@ -117,7 +150,31 @@ export class OllamaServiceImpl implements OllamaService {
     }
   }
 
-  async chat(request: OllamaChatRequest): Promise<string> {
+  /**
+   * Context length the model was trained with, from its metadata.
+   * Undefined when Ollama does not report it.
+   */
+  async getContextLength(modelName: string): Promise<number | undefined> {
+    try {
+      const response = await this.ollama.show({ model: modelName });
+      // model_info arrives as a plain JSON object despite the Map typing
+      const modelInfo = response.model_info as unknown as Record<
+        string,
+        unknown
+      >;
+      const architecture = modelInfo?.["general.architecture"];
+      const contextLength = modelInfo?.[`${architecture}.context_length`];
+      return typeof contextLength === "number" ? contextLength : undefined;
+    } catch (error) {
+      console.warn(
+        `[OllamaService] Failed to read context length of "${modelName}":`,
+        error,
+      );
+      return undefined;
+    }
+  }
+
+  async chat(request: OllamaChatRequest): Promise<OllamaChatResult> {
     try {
       await this.updateConnectionStatus("connecting");
 
@@ -132,31 +189,29 @@ export class OllamaServiceImpl implements OllamaService {
         throw error;
       }
 
-      // Handle abort signal by racing with a rejected promise
-      const chatPromise = this.ollama.chat({
+      request.signal?.throwIfAborted();
+      const response = await this.clientFor(request.signal).chat({
         model: request.model,
         messages: request.messages,
         stream: false,
+        format: request.format,
         options: {
           temperature: request.temperature,
           top_p: request.top_p,
+          num_ctx: request.num_ctx,
         },
       });
 
-      const response = request.signal
-        ? await Promise.race([
-            chatPromise,
-            new Promise<never>((_, reject) => {
-              request.signal!.addEventListener("abort", () => {
-                reject(new Error("Translation aborted by user"));
-              });
-            }),
-          ])
-        : await chatPromise;
-
       await this.updateConnectionStatus("connected");
-      return response.message.content;
+      return {
+        content: response.message.content,
+        metrics: toGenerationMetrics(response),
+      };
     } catch (error) {
+      if (request.signal?.aborted) {
+        await this.updateConnectionStatus("connected");
+        throw this.handleAbort("Translation aborted by user");
+      }
       await this.updateConnectionStatus("error");
       throw this.handleError(error, "Translation failed");
     }
@@ -164,7 +219,8 @@ export class OllamaServiceImpl implements OllamaService {
 
   async *chatStream(
     request: OllamaChatRequest,
-  ): AsyncGenerator<string, void, unknown> {
+  ): AsyncGenerator<OllamaChatChunk, void, unknown> {
+    let stream: AbortableAsyncIterator<ChatResponse> | undefined;
     try {
       await this.updateConnectionStatus("connecting");
 
@@ -179,41 +235,53 @@ export class OllamaServiceImpl implements OllamaService {
         throw error;
       }
 
-      // Handle abort signal by racing with a rejected promise
-      const chatStreamPromise = this.ollama.chat({
+      request.signal?.throwIfAborted();
+      stream = await this.clientFor(request.signal).chat({
         model: request.model,
         messages: request.messages,
         stream: true,
+        format: request.format,
         options: {
           temperature: request.temperature,
           top_p: request.top_p,
+          num_ctx: request.num_ctx,
         },
       });
 
-      const stream = request.signal
-        ? await Promise.race([
-            chatStreamPromise,
-            new Promise<never>((_, reject) => {
-              request.signal!.addEventListener("abort", () => {
-                reject(new Error("Translation stream aborted by user"));
-              });
-            }),
-          ])
-        : await chatStreamPromise;
-
       await this.updateConnectionStatus("connected");
 
       for await (const chunk of stream) {
-        if (chunk.message?.content) {
-          yield chunk.message.content;
+        if (chunk.done) {
+          yield {
+            content: chunk.message?.content ?? "",
+            metrics: toGenerationMetrics(chunk),
+          };
+        } else if (chunk.message?.content) {
+          yield { content: chunk.message.content };
         }
       }
     } catch (error) {
+      if (request.signal?.aborted) {
+        await this.updateConnectionStatus("connected");
+        throw this.handleAbort("Translation stream aborted by user");
+      }
       await this.updateConnectionStatus("error");
       throw this.handleError(error, "Streaming translation failed");
+    } finally {
+      // Stop the HTTP response when the consumer leaves the loop early;
+      // does nothing once the stream has finished
+      stream?.abort();
     }
   }
 
+  private handleAbort(details: string): TranslationError {
+    return {
+      code: "TRANSLATION_CANCELLED",
+      message: "Translation cancelled",
+      details,
+    };
+  }
+
   private handleError(error: unknown, context: string): TranslationError {
     const errorMessage = error instanceof Error ? error.message : String(error);
 
@@ -252,3 +320,32 @@ export class OllamaServiceImpl implements OllamaService {
     };
   }
 }
+
+const NANOSECONDS_PER_MILLISECOND = 1_000_000;
+
+function toGenerationMetrics(
+  response: Pick<
+    OllamaChatResponse,
+    | "prompt_eval_count"
+    | "eval_count"
+    | "total_duration"
+    | "load_duration"
+    | "prompt_eval_duration"
+    | "eval_duration"
+  >,
+): GenerationMetrics {
+  const toMs = (nanoseconds: number | undefined): number | undefined =>
+    nanoseconds === undefined
+      ? undefined
+      : nanoseconds / NANOSECONDS_PER_MILLISECOND;
+
+  const metrics: GenerationMetrics = {
+    promptTokens: response.prompt_eval_count,
+    completionTokens: response.eval_count,
+    totalDurationMs: toMs(response.total_duration),
+    loadDurationMs: toMs(response.load_duration),
+    promptDurationMs: toMs(response.prompt_eval_duration),
+    evalDurationMs: toMs(response.eval_duration),
+  };
+  return { ...metrics, tokensPerSecond: getTokensPerSecond(metrics) };
+}
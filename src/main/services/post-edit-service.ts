@@ -0,0 +1,129 @@
+import { randomUUID } from "node:crypto";
+import type {
+  ModelPostEditStatistics,
+  PostEdit,
+  PostEditInput,
+  PostEditSettings,
+  PostEditSettingsUpdate,
+  PostEditStatistics,
+} from "../../shared/domain/post-edit.js";
+import { PostEditInput as PostEditInputSchema } from "../../shared/domain/post-edit.js";
+import type { PostEditRepository } from "../repository/post-edit-repository.js";
+import { editSimilarity } from "./text-similarity.js";
+import type { TranslationMemoryService } from "./translation-memory-service.js";
+
+export interface PostEditService {
+  getSettings(): Promise<PostEditSettings>;
+  updateSettings(changes: PostEditSettingsUpdate): Promise<PostEditSettings>;
+  /**
+   * Store a corrected machine translation, and add it to the translation
+   * memory if configured. Does nothing while capture is disabled or when
+   * the text was not changed.
+   */
+  record(input: PostEditInput): Promise<PostEdit | undefined>;
+  /** Newest first */
+  list(): Promise<PostEdit[]>;
+  deleteEntry(id: string): Promise<void>;
+  purge(): Promise<void>;
+  getStatistics(): Promise<PostEditStatistics>;
+}
+
+function averageEditPercent(postEdits: PostEdit[]): number {
+  if (postEdits.length === 0) return 0;
+
+  const total = postEdits.reduce(
+    (sum, { editPercent }) => sum + editPercent,
+    0,
+  );
+  return Math.round((total / postEdits.length) * 10) / 10;
+}
+
+export class PostEditServiceImpl implements PostEditService {
+  constructor(
+    private readonly repository: PostEditRepository,
+    private readonly translationMemoryService: TranslationMemoryService,
+  ) {}
+
+  async getSettings(): Promise<PostEditSettings> {
+    return this.repository.getSettings();
+  }
+
+  async updateSettings(
+    changes: PostEditSettingsUpdate,
+  ): Promise<PostEditSettings> {
+    const current = await this.repository.getSettings();
+    return this.repository.saveSettings({ ...current, ...changes });
+  }
+
+  async record(input: PostEditInput): Promise<PostEdit | undefined> {
+    const settings = await this.repository.getSettings();
+    if (!settings.enabled) return undefined;
+
+    const parsed = PostEditInputSchema.parse(input);
+    if (parsed.editedText === parsed.machineText) return undefined;
+
+    const postEdit = await this.repository.save({
+      ...parsed,
+      id: randomUUID(),
+      editPercent: Math.round(
+        (1 - editSimilarity(parsed.machineText, parsed.editedText)) * 100,
+      ),
+      createdAt: new Date().toISOString(),
+    });
+
+    if (
+      settings.addToTranslationMemory &&
+      parsed.sourceLanguage !== parsed.targetLanguage
+    ) {
+      await this.translationMemoryService.addEntry({
+        sourceLanguage: parsed.sourceLanguage,
+        targetLanguage: parsed.targetLanguage,
+        sourceText: parsed.sourceText,
+        targetText: parsed.editedText,
+      });
+    }
+    return postEdit;
+  }
+
+  async list(): Promise<PostEdit[]> {
+    return (await this.repository.findAll()).reverse();
+  }
+
+  async deleteEntry(id: string): Promise<void> {
+    await this.repository.delete(id);
+  }
+
+  async purge(): Promise<void> {
+    await this.repository.replaceAll([]);
+  }
+
+  async getStatistics(): Promise<PostEditStatistics> {
+    const postEdits = await this.repository.findAll();
+
+    const byModel = new Map<string, PostEdit[]>();
+    for (const postEdit of postEdits) {
+      byModel.set(postEdit.modelName, [
+        ...(byModel.get(postEdit.modelName) ?? []),
+        postEdit,
+      ]);
+    }
+
+    const models: ModelPostEditStatistics[] = [...byModel].map(
+      ([modelName, modelPostEdits]) => ({
+        modelName,
+        postEdits: modelPostEdits.length,
+        averageEditPercent: averageEditPercent(modelPostEdits),
+      }),
+    );
+
+    return {
+      postEdits: postEdits.length,
+      averageEditPercent: averageEditPercent(postEdits),
+      models: models.sort(
+        (a, b) =>
+          a.averageEditPercent - b.averageEditPercent ||
+          a.modelName.localeCompare(b.modelName),
+      ),
+    };
+  }
+}
@@ -0,0 +1,435 @@
+import { NotFoundError, ValidationError } from "#shared/errors.js";
+import { randomUUID } from "node:crypto";
+import type { GlossaryEntry } from "../../shared/domain/glossary.js";
+import { getExpectedTargetTerm } from "../../shared/domain/glossary.js";
+import type { OllamaChatMessage } from "../../shared/domain/ollama.js";
+import type {
+  PromptTemplate,
+  PromptTemplateInput,
+  PromptTemplateRef,
+  PromptTemplateScope,
+  PromptTemplateSettings,
+  PromptTemplateVariable,
+  PromptTemplateVariables,
+} from "../../shared/domain/prompt-template.js";
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  DEFAULT_PROMPT_TEMPLATE_ID,
+  getLanguagePairKey,
+  renderPromptTemplate,
+} from "../../shared/domain/prompt-template.js";
+import type {
+  Formality,
+  SupportedLanguage,
+  TranslationDomain,
+  TranslationMemoryMatch,
+} from "../../shared/domain/translation.js";
+import {
+  getLanguageName,
+  getLanguageNativeName,
+} from "../../shared/domain/translation.js";
+import type { PromptTemplateRepository } from "../repository/prompt-template-repository.js";
+import { containsPlaceholders } from "./text-protection.js";
+
+export interface PromptContext {
+  text: string;
+  sourceLanguage: SupportedLanguage;
+  targetLanguage: SupportedLanguage;
+  context?: string;
+  glossaryEntries?: GlossaryEntry[];
+  /** Similar approved translations, given to the model as references */
+  translationMemoryMatches?: TranslationMemoryMatch[];
+  formality?: Formality;
+  domain?: TranslationDomain;
+}
+
+export interface RenderedPrompt {
+  messages: OllamaChatMessage[];
+  template: PromptTemplateRef;
+}
+
+export interface PromptTemplateService {
+  getSettings(): Promise<PromptTemplateSettings>;
+  getTemplate(id: string): Promise<PromptTemplate>;
+  createTemplate(input: PromptTemplateInput): Promise<PromptTemplate>;
+  updateTemplate(
+    id: string,
+    changes: Partial<PromptTemplateInput>,
+  ): Promise<PromptTemplate>;
+  deleteTemplate(id: string): Promise<PromptTemplateSettings>;
+  resetTemplate(id: string): Promise<PromptTemplate>;
+  assignTemplate(
+    scope: PromptTemplateScope,
+    templateId: string | null,
+  ): Promise<PromptTemplateSettings>;
+  resolveTemplate(
+    modelName: string | undefined,
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+  ): Promise<PromptTemplate>;
+  renderMessages(
+    template: Pick<PromptTemplate, "systemPrompt" | "userPrompt">,
+    prompt: PromptContext,
+  ): OllamaChatMessage[];
+  buildPrompt(
+    modelName: string | undefined,
+    prompt: PromptContext,
+  ): Promise<RenderedPrompt>;
+}
+
+export class PromptTemplateServiceImpl implements PromptTemplateService {
+  constructor(private readonly repository: PromptTemplateRepository) {}
+
+  async getSettings(): Promise<PromptTemplateSettings> {
+    return this.repository.getSettings();
+  }
+
+  async getTemplate(id: string): Promise<PromptTemplate> {
+    return this.findTemplate(await this.repository.getSettings(), id);
+  }
+
+  async createTemplate(input: PromptTemplateInput): Promise<PromptTemplate> {
+    const settings = await this.repository.getSettings();
+    const template: PromptTemplate = {
+      ...input,
+      id: randomUUID(),
+      version: 1,
+      isBuiltIn: false,
+      updatedAt: new Date().toISOString(),
+    };
+
+    settings.templates.push(template);
+    await this.repository.saveSettings(settings);
+    return template;
+  }
+
+  async updateTemplate(
+    id: string,
+    changes: Partial<PromptTemplateInput>,
+  ): Promise<PromptTemplate> {
+    return this.replaceTemplate(id, (template) => ({
+      ...template,
+      ...changes,
+    }));
+  }
+
+  async deleteTemplate(id: string): Promise<PromptTemplateSettings> {
+    const settings = await this.repository.getSettings();
+    const template = this.findTemplate(settings, id);
+
+    if (template.isBuiltIn) {
+      throw new ValidationError(
+        `Built-in template "${template.name}" cannot be deleted`,
+      );
+    }
+
+    // Drop assignments that point at the deleted template
+    const withoutTemplate = (
+      assignments: Record<string, string>,
+    ): Record<string, string> =>
+      Object.fromEntries(
+        Object.entries(assignments).filter(
+          ([, templateId]) => templateId !== id,
+        ),
+      );
+
+    return this.repository.saveSettings({
+      templates: settings.templates.filter((t) => t.id !== id),
+      defaultTemplateId:
+        settings.defaultTemplateId === id
+          ? DEFAULT_PROMPT_TEMPLATE_ID
+          : settings.defaultTemplateId,
+      modelTemplates: withoutTemplate(settings.modelTemplates),
+      languagePairTemplates: withoutTemplate(settings.languagePairTemplates),
+    });
+  }
+
+  /**
+   * Restore a built-in template to its shipped content.
+   * The version still increases so earlier results stay distinguishable.
+   */
+  async resetTemplate(id: string): Promise<PromptTemplate> {
+    if (id !== DEFAULT_PROMPT_TEMPLATE_ID) {
+      throw new ValidationError("Only built-in templates can be reset");
+    }
+
+    return this.replaceTemplate(id, (template) => ({
+      ...template,
+      name: DEFAULT_PROMPT_TEMPLATE.name,
+      systemPrompt: DEFAULT_PROMPT_TEMPLATE.systemPrompt,
+      userPrompt: DEFAULT_PROMPT_TEMPLATE.userPrompt,
+    }));
+  }
+
+  async assignTemplate(
+    scope: PromptTemplateScope,
+    templateId: string | null,
+  ): Promise<PromptTemplateSettings> {
+    const settings = await this.repository.getSettings();
+    if (templateId !== null) {
+      this.findTemplate(settings, templateId);
+    }
+
+    const assign = (
+      assignments: Record<string, string>,
+      key: string,
+    ): Record<string, string> => {
+      const rest = Object.fromEntries(
+        Object.entries(assignments).filter(([k]) => k !== key),
+      );
+      return templateId === null ? rest : { ...rest, [key]: templateId };
+    };
+
+    switch (scope.type) {
+      case "default":
+        settings.defaultTemplateId = templateId ?? DEFAULT_PROMPT_TEMPLATE_ID;
+        break;
+      case "model":
+        settings.modelTemplates = assign(
+          settings.modelTemplates,
+          scope.modelName,
+        );
+        break;
+      case "languagePair":
+        settings.languagePairTemplates = assign(
+          settings.languagePairTemplates,
+          getLanguagePairKey(scope.sourceLanguage, scope.targetLanguage),
+        );
+        break;
+    }
+
+    return this.repository.saveSettings(settings);
+  }
+
+  /**
+   * Template for a translation: the language pair assignment wins over the
+   * model assignment, which wins over the default template
+   */
+  async resolveTemplate(
+    modelName: string | undefined,
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+  ): Promise<PromptTemplate> {
+    const settings = await this.repository.getSettings();
+    const candidates = [
+      settings.languagePairTemplates[
+        getLanguagePairKey(sourceLanguage, targetLanguage)
+      ],
+      modelName ? settings.modelTemplates[modelName] : undefined,
+      settings.defaultTemplateId,
+      DEFAULT_PROMPT_TEMPLATE_ID,
+    ];
+
+    for (const id of candidates) {
+      const template = settings.templates.find((t) => t.id === id);
+      if (template) return template;
+    }
+
+    // The repository always provides the built-in default
+    throw new NotFoundError("Prompt template", DEFAULT_PROMPT_TEMPLATE_ID);
+  }
+
+  renderMessages(
+    template: Pick<PromptTemplate, "systemPrompt" | "userPrompt">,
+    prompt: PromptContext,
+  ): OllamaChatMessage[] {
+    const variables = createPromptVariables(prompt);
+    const systemPrompt = [
+      renderPromptTemplate(template.systemPrompt, variables).trim(),
+      ...getUnplacedInstructions(template, variables),
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+    const userPrompt = renderPromptTemplate(template.userPrompt, variables);
+
+    return [
+      ...(systemPrompt
+        ? [{ role: "system" as const, content: systemPrompt }]
+        : []),
+      { role: "user" as const, content: userPrompt },
+    ];
+  }
+
+  async buildPrompt(
+    modelName: string | undefined,
+    prompt: PromptContext,
+  ): Promise<RenderedPrompt> {
+    const template = await this.resolveTemplate(
+      modelName,
+      prompt.sourceLanguage,
+      prompt.targetLanguage,
+    );
+
+    return {
+      messages: this.renderMessages(template, prompt),
+      template: {
+        id: template.id,
+        name: template.name,
+        version: template.version,
+      },
+    };
+  }
+
+  private findTemplate(
+    settings: PromptTemplateSettings,
+    id: string,
+  ): PromptTemplate {
+    const template = settings.templates.find((t) => t.id === id);
+    if (!template) {
+      throw new NotFoundError("Prompt template", id);
+    }
+    return template;
+  }
+
+  private async replaceTemplate(
+    id: string,
+    update: (template: PromptTemplate) => PromptTemplate,
+  ): Promise<PromptTemplate> {
+    const settings = await this.repository.getSettings();
+    const current = this.findTemplate(settings, id);
+    const updated: PromptTemplate = {
+      ...update(current),
+      id,
+      isBuiltIn: current.isBuiltIn,
+      version: current.version + 1,
+      updatedAt: new Date().toISOString(),
+    };
+
+    settings.templates = settings.templates.map((t) =>
+      t.id === id ? updated : t,
+    );
+    await this.repository.saveSettings(settings);
+    return updated;
+  }
+}
+
+/**
+ * Variables carrying instructions for settings the user turned on. A
+ * template without a slot for one still gets it after its system prompt,
+ * so custom or outdated templates cannot silently drop a setting.
+ */
+const REQUIRED_INSTRUCTION_VARIABLES: readonly PromptTemplateVariable[] = [
+  "glossary",
+  "translationMemory",
+  "formality",
+  "domain",
+  "placeholders",
+];
+
+function getUnplacedInstructions(
+  template: Pick<PromptTemplate, "systemPrompt" | "userPrompt">,
+  variables: PromptTemplateVariables,
+): string[] {
+  const text = template.systemPrompt + template.userPrompt;
+  return REQUIRED_INSTRUCTION_VARIABLES.filter(
+    (name) => !text.includes(`{{${name}}}`),
+  )
+    .map((name) => variables[name])
+    .filter((instructions) => instructions.trim());
+}
+
+function createPromptVariables(prompt: PromptContext): PromptTemplateVariables {
+  return {
+    sourceLanguage: describeLanguage(prompt.sourceLanguage),
+    targetLanguage: describeLanguage(prompt.targetLanguage),
+    sourceLanguageCode: prompt.sourceLanguage,
+    targetLanguageCode: prompt.targetLanguage,
+    text: prompt.text,
+    context: prompt.context?.trim() ?? "",
+    glossary: createGlossaryInstructions(prompt.glossaryEntries ?? []),
+    translationMemory: createTranslationMemoryReferences(
+      prompt.translationMemoryMatches ?? [],
+    ),
+    formality: createFormalityInstructions(
+      prompt.formality,
+      prompt.targetLanguage,
+    ),
+    domain: prompt.domain ? DOMAIN_INSTRUCTIONS[prompt.domain] : "",
+    placeholders: containsPlaceholders(prompt.text)
+      ? PLACEHOLDER_INSTRUCTIONS
+      : "",
+  };
+}
+
+/** Placeholders stand for code, markup and URLs masked before prompting */
+const PLACEHOLDER_INSTRUCTIONS =
+  'The text contains placeholders such as <ph id="1"/>. Copy every placeholder unchanged, exactly once, to the place where it belongs in the translation.';
+
+/** Japanese registers: plain form, です/ます and full keigo */
+const JAPANESE_FORMALITY_INSTRUCTIONS: Record<Formality, string> = {
+  casual:
+    "Use casual Japanese in the plain form (普通体, e.g. だ/する), as between friends.",
+  polite: "Use polite Japanese (丁寧語) with です/ます endings.",
+  formal:
+    "Use formal Japanese with full keigo: 尊敬語 for the reader's actions and 謙譲語 for the writer's own, as in business correspondence.",
+};
+
+const FORMALITY_INSTRUCTIONS: Record<Formality, string> = {
+  casual: "Use a casual, conversational tone.",
+  polite: "Use a polite, neutral tone.",
+  formal: "Use a formal tone suitable for business correspondence.",
+};
+
+const DOMAIN_INSTRUCTIONS: Record<TranslationDomain, string> = {
+  general: "",
+  legal:
+    "This is a legal text: keep the wording precise and use established legal terminology.",
+  technical:
+    "This is a technical text: use standard technical terminology and keep code, commands and identifiers unchanged.",
+  marketing:
+    "This is marketing copy: make it persuasive and natural for the target audience rather than literal.",
+  chat: "This is a chat message: keep it short and natural, as people would write when messaging.",
+};
+
+function createFormalityInstructions(
+  formality: Formality | undefined,
+  targetLanguage: SupportedLanguage,
+): string {
+  if (!formality) return "";
+  return targetLanguage === "ja"
+    ? JAPANESE_FORMALITY_INSTRUCTIONS[formality]
+    : FORMALITY_INSTRUCTIONS[formality];
+}
+
+/**
+ * Language name for prompts, with the native name to disambiguate
+ * regional variants (e.g. "Portuguese (Brazil) / Português (Brasil)")
+ */
+function describeLanguage(languageCode: SupportedLanguage): string {
+  const name = getLanguageName(languageCode);
+  const nativeName = getLanguageNativeName(languageCode);
+  return name === nativeName ? name : `${name} / ${nativeName}`;
+}
+
+/**
+ * Terminology block listing the glossary entries found in the source text
+ */
+function createGlossaryInstructions(entries: GlossaryEntry[]): string {
+  if (entries.length === 0) return "";
+
+  const lines = entries.map((entry) =>
+    entry.doNotTranslate
+      ? `- "${entry.sourceTerm}" → keep as "${entry.sourceTerm}" (do not translate)`
+      : `- "${entry.sourceTerm}" → "${getExpectedTargetTerm(entry)}"`,
+  );
+
+  return `Use the following terminology exactly as given:
+${lines.join("\n")}`;
+}
+
+/**
+ * Reference block with approved translations of similar source texts
+ */
+function createTranslationMemoryReferences(
+  matches: TranslationMemoryMatch[],
+): string {
+  if (matches.length === 0) return "";
+
+  const references = matches.map(
+    (match) =>
+      `Source (${match.matchPercent}% similar): ${match.sourceText}\nTranslation: ${match.targetText}`,
+  );
+
+  return `Approved translations of similar texts, to reuse where they fit:
+${references.join("\n\n")}`;
+}
@@ -0,0 +1,206 @@
+import { ValidationError } from "#shared/errors.js";
+import type { SubtitleFormat } from "../../shared/domain/subtitle.js";
+
+export interface SubtitleCue {
+  /** Cue number (SRT) or optional identifier (WebVTT), kept verbatim */
+  identifier?: string;
+  /** Timing line, including any WebVTT cue settings, kept verbatim */
+  timing: string;
+  /** Cue text; lines are separated by "\n" */
+  text: string;
+}
+
+/** WebVTT header, NOTE, STYLE and REGION blocks are written back untouched */
+export type SubtitleBlock =
+  | { type: "cue"; cue: SubtitleCue }
+  | { type: "raw"; text: string };
+
+export interface SubtitleDocument {
+  format: SubtitleFormat;
+  blocks: SubtitleBlock[];
+  /** Line ending of the source file, reused when writing */
+  lineEnding: "\n" | "\r\n";
+}
+
+/**
+ * Styling that must survive translation: HTML-like tags such as <i>,
+ * <font color="...">, WebVTT <c.class>, <v Speaker> and inline timestamps,
+ * and SSA overrides such as {\an8}
+ */
+const SUBTITLE_TAG_PATTERN = /<\/?[^<>\s][^<>]*>|\{\\[^{}]*\}/g;
+
+const TIMING_SEPARATOR = "-->";
+
+export function detectSubtitleFormat(content: string): SubtitleFormat {
+  return /^\uFEFF?WEBVTT(?:[ \t]|\r?\n|$)/.test(content) ? "vtt" : "srt";
+}
+
+export function parseSubtitles(
+  content: string,
+  format: SubtitleFormat = detectSubtitleFormat(content),
+): SubtitleDocument {
+  const text = content.replace(/^\uFEFF/, "");
+  const lineEnding = text.includes("\r\n") ? "\r\n" : "\n";
+  const blocks = text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/)
+    .map((block) => block.replace(/^\n+|\n+$/g, ""))
+    .filter((block) => block.trim() !== "");
+
+  if (format === "vtt" && !blocks[0]?.startsWith("WEBVTT")) {
+    throw new ValidationError("WebVTT file must start with WEBVTT");
+  }
+
+  const parsed = blocks.map((block, index): SubtitleBlock => {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) =>
+      line.includes(TIMING_SEPARATOR),
+    );
+
+    const isVttMetadata =
+      format === "vtt" &&
+      (index === 0 || /^(?:NOTE|STYLE|REGION)(?:[ \t]|$)/.test(lines[0]));
+    // Cue timings come first, after at most one identifier line
+    if (isVttMetadata || timingIndex === -1 || timingIndex > 1) {
+      if (format === "srt") {
+        throw new ValidationError(
+          `Subtitle block ${index + 1} has no timing line`,
+        );
+      }
+      return { type: "raw", text: block };
+    }
+
+    return {
+      type: "cue",
+      cue: {
+        identifier: timingIndex === 1 ? lines[0] : undefined,
+        timing: lines[timingIndex],
+        text: lines.slice(timingIndex + 1).join("\n"),
+      },
+    };
+  });
+
+  if (!parsed.some((block) => block.type === "cue")) {
+    throw new ValidationError("Subtitle file contains no cues");
+  }
+  return { format, blocks: parsed, lineEnding };
+}
+
+export function getSubtitleCues(document: SubtitleDocument): SubtitleCue[] {
+  return document.blocks.flatMap((block) =>
+    block.type === "cue" ? [block.cue] : [],
+  );
+}
+
+/**
+ * Write a subtitle file with new cue texts, in cue order.
+ * Identifiers, timings and other blocks are written exactly as parsed.
+ */
+export function serializeSubtitles(
+  document: SubtitleDocument,
+  cueTexts: string[],
+): string {
+  let cueIndex = 0;
+  const blocks = document.blocks.map((block) => {
+    if (block.type === "raw") return block.text;
+
+    const { identifier, timing, text } = block.cue;
+    const cueText = cueTexts[cueIndex++] ?? text;
+    return [identifier, timing, cueText]
+      .filter((line) => line !== undefined && line !== "")
+      .join("\n");
+  });
+
+  return `${blocks.join("\n\n")}\n`.replace(/\n/g, document.lineEnding);
+}
+
+export function extractSubtitleTags(text: string): string[] {
+  return text.match(SUBTITLE_TAG_PATTERN) ?? [];
+}
+
+/**
+ * Wrap styling tags in {{notranslate}} markers so the translation service
+ * hands them to the model as placeholders
+ */
+export function protectSubtitleTags(text: string): string {
+  return text.replace(
+    SUBTITLE_TAG_PATTERN,
+    (tag) => `{{notranslate}}${tag}{{/notranslate}}`,
+  );
+}
+
+/** Whether every line of a cue is a dialogue line starting with a dash */
+export function isDialogueCue(text: string): boolean {
+  const lines = text.split("\n");
+  return lines.length > 1 && lines.every((line) => /^\s*[-‐–—]/.test(line));
+}
+
+/**
+ * Break text into lines of at most `maxLength` characters, not counting
+ * tags. Existing line breaks are kept. Text without spaces, such as
+ * Japanese, may break between any two characters; longer words get a line
+ * of their own.
+ */
+export function wrapSubtitleText(text: string, maxLength: number): string[] {
+  return text.split("\n").flatMap((line) => wrapLine(line, maxLength));
+}
+
+/** Visible width of subtitle text, ignoring tags */
+export function getSubtitleTextWidth(text: string): number {
+  return Array.from(text.replace(SUBTITLE_TAG_PATTERN, "")).length;
+}
+
+function wrapLine(line: string, maxLength: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+  let width = 0;
+  let pendingSpace = false;
+  // Opening tags move to the next line together with the word they style
+  let pendingTags = "";
+
+  // Tags, spaces, words, or single characters of scripts without spaces
+  const units =
+    line.match(
+      /<\/?[^<>\s][^<>]*>|\{\\[^{}]*\}|\s+|[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]|[^\s<{\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]+|[<{]/gu,
+    ) ?? [];
+
+  for (const unit of units) {
+    if (/^\s+$/.test(unit)) {
+      pendingSpace = current !== "" || pendingTags !== "";
+      continue;
+    }
+
+    const unitWidth = getSubtitleTextWidth(unit);
+    if (unitWidth === 0) {
+      if (unit.startsWith("</")) {
+        current += unit;
+      } else {
+        pendingTags += (pendingSpace && current !== "" ? " " : "") + unit;
+        pendingSpace = false;
+      }
+      continue;
+    }
+
+    const separator = pendingSpace || /^ /.test(pendingTags) ? 1 : 0;
+    if (width > 0 && width + separator + unitWidth > maxLength) {
+      lines.push(current);
+      current = "";
+      width = 0;
+      pendingTags = pendingTags.trimStart();
+    } else if (pendingSpace) {
+      current += " ";
+      width += 1;
+    } else if (separator) {
+      width += 1;
+    }
+    pendingSpace = false;
+
+    current += pendingTags + unit;
+    pendingTags = "";
+    width += unitWidth;
+  }
+
+  current += pendingTags;
+  if (current !== "" || lines.length === 0) lines.push(current);
+  return lines;
+}
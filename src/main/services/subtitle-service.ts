@@ -0,0 +1,244 @@
+import { describeError } from "#shared/errors.js";
+import type {
+  SubtitleCueIssue,
+  SubtitleTranslationEvent,
+  SubtitleTranslationRequest,
+} from "../../shared/domain/subtitle.js";
+import type { SubtitleCue } from "./subtitle-format.js";
+import {
+  extractSubtitleTags,
+  getSubtitleCues,
+  isDialogueCue,
+  parseSubtitles,
+  protectSubtitleTags,
+  serializeSubtitles,
+  wrapSubtitleText,
+} from "./subtitle-format.js";
+import type { TranslationService } from "./translation-service.js";
+
+/** Cues translated together, so sentences spanning cues stay whole */
+const CUE_WINDOW_SIZE = 6;
+
+/** Earlier cues shown to the model as context for the next window */
+const CONTEXT_CUE_COUNT = 2;
+
+/** Separates cues in a window; the model sees it as a placeholder */
+const cueMarker = (index: number): string =>
+  `{{notranslate}}[[cue ${index}]]{{/notranslate}}`;
+
+const CUE_MARKER_PATTERN = /\[\[cue (\d+)\]\]/g;
+
+export interface SubtitleService {
+  /**
+   * Translate the cues of an SRT or WebVTT file in windows of neighbouring
+   * cues. Yields progress after each window and a final "done" event with
+   * the translated file. Timings, numbering and styling tags are kept and
+   * cue text is rewrapped to the requested line length.
+   */
+  translateSubtitles(
+    request: SubtitleTranslationRequest,
+    signal?: AbortSignal,
+  ): AsyncGenerator<SubtitleTranslationEvent, void, unknown>;
+}
+
+export class SubtitleServiceImpl implements SubtitleService {
+  constructor(private readonly translationService: TranslationService) {}
+
+  async *translateSubtitles(
+    request: SubtitleTranslationRequest,
+    signal?: AbortSignal,
+  ): AsyncGenerator<SubtitleTranslationEvent, void, unknown> {
+    const document = parseSubtitles(request.content, request.format);
+    const cues = getSubtitleCues(document);
+    const cueTexts = cues.map((cue) => cue.text);
+    const issues: SubtitleCueIssue[] = [];
+    let translatedCues = 0;
+
+    yield { type: "progress", completedCues: 0, totalCues: cues.length };
+
+    for (let start = 0; start < cues.length; start += CUE_WINDOW_SIZE) {
+      signal?.throwIfAborted();
+
+      const window = cues.slice(start, start + CUE_WINDOW_SIZE);
+      const previous = cues.slice(
+        Math.max(0, start - CONTEXT_CUE_COUNT),
+        start,
+      );
+      const translations = await this.translateWindow(
+        window,
+        previous,
+        request,
+        signal,
+      );
+
+      translations.forEach((translation, offset) => {
+        const index = start + offset;
+        const cue = cues[index];
+        const issue = (
+          reason: SubtitleCueIssue["reason"],
+          error?: string,
+        ): void => {
+          issues.push({ cue: index + 1, timing: cue.timing, reason, error });
+        };
+
+        if ("error" in translation) {
+          issue("translation_failed", translation.error);
+          return;
+        }
+
+        const lines = wrapSubtitleText(translation.text, request.maxLineLength);
+        cueTexts[index] = lines.join("\n");
+        translatedCues++;
+
+        if (!haveSameTags(cue.text, translation.text)) {
+          issue("tags_changed");
+        }
+        if (lines.length > request.maxLinesPerCue) {
+          issue("too_long");
+        }
+      });
+
+      yield {
+        type: "progress",
+        completedCues: start + window.length,
+        totalCues: cues.length,
+      };
+    }
+
+    yield {
+      type: "done",
+      result: {
+        content: serializeSubtitles(document, cueTexts),
+        format: document.format,
+        totalCues: cues.length,
+        translatedCues,
+        issues,
+      },
+    };
+  }
+
+  /**
+   * Translate a window of cues in one request, falling back to one cue at a
+   * time when the model merges, drops or reorders cue markers
+   */
+  private async translateWindow(
+    window: SubtitleCue[],
+    previous: SubtitleCue[],
+    request: SubtitleTranslationRequest,
+    signal?: AbortSignal,
+  ): Promise<({ text: string } | { error: string })[]> {
+    const texts = window.map((cue) => toTranslatableText(cue.text));
+    const translatable = texts.filter((text) => /\p{L}/u.test(text));
+
+    if (translatable.length > 1) {
+      try {
+        const translated = await this.translate(
+          texts
+            .map((text, index) => `${cueMarker(index + 1)} ${text}`)
+            .join("\n"),
+          previous,
+          request,
+          signal,
+        );
+        const split = splitByCueMarkers(translated, window.length);
+        if (split) return split.map((text) => ({ text }));
+      } catch (error) {
+        if (signal?.aborted) throw error;
+      }
+    }
+
+    const results: ({ text: string } | { error: string })[] = [];
+    for (const [index, text] of texts.entries()) {
+      if (!/\p{L}/u.test(text)) {
+        results.push({ text: window[index].text });
+        continue;
+      }
+      try {
+        const context = [...previous, ...window.slice(0, index)].slice(
+          -CONTEXT_CUE_COUNT,
+        );
+        results.push({
+          text: (await this.translate(text, context, request, signal)).trim(),
+        });
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        results.push({ error: describeError(error) });
+      }
+    }
+    return results;
+  }
+
+  private async translate(
+    text: string,
+    previous: SubtitleCue[],
+    request: SubtitleTranslationRequest,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const context = [
+      "Video subtitles. Keep each subtitle short enough to read while it is on screen, " +
+        `at most ${request.maxLineLength * request.maxLinesPerCue} characters.`,
+      previous.length > 0 &&
+        `Previous subtitles:\n${previous.map((cue) => cue.text).join("\n")}`,
+      request.context,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+
+    const response = await this.translationService.translate(
+      {
+        text,
+        sourceLanguage: request.sourceLanguage,
+        targetLanguage: request.targetLanguage,
+        modelName: request.modelName,
+        context,
+        formality: request.formality,
+        domain: request.domain,
+        // Batch work yields to interactive translations
+        priority: "low",
+      },
+      signal,
+    );
+    return response.translatedText;
+  }
+}
+
+/**
+ * Cue text as sent to the model: lines of a cue are usually one sentence
+ * and get rewrapped afterwards, but dialogue lines stay separate
+ */
+function toTranslatableText(text: string): string {
+  const joined = isDialogueCue(text)
+    ? text
+    : text
+        .split("\n")
+        .map((line) => line.trim())
+        .join(" ");
+  return protectSubtitleTags(joined);
+}
+
+/** Cue texts of a translated window, or null unless every marker is in order */
+function splitByCueMarkers(text: string, count: number): string[] | null {
+  const markers = Array.from(text.matchAll(CUE_MARKER_PATTERN));
+  if (
+    markers.length !== count ||
+    markers.some((marker, index) => Number(marker[1]) !== index + 1) ||
+    text.slice(0, markers[0].index).trim() !== ""
+  ) {
+    return null;
+  }
+
+  return markers.map((marker, index) =>
+    text
+      .slice(marker.index + marker[0].length, markers[index + 1]?.index)
+      .trim(),
+  );
+}
+
+function haveSameTags(source: string, translation: string): boolean {
+  const sourceTags = extractSubtitleTags(source).sort();
+  const translationTags = extractSubtitleTags(translation).sort();
+  return (
+    sourceTags.length === translationTags.length &&
+    sourceTags.every((tag, index) => tag === translationTags[index])
+  );
+}
@@ -0,0 +1,114 @@
+import type {
+  SentenceAlignment,
+  TextRange,
+} from "../../shared/domain/translation.js";
+import type { TextSegment } from "./text-segmenter.js";
+
+/** Private-use characters marking segment bounds while texts are rebuilt */
+const SEGMENT_START = "\uE000";
+const SEGMENT_END = "\uE001";
+
+export interface AlignmentInput {
+  /** Segments of the source, as translated */
+  segments: TextSegment[];
+  /** Model output for each segment */
+  translations: string[];
+  /** The source as the user wrote it */
+  sourceText: string;
+  /** The final translation */
+  translatedText: string;
+  /** Turns the joined segments back into the source, e.g. unmasking spans */
+  renderSource: (text: string) => string;
+  /** Turns the joined translations into the final translation */
+  renderTarget: (text: string) => string;
+}
+
+/**
+ * Pair each source segment with its translation as character ranges in the
+ * source and in the final translation.
+ * Both sides are rebuilt with markers around every segment and put through
+ * the same steps as the real texts, so restored placeholders and trimmed
+ * whitespace shift the ranges correctly. Undefined when the rebuilt texts
+ * do not match, rather than pointing at the wrong sentences.
+ */
+export function alignSegments({
+  segments,
+  translations,
+  sourceText,
+  translatedText,
+  renderSource,
+  renderTarget,
+}: AlignmentInput): SentenceAlignment[] | undefined {
+  const sourceRanges = locateSegments(
+    renderSource(
+      markSegments(
+        segments,
+        segments.map((segment) => segment.text),
+      ),
+    ),
+    sourceText,
+  );
+  const targetRanges = locateSegments(
+    renderTarget(
+      markSegments(
+        segments,
+        segments.map((_, index) => (translations[index] ?? "").trim()),
+      ),
+    ),
+    translatedText,
+  );
+
+  if (
+    !sourceRanges ||
+    !targetRanges ||
+    sourceRanges.length !== segments.length ||
+    targetRanges.length !== segments.length
+  ) {
+    return undefined;
+  }
+
+  return sourceRanges.map((source, index) => ({
+    source,
+    target: targetRanges[index],
+  }));
+}
+
+function markSegments(segments: TextSegment[], texts: string[]): string {
+  return segments
+    .map(
+      (segment, index) =>
+        segment.leading +
+        SEGMENT_START +
+        texts[index] +
+        SEGMENT_END +
+        segment.trailing,
+    )
+    .join("");
+}
+
+/**
+ * Ranges between the markers of `marked`, provided the text without
+ * markers is `expected`
+ */
+function locateSegments(
+  marked: string,
+  expected: string,
+): TextRange[] | undefined {
+  const ranges: TextRange[] = [];
+  let text = "";
+  let start: number | undefined;
+
+  for (const piece of marked.split(/([\uE000\uE001])/)) {
+    if (piece === SEGMENT_START) {
+      start = text.length;
+    } else if (piece === SEGMENT_END) {
+      if (start === undefined) return undefined;
+      ranges.push({ start, end: text.length });
+      start = undefined;
+    } else {
+      text += piece;
+    }
+  }
+
+  return text === expected ? ranges : undefined;
+}
@@ -0,0 +1,193 @@
+/**
+ * Spans kept out of the model's reach, tried in order: explicit
+ * {{notranslate}}...{{/notranslate}} markers, fenced and inline code,
+ * HTML comments and tags, URLs and e-mail addresses.
+ * A pattern's first capture group, when present, is the text to restore.
+ */
+const PROTECTED_PATTERNS = [
+  /\{\{notranslate\}\}([\s\S]*?)\{\{\/notranslate\}\}/g,
+  /^[ \t]*(?:`{3,}|~{3,})[^\n]*\n[\s\S]*?\n[ \t]*(?:`{3,}|~{3,})[ \t]*$/gm,
+  /`[^`\n]+`/g,
+  /<!--[\s\S]*?-->/g,
+  /<\/?[A-Za-z][\w:-]*(?:\s[^<>]*)?\/?>/g,
+  /\b(?:https?:\/\/|ftp:\/\/|www\.)[^\s<>"'`]+/gi,
+  /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g,
+];
+
+/**
+ * Placeholders as the model might write them back: attribute quoting,
+ * spacing and closing style vary between models
+ */
+const PLACEHOLDER_PATTERN =
+  /<ph\s+id\s*=\s*["']?(\d+)["']?\s*\/?>(?:\s*<\/ph>)?/gi;
+
+/** Longest text a placeholder can be written as, for holding back stream deltas */
+const MAX_PLACEHOLDER_LENGTH = 24;
+
+/** Punctuation that ends a sentence rather than a URL */
+const URL_TRAILING_PUNCTUATION = /[.,;:!?'")\]]+$/;
+
+export interface ProtectedText {
+  /** Text with every protected span replaced by a placeholder */
+  text: string;
+  /** Original text of each span; placeholder n stands for spans[n - 1] */
+  spans: string[];
+  /** Input each placeholder replaced, including {{notranslate}} markers */
+  originals: string[];
+}
+
+export interface RestoredText {
+  text: string;
+  /** Spans whose placeholder the model dropped */
+  missingSpans: string[];
+}
+
+export function createPlaceholder(index: number): string {
+  return `<ph id="${index + 1}"/>`;
+}
+
+/**
+ * Replace markup, code, URLs and explicitly marked text with numbered
+ * placeholders, so the model translates only the prose around them
+ */
+export function protectText(text: string): ProtectedText {
+  let pieces: { text: string; span?: string }[] = [{ text }];
+
+  for (const pattern of PROTECTED_PATTERNS) {
+    pieces = pieces.flatMap((piece) =>
+      piece.span === undefined ? splitProtected(piece.text, pattern) : [piece],
+    );
+  }
+
+  const spans: string[] = [];
+  const originals: string[] = [];
+  const masked = pieces
+    .map((piece) => {
+      if (piece.span === undefined) return piece.text;
+      spans.push(piece.span);
+      originals.push(piece.text);
+      return createPlaceholder(spans.length - 1);
+    })
+    .join("");
+
+  return { text: masked, spans, originals };
+}
+
+/**
+ * Put the original spans back in place of their placeholders.
+ * Repeated placeholders keep only their first occurrence and unknown ones
+ * are dropped; spans without a placeholder are reported as missing.
+ */
+export function restoreText(text: string, spans: string[]): RestoredText {
+  if (spans.length === 0) return { text, missingSpans: [] };
+
+  const restored = new Set<number>();
+  const result = text.replace(PLACEHOLDER_PATTERN, (_, id: string) => {
+    const index = Number.parseInt(id, 10) - 1;
+    if (index < 0 || index >= spans.length || restored.has(index)) return "";
+    restored.add(index);
+    return spans[index];
+  });
+
+  return {
+    text: result,
+    missingSpans: spans.filter((_, index) => !restored.has(index)),
+  };
+}
+
+/**
+ * Put back the input each placeholder replaced, markers included, so the
+ * result lines up with the text given to protectText
+ */
+export function restoreOriginalText(text: string, originals: string[]): string {
+  return text.replace(
+    PLACEHOLDER_PATTERN,
+    (placeholder, id: string) =>
+      originals[Number.parseInt(id, 10) - 1] ?? placeholder,
+  );
+}
+
+/** Whether text has nothing to translate besides placeholders */
+export function isPlaceholderOnly(text: string): boolean {
+  return text.replace(PLACEHOLDER_PATTERN, "").trim() === "";
+}
+
+export function containsPlaceholders(text: string): boolean {
+  return new RegExp(PLACEHOLDER_PATTERN.source, "i").test(text);
+}
+
+/**
+ * Restores placeholders in streamed text. A delta may end inside a
+ * placeholder, so a trailing "<" that could start one is held back until
+ * the next delta shows how it ends.
+ */
+export class PlaceholderStreamRestorer {
+  private pending = "";
+
+  constructor(private readonly spans: string[]) {}
+
+  push(delta: string): string {
+    if (this.spans.length === 0) return delta;
+
+    const text = this.pending + delta;
+    const start = text.lastIndexOf("<");
+    const holdBack =
+      start !== -1 &&
+      !text.includes(">", start) &&
+      text.length - start < MAX_PLACEHOLDER_LENGTH;
+
+    this.pending = holdBack ? text.slice(start) : "";
+    return this.restore(holdBack ? text.slice(0, start) : text);
+  }
+
+  /** Release whatever is still held back once the stream has ended */
+  flush(): string {
+    const text = this.pending;
+    this.pending = "";
+    return this.restore(text);
+  }
+
+  private restore(text: string): string {
+    return text.replace(PLACEHOLDER_PATTERN, (placeholder, id: string) => {
+      const span = this.spans[Number.parseInt(id, 10) - 1];
+      return span ?? placeholder;
+    });
+  }
+}
+
+function splitProtected(
+  text: string,
+  pattern: RegExp,
+): { text: string; span?: string }[] {
+  const pieces: { text: string; span?: string }[] = [];
+  let position = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    let matched = match[0];
+    if (/^(?:https?:\/\/|ftp:\/\/|www\.)/i.test(matched)) {
+      matched = trimUrl(matched);
+    }
+
+    pieces.push({ text: text.slice(position, match.index) });
+    pieces.push({ text: matched, span: match[1] ?? matched });
+    position = match.index + matched.length;
+  }
+
+  pieces.push({ text: text.slice(position) });
+  return pieces.filter((piece) => piece.span !== undefined || piece.text);
+}
+
+/**
+ * Drop sentence punctuation after a URL, keeping closing parentheses that
+ * belong to it, as in https://en.wikipedia.org/wiki/Kyoto_(city)
+ */
+function trimUrl(url: string): string {
+  let trimmed = url.replace(URL_TRAILING_PUNCTUATION, "");
+  const opening = (trimmed.match(/\(/g) ?? []).length;
+  const closing = (trimmed.match(/\)/g) ?? []).length;
+
+  if (opening > closing && url.slice(trimmed.length).startsWith(")")) {
+    trimmed += ")";
+  }
+  return trimmed;
+}
@@ -0,0 +1,207 @@
+/** Context window assumed when the model does not report one */
+export const DEFAULT_CONTEXT_LENGTH = 2048;
+
+/** Largest context window requested from Ollama, to keep memory use modest */
+export const MAX_CONTEXT_LENGTH = 8192;
+
+/** Segments are never made smaller than this, even for tiny context windows */
+const MIN_SEGMENT_TOKENS = 64;
+
+/** Longer segments translate worse even when they fit the context */
+const MAX_SEGMENT_TOKENS = 1500;
+
+/**
+ * Characters that usually take a whole token each: CJK ideographs, kana,
+ * Hangul, Thai and full-width punctuation
+ */
+const WIDE_CHARACTERS =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}\u3000-\u303f\uff00-\uffef]/gu;
+
+/**
+ * Boundaries to split at, tried in order until every piece fits:
+ * blank lines (paragraphs), line breaks, sentence ends, then clause punctuation
+ */
+const SEGMENT_BOUNDARIES = [
+  /\n[^\S\n]*\n\s*/g,
+  /\n\s*/g,
+  /[.!?…]+["'”’)\]]*\s+|[。！？]+[」』）"”]*\s*/g,
+  /[,;:]\s+|[、，；：]\s*/g,
+];
+
+/** Boundaries up to and including sentence ends */
+const SENTENCE_BOUNDARY_LEVELS = 3;
+
+export interface TextSegment {
+  /** Whitespace before the segment in the original text */
+  leading: string;
+  /** Segment content, without surrounding whitespace */
+  text: string;
+  /** Whitespace after the segment in the original text */
+  trailing: string;
+}
+
+/**
+ * Rough token count without a tokenizer: one token per wide character and
+ * one per four characters of other scripts
+ */
+export function estimateTokens(text: string): number {
+  const wide = text.match(WIDE_CHARACTERS)?.length ?? 0;
+  const other = Array.from(text).length - wide;
+  return wide + Math.ceil(other / 4);
+}
+
+/**
+ * Maximum tokens per segment for a context window.
+ * The prompt is sent with every segment and the translation needs about as
+ * much room again as the source, so a third of the remainder is used.
+ */
+export function getSegmentTokenBudget(
+  contextLength: number,
+  promptTokens: number,
+): number {
+  const budget = Math.floor((contextLength - promptTokens) / 3);
+  return Math.min(MAX_SEGMENT_TOKENS, Math.max(MIN_SEGMENT_TOKENS, budget));
+}
+
+/**
+ * Split text into segments of at most `maxTokens` estimated tokens.
+ * Paragraphs and sentences are kept whole where possible and small ones are
+ * packed together. Joining `leading + text + trailing` of every segment
+ * reproduces the input exactly.
+ */
+export function segmentText(text: string, maxTokens: number): TextSegment[] {
+  if (!text.trim()) return [];
+
+  const pieces = splitToFit(text, maxTokens, 0);
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const piece of pieces) {
+    if (current && estimateTokens(current + piece) > maxTokens) {
+      chunks.push(current);
+      current = "";
+    }
+    current += piece;
+  }
+  if (current) chunks.push(current);
+
+  return mergeWhitespaceChunks(chunks).map(toSegment);
+}
+
+/**
+ * Split text into one segment per sentence, for translations that report
+ * sentence alignment. Sentences over `maxTokens` are split further as in
+ * segmentText, but nothing is packed together.
+ */
+export function splitSentences(text: string, maxTokens: number): TextSegment[] {
+  if (!text.trim()) return [];
+
+  const sentences = SEGMENT_BOUNDARIES.slice(
+    0,
+    SENTENCE_BOUNDARY_LEVELS,
+  ).reduce(
+    (pieces, boundary) =>
+      pieces.flatMap((piece) => splitAfter(piece, boundary)),
+    [text],
+  );
+  const pieces = sentences.flatMap((sentence) =>
+    splitToFit(sentence, maxTokens, SENTENCE_BOUNDARY_LEVELS),
+  );
+
+  return mergeWhitespaceChunks(pieces).map(toSegment);
+}
+
+/**
+ * Reassemble translated segments with the original whitespace between them
+ */
+export function joinSegments(
+  segments: TextSegment[],
+  translations: string[],
+): string {
+  return segments
+    .map(
+      (segment, index) =>
+        segment.leading + (translations[index] ?? "").trim() + segment.trailing,
+    )
+    .join("");
+}
+
+function splitToFit(text: string, maxTokens: number, level: number): string[] {
+  if (estimateTokens(text) <= maxTokens) return [text];
+  if (level >= SEGMENT_BOUNDARIES.length) return splitByLength(text, maxTokens);
+
+  const pieces = splitAfter(text, SEGMENT_BOUNDARIES[level]);
+  return pieces.flatMap((piece) => splitToFit(piece, maxTokens, level + 1));
+}
+
+/**
+ * Split after every match of `boundary`, keeping the delimiter with the
+ * preceding piece
+ */
+function splitAfter(text: string, boundary: RegExp): string[] {
+  const pieces: string[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(boundary)) {
+    const end = match.index + match[0].length;
+    if (end > start && end < text.length) {
+      pieces.push(text.slice(start, end));
+      start = end;
+    }
+  }
+  pieces.push(text.slice(start));
+  return pieces;
+}
+
+/**
+ * Last resort for text without usable boundaries (e.g. a very long URL)
+ */
+function splitByLength(text: string, maxTokens: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+  let wide = 0;
+  let other = 0;
+
+  for (const char of text) {
+    const isWide = char.match(WIDE_CHARACTERS) !== null;
+    const tokens =
+      wide + (isWide ? 1 : 0) + Math.ceil((other + (isWide ? 0 : 1)) / 4);
+    if (current && tokens > maxTokens) {
+      pieces.push(current);
+      current = "";
+      wide = 0;
+      other = 0;
+    }
+    current += char;
+    if (isWide) wide++;
+    else other++;
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Attach whitespace-only chunks to their neighbour so every segment has text
+ */
+function mergeWhitespaceChunks(chunks: string[]): string[] {
+  const merged: string[] = [];
+  for (const chunk of chunks) {
+    const previous = merged.at(-1);
+    if (previous !== undefined && (!chunk.trim() || !previous.trim())) {
+      merged[merged.length - 1] += chunk;
+    } else {
+      merged.push(chunk);
+    }
+  }
+  return merged;
+}
+
+function toSegment(chunk: string): TextSegment {
+  const leading = chunk.match(/^\s*/)?.[0] ?? "";
+  const trailing = chunk.slice(leading.length).match(/\s*$/)?.[0] ?? "";
+  return {
+    leading,
+    text: chunk.slice(leading.length, chunk.length - trailing.length),
+    trailing,
+  };
+}
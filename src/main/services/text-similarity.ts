@@ -0,0 +1,111 @@
+/** Longest character n-gram compared, as in the standard chrF setup */
+const MAX_NGRAM_ORDER = 6;
+
+/** Recall weighs twice as much as precision (chrF2) */
+const BETA = 2;
+
+/**
+ * Character n-gram F-score (chrF) between a hypothesis and a reference,
+ * from 0 (nothing in common) to 1 (identical).
+ * Case, Unicode width and whitespace are ignored, so the score works for
+ * scripts without word boundaries such as Japanese or Chinese.
+ */
+export function chrF(hypothesis: string, reference: string): number {
+  const hypothesisChars = prepare(hypothesis);
+  const referenceChars = prepare(reference);
+
+  if (hypothesisChars.length === 0 || referenceChars.length === 0) {
+    return hypothesisChars.length === referenceChars.length ? 1 : 0;
+  }
+
+  let precisionSum = 0;
+  let recallSum = 0;
+  let orders = 0;
+
+  for (let n = 1; n <= MAX_NGRAM_ORDER; n++) {
+    const hypothesisNgrams = countNgrams(hypothesisChars, n);
+    const referenceNgrams = countNgrams(referenceChars, n);
+    // Texts shorter than n have no n-grams of this order
+    if (hypothesisNgrams.total === 0 || referenceNgrams.total === 0) break;
+
+    let matches = 0;
+    for (const [ngram, count] of hypothesisNgrams.counts) {
+      matches += Math.min(count, referenceNgrams.counts.get(ngram) ?? 0);
+    }
+
+    precisionSum += matches / hypothesisNgrams.total;
+    recallSum += matches / referenceNgrams.total;
+    orders++;
+  }
+
+  const precision = precisionSum / orders;
+  const recall = recallSum / orders;
+  if (precision + recall === 0) return 0;
+
+  const betaSquared = BETA * BETA;
+  return (
+    ((1 + betaSquared) * precision * recall) /
+    (betaSquared * precision + recall)
+  );
+}
+
+function prepare(text: string): string[] {
+  return Array.from(text.normalize("NFKC").toLowerCase().replace(/\s+/g, ""));
+}
+
+function countNgrams(
+  chars: string[],
+  n: number,
+): { counts: Map<string, number>; total: number } {
+  const counts = new Map<string, number>();
+  let total = 0;
+
+  for (let i = 0; i + n <= chars.length; i++) {
+    const ngram = chars.slice(i, i + n).join("");
+    counts.set(ngram, (counts.get(ngram) ?? 0) + 1);
+    total++;
+  }
+
+  return { counts, total };
+}
+
+/**
+ * Edit-distance similarity between two texts, from 0 to 1 (identical):
+ * one minus the Levenshtein distance over the length of the longer text.
+ * Unicode width and runs of whitespace are normalized first; case counts,
+ * since a translation memory match must be reusable as is.
+ */
+export function editSimilarity(a: string, b: string): number {
+  const aChars = Array.from(normalizeForEdit(a));
+  const bChars = Array.from(normalizeForEdit(b));
+  const longest = Math.max(aChars.length, bChars.length);
+  if (longest === 0) return 1;
+
+  return 1 - levenshtein(aChars, bChars) / longest;
+}
+
+/** Text as `editSimilarity` compares it: texts it scores 1 normalize equally */
+export function normalizeForEdit(text: string): string {
+  return text.normalize("NFKC").replace(/\s+/g, " ").trim();
+}
+
+/** Levenshtein distance with a single row of the dynamic programming table */
+function levenshtein(a: string[], b: string[]): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(
+        row[j] + 1,
+        row[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = above;
+    }
+  }
+
+  return row[b.length];
+}
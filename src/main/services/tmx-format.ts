@@ -0,0 +1,157 @@
+import { ValidationError } from "#shared/errors.js";
+import { resolveLanguageCode } from "../../shared/domain/language-registry.js";
+import type {
+  TranslationMemoryEntry,
+  TranslationMemoryLanguagePair,
+} from "../../shared/domain/translation-memory.js";
+import type { SupportedLanguage } from "../../shared/domain/translation.js";
+import { escapeXml, unescapeXml } from "./xml-text.js";
+
+/** Segment pair read from a TMX file, before it becomes a memory entry */
+export interface ParsedTmxSegment {
+  sourceLanguage: SupportedLanguage;
+  targetLanguage: SupportedLanguage;
+  sourceText: string;
+  targetText: string;
+  note?: string;
+}
+
+export interface ParsedTmx {
+  segments: ParsedTmxSegment[];
+  /** Translation units that could not be used (unknown language, no text) */
+  skipped: number;
+}
+
+/** Serialize entries as TMX 1.4, one translation unit per entry */
+export function serializeTmx(entries: TranslationMemoryEntry[]): string {
+  // A single source language is declared when every entry shares it
+  const sourceLanguages = new Set(entries.map((entry) => entry.sourceLanguage));
+  const srclang =
+    sourceLanguages.size === 1 ? [...sourceLanguages][0] : "*all*";
+
+  const units = entries.map((entry) =>
+    [
+      `    <tu tuid="${escapeXml(entry.id)}" srclang="${entry.sourceLanguage}" creationdate="${formatTmxDate(entry.createdAt)}" changedate="${formatTmxDate(entry.updatedAt)}">`,
+      ...(entry.note ? [`      <note>${escapeXml(entry.note)}</note>`] : []),
+      `      <tuv xml:lang="${entry.sourceLanguage}">`,
+      `        <seg>${escapeXml(entry.sourceText)}</seg>`,
+      `      </tuv>`,
+      `      <tuv xml:lang="${entry.targetLanguage}">`,
+      `        <seg>${escapeXml(entry.targetText)}</seg>`,
+      `      </tuv>`,
+      `    </tu>`,
+    ].join("\n"),
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header creationtool="DeepLlama" creationtoolversion="1.0" segtype="sentence" o-tmf="DeepLlama" adminlang="en" srclang="${srclang}" datatype="plaintext"/>
+  <body>
+${units.join("\n")}
+  </body>
+</tmx>
+`;
+}
+
+/**
+ * Parse a TMX file (1.1 to 1.4).
+ * The source of each unit is its `srclang`, or the header's; with
+ * `*all*` or no source language the first variant is the source.
+ * When a language pair is given only those languages are read; otherwise
+ * every other variant of a unit becomes a target.
+ */
+export function parseTmx(
+  content: string,
+  pair?: TranslationMemoryLanguagePair,
+): ParsedTmx {
+  if (!/<tmx\b/.test(content)) {
+    throw new ValidationError("Not a TMX document");
+  }
+
+  const header = /<header\b[^>]*>/.exec(content)?.[0] ?? "";
+  const headerSource = readAttribute(header, "srclang");
+  const result: ParsedTmx = { segments: [], skipped: 0 };
+
+  for (const [unit] of content.matchAll(/<tu\b[\s\S]*?<\/tu>/g)) {
+    const variants = readVariants(unit);
+    const note = readNote(unit);
+    const sourceTag = readAttribute(unit, "srclang") ?? headerSource;
+    const sourceCode =
+      pair?.sourceLanguage ??
+      (sourceTag && sourceTag !== "*all*"
+        ? resolveLanguageCode(sourceTag)
+        : variants[0]?.code);
+
+    const source = variants.find((variant) => variant.code === sourceCode);
+    const targets = variants.filter((variant) =>
+      pair ? variant.code === pair.targetLanguage : variant.code !== sourceCode,
+    );
+
+    if (!source || targets.length === 0) {
+      result.skipped++;
+      continue;
+    }
+
+    for (const target of targets) {
+      result.segments.push({
+        sourceLanguage: source.code,
+        targetLanguage: target.code,
+        sourceText: source.text,
+        targetText: target.text,
+        note,
+      });
+    }
+  }
+
+  return result;
+}
+
+function readVariants(
+  unit: string,
+): Array<{ code: SupportedLanguage; text: string }> {
+  return [...unit.matchAll(/<tuv\b([^>]*)>([\s\S]*?)<\/tuv>/g)].flatMap(
+    ([, attributes, variant]) => {
+      // TMX 1.1 used `lang` instead of `xml:lang`
+      const tag =
+        readAttribute(attributes, "xml:lang") ??
+        readAttribute(attributes, "lang");
+      const code = tag ? resolveLanguageCode(tag) : undefined;
+      const seg = /<seg\b[^>]*>([\s\S]*?)<\/seg>/.exec(variant);
+      const text = seg ? readSegmentText(seg[1]) : "";
+      return code && text ? [{ code, text }] : [];
+    },
+  );
+}
+
+/**
+ * Text of a `<seg>`. Inline elements holding native codes (bpt, ept, ph,
+ * it, ut) are dropped with their content; other markup keeps its text.
+ */
+function readSegmentText(seg: string): string {
+  return unescapeXml(
+    seg
+      .replace(/<(bpt|ept|ph|it|ut)\b[^>]*\/>/g, "")
+      .replace(/<(bpt|ept|ph|it|ut)\b[^>]*>[\s\S]*?<\/\1>/g, "")
+      .replace(/<[^>]+>/g, ""),
+  ).trim();
+}
+
+function readNote(unit: string): string | undefined {
+  // Only notes of the unit itself, not of its variants
+  const outside = unit.replace(/<tuv\b[\s\S]*?<\/tuv>/g, "");
+  const match = /<note\b[^>]*>([\s\S]*?)<\/note>/.exec(outside);
+  const note = match ? unescapeXml(match[1]).trim() : "";
+  return note || undefined;
+}
+
+function readAttribute(tag: string, name: string): string | undefined {
+  // Only the opening tag, so attributes of nested elements are not read
+  const opening = /^[^>]*>?/.exec(tag)![0];
+  const match = new RegExp(`(?:^|\\s)${name}=["']([^"']*)["']`).exec(opening);
+  return match ? unescapeXml(match[1]) : undefined;
+}
+
+/** ISO 8601 in the basic format TMX requires, e.g. 20260101T120000Z */
+function formatTmxDate(iso: string): string {
+  return iso.replace(/[-:]/g, "").replace(/\.\d+/, "");
+}
@@ -0,0 +1,214 @@
+import { createHash } from "node:crypto";
+import type { GlossaryEntry } from "../../shared/domain/glossary.js";
+import type { PromptTemplateRef } from "../../shared/domain/prompt-template.js";
+import type {
+  TranslationCacheEntry,
+  TranslationCacheSettings,
+  TranslationCacheSettingsUpdate,
+  TranslationCacheStats,
+} from "../../shared/domain/translation-cache.js";
+import type {
+  Formality,
+  SupportedLanguage,
+  TranslationDomain,
+  TranslationMemoryMatch,
+  TranslationResponse,
+} from "../../shared/domain/translation.js";
+import type { TranslationCacheRepository } from "../repository/translation-cache-repository.js";
+
+/** Everything that influences a translation and therefore its cache key */
+export interface TranslationCacheKeyParts {
+  text: string;
+  sourceLanguage: SupportedLanguage;
+  targetLanguage: SupportedLanguage;
+  /** Digest of the model weights, so a re-pulled model does not hit */
+  modelDigest: string;
+  promptTemplate: PromptTemplateRef;
+  context?: string;
+  glossaryEntries: GlossaryEntry[];
+  /** Translation memory matches given to the model as references */
+  translationMemoryMatches?: TranslationMemoryMatch[];
+  formality?: Formality;
+  domain?: TranslationDomain;
+  /** Generation options such as temperature */
+  options: Record<string, unknown>;
+}
+
+export interface TranslationCacheService {
+  isEnabled(): Promise<boolean>;
+  createKey(parts: TranslationCacheKeyParts): string;
+  get(key: string): Promise<TranslationResponse | undefined>;
+  set(key: string, response: TranslationResponse): Promise<void>;
+  getStats(): Promise<TranslationCacheStats>;
+  updateSettings(
+    changes: TranslationCacheSettingsUpdate,
+  ): Promise<TranslationCacheStats>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Text as it matters for translation: Unicode NFC, LF line endings and no
+ * trailing whitespace on lines or around the text
+ */
+export function normalizeCacheText(text: string): string {
+  return text
+    .normalize("NFC")
+    .replace(/\r\n?/g, "\n")
+    .replace(/[^\S\n]+$/gm, "")
+    .trim();
+}
+
+/**
+ * In-memory LRU cache of translations, optionally mirrored to disk.
+ * A Map keeps insertion order, so re-inserting an entry on every hit makes
+ * the first key the least recently used one.
+ */
+export class TranslationCacheServiceImpl implements TranslationCacheService {
+  private settings: TranslationCacheSettings | null = null;
+  private readonly entries = new Map<string, TranslationCacheEntry>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private readonly repository: TranslationCacheRepository) {}
+
+  async isEnabled(): Promise<boolean> {
+    return (await this.loadSettings()).enabled;
+  }
+
+  createKey(parts: TranslationCacheKeyParts): string {
+    const material = JSON.stringify({
+      text: normalizeCacheText(parts.text),
+      sourceLanguage: parts.sourceLanguage,
+      targetLanguage: parts.targetLanguage,
+      modelDigest: parts.modelDigest,
+      promptTemplate: [parts.promptTemplate.id, parts.promptTemplate.version],
+      context: parts.context?.trim() ?? "",
+      glossary: parts.glossaryEntries.map((entry) => [
+        entry.sourceTerm,
+        entry.targetTerm,
+        entry.caseSensitive,
+        entry.doNotTranslate,
+      ]),
+      translationMemory: (parts.translationMemoryMatches ?? []).map((match) => [
+        match.sourceText,
+        match.targetText,
+      ]),
+      formality: parts.formality ?? null,
+      domain: parts.domain ?? null,
+      options: Object.entries(parts.options).sort(([a], [b]) =>
+        a.localeCompare(b),
+      ),
+    });
+
+    return createHash("sha256").update(material).digest("hex");
+  }
+
+  async get(key: string): Promise<TranslationResponse | undefined> {
+    const settings = await this.loadSettings();
+    if (!settings.enabled) return undefined;
+
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    this.entries.delete(key);
+    this.entries.set(key, { ...entry, lastUsedAt: new Date().toISOString() });
+    return entry.response;
+  }
+
+  async set(key: string, response: TranslationResponse): Promise<void> {
+    const settings = await this.loadSettings();
+    if (!settings.enabled) return;
+
+    const now = new Date().toISOString();
+    this.entries.delete(key);
+    this.entries.set(key, {
+      key,
+      response,
+      createdAt: now,
+      lastUsedAt: now,
+    });
+    this.evict(settings.maxEntries);
+    await this.persist();
+  }
+
+  async getStats(): Promise<TranslationCacheStats> {
+    const settings = await this.loadSettings();
+    return {
+      ...settings,
+      entries: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  async updateSettings(
+    changes: TranslationCacheSettingsUpdate,
+  ): Promise<TranslationCacheStats> {
+    const current = await this.loadSettings();
+    const settings = await this.repository.saveSettings({
+      ...current,
+      ...changes,
+    });
+    this.settings = settings;
+
+    if (!settings.enabled) {
+      // Turning the cache off forgets everything it held
+      this.entries.clear();
+      await this.repository.saveEntries([]);
+    } else {
+      this.evict(settings.maxEntries);
+      await this.repository.saveEntries(
+        settings.persist ? Array.from(this.entries.values()) : [],
+      );
+    }
+
+    return this.getStats();
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+    await this.repository.saveEntries([]);
+  }
+
+  /**
+   * Read settings once and restore persisted entries when enabled
+   */
+  private async loadSettings(): Promise<TranslationCacheSettings> {
+    if (this.settings) return this.settings;
+
+    const settings = await this.repository.getSettings();
+    if (settings.enabled && settings.persist) {
+      for (const entry of await this.repository.loadEntries()) {
+        this.entries.set(entry.key, entry);
+      }
+      this.evict(settings.maxEntries);
+    }
+
+    this.settings = settings;
+    return settings;
+  }
+
+  private evict(maxEntries: number): void {
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= maxEntries) break;
+      this.entries.delete(key);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.settings?.persist) return;
+
+    try {
+      await this.repository.saveEntries(Array.from(this.entries.values()));
+    } catch (error) {
+      // The in-memory cache still works without the disk copy
+      console.warn("Failed to persist translation cache:", error);
+    }
+  }
+}
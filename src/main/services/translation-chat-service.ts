@@ -0,0 +1,115 @@
+import { NotFoundError } from "#shared/errors.js";
+import type {
+  GenerationMetrics,
+  OllamaChatMessage,
+} from "../../shared/domain/ollama.js";
+import type {
+  TranslationChatEvent,
+  TranslationChatRequest,
+} from "../../shared/domain/translation-chat.js";
+import {
+  parseChatReply,
+  REVISED_TRANSLATION_CLOSE_TAG,
+  REVISED_TRANSLATION_OPEN_TAG,
+  TranslationChatRequest as TranslationChatRequestSchema,
+} from "../../shared/domain/translation-chat.js";
+import { getLanguageName } from "../../shared/domain/translation.js";
+import type { OllamaService } from "./ollama-service.js";
+
+/** Warmer than translation, so rephrasings actually vary */
+const CHAT_TEMPERATURE = 0.7;
+
+export interface TranslationChatService {
+  /**
+   * Answer a question about a translation with the model that made it.
+   * The source, the current translation and earlier turns are the context.
+   * Yields the reply as it is generated and a final "done" event with any
+   * revised translation it proposes.
+   */
+  chatStream(
+    request: TranslationChatRequest,
+    signal?: AbortSignal,
+  ): AsyncGenerator<TranslationChatEvent, void, unknown>;
+}
+
+/**
+ * The translation under discussion goes into the system message, followed
+ * by the earlier turns and the new question
+ */
+function buildChatMessages(
+  request: TranslationChatRequest,
+): OllamaChatMessage[] {
+  const {
+    sourceText,
+    translatedText,
+    sourceLanguage,
+    targetLanguage,
+    history,
+    message,
+  } = TranslationChatRequestSchema.parse(request);
+  const source = getLanguageName(sourceLanguage);
+  const target = getLanguageName(targetLanguage);
+
+  const system = [
+    `You are a professional ${source} to ${target} translator discussing a translation you made with the user.`,
+    "Answer questions about word choices, grammar and nuance briefly, in the language the user writes in.",
+    `When you propose a different version, write the complete revised ${target} translation once, between ${REVISED_TRANSLATION_OPEN_TAG} and ${REVISED_TRANSLATION_CLOSE_TAG}, with nothing else inside the tags.`,
+    "",
+    `${source} source text:`,
+    '"""',
+    sourceText,
+    '"""',
+    "",
+    `${target} translation:`,
+    '"""',
+    translatedText,
+    '"""',
+  ].join("\n");
+
+  return [
+    { role: "system", content: system },
+    ...history,
+    { role: "user", content: message },
+  ];
+}
+
+export class TranslationChatServiceImpl implements TranslationChatService {
+  constructor(private readonly ollamaService: OllamaService) {}
+
+  async *chatStream(
+    request: TranslationChatRequest,
+    signal?: AbortSignal,
+  ): AsyncGenerator<TranslationChatEvent, void, unknown> {
+    if (!(await this.ollamaService.modelExists(request.modelName))) {
+      throw new NotFoundError("Model", request.modelName);
+    }
+
+    let content = "";
+    let metrics: GenerationMetrics | undefined;
+    const stream = this.ollamaService.chatStream({
+      model: request.modelName,
+      messages: buildChatMessages(request),
+      stream: true,
+      temperature: CHAT_TEMPERATURE,
+      signal,
+    });
+
+    for await (const chunk of stream) {
+      signal?.throwIfAborted();
+      metrics = chunk.metrics ?? metrics;
+      if (chunk.content) {
+        content += chunk.content;
+        yield { type: "delta", delta: chunk.content };
+      }
+    }
+
+    yield {
+      type: "done",
+      reply: {
+        content,
+        revisedTranslation: parseChatReply(content).revisedTranslation,
+        metrics,
+      },
+    };
+  }
+}
@@ -0,0 +1,159 @@
+import { randomUUID } from "node:crypto";
+import type {
+  HistoryEntry,
+  HistoryQuery,
+  HistorySettings,
+  HistorySettingsUpdate,
+} from "../../shared/domain/translation-history.js";
+import { HistoryQuery as HistoryQuerySchema } from "../../shared/domain/translation-history.js";
+import type {
+  TranslationRequest,
+  TranslationResponse,
+} from "../../shared/domain/translation.js";
+import type { TranslationHistoryRepository } from "../repository/translation-history-repository.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TranslationHistoryService {
+  getSettings(): Promise<HistorySettings>;
+  updateSettings(changes: HistorySettingsUpdate): Promise<HistorySettings>;
+  /**
+   * Record a finished translation. Does nothing while history is disabled
+   * or for low-priority batch units (e.g. file translation), which would
+   * otherwise push the user's own translations out.
+   */
+  record(
+    request: TranslationRequest,
+    response: TranslationResponse,
+  ): Promise<HistoryEntry | undefined>;
+  search(query?: HistoryQuery): Promise<HistoryEntry[]>;
+  deleteEntry(id: string): Promise<void>;
+  purge(): Promise<void>;
+}
+
+/**
+ * Text folded for searching: compatibility forms (e.g. full-width Latin)
+ * unified and case ignored
+ */
+function foldSearchText(text: string): string {
+  return text.normalize("NFKC").toLocaleLowerCase();
+}
+
+export class TranslationHistoryServiceImpl
+  implements TranslationHistoryService
+{
+  /** History changes are read-modify-write, so they run one at a time */
+  private pendingWrite: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly repository: TranslationHistoryRepository) {}
+
+  async getSettings(): Promise<HistorySettings> {
+    return this.repository.getSettings();
+  }
+
+  async updateSettings(
+    changes: HistorySettingsUpdate,
+  ): Promise<HistorySettings> {
+    const current = await this.repository.getSettings();
+    const settings = await this.repository.saveSettings({
+      ...current,
+      ...changes,
+    });
+
+    // Tighter retention applies to the existing history right away
+    await this.serialize(() => this.applyRetention(settings));
+    return settings;
+  }
+
+  async record(
+    request: TranslationRequest,
+    response: TranslationResponse,
+  ): Promise<HistoryEntry | undefined> {
+    const settings = await this.repository.getSettings();
+    if (!settings.enabled || request.priority === "low") return undefined;
+
+    return this.serialize(async () => {
+      const entry = await this.repository.save({
+        id: randomUUID(),
+        request,
+        response,
+        createdAt: new Date().toISOString(),
+      });
+      await this.applyRetention(settings);
+      return entry;
+    });
+  }
+
+  /**
+   * Newest entries first. Every word of `text` must appear in the source
+   * or the translation.
+   */
+  async search(query: HistoryQuery = {}): Promise<HistoryEntry[]> {
+    const { text, sourceLanguage, targetLanguage, modelName, limit } =
+      HistoryQuerySchema.parse(query);
+    const words = foldSearchText(text ?? "")
+      .split(/\s+/)
+      .filter(Boolean);
+
+    const settings = await this.repository.getSettings();
+    const entries = await this.serialize(() => this.applyRetention(settings));
+
+    return entries
+      .filter((entry) => {
+        const { response } = entry;
+        const haystack = foldSearchText(
+          `${entry.request.text}\n${response.translatedText}`,
+        );
+
+        return (
+          (!sourceLanguage || response.sourceLanguage === sourceLanguage) &&
+          (!targetLanguage || response.targetLanguage === targetLanguage) &&
+          (!modelName || response.modelUsed === modelName) &&
+          words.every((word) => haystack.includes(word))
+        );
+      })
+      .reverse()
+      .slice(0, limit);
+  }
+
+  async deleteEntry(id: string): Promise<void> {
+    await this.serialize(() => this.repository.delete(id));
+  }
+
+  async purge(): Promise<void> {
+    await this.serialize(() => this.repository.replaceAll([]));
+  }
+
+  /** Run `task` after every earlier history change has settled */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pendingWrite.then(task);
+    this.pendingWrite = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Drop entries beyond the configured age and count.
+   * Returns the remaining entries, oldest first.
+   */
+  private async applyRetention(
+    settings: HistorySettings,
+  ): Promise<HistoryEntry[]> {
+    const entries = await this.repository.findAll();
+    const cutoff =
+      settings.maxAgeDays === null
+        ? undefined
+        : Date.now() - settings.maxAgeDays * DAY_MS;
+
+    const retained = entries
+      .filter(
+        (entry) =>
+          cutoff === undefined || Date.parse(entry.createdAt) >= cutoff,
+      )
+      .slice(-settings.maxItems);
+
+    if (retained.length !== entries.length) {
+      await this.repository.replaceAll(retained);
+    }
+    return retained;
+  }
+}
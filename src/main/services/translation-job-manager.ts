@@ -0,0 +1,274 @@
+import {
+  describeError,
+  NotFoundError,
+  ValidationError,
+} from "#shared/errors.js";
+import { randomUUID } from "node:crypto";
+import type {
+  TranslationJob,
+  TranslationJobKind,
+} from "../../shared/domain/translation-job.js";
+import { MAX_CONCURRENT_TRANSLATION_JOBS } from "../../shared/domain/translation-job.js";
+import type {
+  SourceLanguage,
+  SupportedLanguage,
+  TranslationJobPriority,
+} from "../../shared/domain/translation.js";
+
+/** Finished jobs kept for status lookups; older ones are forgotten */
+const MAX_FINISHED_JOBS = 50;
+
+const TEXT_PREVIEW_LENGTH = 40;
+
+const PRIORITY_RANK: Record<TranslationJobPriority, number> = {
+  high: 2,
+  normal: 1,
+  low: 0,
+};
+
+export interface TranslationJobOptions {
+  /** Caller-chosen ID; generated when omitted */
+  id?: string;
+  kind: TranslationJobKind;
+  priority?: TranslationJobPriority;
+  sourceLanguage: SourceLanguage;
+  targetLanguage: SupportedLanguage;
+  text: string;
+  /** Cancels the job when aborted, e.g. when a subscription stops */
+  signal?: AbortSignal;
+}
+
+export interface TranslationJobHandle {
+  id: string;
+  /** Aborted when the job is cancelled */
+  signal: AbortSignal;
+}
+
+export interface TranslationJobManager {
+  /**
+   * Queue a job and wait for a free slot.
+   * Rejects when the job is cancelled before it starts.
+   */
+  start(options: TranslationJobOptions): Promise<TranslationJobHandle>;
+  /** Mark a started job as done; a job that was cancelled stays cancelled */
+  finish(id: string, error?: unknown): void;
+  /** Run `task` as a job, from queueing to completion */
+  run<T>(
+    options: TranslationJobOptions,
+    task: (job: TranslationJobHandle) => Promise<T>,
+  ): Promise<T>;
+  list(): TranslationJob[];
+  getJob(id: string): TranslationJob;
+  /** Returns false when the job is unknown or already finished */
+  cancel(id: string): boolean;
+  /** Cancel every queued and running job; returns how many were cancelled */
+  cancelAll(): number;
+  hasActiveJobs(): boolean;
+}
+
+interface JobEntry {
+  job: TranslationJob;
+  controller: AbortController;
+  /** Settles the pending start() of a queued job */
+  admit?: (handle: TranslationJobHandle) => void;
+  reject?: (error: Error) => void;
+  detachSignal?: () => void;
+}
+
+export class TranslationJobManagerImpl implements TranslationJobManager {
+  private readonly jobs = new Map<string, JobEntry>();
+  private readonly queue: string[] = [];
+  private runningCount = 0;
+
+  constructor(
+    private readonly maxConcurrentJobs: number = MAX_CONCURRENT_TRANSLATION_JOBS,
+  ) {}
+
+  start(options: TranslationJobOptions): Promise<TranslationJobHandle> {
+    const id = options.id ?? randomUUID();
+    const existing = this.jobs.get(id);
+    if (existing && isActive(existing.job)) {
+      return Promise.reject(
+        new ValidationError(`Translation job '${id}' is already active`),
+      );
+    }
+
+    const entry: JobEntry = {
+      job: {
+        id,
+        kind: options.kind,
+        status: "queued",
+        priority: options.priority ?? "normal",
+        sourceLanguage: options.sourceLanguage,
+        targetLanguage: options.targetLanguage,
+        textPreview: options.text.slice(0, TEXT_PREVIEW_LENGTH),
+        createdAt: new Date().toISOString(),
+      },
+      controller: new AbortController(),
+    };
+    // Re-using the ID of a finished job replaces it
+    this.jobs.delete(id);
+    this.jobs.set(id, entry);
+
+    const admitted = new Promise<TranslationJobHandle>((resolve, reject) => {
+      entry.admit = resolve;
+      entry.reject = reject;
+    });
+
+    const { signal } = options;
+    if (signal) {
+      const abort = (): void => {
+        this.cancel(id);
+      };
+      signal.addEventListener("abort", abort);
+      entry.detachSignal = () => signal.removeEventListener("abort", abort);
+      if (signal.aborted) this.cancel(id);
+    }
+
+    if (entry.job.status === "queued") {
+      this.queue.push(id);
+      this.startQueuedJobs();
+    }
+    return admitted;
+  }
+
+  finish(id: string, error?: unknown): void {
+    const entry = this.jobs.get(id);
+    if (!entry || entry.job.status !== "running") return;
+
+    if (error === undefined) {
+      this.complete(entry, "completed");
+    } else if (entry.controller.signal.aborted) {
+      this.complete(entry, "cancelled");
+    } else {
+      this.complete(entry, "failed", describeError(error));
+    }
+  }
+
+  async run<T>(
+    options: TranslationJobOptions,
+    task: (job: TranslationJobHandle) => Promise<T>,
+  ): Promise<T> {
+    const job = await this.start(options);
+    try {
+      const result = await task(job);
+      this.finish(job.id);
+      return result;
+    } catch (error) {
+      this.finish(job.id, error);
+      throw error;
+    }
+  }
+
+  list(): TranslationJob[] {
+    return Array.from(this.jobs.values(), (entry) => ({ ...entry.job }));
+  }
+
+  getJob(id: string): TranslationJob {
+    const entry = this.jobs.get(id);
+    if (!entry) {
+      throw new NotFoundError("Translation job", id);
+    }
+    return { ...entry.job };
+  }
+
+  cancel(id: string): boolean {
+    const entry = this.jobs.get(id);
+    if (!entry || !isActive(entry.job)) return false;
+
+    entry.controller.abort();
+    this.complete(entry, "cancelled");
+    return true;
+  }
+
+  cancelAll(): number {
+    // Queued jobs go first so none of them starts in a freed slot
+    const activeIds = [
+      ...this.queue,
+      ...Array.from(this.jobs.values())
+        .filter((entry) => entry.job.status === "running")
+        .map((entry) => entry.job.id),
+    ];
+    return activeIds.filter((id) => this.cancel(id)).length;
+  }
+
+  hasActiveJobs(): boolean {
+    return Array.from(this.jobs.values()).some((entry) => isActive(entry.job));
+  }
+
+  private complete(
+    entry: JobEntry,
+    status: "completed" | "failed" | "cancelled",
+    error?: string,
+  ): void {
+    const wasRunning = entry.job.status === "running";
+    entry.job = {
+      ...entry.job,
+      status,
+      finishedAt: new Date().toISOString(),
+      error,
+    };
+    entry.detachSignal?.();
+
+    if (wasRunning) {
+      this.runningCount--;
+    } else {
+      const index = this.queue.indexOf(entry.job.id);
+      if (index !== -1) this.queue.splice(index, 1);
+      entry.reject?.(new Error("Translation job cancelled by user"));
+    }
+    entry.admit = undefined;
+    entry.reject = undefined;
+
+    this.pruneFinishedJobs();
+    this.startQueuedJobs();
+  }
+
+  /** Fill free slots with the highest-priority, longest-waiting jobs */
+  private startQueuedJobs(): void {
+    while (this.runningCount < this.maxConcurrentJobs && this.queue.length) {
+      let next = 0;
+      for (let i = 1; i < this.queue.length; i++) {
+        if (this.rankOf(this.queue[i]) > this.rankOf(this.queue[next])) {
+          next = i;
+        }
+      }
+
+      const [id] = this.queue.splice(next, 1);
+      const entry = this.jobs.get(id);
+      if (!entry) continue;
+
+      entry.job = {
+        ...entry.job,
+        status: "running",
+        startedAt: new Date().toISOString(),
+      };
+      this.runningCount++;
+      entry.admit?.({ id, signal: entry.controller.signal });
+      entry.admit = undefined;
+      entry.reject = undefined;
+    }
+  }
+
+  private rankOf(id: string): number {
+    const entry = this.jobs.get(id);
+    return entry ? PRIORITY_RANK[entry.job.priority] : -1;
+  }
+
+  private pruneFinishedJobs(): void {
+    const finished = Array.from(this.jobs.values()).filter(
+      (entry) => !isActive(entry.job),
+    );
+    // Map iteration follows insertion order, so the oldest come first
+    for (const entry of finished.slice(
+      0,
+      Math.max(0, finished.length - MAX_FINISHED_JOBS),
+    )) {
+      this.jobs.delete(entry.job.id);
+    }
+  }
+}
+
+function isActive(job: TranslationJob): boolean {
+  return job.status === "queued" || job.status === "running";
+}
@@ -0,0 +1,230 @@
+import { ValidationError } from "#shared/errors.js";
+import { randomUUID } from "node:crypto";
+import type {
+  TranslationMemoryEntry,
+  TranslationMemoryEntryInput,
+  TranslationMemoryImportMode,
+  TranslationMemoryImportResult,
+  TranslationMemoryLanguagePair,
+} from "../../shared/domain/translation-memory.js";
+import {
+  MIN_FUZZY_MATCH_PERCENT,
+  TranslationMemoryEntryInput as TranslationMemoryEntryInputSchema,
+} from "../../shared/domain/translation-memory.js";
+import type {
+  SupportedLanguage,
+  TranslationMemoryMatch,
+} from "../../shared/domain/translation.js";
+import type { TranslationMemoryRepository } from "../repository/translation-memory-repository.js";
+import { editSimilarity, normalizeForEdit } from "./text-similarity.js";
+import { parseTmx, serializeTmx } from "./tmx-format.js";
+
+export interface TranslationMemoryImportOptions {
+  content: string;
+  /** "replace" drops existing entries of the imported language pairs */
+  mode: TranslationMemoryImportMode;
+  /** Language pair to read; every pair of the file when omitted */
+  pair?: TranslationMemoryLanguagePair;
+}
+
+export interface TranslationMemoryService {
+  listEntries(
+    pair?: TranslationMemoryLanguagePair,
+  ): Promise<TranslationMemoryEntry[]>;
+  /**
+   * Store an approved translation. A segment already in the memory for
+   * the language pair gets the new translation instead of a second entry.
+   */
+  addEntry(input: TranslationMemoryEntryInput): Promise<TranslationMemoryEntry>;
+  deleteEntry(id: string): Promise<void>;
+  /**
+   * Segments of the language pair similar to `text`, best match first,
+   * down to `minMatchPercent`.
+   */
+  findMatches(
+    text: string,
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+    minMatchPercent?: number,
+  ): Promise<TranslationMemoryMatch[]>;
+  importTmx(
+    options: TranslationMemoryImportOptions,
+  ): Promise<TranslationMemoryImportResult>;
+  exportTmx(pair?: TranslationMemoryLanguagePair): Promise<string>;
+}
+
+export class TranslationMemoryServiceImpl implements TranslationMemoryService {
+  constructor(
+    private readonly translationMemoryRepository: TranslationMemoryRepository,
+  ) {}
+
+  async listEntries(
+    pair?: TranslationMemoryLanguagePair,
+  ): Promise<TranslationMemoryEntry[]> {
+    const entries = pair
+      ? await this.translationMemoryRepository.findByLanguagePair(
+          pair.sourceLanguage,
+          pair.targetLanguage,
+        )
+      : await this.translationMemoryRepository.findAll();
+
+    return [...entries].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async addEntry(
+    input: TranslationMemoryEntryInput,
+  ): Promise<TranslationMemoryEntry> {
+    const parsed = TranslationMemoryEntryInputSchema.parse(input);
+    if (parsed.sourceLanguage === parsed.targetLanguage) {
+      throw new ValidationError(
+        "Translation memory source and target languages must differ",
+      );
+    }
+
+    const existing = await this.translationMemoryRepository.findByLanguagePair(
+      parsed.sourceLanguage,
+      parsed.targetLanguage,
+    );
+    const key = segmentKey(parsed);
+    const current = existing.find((entry) => segmentKey(entry) === key);
+    const now = new Date().toISOString();
+
+    return this.translationMemoryRepository.save({
+      ...parsed,
+      id: current?.id ?? randomUUID(),
+      createdAt: current?.createdAt ?? now,
+      updatedAt: now,
+    });
+  }
+
+  async deleteEntry(id: string): Promise<void> {
+    await this.translationMemoryRepository.delete(id);
+  }
+
+  async findMatches(
+    text: string,
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+    minMatchPercent = MIN_FUZZY_MATCH_PERCENT,
+  ): Promise<TranslationMemoryMatch[]> {
+    const query = text.trim();
+    if (!query) return [];
+
+    const entries = await this.translationMemoryRepository.findByLanguagePair(
+      sourceLanguage,
+      targetLanguage,
+    );
+    const minSimilarity = minMatchPercent / 100;
+
+    return entries
+      .flatMap((entry) => {
+        // The length difference alone bounds the similarity, which saves
+        // computing the edit distance for most entries
+        const lengthRatio =
+          Math.min(entry.sourceText.length, query.length) /
+          Math.max(entry.sourceText.length, query.length);
+        if (lengthRatio < minSimilarity) return [];
+
+        const similarity = editSimilarity(query, entry.sourceText);
+        if (similarity < minSimilarity) return [];
+
+        return [
+          {
+            entryId: entry.id,
+            sourceText: entry.sourceText,
+            targetText: entry.targetText,
+            // Only identical segments may claim 100%
+            matchPercent:
+              similarity === 1
+                ? 100
+                : Math.min(99, Math.floor(similarity * 100)),
+          },
+        ];
+      })
+      .sort((a, b) => b.matchPercent - a.matchPercent);
+  }
+
+  async importTmx({
+    content,
+    mode,
+    pair,
+  }: TranslationMemoryImportOptions): Promise<TranslationMemoryImportResult> {
+    const parsed = parseTmx(content, pair);
+    const existing = await this.translationMemoryRepository.findAll();
+    const now = new Date().toISOString();
+    const result: TranslationMemoryImportResult = {
+      imported: 0,
+      updated: 0,
+      skipped: parsed.skipped,
+    };
+
+    const incoming: TranslationMemoryEntry[] = [];
+    for (const segment of parsed.segments) {
+      const candidate = TranslationMemoryEntryInputSchema.safeParse(segment);
+      if (
+        !candidate.success ||
+        candidate.data.sourceLanguage === candidate.data.targetLanguage
+      ) {
+        result.skipped++;
+        continue;
+      }
+
+      incoming.push({
+        ...candidate.data,
+        id: randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    // Replacing only affects the language pairs present in the file
+    const importedPairs = new Set(incoming.map(pairKey));
+    const entries =
+      mode === "replace"
+        ? existing.filter((entry) => !importedPairs.has(pairKey(entry)))
+        : existing;
+
+    const indexBySegment = new Map(
+      entries.map((entry, index) => [segmentKey(entry), index]),
+    );
+    for (const entry of incoming) {
+      const key = segmentKey(entry);
+      const index = indexBySegment.get(key);
+      if (index !== undefined) {
+        entries[index] = {
+          ...entry,
+          id: entries[index].id,
+          createdAt: entries[index].createdAt,
+        };
+        result.updated++;
+      } else {
+        indexBySegment.set(key, entries.push(entry) - 1);
+        result.imported++;
+      }
+    }
+
+    await this.translationMemoryRepository.replaceAll(entries);
+    return result;
+  }
+
+  async exportTmx(pair?: TranslationMemoryLanguagePair): Promise<string> {
+    return serializeTmx(await this.listEntries(pair));
+  }
+}
+
+function pairKey(entry: TranslationMemoryLanguagePair): string {
+  return `${entry.sourceLanguage}>${entry.targetLanguage}`;
+}
+
+/**
+ * Entries collide when they hold the same source segment within one pair,
+ * ignoring Unicode width and runs of whitespace
+ */
+function segmentKey(
+  entry: Pick<
+    TranslationMemoryEntry,
+    "sourceLanguage" | "targetLanguage" | "sourceText"
+  >,
+): string {
+  return `${pairKey(entry)}\n${normalizeForEdit(entry.sourceText)}`;
+}
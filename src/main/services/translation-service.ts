@@ -1,114 +1,584 @@
+import { ValidationError } from "#shared/errors.js";
+import type { GlossaryEntry } from "../../shared/domain/glossary.js";
 import type {
+  GenerationMetrics,
+  OllamaChatResult,
+} from "../../shared/domain/ollama.js";
+import { combineGenerationMetrics } from "../../shared/domain/ollama.js";
+import type { PromptTemplateRef } from "../../shared/domain/prompt-template.js";
+import {
+  MAX_TRANSLATION_MEMORY_REFERENCES,
+  TRANSLATION_MEMORY_MODEL,
+} from "../../shared/domain/translation-memory.js";
+import type {
+  BackTranslation,
+  Formality,
+  LanguageDetectionResult,
+  LanguagePair,
+  MissingGlossaryTerm,
+  ModelComparison,
+  ModelComparisonRequest,
+  ModelComparisonResult,
+  SentenceAlignment,
+  SourceLanguage,
   SupportedLanguage,
+  TranslationDomain,
+  TranslationMemoryMatch,
   TranslationRequest,
   TranslationResponse,
+  TranslationStreamEvent,
+} from "../../shared/domain/translation.js";
+import {
+  AUTO_DETECT_LANGUAGE,
+  getLanguagePairModel,
 } from "../../shared/domain/translation.js";
-import { getLanguageName } from "../../shared/domain/translation.js";
 import type { TranslationSettingsRepository } from "../repository/translation-settings-repository.js";
+import type { GlossaryService } from "./glossary-service.js";
+import type { LanguageDetectionService } from "./language-detection-service.js";
 import type { OllamaService } from "./ollama-service.js";
+import type {
+  PromptTemplateService,
+  RenderedPrompt,
+} from "./prompt-template-service.js";
+import { alignSegments } from "./text-alignment.js";
+import {
+  isPlaceholderOnly,
+  PlaceholderStreamRestorer,
+  protectText,
+  restoreOriginalText,
+  restoreText,
+} from "./text-protection.js";
+import type { TextSegment } from "./text-segmenter.js";
+import {
+  DEFAULT_CONTEXT_LENGTH,
+  estimateTokens,
+  getSegmentTokenBudget,
+  joinSegments,
+  MAX_CONTEXT_LENGTH,
+  segmentText,
+  splitSentences,
+} from "./text-segmenter.js";
+import { chrF } from "./text-similarity.js";
+import type { TranslationCacheService } from "./translation-cache-service.js";
+import type { TranslationHistoryService } from "./translation-history-service.js";
+import type {
+  TranslationJobManager,
+  TranslationJobOptions,
+} from "./translation-job-manager.js";
+import type { TranslationMemoryService } from "./translation-memory-service.js";
+
+/** Lower temperature for more consistent translations */
+const TRANSLATION_TEMPERATURE = 0.3;
+
+/** Alternatives are sampled more freely so they differ from the main translation */
+const ALTERNATIVE_TEMPERATURES = [0.7, 0.9, 1.1, 1.3];
 
 export interface TranslationService {
-  translate(request: TranslationRequest): Promise<TranslationResponse>;
+  /** Aborting `signal` cancels the translation job */
+  translate(
+    request: TranslationRequest,
+    signal?: AbortSignal,
+  ): Promise<TranslationResponse>;
+  translateStream(
+    request: TranslationRequest,
+    signal?: AbortSignal,
+  ): AsyncGenerator<TranslationStreamEvent, void, unknown>;
   translateText(
     text: string,
-    sourceLanguage: SupportedLanguage,
+    sourceLanguage: SourceLanguage,
     targetLanguage: SupportedLanguage,
     modelName?: string,
   ): Promise<TranslationResponse>;
-  cancelTranslation(): boolean;
+  compareModels(request: ModelComparisonRequest): Promise<ModelComparison>;
+  detectLanguage(
+    text: string,
+    fallbackLanguage?: SupportedLanguage,
+  ): LanguageDetectionResult;
+  /** Cancel one job by ID; other callers' jobs keep running */
+  cancelTranslation(jobId: string): boolean;
+  /** Whether any translation job is queued or running */
   isTranslating(): boolean;
 }
 
-export class TranslationServiceImpl implements TranslationService {
-  private activeController: AbortController | null = null;
-  private isCurrentlyTranslating = false;
+/** Everything needed to translate a request segment by segment */
+interface TranslationPlan {
+  modelName: string;
+  sourceLanguage: SupportedLanguage;
+  targetLanguage: SupportedLanguage;
+  context?: string;
+  formality?: Formality;
+  domain?: TranslationDomain;
+  /** Glossary entries found in the whole source text */
+  glossaryEntries: GlossaryEntry[];
+  /** Fuzzy translation memory matches of the whole source text */
+  translationMemoryMatches: TranslationMemoryMatch[];
+  /** Source text as the user wrote it */
+  sourceText: string;
+  /** Segments of the source with markup, code and URLs masked */
+  segments: TextSegment[];
+  /** Original text of each placeholder in the segments */
+  protectedSpans: string[];
+  /** Input each placeholder replaced, to locate segments in the source */
+  originalSpans: string[];
+  /** One segment per sentence, with the alignment reported */
+  alignSentences: boolean;
+  /** Context window requested from Ollama, in tokens */
+  contextLength: number;
+}
+
+/** A request that needs the model, with what was settled before generation */
+interface PlannedTranslation {
+  type: "generate";
+  plan: TranslationPlan;
+  cacheKey?: string;
+  detectedLanguage?: LanguageDetectionResult;
+}
+
+/** Either a response that needed no model, or the plan to generate one */
+type PreparedTranslation =
+  | { type: "answered"; response: TranslationResponse }
+  | PlannedTranslation;
+
+/** Model output for a whole plan, with protected spans restored */
+interface GeneratedTranslation {
+  translatedText: string;
+  /** Protected spans the model dropped; undefined when none are missing */
+  missingProtectedSpans?: string[];
+  promptTemplate?: PromptTemplateRef;
+  metrics?: GenerationMetrics;
+  alignment?: SentenceAlignment[];
+}
 
+export class TranslationServiceImpl implements TranslationService {
   constructor(
     private readonly ollamaService: OllamaService,
     private readonly settingsRepository: TranslationSettingsRepository,
+    private readonly languageDetectionService: LanguageDetectionService,
+    private readonly glossaryService: GlossaryService,
+    private readonly promptTemplateService: PromptTemplateService,
+    private readonly translationCacheService: TranslationCacheService,
+    private readonly translationHistoryService: TranslationHistoryService,
+    private readonly jobManager: TranslationJobManager,
+    private readonly translationMemoryService: TranslationMemoryService,
   ) {}
 
-  async translate(request: TranslationRequest): Promise<TranslationResponse> {
-    this.isCurrentlyTranslating = true;
-    this.activeController = new AbortController();
+  async translate(
+    request: TranslationRequest,
+    signal?: AbortSignal,
+  ): Promise<TranslationResponse> {
+    this.assertLanguages(request);
 
+    return this.jobManager.run(
+      { ...this.getJobOptions("translate", request), signal },
+      ({ signal }) => this.runTranslation(request, signal),
+    );
+  }
+
+  /**
+   * Stream a translation as it is generated.
+   * Yields text deltas followed by a single "done" event carrying the final response.
+   * Aborting `signal` or cancelling the job stops the stream.
+   */
+  async *translateStream(
+    request: TranslationRequest,
+    signal?: AbortSignal,
+  ): AsyncGenerator<TranslationStreamEvent, void, unknown> {
+    this.assertLanguages(request);
+
+    const job = await this.jobManager.start({
+      ...this.getJobOptions("stream", request),
+      signal,
+    });
+    let failure: unknown;
     try {
-      // Source and target languages are required
-      const sourceLanguage = request.sourceLanguage;
-      const targetLanguage = request.targetLanguage;
+      yield* this.runTranslationStream(request, job.signal);
+    } catch (error) {
+      failure = error;
+      throw error;
+    } finally {
+      this.jobManager.finish(job.id, failure);
+    }
+  }
 
-      if (!sourceLanguage || !targetLanguage) {
-        throw new Error("Source and target languages are required");
-      }
+  async translateText(
+    text: string,
+    sourceLanguage: SourceLanguage,
+    targetLanguage: SupportedLanguage,
+    modelName?: string,
+  ): Promise<TranslationResponse> {
+    return this.translate({
+      text,
+      sourceLanguage,
+      targetLanguage,
+      modelName,
+    });
+  }
 
-      // Get model to use
-      const modelName = await this.getModelToUse(request.modelName);
+  /**
+   * Translate the same input with each model in turn.
+   * Models run one after another so their latencies are comparable.
+   * Comparisons default to low priority so they yield to interactive translations.
+   */
+  async compareModels(
+    request: ModelComparisonRequest,
+  ): Promise<ModelComparison> {
+    return this.jobManager.run(
+      this.getJobOptions("compare", {
+        ...request,
+        priority: request.priority ?? "low",
+      }),
+      ({ signal }) => this.runComparisons(request, signal),
+    );
+  }
 
-      // Check if translation is needed (same language)
-      if (sourceLanguage === targetLanguage) {
-        return {
-          translatedText: request.text,
-          sourceLanguage,
-          targetLanguage,
-          modelUsed: modelName,
-          timestamp: new Date().toISOString(),
+  detectLanguage(
+    text: string,
+    fallbackLanguage?: SupportedLanguage,
+  ): LanguageDetectionResult {
+    return this.languageDetectionService.detect(text, fallbackLanguage);
+  }
+
+  cancelTranslation(jobId: string): boolean {
+    return this.jobManager.cancel(jobId);
+  }
+
+  isTranslating(): boolean {
+    return this.jobManager.hasActiveJobs();
+  }
+
+  private assertLanguages(request: TranslationRequest): void {
+    // Source and target languages are required
+    if (!request.sourceLanguage || !request.targetLanguage) {
+      throw new Error("Source and target languages are required");
+    }
+  }
+
+  private getJobOptions(
+    kind: TranslationJobOptions["kind"],
+    request: Pick<
+      TranslationRequest,
+      "text" | "sourceLanguage" | "targetLanguage" | "jobId" | "priority"
+    >,
+  ): TranslationJobOptions {
+    return {
+      id: request.jobId,
+      kind,
+      priority: request.priority,
+      sourceLanguage: request.sourceLanguage,
+      targetLanguage: request.targetLanguage,
+      text: request.text,
+    };
+  }
+
+  private async runTranslation(
+    request: TranslationRequest,
+    signal: AbortSignal,
+  ): Promise<TranslationResponse> {
+    const prepared = await this.prepareTranslation(request);
+    if (prepared.type === "answered") return prepared.response;
+
+    const generated = await this.translateSegments(
+      prepared.plan,
+      TRANSLATION_TEMPERATURE,
+      signal,
+    );
+    return this.finishTranslation(request, prepared, generated, signal);
+  }
+
+  private async *runTranslationStream(
+    request: TranslationRequest,
+    signal: AbortSignal,
+  ): AsyncGenerator<TranslationStreamEvent, void, unknown> {
+    const prepared = await this.prepareTranslation(request);
+    if (prepared.type === "answered") {
+      yield { type: "delta", delta: prepared.response.translatedText };
+      yield { type: "done", response: prepared.response };
+      return;
+    }
+
+    const { plan } = prepared;
+    const { segments } = plan;
+    const restorer = new PlaceholderStreamRestorer(plan.protectedSpans);
+
+    const translations: string[] = [];
+    const allSegmentMetrics: (GenerationMetrics | undefined)[] = [];
+    let promptTemplate: PromptTemplateRef | undefined;
+    for (const [index, segment] of segments.entries()) {
+      if (segments.length > 1) {
+        yield {
+          type: "progress",
+          completedSegments: index,
+          totalSegments: segments.length,
         };
       }
 
-      // Perform translation
-      const translatedText = await this.performTranslation(
-        request.text,
+      // Keep the original spacing between segments in the streamed text
+      if (index > 0 && segment.leading) {
+        yield { type: "delta", delta: restorer.push(segment.leading) };
+      }
+
+      // Code blocks and the like standing alone need no translation
+      if (isPlaceholderOnly(segment.text)) {
+        translations.push(segment.text);
+        allSegmentMetrics.push(undefined);
+        yield { type: "delta", delta: restorer.push(segment.text) };
+        if (index < segments.length - 1 && segment.trailing) {
+          yield { type: "delta", delta: restorer.push(segment.trailing) };
+        }
+        continue;
+      }
+
+      const prompt = await this.buildSegmentPrompt(segment, plan);
+      promptTemplate = prompt.template;
+
+      let segmentTranslation = "";
+      let segmentMetrics: GenerationMetrics | undefined;
+      const stream = this.ollamaService.chatStream({
+        model: plan.modelName,
+        messages: prompt.messages,
+        stream: true,
+        temperature: TRANSLATION_TEMPERATURE,
+        num_ctx: plan.contextLength,
+        signal: signal,
+      });
+
+      for await (const chunk of stream) {
+        if (signal.aborted) {
+          throw new Error("Translation stream aborted by user");
+        }
+        segmentMetrics = chunk.metrics ?? segmentMetrics;
+        if (chunk.content) {
+          segmentTranslation += chunk.content;
+          const delta = restorer.push(chunk.content);
+          if (delta) yield { type: "delta", delta };
+        }
+      }
+
+      if (signal.aborted) {
+        throw new Error("Translation stream aborted by user");
+      }
+
+      // The segment is complete, so nothing held back can be a placeholder
+      const remainder = restorer.flush();
+      if (remainder) yield { type: "delta", delta: remainder };
+
+      translations.push(segmentTranslation);
+      allSegmentMetrics.push(segmentMetrics);
+      if (index < segments.length - 1 && segment.trailing) {
+        yield { type: "delta", delta: restorer.push(segment.trailing) };
+      }
+    }
+
+    if (segments.length > 1) {
+      yield {
+        type: "progress",
+        completedSegments: segments.length,
+        totalSegments: segments.length,
+      };
+    }
+
+    const generated = this.assembleTranslation(
+      plan,
+      translations,
+      allSegmentMetrics,
+      promptTemplate,
+    );
+    const response = await this.finishTranslation(
+      request,
+      prepared,
+      generated,
+      signal,
+    );
+    yield { type: "done", response };
+  }
+
+  /**
+   * Everything before generation. A translation memory exact match, text
+   * already in the target language or a cached translation answers the
+   * request directly; otherwise the plan to translate it comes back.
+   */
+  private async prepareTranslation(
+    request: TranslationRequest,
+  ): Promise<PreparedTranslation> {
+    const targetLanguage = request.targetLanguage;
+
+    const { sourceLanguage, detectedLanguage } =
+      this.resolveSourceLanguage(request);
+
+    // An exact memory match needs no model at all
+    const translationMemoryMatches = await this.findTranslationMemoryMatches(
+      request.text,
+      sourceLanguage,
+      targetLanguage,
+    );
+    if (translationMemoryMatches[0]?.matchPercent === 100) {
+      const response = this.fromTranslationMemory(
+        translationMemoryMatches,
         sourceLanguage,
         targetLanguage,
-        modelName,
-        this.activeController.signal,
+        detectedLanguage,
       );
+      await this.recordHistory(request, response);
+      return { type: "answered", response };
+    }
 
-      // Update model usage
-      await this.updateModelUsage(modelName);
+    // Get model to use
+    const modelName = await this.getModelToUse(request.modelName, request);
 
+    // Check if translation is needed (same language)
+    if (sourceLanguage === targetLanguage) {
       return {
-        translatedText,
-        sourceLanguage,
-        targetLanguage,
-        modelUsed: modelName,
-        timestamp: new Date().toISOString(),
+        type: "answered",
+        response: {
+          translatedText: request.text,
+          sourceLanguage,
+          targetLanguage,
+          modelUsed: modelName,
+          timestamp: new Date().toISOString(),
+          detectedLanguage,
+        },
       };
-    } finally {
-      this.isCurrentlyTranslating = false;
-      this.activeController = null;
     }
-  }
 
-  async translateText(
-    text: string,
-    sourceLanguage: SupportedLanguage,
-    targetLanguage: SupportedLanguage,
-    modelName?: string,
-  ): Promise<TranslationResponse> {
-    return this.translate({
-      text,
+    const cacheKey = await this.getCacheKey(
+      request,
+      modelName,
       sourceLanguage,
       targetLanguage,
+      translationMemoryMatches,
+    );
+    const cached = cacheKey
+      ? await this.translationCacheService.get(cacheKey)
+      : undefined;
+    if (cached) {
+      const response = this.fromCache(cached, detectedLanguage);
+      await this.recordHistory(request, response);
+      return { type: "answered", response };
+    }
+
+    const plan = await this.planTranslation(
+      request,
       modelName,
-    });
+      sourceLanguage,
+      targetLanguage,
+      translationMemoryMatches,
+    );
+    return { type: "generate", plan, cacheKey, detectedLanguage };
   }
 
-  cancelTranslation(): boolean {
-    if (this.activeController && this.isCurrentlyTranslating) {
-      this.activeController.abort();
-      this.activeController = null;
-      this.isCurrentlyTranslating = false;
-      return true; // Successfully cancelled an active translation
+  /**
+   * Everything after generation: alternatives, the back-translation and
+   * glossary check, then the cache and history entries
+   */
+  private async finishTranslation(
+    request: TranslationRequest,
+    { plan, cacheKey, detectedLanguage }: PlannedTranslation,
+    generated: GeneratedTranslation,
+    signal: AbortSignal,
+  ): Promise<TranslationResponse> {
+    const { translatedText } = generated;
+    const alternatives = await this.generateAlternatives(
+      plan,
+      request.candidateCount,
+      translatedText,
+      signal,
+    );
+    const backTranslation = request.backTranslate
+      ? await this.backTranslate(request, plan, translatedText, signal)
+      : undefined;
+
+    // Update model usage
+    await this.updateModelUsage(plan.modelName);
+
+    const response: TranslationResponse = {
+      translatedText,
+      sourceLanguage: plan.sourceLanguage,
+      targetLanguage: plan.targetLanguage,
+      modelUsed: plan.modelName,
+      timestamp: new Date().toISOString(),
+      detectedLanguage,
+      missingGlossaryTerms: this.checkGlossaryTerms(
+        plan.glossaryEntries,
+        translatedText,
+      ),
+      missingProtectedSpans: generated.missingProtectedSpans,
+      promptTemplate: generated.promptTemplate,
+      alternatives,
+      backTranslation,
+      metrics: generated.metrics,
+      translationMemoryMatches: plan.translationMemoryMatches.length
+        ? plan.translationMemoryMatches
+        : undefined,
+      alignment: generated.alignment,
+    };
+
+    if (cacheKey) {
+      await this.translationCacheService.set(cacheKey, response);
     }
-    return false; // No active translation to cancel
+    await this.recordHistory(request, response);
+    return response;
   }
 
-  isTranslating(): boolean {
-    return this.isCurrentlyTranslating;
+  private async runComparisons(
+    request: ModelComparisonRequest,
+    signal: AbortSignal,
+  ): Promise<ModelComparison> {
+    const { sourceLanguage, detectedLanguage } =
+      this.resolveSourceLanguage(request);
+    const { targetLanguage } = request;
+
+    if (sourceLanguage === targetLanguage) {
+      throw new ValidationError(
+        "Source and target languages must differ to compare models",
+      );
+    }
+
+    const results: ModelComparisonResult[] = [];
+    for (const modelName of request.modelNames) {
+      if (signal.aborted) {
+        throw new Error("Model comparison aborted by user");
+      }
+      results.push(
+        await this.runComparison(
+          request,
+          modelName,
+          sourceLanguage,
+          targetLanguage,
+          signal,
+        ),
+      );
+    }
+
+    return { sourceLanguage, targetLanguage, detectedLanguage, results };
+  }
+
+  /**
+   * Resolve "auto" to a concrete language using the offline detector
+   */
+  private resolveSourceLanguage(
+    request: Pick<
+      TranslationRequest,
+      "text" | "sourceLanguage" | "fallbackLanguage"
+    >,
+  ): {
+    sourceLanguage: SupportedLanguage;
+    detectedLanguage?: LanguageDetectionResult;
+  } {
+    if (request.sourceLanguage !== AUTO_DETECT_LANGUAGE) {
+      return { sourceLanguage: request.sourceLanguage };
+    }
+
+    const detectedLanguage = this.languageDetectionService.detect(
+      request.text,
+      request.fallbackLanguage,
+    );
+    return { sourceLanguage: detectedLanguage.language, detectedLanguage };
   }
 
-  private async getModelToUse(requestedModel?: string): Promise<string> {
+  private async getModelToUse(
+    requestedModel?: string,
+    pair?: LanguagePair,
+  ): Promise<string> {
     if (requestedModel) {
       const modelExists = await this.ollamaService.modelExists(requestedModel);
       if (modelExists) {
@@ -116,8 +586,16 @@ export class TranslationServiceImpl implements TranslationService {
       }
     }
 
-    // Fallback to default model
+    // Then the model preferred for the language pair
     const settings = await this.settingsRepository.getSettings();
+    const pairModel =
+      pair &&
+      getLanguagePairModel(settings, pair.sourceLanguage, pair.targetLanguage);
+    if (pairModel && (await this.ollamaService.modelExists(pairModel))) {
+      return pairModel;
+    }
+
+    // Fallback to default model
     if (settings.defaultModel) {
       const modelExists = await this.ollamaService.modelExists(
         settings.defaultModel,
@@ -136,51 +614,439 @@ export class TranslationServiceImpl implements TranslationService {
     throw new Error("No available models found");
   }
 
-  private async performTranslation(
+  /**
+   * Cache key for a request, or undefined while the cache is disabled
+   */
+  private async getCacheKey(
+    request: TranslationRequest,
+    modelName: string,
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+    translationMemoryMatches: TranslationMemoryMatch[],
+  ): Promise<string | undefined> {
+    if (!(await this.translationCacheService.isEnabled())) {
+      return undefined;
+    }
+
+    const [glossaryEntries, template, modelDigest] = await Promise.all([
+      this.glossaryService.findMatchingEntries(
+        request.text,
+        sourceLanguage,
+        targetLanguage,
+      ),
+      this.promptTemplateService.resolveTemplate(
+        modelName,
+        sourceLanguage,
+        targetLanguage,
+      ),
+      this.getModelDigest(modelName),
+    ]);
+
+    return this.translationCacheService.createKey({
+      text: request.text,
+      sourceLanguage,
+      targetLanguage,
+      modelDigest,
+      promptTemplate: {
+        id: template.id,
+        name: template.name,
+        version: template.version,
+      },
+      context: request.context,
+      glossaryEntries,
+      translationMemoryMatches,
+      formality: request.formality,
+      domain: request.domain,
+      options: {
+        temperature: TRANSLATION_TEMPERATURE,
+        candidateCount: request.candidateCount,
+        backTranslate: request.backTranslate,
+        alignSentences: request.alignSentences,
+      },
+    });
+  }
+
+  /**
+   * Digest of the installed model, falling back to its name
+   */
+  private async getModelDigest(modelName: string): Promise<string> {
+    const models = await this.ollamaService.listModels();
+    const model = models.find(
+      (m) => m.name === modelName || m.name === `${modelName}:latest`,
+    );
+    return model?.digest ?? modelName;
+  }
+
+  private fromCache(
+    cached: TranslationResponse,
+    detectedLanguage: LanguageDetectionResult | undefined,
+  ): TranslationResponse {
+    return {
+      ...cached,
+      timestamp: new Date().toISOString(),
+      detectedLanguage,
+      fromCache: true,
+      // Nothing was generated for this response
+      metrics: undefined,
+    };
+  }
+
+  /**
+   * Best translation memory matches of the source text.
+   * Empty when source and target are the same language; a failed lookup
+   * falls back to translating with the model.
+   */
+  private async findTranslationMemoryMatches(
     text: string,
     sourceLanguage: SupportedLanguage,
     targetLanguage: SupportedLanguage,
+  ): Promise<TranslationMemoryMatch[]> {
+    if (sourceLanguage === targetLanguage) return [];
+
+    try {
+      const matches = await this.translationMemoryService.findMatches(
+        text,
+        sourceLanguage,
+        targetLanguage,
+      );
+      return matches.slice(0, MAX_TRANSLATION_MEMORY_REFERENCES);
+    } catch (error) {
+      console.warn("Failed to search the translation memory:", error);
+      return [];
+    }
+  }
+
+  /** Response reusing the approved translation of an exact match */
+  private fromTranslationMemory(
+    matches: TranslationMemoryMatch[],
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+    detectedLanguage: LanguageDetectionResult | undefined,
+  ): TranslationResponse {
+    return {
+      translatedText: matches[0].targetText,
+      sourceLanguage,
+      targetLanguage,
+      modelUsed: TRANSLATION_MEMORY_MODEL,
+      timestamp: new Date().toISOString(),
+      detectedLanguage,
+      translationMemoryMatches: matches,
+    };
+  }
+
+  /**
+   * Split the source into segments that fit the model's context window
+   * alongside the rendered prompt
+   */
+  private async planTranslation(
+    request: TranslationRequest,
     modelName: string,
-    signal?: AbortSignal,
-  ): Promise<string> {
-    const prompt = this.createTranslationPrompt(
-      text,
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+    translationMemoryMatches: TranslationMemoryMatch[] = [],
+  ): Promise<TranslationPlan> {
+    const glossaryEntries = await this.glossaryService.findMatchingEntries(
+      request.text,
       sourceLanguage,
       targetLanguage,
     );
 
-    const response = await this.ollamaService.chat({
-      model: modelName,
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a professional translator. Translate the given text accurately and naturally. Return only the translated text without any explanations or additional content.",
-        },
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      stream: false,
-      temperature: 0.3, // Lower temperature for more consistent translations
-      signal,
+    const contextLength = Math.min(
+      (await this.ollamaService.getContextLength(modelName)) ??
+        DEFAULT_CONTEXT_LENGTH,
+      MAX_CONTEXT_LENGTH,
+    );
+
+    // Measure the prompt without the text; it is repeated for every segment
+    const emptyPrompt = await this.promptTemplateService.buildPrompt(
+      modelName,
+      {
+        text: "",
+        sourceLanguage,
+        targetLanguage,
+        context: request.context,
+        glossaryEntries,
+        translationMemoryMatches,
+        formality: request.formality,
+        domain: request.domain,
+      },
+    );
+    const promptTokens = estimateTokens(
+      emptyPrompt.messages.map((message) => message.content).join("\n"),
+    );
+
+    const { text, spans, originals } = protectText(request.text);
+    const tokenBudget = getSegmentTokenBudget(contextLength, promptTokens);
+
+    return {
+      modelName,
+      sourceLanguage,
+      targetLanguage,
+      context: request.context,
+      formality: request.formality,
+      domain: request.domain,
+      glossaryEntries,
+      translationMemoryMatches,
+      sourceText: request.text,
+      segments: request.alignSentences
+        ? splitSentences(text, tokenBudget)
+        : segmentText(text, tokenBudget),
+      protectedSpans: spans,
+      originalSpans: originals,
+      alignSentences: Boolean(request.alignSentences),
+      contextLength,
+    };
+  }
+
+  private async buildSegmentPrompt(
+    segment: TextSegment,
+    plan: TranslationPlan,
+  ): Promise<RenderedPrompt> {
+    // A single segment is the whole text, whose glossary matches are known
+    const glossaryEntries =
+      plan.segments.length === 1
+        ? plan.glossaryEntries
+        : await this.glossaryService.findMatchingEntries(
+            segment.text,
+            plan.sourceLanguage,
+            plan.targetLanguage,
+          );
+
+    return this.promptTemplateService.buildPrompt(plan.modelName, {
+      text: segment.text,
+      sourceLanguage: plan.sourceLanguage,
+      targetLanguage: plan.targetLanguage,
+      context: plan.context,
+      glossaryEntries,
+      // Matches of the whole text would mislead the model on a part of it
+      translationMemoryMatches:
+        plan.segments.length === 1 ? plan.translationMemoryMatches : [],
+      formality: plan.formality,
+      domain: plan.domain,
     });
+  }
+
+  /**
+   * Translate every segment one after another, in document order,
+   * and put the protected spans back
+   */
+  private async translateSegments(
+    plan: TranslationPlan,
+    temperature: number,
+    signal?: AbortSignal,
+  ): Promise<GeneratedTranslation> {
+    const results: OllamaChatResult[] = [];
+    let promptTemplate: PromptTemplateRef | undefined;
+    for (const segment of plan.segments) {
+      // Code blocks and the like standing alone need no translation
+      if (isPlaceholderOnly(segment.text)) {
+        results.push({ content: segment.text });
+        continue;
+      }
 
-    return response.trim();
+      const prompt = await this.buildSegmentPrompt(segment, plan);
+      promptTemplate = prompt.template;
+      results.push(
+        await this.performTranslation(prompt, plan, temperature, signal),
+      );
+    }
+
+    return this.assembleTranslation(
+      plan,
+      results.map((result) => result.content),
+      results.map((result) => result.metrics),
+      promptTemplate,
+    );
   }
 
-  private createTranslationPrompt(
-    text: string,
+  /** Join the segment translations and put the protected spans back */
+  private assembleTranslation(
+    plan: TranslationPlan,
+    translations: string[],
+    segmentMetrics: (GenerationMetrics | undefined)[],
+    promptTemplate: PromptTemplateRef | undefined,
+  ): GeneratedTranslation {
+    const { text, missingSpans } = restoreText(
+      joinSegments(plan.segments, translations).trim(),
+      plan.protectedSpans,
+    );
+
+    return {
+      translatedText: text,
+      missingProtectedSpans: missingSpans.length ? missingSpans : undefined,
+      promptTemplate,
+      metrics: combineGenerationMetrics(segmentMetrics),
+      alignment: this.alignTranslation(plan, translations, text),
+    };
+  }
+
+  /**
+   * Where each source sentence went in the translation, when the plan
+   * translated sentence by sentence
+   */
+  private alignTranslation(
+    plan: TranslationPlan,
+    translations: string[],
+    translatedText: string,
+  ): SentenceAlignment[] | undefined {
+    if (!plan.alignSentences) return undefined;
+
+    return alignSegments({
+      segments: plan.segments,
+      translations,
+      sourceText: plan.sourceText,
+      translatedText,
+      renderSource: (text) => restoreOriginalText(text, plan.originalSpans),
+      renderTarget: (text) =>
+        restoreText(text.trim(), plan.protectedSpans).text,
+    });
+  }
+
+  /**
+   * Further candidates sampled at higher temperatures. Candidates equal to
+   * the main translation or to each other are dropped, so fewer than
+   * requested may come back.
+   */
+  private async generateAlternatives(
+    plan: TranslationPlan,
+    candidateCount: number | undefined,
+    translatedText: string,
+    signal?: AbortSignal,
+  ): Promise<string[] | undefined> {
+    if (!candidateCount || candidateCount <= 1) return undefined;
+
+    const normalize = (text: string): string => text.replace(/\s+/g, " ");
+    const seen = new Set([normalize(translatedText)]);
+    const alternatives: string[] = [];
+
+    for (const temperature of ALTERNATIVE_TEMPERATURES.slice(
+      0,
+      candidateCount - 1,
+    )) {
+      const candidate = await this.translateSegments(plan, temperature, signal);
+      const key = normalize(candidate.translatedText);
+      if (candidate.translatedText && !seen.has(key)) {
+        seen.add(key);
+        alternatives.push(candidate.translatedText);
+      }
+    }
+
+    return alternatives;
+  }
+
+  /**
+   * Translate with one model for a comparison, recording time and tokens.
+   * Failures are reported in the result so the other models still run.
+   */
+  private async runComparison(
+    request: ModelComparisonRequest,
+    modelName: string,
     sourceLanguage: SupportedLanguage,
     targetLanguage: SupportedLanguage,
-  ): string {
-    const sourceName = getLanguageName(sourceLanguage);
-    const targetName = getLanguageName(targetLanguage);
+    signal: AbortSignal,
+  ): Promise<ModelComparisonResult> {
+    const startedAt = Date.now();
 
-    return `Translate the following ${sourceName} text to ${targetName}:
+    try {
+      const plan = await this.planTranslation(
+        request,
+        modelName,
+        sourceLanguage,
+        targetLanguage,
+      );
+
+      const { translatedText, metrics } = await this.translateSegments(
+        plan,
+        TRANSLATION_TEMPERATURE,
+        signal,
+      );
+
+      return {
+        modelName,
+        translatedText,
+        latencyMs: Date.now() - startedAt,
+        metrics,
+      };
+    } catch (error) {
+      if (signal.aborted) throw error;
+      return {
+        modelName,
+        error: error instanceof Error ? error.message : String(error),
+        latencyMs: Date.now() - startedAt,
+      };
+    }
+  }
 
-${text}`;
+  /**
+   * Translate the result back into the source language and score how much
+   * of the original it recovers
+   */
+  private async backTranslate(
+    request: TranslationRequest,
+    plan: TranslationPlan,
+    translatedText: string,
+    signal?: AbortSignal,
+  ): Promise<BackTranslation> {
+    const reversePlan = await this.planTranslation(
+      {
+        text: translatedText,
+        sourceLanguage: plan.targetLanguage,
+        targetLanguage: plan.sourceLanguage,
+        context: request.context,
+      },
+      plan.modelName,
+      plan.targetLanguage,
+      plan.sourceLanguage,
+    );
+    const { translatedText: text } = await this.translateSegments(
+      reversePlan,
+      TRANSLATION_TEMPERATURE,
+      signal,
+    );
+
+    return { text, score: chrF(text, request.text) };
+  }
+
+  private async performTranslation(
+    prompt: RenderedPrompt,
+    plan: TranslationPlan,
+    temperature: number,
+    signal?: AbortSignal,
+  ): Promise<OllamaChatResult> {
+    const response = await this.ollamaService.chat({
+      model: plan.modelName,
+      messages: prompt.messages,
+      stream: false,
+      temperature,
+      num_ctx: plan.contextLength,
+      signal,
+    });
+
+    return { ...response, content: response.content.trim() };
+  }
+
+  /**
+   * Required glossary terms absent from the translation.
+   * Undefined when no glossary entry applied to the source text.
+   */
+  private checkGlossaryTerms(
+    entries: GlossaryEntry[],
+    translatedText: string,
+  ): MissingGlossaryTerm[] | undefined {
+    if (entries.length === 0) return undefined;
+    return this.glossaryService.findMissingTerms(entries, translatedText);
+  }
+
+  private async recordHistory(
+    request: TranslationRequest,
+    response: TranslationResponse,
+  ): Promise<void> {
+    try {
+      await this.translationHistoryService.record(request, response);
+    } catch (error) {
+      // A failed history write must not fail the translation
+      console.warn("Failed to record translation history:", error);
+    }
   }
 
   private async updateModelUsage(modelName: string): Promise<void> {
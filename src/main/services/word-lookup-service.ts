@@ -0,0 +1,125 @@
+import { InternalError } from "#shared/errors.js";
+import { z } from "zod";
+import type { OllamaChatMessage } from "../../shared/domain/ollama.js";
+import { getLanguageName } from "../../shared/domain/translation.js";
+import type {
+  WordLookup,
+  WordLookupRequest,
+} from "../../shared/domain/word-lookup.js";
+import {
+  WordLookupRequest as WordLookupRequestSchema,
+  WordLookup as WordLookupSchema,
+} from "../../shared/domain/word-lookup.js";
+import type { OllamaService } from "./ollama-service.js";
+
+/** Dictionary answers should not vary between lookups */
+const LOOKUP_TEMPERATURE = 0.1;
+
+/** Lookups kept for the session; the oldest are dropped beyond this */
+const MAX_CACHED_LOOKUPS = 500;
+
+const MAX_EXAMPLES = 3;
+
+/** JSON schema Ollama constrains the reply to */
+const LOOKUP_FORMAT = z.toJSONSchema(WordLookupSchema) as Record<
+  string,
+  unknown
+>;
+
+export interface WordLookupService {
+  /**
+   * Dictionary entry for a word or phrase, generated by the model as JSON
+   * and validated. Entries are cached in memory for the session.
+   */
+  lookUp(request: WordLookupRequest, signal?: AbortSignal): Promise<WordLookup>;
+}
+
+function buildLookupMessages(
+  request: z.infer<typeof WordLookupRequestSchema>,
+): OllamaChatMessage[] {
+  const source = getLanguageName(request.sourceLanguage);
+  const target = getLanguageName(request.targetLanguage);
+
+  const system = [
+    `You are a ${source}-${target} dictionary. Reply with a JSON object only, with these fields:`,
+    `- headword: the dictionary form of the ${source} word or phrase`,
+    `- reading: for Japanese, the hiragana reading (furigana) of the headword; for Chinese, pinyin with tone marks; for other languages, the IPA pronunciation`,
+    `- partOfSpeech: its part of speech, in ${target}`,
+    `- translations: 1 to 5 ${target} translations, the one fitting the context first`,
+    `- examples: up to ${MAX_EXAMPLES} objects with a short ${source} "sentence" using the word and its ${target} "translation"`,
+  ].join("\n");
+
+  const user = request.context
+    ? `Word: ${request.text}\nContext: ${request.context}`
+    : `Word: ${request.text}`;
+
+  return [
+    { role: "system", content: system },
+    { role: "user", content: user },
+  ];
+}
+
+/** Validate the model's reply; models sometimes leave fields empty */
+function parseLookup(content: string): WordLookup {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    throw new InternalError("The model did not return a dictionary entry");
+  }
+
+  const parsed = WordLookupSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new InternalError(
+      "The model returned an incomplete dictionary entry",
+      parsed.error.issues,
+    );
+  }
+
+  const { reading, partOfSpeech, examples, ...lookup } = parsed.data;
+  return {
+    ...lookup,
+    reading: reading?.trim() || undefined,
+    partOfSpeech: partOfSpeech?.trim() || undefined,
+    examples: examples.slice(0, MAX_EXAMPLES),
+  };
+}
+
+export class WordLookupServiceImpl implements WordLookupService {
+  private readonly cache = new Map<string, WordLookup>();
+
+  constructor(private readonly ollamaService: OllamaService) {}
+
+  async lookUp(
+    request: WordLookupRequest,
+    signal?: AbortSignal,
+  ): Promise<WordLookup> {
+    const parsed = WordLookupRequestSchema.parse(request);
+    // The context only orders the translations, so other sentences reuse the entry
+    const key = JSON.stringify([
+      parsed.modelName,
+      parsed.sourceLanguage,
+      parsed.targetLanguage,
+      parsed.text,
+    ]);
+
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const response = await this.ollamaService.chat({
+      model: parsed.modelName,
+      messages: buildLookupMessages(parsed),
+      stream: false,
+      temperature: LOOKUP_TEMPERATURE,
+      format: LOOKUP_FORMAT,
+      signal,
+    });
+    const lookup = parseLookup(response.content);
+
+    this.cache.set(key, lookup);
+    if (this.cache.size > MAX_CACHED_LOOKUPS) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return lookup;
+  }
+}
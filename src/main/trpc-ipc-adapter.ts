@@ -21,16 +21,101 @@ export type IPCErrorResponse = {
   data?: unknown;
 };
 
+/**
+ * Type definition for a subscription start request
+ */
+export type IPCSubscriptionOperation = IPCOperation & {
+  id: string;
+};
+
+/**
+ * Type definition for messages pushed to the renderer for a subscription
+ */
+export type IPCSubscriptionMessage =
+  | { id: string; type: "data"; data: unknown }
+  | { id: string; type: "error"; error: IPCErrorResponse }
+  | { id: string; type: "complete" };
+
+/**
+ * Resolve nested path like "task.list" → caller.task.list
+ */
+const resolveProcedure = (
+  caller: unknown,
+  path: string,
+): ((input: unknown) => Promise<unknown>) => {
+  if (!path) {
+    throw new AppError("Missing path in tRPC call", "INVALID_REQUEST", 400);
+  }
+
+  let current: unknown = caller;
+  const segments = path.split(".");
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+
+    if (current === undefined || current === null) {
+      throw new AppError(
+        `Invalid path segment: ${segments.slice(0, i).join(".")} is undefined`,
+        "NOT_FOUND",
+        404,
+      );
+    }
+
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  if (typeof current !== "function") {
+    throw new AppError(`No procedure at path: ${path}`, "NOT_FOUND", 404);
+  }
+
+  return current as (input: unknown) => Promise<unknown>;
+};
+
+/**
+ * Convert errors to standardized format
+ */
+const serializeError = (error: unknown): IPCErrorResponse => {
+  if (error instanceof AppError) {
+    return {
+      code: error.code,
+      message: error.message,
+      statusCode: error.statusCode,
+      data: error.details,
+    };
+  }
+
+  const internalError = new InternalError(
+    error instanceof Error ? error.message : "Unknown error",
+    error,
+  );
+
+  return {
+    code: internalError.code,
+    message: internalError.message,
+    statusCode: internalError.statusCode,
+    data:
+      process.env.NODE_ENV === "development"
+        ? internalError.details
+        : undefined,
+  };
+};
+
 /**
  * Attaches a tRPC router to Electron's ipcMain under a single channel name.
  *
  * Renderer side: `ipcRenderer.invoke('trpc', { path: 'task.list', input: { ... } })`
  *
+ * Subscriptions use one-way messages instead of `invoke`:
+ * - `${channel}:subscription:start` starts a subscription with a client-chosen id
+ * - `${channel}:subscription:stop` aborts it
+ * - `${channel}:subscription` carries data/error/complete messages back
+ *
  * This adapter provides:
  * - Dynamic path resolution for nested routers
  * - Standardized error handling
  * - Debugging support with optional request IDs
  * - Context injection
+ * - Streaming subscriptions with cancellation
  */
 export const attachTRPC = <T extends AnyTRPCRouter>(
   channel: string,
@@ -43,9 +128,7 @@ export const attachTRPC = <T extends AnyTRPCRouter>(
     try {
       const { path, input, requestId } = op;
 
-      if (!path) {
-        throw new AppError("Missing path in tRPC call", "INVALID_REQUEST", 400);
-      }
+      const procedure = resolveProcedure(caller, path);
 
       // Optional logging for debugging
       if (process.env.NODE_ENV === "development") {
@@ -55,32 +138,8 @@ export const attachTRPC = <T extends AnyTRPCRouter>(
         );
       }
 
-      // Resolve nested path like "task.list" → caller.task.list
-      let current: unknown = caller;
-      const segments = path.split(".");
-
-      for (let i = 0; i < segments.length; i++) {
-        const segment = segments[i];
-
-        if (current === undefined || current === null) {
-          throw new AppError(
-            `Invalid path segment: ${segments.slice(0, i).join(".")} is undefined`,
-            "NOT_FOUND",
-            404,
-          );
-        }
-
-        current = (current as Record<string, unknown>)[segment];
-      }
-
-      if (typeof current !== "function") {
-        throw new AppError(`No procedure at path: ${path}`, "NOT_FOUND", 404);
-      }
-
       // Forward single `input` param expected by tRPC procedures
-      const result = await (current as (input: unknown) => Promise<unknown>)(
-        input,
-      );
+      const result = await procedure(input);
 
       // Optional logging for debugging
       if (process.env.NODE_ENV === "development" && requestId) {
@@ -89,32 +148,7 @@ export const attachTRPC = <T extends AnyTRPCRouter>(
 
       return result;
     } catch (error) {
-      // Convert errors to standardized format
-      let serializedError: IPCErrorResponse;
-
-      if (error instanceof AppError) {
-        serializedError = {
-          code: error.code,
-          message: error.message,
-          statusCode: error.statusCode,
-          data: error.details,
-        };
-      } else {
-        const internalError = new InternalError(
-          error instanceof Error ? error.message : "Unknown error",
-          error,
-        );
-
-        serializedError = {
-          code: internalError.code,
-          message: internalError.message,
-          statusCode: internalError.statusCode,
-          data:
-            process.env.NODE_ENV === "development"
-              ? internalError.details
-              : undefined,
-        };
-      }
+      const serializedError = serializeError(error);
 
       // Log error in development
       if (process.env.NODE_ENV === "development") {
@@ -124,4 +158,72 @@ export const attachTRPC = <T extends AnyTRPCRouter>(
       throw serializedError;
     }
   });
+
+  // Active subscriptions keyed by sender and client-chosen id
+  const subscriptions = new Map<string, AbortController>();
+
+  ipcMain.on(
+    `${channel}:subscription:start`,
+    async (event, op: IPCSubscriptionOperation) => {
+      const { id, path, input } = op;
+      const key = `${event.sender.id}:${id}`;
+      const controller = new AbortController();
+      subscriptions.set(key, controller);
+
+      // Abort when the renderer goes away without stopping the subscription
+      const onDestroyed = (): void => controller.abort();
+      event.sender.once("destroyed", onDestroyed);
+
+      const send = (message: IPCSubscriptionMessage): void => {
+        if (!event.sender.isDestroyed()) {
+          event.sender.send(`${channel}:subscription`, message);
+        }
+      };
+
+      try {
+        // A caller per subscription so the procedure receives its own signal
+        const subscriptionCaller = router.createCaller(context || {}, {
+          signal: controller.signal,
+        });
+        const procedure = resolveProcedure(subscriptionCaller, path);
+        const iterable = (await procedure(input)) as AsyncIterable<unknown>;
+
+        if (!iterable || typeof iterable[Symbol.asyncIterator] !== "function") {
+          throw new AppError(
+            `Procedure at path ${path} is not a subscription`,
+            "INVALID_REQUEST",
+            400,
+          );
+        }
+
+        for await (const data of iterable) {
+          if (controller.signal.aborted) break;
+          send({ id, type: "data", data });
+        }
+
+        send({ id, type: "complete" });
+      } catch (error) {
+        const serializedError = serializeError(error);
+
+        // Log error in development
+        if (process.env.NODE_ENV === "development") {
+          console.error(
+            `[tRPC] Subscription error in '${channel}':`,
+            serializedError,
+          );
+        }
+
+        send({ id, type: "error", error: serializedError });
+      } finally {
+        subscriptions.delete(key);
+        event.sender.removeListener("destroyed", onDestroyed);
+      }
+    },
+  );
+
+  ipcMain.on(`${channel}:subscription:stop`, (event, op: { id: string }) => {
+    const key = `${event.sender.id}:${op.id}`;
+    subscriptions.get(key)?.abort();
+    subscriptions.delete(key);
+  });
 };
@@ -1,8 +1,20 @@
 import { publicProcedure, router } from "./core.js";
+import { documentsRouter } from "./routers/documents.js";
+import { glossaryRouter } from "./routers/glossary.js";
+import { historyRouter } from "./routers/history.js";
+import { i18nResourcesRouter } from "./routers/i18n-resources.js";
 import { languageRouter } from "./routers/language.js";
+import { localizationFilesRouter } from "./routers/localization-files.js";
 import { modelsRouter } from "./routers/models.js";
+import { postEditsRouter } from "./routers/post-edits.js";
+import { promptTemplatesRouter } from "./routers/prompt-templates.js";
+import { subtitlesRouter } from "./routers/subtitles.js";
 import { themeRouter } from "./routers/theme.js";
+import { translationCacheRouter } from "./routers/translation-cache.js";
+import { translationChatRouter } from "./routers/translation-chat.js";
+import { translationMemoryRouter } from "./routers/translation-memory.js";
 import { translationRouter } from "./routers/translation.js";
+import { wordLookupRouter } from "./routers/word-lookup.js";
 
 /**
  * Main‑process tRPC router
@@ -23,8 +35,44 @@ export const appRouter = router({
   /** Translation domain procedures */
   translation: translationRouter,
 
+  /** Follow-up questions about a translation */
+  translationChat: translationChatRouter,
+
+  /** Dictionary lookup of selected words */
+  wordLookup: wordLookupRouter,
+
   /** Model management procedures */
   models: modelsRouter,
+
+  /** Glossary / termbase procedures */
+  glossary: glossaryRouter,
+
+  /** Translation memory and TMX procedures */
+  translationMemory: translationMemoryRouter,
+
+  /** Opt-in capture of corrected machine translations */
+  postEdits: postEditsRouter,
+
+  /** Prompt template procedures */
+  promptTemplates: promptTemplatesRouter,
+
+  /** Opt-in translation cache procedures */
+  translationCache: translationCacheRouter,
+
+  /** Opt-in translation history procedures */
+  history: historyRouter,
+
+  /** i18n resource file translation procedures */
+  i18nResources: i18nResourcesRouter,
+
+  /** Text and Markdown document open/save procedures */
+  documents: documentsRouter,
+
+  /** SRT / WebVTT subtitle translation procedures */
+  subtitles: subtitlesRouter,
+
+  /** XLIFF / gettext PO pre-translation procedures */
+  localizationFiles: localizationFilesRouter,
 });
 
 /** Export router type for the renderer (type‑only import) */
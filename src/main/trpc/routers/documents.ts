@@ -0,0 +1,24 @@
+import { container } from "../../../main/di/container.js";
+import {
+  OpenedDocument,
+  SavedDocument,
+  SaveDocumentRequest,
+} from "../../../shared/domain/document.js";
+import { publicProcedure, router } from "../core.js";
+
+export const documentsRouter = router({
+  /** Returns null when the user cancels the dialog */
+  open: publicProcedure.output(OpenedDocument.nullable()).mutation(async () => {
+    const documentService = await container.getDocumentService();
+    return await documentService.openDocument();
+  }),
+
+  /** Returns null when the user cancels the dialog */
+  save: publicProcedure
+    .input(SaveDocumentRequest)
+    .output(SavedDocument.nullable())
+    .mutation(async ({ input }) => {
+      const documentService = await container.getDocumentService();
+      return await documentService.saveDocument(input);
+    }),
+});
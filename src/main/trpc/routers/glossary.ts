@@ -0,0 +1,83 @@
+import { z } from "zod";
+import { container } from "../../../main/di/container.js";
+import {
+  GlossaryEntry,
+  GlossaryEntryInput,
+  GlossaryEntryUpdate,
+  GlossaryFormat,
+  GlossaryImportMode,
+  GlossaryImportResult,
+  GlossaryLanguagePair,
+} from "../../../shared/domain/glossary.js";
+import { publicProcedure, router } from "../core.js";
+
+export const glossaryRouter = router({
+  list: publicProcedure
+    .input(GlossaryLanguagePair.optional())
+    .output(z.array(GlossaryEntry))
+    .query(async ({ input }) => {
+      const glossaryService = await container.getGlossaryService();
+      return await glossaryService.listEntries(input);
+    }),
+
+  create: publicProcedure
+    .input(GlossaryEntryInput)
+    .output(GlossaryEntry)
+    .mutation(async ({ input }) => {
+      const glossaryService = await container.getGlossaryService();
+      return await glossaryService.createEntry(input);
+    }),
+
+  update: publicProcedure
+    .input(
+      z.object({
+        id: z.string().min(1),
+        changes: GlossaryEntryUpdate,
+      }),
+    )
+    .output(GlossaryEntry)
+    .mutation(async ({ input }) => {
+      const glossaryService = await container.getGlossaryService();
+      return await glossaryService.updateEntry(input.id, input.changes);
+    }),
+
+  delete: publicProcedure
+    .input(
+      z.object({
+        id: z.string().min(1),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const glossaryService = await container.getGlossaryService();
+      await glossaryService.deleteEntry(input.id);
+    }),
+
+  import: publicProcedure
+    .input(
+      z.object({
+        format: GlossaryFormat,
+        content: z.string(),
+        mode: GlossaryImportMode.default("merge"),
+        /** Used for rows that do not name their languages */
+        pair: GlossaryLanguagePair.optional(),
+      }),
+    )
+    .output(GlossaryImportResult)
+    .mutation(async ({ input }) => {
+      const glossaryService = await container.getGlossaryService();
+      return await glossaryService.importEntries(input);
+    }),
+
+  export: publicProcedure
+    .input(
+      z.object({
+        format: GlossaryFormat,
+        pair: GlossaryLanguagePair.optional(),
+      }),
+    )
+    .output(z.string())
+    .query(async ({ input }) => {
+      const glossaryService = await container.getGlossaryService();
+      return await glossaryService.exportEntries(input.format, input.pair);
+    }),
+});
@@ -0,0 +1,49 @@
+import { z } from "zod";
+import { container } from "../../../main/di/container.js";
+import {
+  HistoryEntry,
+  HistoryQuery,
+  HistorySettings,
+  HistorySettingsUpdate,
+} from "../../../shared/domain/translation-history.js";
+import { publicProcedure, router } from "../core.js";
+
+export const historyRouter = router({
+  getSettings: publicProcedure.output(HistorySettings).query(async () => {
+    const historyService = await container.getTranslationHistoryService();
+    return await historyService.getSettings();
+  }),
+
+  updateSettings: publicProcedure
+    .input(HistorySettingsUpdate)
+    .output(HistorySettings)
+    .mutation(async ({ input }) => {
+      const historyService = await container.getTranslationHistoryService();
+      return await historyService.updateSettings(input);
+    }),
+
+  search: publicProcedure
+    .input(HistoryQuery.optional())
+    .output(z.array(HistoryEntry))
+    .query(async ({ input }) => {
+      const historyService = await container.getTranslationHistoryService();
+      return await historyService.search(input);
+    }),
+
+  delete: publicProcedure
+    .input(
+      z.object({
+        id: z.string().min(1),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const historyService = await container.getTranslationHistoryService();
+      await historyService.deleteEntry(input.id);
+    }),
+
+  /** Remove every recorded translation */
+  purge: publicProcedure.mutation(async () => {
+    const historyService = await container.getTranslationHistoryService();
+    await historyService.purge();
+  }),
+});
@@ -0,0 +1,12 @@
+import { container } from "../../../main/di/container.js";
+import { I18nResourceTranslationRequest } from "../../../shared/domain/i18n-resource.js";
+import { publicProcedure, router } from "../core.js";
+
+export const i18nResourcesRouter = router({
+  translate: publicProcedure
+    .input(I18nResourceTranslationRequest)
+    .subscription(async function* ({ input, signal }) {
+      const i18nResourceService = await container.getI18nResourceService();
+      yield* i18nResourceService.translateResource(input, signal);
+    }),
+});
@@ -0,0 +1,13 @@
+import { container } from "../../../main/di/container.js";
+import { LocalizationFileTranslationRequest } from "../../../shared/domain/localization-file.js";
+import { publicProcedure, router } from "../core.js";
+
+export const localizationFilesRouter = router({
+  translate: publicProcedure
+    .input(LocalizationFileTranslationRequest)
+    .subscription(async function* ({ input, signal }) {
+      const localizationFileService =
+        await container.getLocalizationFileService();
+      yield* localizationFileService.translateFile(input, signal);
+    }),
+});
@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { container } from "../../../main/di/container.js";
+import {
+  PostEdit,
+  PostEditInput,
+  PostEditSettings,
+  PostEditSettingsUpdate,
+  PostEditStatistics,
+} from "../../../shared/domain/post-edit.js";
+import { publicProcedure, router } from "../core.js";
+
+export const postEditsRouter = router({
+  getSettings: publicProcedure.output(PostEditSettings).query(async () => {
+    const postEditService = await container.getPostEditService();
+    return await postEditService.getSettings();
+  }),
+
+  updateSettings: publicProcedure
+    .input(PostEditSettingsUpdate)
+    .output(PostEditSettings)
+    .mutation(async ({ input }) => {
+      const postEditService = await container.getPostEditService();
+      return await postEditService.updateSettings(input);
+    }),
+
+  /** Store a corrected translation; returns null while capture is off */
+  record: publicProcedure
+    .input(PostEditInput)
+    .output(PostEdit.nullable())
+    .mutation(async ({ input }) => {
+      const postEditService = await container.getPostEditService();
+      return (await postEditService.record(input)) ?? null;
+    }),
+
+  list: publicProcedure.output(z.array(PostEdit)).query(async () => {
+    const postEditService = await container.getPostEditService();
+    return await postEditService.list();
+  }),
+
+  delete: publicProcedure
+    .input(
+      z.object({
+        id: z.string().min(1),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const postEditService = await container.getPostEditService();
+      await postEditService.deleteEntry(input.id);
+    }),
+
+  /** Remove every stored post-edit */
+  purge: publicProcedure.mutation(async () => {
+    const postEditService = await container.getPostEditService();
+    await postEditService.purge();
+  }),
+
+  statistics: publicProcedure.output(PostEditStatistics).query(async () => {
+    const postEditService = await container.getPostEditService();
+    return await postEditService.getStatistics();
+  }),
+});
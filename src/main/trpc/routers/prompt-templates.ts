@@ -0,0 +1,142 @@
+import { z } from "zod";
+import { container } from "../../../main/di/container.js";
+import { OllamaChatMessage } from "../../../shared/domain/ollama.js";
+import {
+  PromptTemplate,
+  PromptTemplateInput,
+  PromptTemplateScope,
+  PromptTemplateSettings,
+} from "../../../shared/domain/prompt-template.js";
+import {
+  Formality,
+  SupportedLanguage,
+  TranslationDomain,
+} from "../../../shared/domain/translation.js";
+import { publicProcedure, router } from "../core.js";
+
+export const promptTemplatesRouter = router({
+  getSettings: publicProcedure
+    .output(PromptTemplateSettings)
+    .query(async () => {
+      const promptTemplateService = await container.getPromptTemplateService();
+      return await promptTemplateService.getSettings();
+    }),
+
+  create: publicProcedure
+    .input(PromptTemplateInput)
+    .output(PromptTemplate)
+    .mutation(async ({ input }) => {
+      const promptTemplateService = await container.getPromptTemplateService();
+      return await promptTemplateService.createTemplate(input);
+    }),
+
+  update: publicProcedure
+    .input(
+      z.object({
+        id: z.string().min(1),
+        changes: PromptTemplateInput.partial(),
+      }),
+    )
+    .output(PromptTemplate)
+    .mutation(async ({ input }) => {
+      const promptTemplateService = await container.getPromptTemplateService();
+      return await promptTemplateService.updateTemplate(
+        input.id,
+        input.changes,
+      );
+    }),
+
+  delete: publicProcedure
+    .input(
+      z.object({
+        id: z.string().min(1),
+      }),
+    )
+    .output(PromptTemplateSettings)
+    .mutation(async ({ input }) => {
+      const promptTemplateService = await container.getPromptTemplateService();
+      return await promptTemplateService.deleteTemplate(input.id);
+    }),
+
+  reset: publicProcedure
+    .input(
+      z.object({
+        id: z.string().min(1),
+      }),
+    )
+    .output(PromptTemplate)
+    .mutation(async ({ input }) => {
+      const promptTemplateService = await container.getPromptTemplateService();
+      return await promptTemplateService.resetTemplate(input.id);
+    }),
+
+  assign: publicProcedure
+    .input(
+      z.object({
+        scope: PromptTemplateScope,
+        /** null removes the assignment */
+        templateId: z.string().min(1).nullable(),
+      }),
+    )
+    .output(PromptTemplateSettings)
+    .mutation(async ({ input }) => {
+      const promptTemplateService = await container.getPromptTemplateService();
+      return await promptTemplateService.assignTemplate(
+        input.scope,
+        input.templateId,
+      );
+    }),
+
+  /**
+   * Render the messages a translation would send.
+   * Uses the unsaved draft when given, else the template id, else the
+   * template assigned to the model and language pair.
+   */
+  preview: publicProcedure
+    .input(
+      z.object({
+        text: z.string(),
+        sourceLanguage: SupportedLanguage,
+        targetLanguage: SupportedLanguage,
+        context: z.string().optional(),
+        formality: Formality.optional(),
+        domain: TranslationDomain.optional(),
+        modelName: z.string().optional(),
+        templateId: z.string().optional(),
+        draft: PromptTemplateInput.pick({
+          systemPrompt: true,
+          userPrompt: true,
+        }).optional(),
+      }),
+    )
+    .output(z.array(OllamaChatMessage))
+    .query(async ({ input }) => {
+      const promptTemplateService = await container.getPromptTemplateService();
+      const glossaryService = await container.getGlossaryService();
+
+      const template =
+        input.draft ??
+        (input.templateId
+          ? await promptTemplateService.getTemplate(input.templateId)
+          : await promptTemplateService.resolveTemplate(
+              input.modelName,
+              input.sourceLanguage,
+              input.targetLanguage,
+            ));
+      const glossaryEntries = await glossaryService.findMatchingEntries(
+        input.text,
+        input.sourceLanguage,
+        input.targetLanguage,
+      );
+
+      return promptTemplateService.renderMessages(template, {
+        text: input.text,
+        sourceLanguage: input.sourceLanguage,
+        targetLanguage: input.targetLanguage,
+        context: input.context,
+        glossaryEntries,
+        formality: input.formality,
+        domain: input.domain,
+      });
+    }),
+});
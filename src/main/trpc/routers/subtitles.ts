@@ -0,0 +1,12 @@
+import { container } from "../../../main/di/container.js";
+import { SubtitleTranslationRequest } from "../../../shared/domain/subtitle.js";
+import { publicProcedure, router } from "../core.js";
+
+export const subtitlesRouter = router({
+  translate: publicProcedure
+    .input(SubtitleTranslationRequest)
+    .subscription(async function* ({ input, signal }) {
+      const subtitleService = await container.getSubtitleService();
+      yield* subtitleService.translateSubtitles(input, signal);
+    }),
+});
@@ -0,0 +1,30 @@
+import { container } from "../../../main/di/container.js";
+import {
+  TranslationCacheSettingsUpdate,
+  TranslationCacheStats,
+} from "../../../shared/domain/translation-cache.js";
+import { publicProcedure, router } from "../core.js";
+
+export const translationCacheRouter = router({
+  stats: publicProcedure.output(TranslationCacheStats).query(async () => {
+    const translationCacheService =
+      await container.getTranslationCacheService();
+    return await translationCacheService.getStats();
+  }),
+
+  updateSettings: publicProcedure
+    .input(TranslationCacheSettingsUpdate)
+    .output(TranslationCacheStats)
+    .mutation(async ({ input }) => {
+      const translationCacheService =
+        await container.getTranslationCacheService();
+      return await translationCacheService.updateSettings(input);
+    }),
+
+  clear: publicProcedure.output(TranslationCacheStats).mutation(async () => {
+    const translationCacheService =
+      await container.getTranslationCacheService();
+    await translationCacheService.clear();
+    return await translationCacheService.getStats();
+  }),
+});
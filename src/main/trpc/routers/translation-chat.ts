@@ -0,0 +1,14 @@
+import { container } from "../../../main/di/container.js";
+import { TranslationChatRequest } from "../../../shared/domain/translation-chat.js";
+import { publicProcedure, router } from "../core.js";
+
+export const translationChatRouter = router({
+  /** Stream the reply to a question about a translation */
+  chatStream: publicProcedure
+    .input(TranslationChatRequest)
+    .subscription(async function* ({ input, signal }) {
+      const translationChatService =
+        await container.getTranslationChatService();
+      yield* translationChatService.chatStream(input, signal);
+    }),
+});
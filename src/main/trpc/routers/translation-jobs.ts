@@ -0,0 +1,30 @@
+import { z } from "zod";
+import { container } from "../../../main/di/container.js";
+import { TranslationJob } from "../../../shared/domain/translation-job.js";
+import { publicProcedure, router } from "../core.js";
+
+const JobIdInput = z.object({ jobId: z.string().min(1) });
+
+export const translationJobsRouter = router({
+  /** Queued, running and recently finished jobs, oldest first */
+  list: publicProcedure.output(z.array(TranslationJob)).query(async () => {
+    const jobManager = await container.getTranslationJobManager();
+    return jobManager.list();
+  }),
+
+  status: publicProcedure
+    .input(JobIdInput)
+    .output(TranslationJob)
+    .query(async ({ input }) => {
+      const jobManager = await container.getTranslationJobManager();
+      return jobManager.getJob(input.jobId);
+    }),
+
+  cancel: publicProcedure
+    .input(JobIdInput)
+    .output(z.object({ cancelled: z.boolean() }))
+    .mutation(async ({ input }) => {
+      const jobManager = await container.getTranslationJobManager();
+      return { cancelled: jobManager.cancel(input.jobId) };
+    }),
+});
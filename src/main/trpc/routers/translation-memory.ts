@@ -0,0 +1,71 @@
+import { z } from "zod";
+import { container } from "../../../main/di/container.js";
+import {
+  TranslationMemoryEntry,
+  TranslationMemoryEntryInput,
+  TranslationMemoryImportMode,
+  TranslationMemoryImportResult,
+  TranslationMemoryLanguagePair,
+} from "../../../shared/domain/translation-memory.js";
+import { publicProcedure, router } from "../core.js";
+
+export const translationMemoryRouter = router({
+  list: publicProcedure
+    .input(TranslationMemoryLanguagePair.optional())
+    .output(z.array(TranslationMemoryEntry))
+    .query(async ({ input }) => {
+      const translationMemoryService =
+        await container.getTranslationMemoryService();
+      return await translationMemoryService.listEntries(input);
+    }),
+
+  add: publicProcedure
+    .input(TranslationMemoryEntryInput)
+    .output(TranslationMemoryEntry)
+    .mutation(async ({ input }) => {
+      const translationMemoryService =
+        await container.getTranslationMemoryService();
+      return await translationMemoryService.addEntry(input);
+    }),
+
+  delete: publicProcedure
+    .input(
+      z.object({
+        id: z.string().min(1),
+      }),
+    )
+    .mutation(async ({ input }) => {
+      const translationMemoryService =
+        await container.getTranslationMemoryService();
+      await translationMemoryService.deleteEntry(input.id);
+    }),
+
+  import: publicProcedure
+    .input(
+      z.object({
+        content: z.string(),
+        mode: TranslationMemoryImportMode.default("merge"),
+        /** Only this language pair is read from the file */
+        pair: TranslationMemoryLanguagePair.optional(),
+      }),
+    )
+    .output(TranslationMemoryImportResult)
+    .mutation(async ({ input }) => {
+      const translationMemoryService =
+        await container.getTranslationMemoryService();
+      return await translationMemoryService.importTmx(input);
+    }),
+
+  export: publicProcedure
+    .input(
+      z.object({
+        pair: TranslationMemoryLanguagePair.optional(),
+      }),
+    )
+    .output(z.string())
+    .query(async ({ input }) => {
+      const translationMemoryService =
+        await container.getTranslationMemoryService();
+      return await translationMemoryService.exportTmx(input.pair);
+    }),
+});
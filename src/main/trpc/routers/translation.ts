@@ -1,11 +1,19 @@
 import { z } from "zod";
 import { container } from "../../../main/di/container.js";
 import {
+  LanguageDetectionResult,
+  LanguagePair,
+  ModelComparison,
+  ModelComparisonRequest,
+  SourceLanguage,
   SupportedLanguage,
   TranslationRequest,
   TranslationResponse,
+  TranslationSettings,
+  TranslationStyle,
 } from "../../../shared/domain/translation.js";
 import { publicProcedure, router } from "../core.js";
+import { translationJobsRouter } from "./translation-jobs.js";
 
 export const translationRouter = router({
   translate: publicProcedure
@@ -16,11 +24,18 @@ export const translationRouter = router({
       return await translationService.translate(input);
     }),
 
+  translateStream: publicProcedure
+    .input(TranslationRequest)
+    .subscription(async function* ({ input, signal }) {
+      const translationService = await container.getTranslationService();
+      yield* translationService.translateStream(input, signal);
+    }),
+
   translateText: publicProcedure
     .input(
       z.object({
         text: z.string().min(1),
-        sourceLanguage: SupportedLanguage,
+        sourceLanguage: SourceLanguage,
         targetLanguage: SupportedLanguage,
         modelName: z.string().optional(),
       }),
@@ -36,6 +51,30 @@ export const translationRouter = router({
       });
     }),
 
+  compareModels: publicProcedure
+    .input(ModelComparisonRequest)
+    .output(ModelComparison)
+    .mutation(async ({ input }) => {
+      const translationService = await container.getTranslationService();
+      return await translationService.compareModels(input);
+    }),
+
+  detectLanguage: publicProcedure
+    .input(
+      z.object({
+        text: z.string(),
+        fallbackLanguage: SupportedLanguage.optional(),
+      }),
+    )
+    .output(LanguageDetectionResult)
+    .query(async ({ input }) => {
+      const translationService = await container.getTranslationService();
+      return translationService.detectLanguage(
+        input.text,
+        input.fallbackLanguage,
+      );
+    }),
+
   getAvailableModels: publicProcedure
     .output(
       z.array(
@@ -92,13 +131,47 @@ export const translationRouter = router({
     }),
 
   cancelTranslation: publicProcedure
+    .input(z.object({ jobId: z.string().min(1) }))
     .output(z.object({ cancelled: z.boolean() }))
-    .mutation(async () => {
+    .mutation(async ({ input }) => {
       const translationService = await container.getTranslationService();
-      const result = translationService.cancelTranslation();
+      const result = translationService.cancelTranslation(input.jobId);
       return { cancelled: result };
     }),
 
+  rememberLanguagePair: publicProcedure
+    .input(LanguagePair)
+    .output(TranslationSettings)
+    .mutation(async ({ input }) => {
+      const settingsRepository =
+        await container.getTranslationSettingsRepository();
+      return await settingsRepository.rememberLanguagePair(input);
+    }),
+
+  rememberStyle: publicProcedure
+    .input(z.object({ pair: LanguagePair, style: TranslationStyle }))
+    .output(TranslationSettings)
+    .mutation(async ({ input }) => {
+      const settingsRepository =
+        await container.getTranslationSettingsRepository();
+      return await settingsRepository.rememberStyle(input.pair, input.style);
+    }),
+
+  setLanguagePairModel: publicProcedure
+    .input(z.object({ pair: LanguagePair, modelName: z.string().nullable() }))
+    .output(TranslationSettings)
+    .mutation(async ({ input }) => {
+      const settingsRepository =
+        await container.getTranslationSettingsRepository();
+      return await settingsRepository.setLanguagePairModel(
+        input.pair,
+        input.modelName,
+      );
+    }),
+
+  /** Per-job status and cancellation */
+  jobs: translationJobsRouter,
+
   isTranslating: publicProcedure
     .output(z.object({ translating: z.boolean() }))
     .query(async () => {
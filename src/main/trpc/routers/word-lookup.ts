@@ -0,0 +1,16 @@
+import { container } from "../../../main/di/container.js";
+import { WordLookupRequest } from "../../../shared/domain/word-lookup.js";
+import { publicProcedure, router } from "../core.js";
+
+export const wordLookupRouter = router({
+  /**
+   * Dictionary entry for a selected word, cached for the session.
+   * A subscription so that unsubscribing stops the model generating it.
+   */
+  lookUp: publicProcedure
+    .input(WordLookupRequest)
+    .subscription(async function* ({ input, signal }) {
+      const wordLookupService = await container.getWordLookupService();
+      yield await wordLookupService.lookUp(input, signal);
+    }),
+});
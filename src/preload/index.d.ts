@@ -1,3 +1,4 @@
+import type { MenuAction } from "#shared/domain/document";
 import type { ElectronAPI } from "@electron-toolkit/preload";
 import type { AppRouter } from "@main/trpc/router";
 import type { TRPCClient } from "@trpc/client";
@@ -7,6 +8,9 @@ interface API {
     initialLng: string;
     onLanguageChanged: (callback: (lng: string) => void) => () => void;
   };
+  menu: {
+    onAction: (callback: (action: MenuAction) => void) => () => void;
+  };
   translation: TRPCClient<AppRouter>["translation"];
   models: TRPCClient<AppRouter>["models"];
 }
@@ -1,9 +1,14 @@
 import { electronAPI } from "@electron-toolkit/preload";
 import { contextBridge, ipcRenderer } from "electron";
 
-import type { IPCOperation } from "@main/trpc-ipc-adapter.js";
+import type { MenuAction } from "#shared/domain/document.js";
+import type {
+  IPCOperation,
+  IPCSubscriptionMessage,
+  IPCSubscriptionOperation,
+} from "@main/trpc-ipc-adapter.js";
 import type { AppRouter } from "@main/trpc/router.js";
-import { createTRPCClient } from "@trpc/client";
+import { createTRPCClient, TRPCClientError } from "@trpc/client";
 import { observable } from "@trpc/server/observable";
 
 // Import initial language synchronously to avoid flicker
@@ -51,6 +56,43 @@ const trpc = createTRPCClient<AppRouter>({
             return (): void => {};
           }
 
+          if (op.type === "subscription") {
+            const id = requestId ?? generateRequestId();
+
+            const listener = (
+              _: unknown,
+              message: IPCSubscriptionMessage,
+            ): void => {
+              if (message.id !== id) return;
+
+              if (message.type === "data") {
+                observer.next({ result: { data: message.data, type: "data" } });
+              } else if (message.type === "error") {
+                // Keep the adapter's code and status alongside the message
+                observer.error(
+                  new TRPCClientError<AppRouter>(message.error.message, {
+                    meta: { ...message.error },
+                  }),
+                );
+              } else {
+                observer.complete();
+              }
+            };
+            ipcRenderer.on("trpc:subscription", listener);
+
+            const subscriptionOp: IPCSubscriptionOperation = {
+              ...enhancedOp,
+              id,
+            };
+            ipcRenderer.send("trpc:subscription:start", subscriptionOp);
+
+            // Stop the subscription in the main process on unsubscribe
+            return (): void => {
+              ipcRenderer.removeListener("trpc:subscription", listener);
+              ipcRenderer.send("trpc:subscription:stop", { id });
+            };
+          }
+
           ipcRenderer
             .invoke("trpc", enhancedOp)
             .then((data) => {
@@ -99,6 +141,19 @@ const api = {
     },
   },
 
+  // Application menu API
+  menu: {
+    // Listen for File menu commands from the main process
+    onAction: (callback: (action: MenuAction) => void): (() => void) => {
+      const listener = (_: unknown, action: MenuAction): void =>
+        callback(action);
+      ipcRenderer.on("menu-action", listener);
+      return (): void => {
+        ipcRenderer.removeListener("menu-action", listener);
+      };
+    },
+  },
+
   // Translation API
   translation: trpc.translation,
 
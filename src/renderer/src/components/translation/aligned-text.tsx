@@ -0,0 +1,241 @@
+import type { TextRange } from "#shared/domain/translation";
+import { MAX_LOOKUP_LENGTH } from "#shared/domain/word-lookup";
+import type { JSX } from "react";
+import { useCallback, useEffect, useRef } from "react";
+import {
+  findSentenceBounds,
+  registerScrollPane,
+  revealInPane,
+  syncScroll,
+} from "../../lib/scroll-sync";
+import { cn } from "../../lib/utils";
+import type { TranslationPane } from "../../stores/translation-store";
+import { useTranslationStore } from "../../stores/translation-store";
+import { useWordLookupStore } from "../../stores/word-lookup-store";
+import { Textarea } from "../ui/textarea";
+
+/** Textarea and highlight backdrop must lay out text identically */
+const TEXT_LAYOUT_CLASSES =
+  "text-base break-words whitespace-pre-wrap [scrollbar-gutter:stable]";
+
+interface AlignedTextProps {
+  text: string;
+  /** Sentence ranges in `text`, in document order */
+  ranges: TextRange[];
+  highlightedIndex: number | null;
+}
+
+/**
+ * Text with each aligned sentence in its own span, marked with
+ * `data-sentence` so panes can measure and scroll to it
+ */
+export function AlignedText({
+  text,
+  ranges,
+  highlightedIndex,
+}: AlignedTextProps): JSX.Element {
+  const pieces: JSX.Element[] = [];
+  let position = 0;
+
+  ranges.forEach((range, index) => {
+    if (range.start > position) {
+      pieces.push(
+        <span key={`gap-${index}`}>{text.slice(position, range.start)}</span>,
+      );
+    }
+    pieces.push(
+      <span
+        key={index}
+        data-sentence={index}
+        className={cn(
+          "rounded-sm transition-colors",
+          index === highlightedIndex && "bg-primary/15",
+        )}
+      >
+        {text.slice(range.start, range.end)}
+      </span>,
+    );
+    position = Math.max(position, range.end);
+  });
+
+  if (position < text.length) {
+    pieces.push(<span key="rest">{text.slice(position)}</span>);
+  }
+
+  return <>{pieces}</>;
+}
+
+/** Ends a sentence for the purpose of giving a lookup its context */
+const SENTENCE_END = /[.!?。！？\n]/;
+
+/** The sentence containing `text.slice(start, end)`, without its neighbours */
+function surroundingSentence(text: string, start: number, end: number): string {
+  let from = start;
+  while (from > 0 && !SENTENCE_END.test(text[from - 1])) from--;
+  let to = end;
+  while (to < text.length && !SENTENCE_END.test(text[to])) to++;
+  return text.slice(from, Math.min(to + 1, text.length)).trim();
+}
+
+interface AlignedTextareaProps {
+  /** Which side of the sentence alignment the text is */
+  pane: TranslationPane;
+  value: string;
+  onChange: (value: string) => void;
+  dir?: string;
+  placeholder?: string;
+  disabled?: boolean;
+  /** Padding and type, applied to both the textarea and its highlights */
+  className?: string;
+}
+
+/**
+ * Textarea that highlights the aligned sentence under the pointer or
+ * caret on a backdrop behind its text, and scrolls in sync with the
+ * other pane
+ */
+export function AlignedTextarea({
+  pane,
+  value,
+  onChange,
+  dir,
+  placeholder,
+  disabled,
+  className,
+}: AlignedTextareaProps): JSX.Element {
+  const { sentenceAlignment, highlightedSentence, setHighlightedSentence } =
+    useTranslationStore();
+  const lookUp = useWordLookupStore((state) => state.lookUp);
+
+  const isAligned = sentenceAlignment.length > 0;
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+
+  const setTextarea = useCallback(
+    (element: HTMLTextAreaElement | null) => {
+      textareaRef.current = element;
+      registerScrollPane(pane, element);
+    },
+    [pane],
+  );
+
+  // Bring a sentence pointed at in the other pane into view
+  useEffect(() => {
+    if (
+      !highlightedSentence ||
+      highlightedSentence.pane === pane ||
+      !backdropRef.current
+    ) {
+      return;
+    }
+    const bounds = findSentenceBounds(
+      backdropRef.current,
+      highlightedSentence.index,
+    );
+    if (bounds) revealInPane(pane, bounds.top, bounds.bottom);
+  }, [highlightedSentence, pane]);
+
+  const handleScroll = (): void => {
+    // The backdrop follows the textarea so highlights stay under their text
+    if (backdropRef.current && textareaRef.current) {
+      backdropRef.current.scrollTop = textareaRef.current.scrollTop;
+    }
+    syncScroll(pane);
+  };
+
+  // Highlight the sentence the caret is in
+  const handleSelect = (e: React.SyntheticEvent<HTMLTextAreaElement>): void => {
+    if (!isAligned) return;
+    const caret = e.currentTarget.selectionStart;
+    const index = sentenceAlignment.findIndex(
+      (alignment) =>
+        caret >= alignment[pane].start && caret <= alignment[pane].end,
+    );
+    setHighlightedSentence(index >= 0 ? index : null, pane);
+  };
+
+  // The backdrop does not receive pointer events, so hit-test its spans
+  const handleMouseMove = (e: React.MouseEvent<HTMLTextAreaElement>): void => {
+    if (!isAligned || !backdropRef.current) return;
+
+    const spans =
+      backdropRef.current.querySelectorAll<HTMLElement>("[data-sentence]");
+    for (const span of spans) {
+      const hit = Array.from(span.getClientRects()).some(
+        (rect) =>
+          e.clientX >= rect.left &&
+          e.clientX <= rect.right &&
+          e.clientY >= rect.top &&
+          e.clientY <= rect.bottom,
+      );
+      if (hit) {
+        const index = Number(span.dataset.sentence);
+        if (highlightedSentence?.index !== index) {
+          setHighlightedSentence(index, pane);
+        }
+        return;
+      }
+    }
+  };
+
+  // Selecting a word or short phrase with the pointer looks it up
+  const handleMouseUp = (e: React.MouseEvent<HTMLTextAreaElement>): void => {
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    const text = value.slice(selectionStart, selectionEnd).trim();
+    if (!text || text.length > MAX_LOOKUP_LENGTH || text.includes("\n")) {
+      return;
+    }
+
+    lookUp({
+      pane,
+      text,
+      context: surroundingSentence(value, selectionStart, selectionEnd),
+      x: e.clientX,
+      y: e.clientY,
+    });
+  };
+
+  return (
+    <div className="relative h-full">
+      {isAligned && (
+        <div
+          ref={backdropRef}
+          aria-hidden
+          dir={dir}
+          className={cn(
+            "pointer-events-none absolute inset-0 overflow-hidden text-transparent",
+            TEXT_LAYOUT_CLASSES,
+            className,
+          )}
+        >
+          <AlignedText
+            text={value}
+            ranges={sentenceAlignment.map((alignment) => alignment[pane])}
+            highlightedIndex={highlightedSentence?.index ?? null}
+          />
+        </div>
+      )}
+      <Textarea
+        ref={setTextarea}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={handleScroll}
+        onSelect={handleSelect}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={() =>
+          highlightedSentence?.pane === pane &&
+          setHighlightedSentence(null, pane)
+        }
+        placeholder={placeholder}
+        dir={dir}
+        className={cn(
+          "relative h-full resize-none rounded-none border-0 bg-transparent shadow-none focus-visible:ring-0 focus-visible:ring-offset-0",
+          TEXT_LAYOUT_CLASSES,
+          className,
+        )}
+        disabled={disabled}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import type { MenuAction } from "#shared/domain/document";
+import { FilePlus, FolderOpen, Save } from "lucide-react";
+import type { JSX } from "react";
+import { useCallback, useEffect } from "react";
+import { toast } from "sonner";
+import { handleTRPCError } from "../../lib/trpc";
+import { useDocumentStore } from "../../stores/document-store";
+import { useTranslationStore } from "../../stores/translation-store";
+import { Button } from "../ui/button";
+
+/** New / Open / Save buttons, also driven by the File menu */
+export function DocumentActions(): JSX.Element {
+  const { translatedText, isTranslating } = useTranslationStore();
+  const { currentDocument, openDocument, saveDocument, newDocument } =
+    useDocumentStore();
+
+  const canSave = translatedText.trim().length > 0 && !isTranslating;
+
+  const handleOpen = useCallback(async (): Promise<void> => {
+    try {
+      const document = await openDocument();
+      if (document?.frontMatter) {
+        toast.info("Front matter is kept as is and not translated");
+      }
+    } catch (error) {
+      toast.error(handleTRPCError(error, "Failed to open file"));
+    }
+  }, [openDocument]);
+
+  const handleSave = useCallback(async (): Promise<void> => {
+    // The menu accelerator works even when the button is disabled
+    const { translatedText, isTranslating } = useTranslationStore.getState();
+    if (!translatedText.trim() || isTranslating) {
+      toast.info("There is no translation to save yet");
+      return;
+    }
+
+    try {
+      const saved = await saveDocument();
+      if (saved) toast.success(`Saved ${saved.fileName}`);
+    } catch (error) {
+      toast.error(handleTRPCError(error, "Failed to save file"));
+    }
+  }, [saveDocument]);
+
+  useEffect(() => {
+    const handlers: Record<MenuAction, () => void> = {
+      new: newDocument,
+      open: handleOpen,
+      save: handleSave,
+    };
+    // Outside Electron there is no application menu to listen to
+    return window.api?.menu?.onAction((action) => handlers[action]());
+  }, [newDocument, handleOpen, handleSave]);
+
+  return (
+    <div className="flex items-center space-x-1">
+      <Button variant="ghost" size="icon" onClick={newDocument} title="New">
+        <FilePlus className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={handleOpen}
+        title={currentDocument ? `Open (${currentDocument.fileName})` : "Open"}
+      >
+        <FolderOpen className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={handleSave}
+        disabled={!canSave}
+        title="Save translation"
+      >
+        <Save className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
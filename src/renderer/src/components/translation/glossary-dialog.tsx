@@ -0,0 +1,324 @@
+import type {
+  GlossaryFormat,
+  GlossaryLanguagePair,
+} from "#shared/domain/glossary";
+import {
+  AUTO_DETECT_LANGUAGE,
+  getLanguageName,
+} from "#shared/domain/translation";
+import { Download, Plus, Trash2, Upload } from "lucide-react";
+import type { JSX } from "react";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { downloadFile } from "../../lib/utils";
+import { useGlossaryStore } from "../../stores/glossary-store";
+import { useTranslationStore } from "../../stores/translation-store";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { Checkbox } from "../ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+
+interface GlossaryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function GlossaryDialog({
+  open,
+  onOpenChange,
+}: GlossaryDialogProps): JSX.Element {
+  const { manualSourceLanguage, manualTargetLanguage, detectedLanguage } =
+    useTranslationStore();
+  const {
+    entries,
+    isLoading,
+    loadEntries,
+    createEntry,
+    deleteEntry,
+    importGlossary,
+    exportGlossary,
+  } = useGlossaryStore();
+
+  const [sourceTerm, setSourceTerm] = useState("");
+  const [targetTerm, setTargetTerm] = useState("");
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [doNotTranslate, setDoNotTranslate] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Glossaries are per concrete pair; with auto-detect use the detected source
+  const sourceLanguage =
+    manualSourceLanguage === AUTO_DETECT_LANGUAGE
+      ? detectedLanguage?.language
+      : manualSourceLanguage;
+  const pair: GlossaryLanguagePair | null = sourceLanguage
+    ? { sourceLanguage, targetLanguage: manualTargetLanguage }
+    : null;
+
+  useEffect(() => {
+    if (open && sourceLanguage) {
+      loadEntries({ sourceLanguage, targetLanguage: manualTargetLanguage });
+    }
+  }, [open, sourceLanguage, manualTargetLanguage, loadEntries]);
+
+  const handleAdd = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    if (!pair || !sourceTerm.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await createEntry({
+        ...pair,
+        sourceTerm: sourceTerm.trim(),
+        targetTerm: doNotTranslate ? "" : targetTerm.trim(),
+        caseSensitive,
+        doNotTranslate,
+      });
+      setSourceTerm("");
+      setTargetTerm("");
+      setCaseSensitive(false);
+      setDoNotTranslate(false);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to add term",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string): Promise<void> => {
+    try {
+      await deleteEntry(id);
+    } catch {
+      toast.error("Failed to remove term");
+    }
+  };
+
+  const handleImport = async (
+    e: React.ChangeEvent<HTMLInputElement>,
+  ): Promise<void> => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !pair) return;
+
+    const format: GlossaryFormat = file.name.toLowerCase().endsWith(".tbx")
+      ? "tbx"
+      : "csv";
+
+    try {
+      const result = await importGlossary(format, await file.text(), pair);
+      toast.success(
+        `Imported ${result.imported} new and ${result.updated} updated terms` +
+          (result.skipped > 0 ? ` (${result.skipped} skipped)` : ""),
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to import glossary",
+      );
+    }
+  };
+
+  const handleExport = async (format: GlossaryFormat): Promise<void> => {
+    if (!pair) return;
+
+    try {
+      const content = await exportGlossary(format, pair);
+      downloadFile(
+        content,
+        `glossary-${pair.sourceLanguage}-${pair.targetLanguage}.${format}`,
+      );
+    } catch {
+      toast.error("Failed to export glossary");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle>Glossary</DialogTitle>
+          <DialogDescription>
+            {pair
+              ? `Terms enforced when translating ${getLanguageName(pair.sourceLanguage)} to ${getLanguageName(pair.targetLanguage)}.`
+              : "Enter some text or pick a source language to edit its glossary."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {pair && (
+          <div className="space-y-4">
+            {/* Add Term Form */}
+            <form onSubmit={handleAdd} className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="glossary-source-term">Source term</Label>
+                  <Input
+                    id="glossary-source-term"
+                    value={sourceTerm}
+                    onChange={(e) => setSourceTerm(e.target.value)}
+                    disabled={isSaving}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="glossary-target-term">Target term</Label>
+                  <Input
+                    id="glossary-target-term"
+                    value={doNotTranslate ? sourceTerm : targetTerm}
+                    onChange={(e) => setTargetTerm(e.target.value)}
+                    disabled={isSaving || doNotTranslate}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-4">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="glossary-case-sensitive"
+                      checked={caseSensitive}
+                      onCheckedChange={(checked) =>
+                        setCaseSensitive(checked as boolean)
+                      }
+                    />
+                    <Label
+                      htmlFor="glossary-case-sensitive"
+                      className="text-sm"
+                    >
+                      Case sensitive
+                    </Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="glossary-do-not-translate"
+                      checked={doNotTranslate}
+                      onCheckedChange={(checked) =>
+                        setDoNotTranslate(checked as boolean)
+                      }
+                    />
+                    <Label
+                      htmlFor="glossary-do-not-translate"
+                      className="text-sm"
+                    >
+                      Do not translate
+                    </Label>
+                  </div>
+                </div>
+                <Button
+                  type="submit"
+                  size="sm"
+                  disabled={
+                    isSaving ||
+                    !sourceTerm.trim() ||
+                    (!doNotTranslate && !targetTerm.trim())
+                  }
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Term
+                </Button>
+              </div>
+            </form>
+
+            {/* Terms List */}
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Terms ({entries.length})</h4>
+              {entries.length === 0 ? (
+                <div className="text-muted-foreground py-6 text-center text-sm">
+                  {isLoading ? "Loading..." : "No terms for this language pair"}
+                </div>
+              ) : (
+                <div className="max-h-60 space-y-1 overflow-y-auto">
+                  {entries.map((entry) => (
+                    <div
+                      key={entry.id}
+                      className="bg-card flex items-center justify-between rounded-md border px-3 py-2 text-sm"
+                    >
+                      <div className="flex min-w-0 items-center gap-2">
+                        <span className="truncate font-medium" dir="auto">
+                          {entry.sourceTerm}
+                        </span>
+                        <span className="text-muted-foreground">→</span>
+                        <span className="truncate" dir="auto">
+                          {entry.doNotTranslate
+                            ? entry.sourceTerm
+                            : entry.targetTerm}
+                        </span>
+                        {entry.doNotTranslate && (
+                          <Badge variant="secondary" className="text-xs">
+                            Keep
+                          </Badge>
+                        )}
+                        {entry.caseSensitive && (
+                          <Badge variant="outline" className="text-xs">
+                            Aa
+                          </Badge>
+                        )}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(entry.id)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="sm:justify-between">
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tbx,.xml"
+              className="hidden"
+              onChange={handleImport}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!pair}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Import
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleExport("csv")}
+              disabled={!pair || entries.length === 0}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              CSV
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleExport("tbx")}
+              disabled={!pair || entries.length === 0}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              TBX
+            </Button>
+          </div>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,319 @@
+import type { SupportedLanguage } from "#shared/domain/translation";
+import { getLanguageName, LANGUAGE_CONFIG } from "#shared/domain/translation";
+import type { HistoryEntry } from "#shared/domain/translation-history";
+import { RotateCcw, Search, Trash2, X } from "lucide-react";
+import type { JSX } from "react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useHistoryStore } from "../../stores/history-store";
+import { useTranslationStore } from "../../stores/translation-store";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+
+interface HistoryPanelProps {
+  onClose: () => void;
+}
+
+/** Select value for "no filter"; Radix Select does not allow empty values */
+const ANY = "any";
+
+const RETENTION_DAYS = [1, 7, 30, 90, 365];
+const RETENTION_ITEMS = [50, 100, 500, 1000];
+
+function HistoryItem({
+  entry,
+  onRerun,
+  onDelete,
+}: {
+  entry: HistoryEntry;
+  onRerun: () => void;
+  onDelete: () => void;
+}): JSX.Element {
+  const { request, response } = entry;
+
+  return (
+    <li className="space-y-1 border-b px-4 py-3">
+      <div className="text-muted-foreground flex items-center gap-2 text-xs">
+        <span>
+          {getLanguageName(response.sourceLanguage)} →{" "}
+          {getLanguageName(response.targetLanguage)}
+        </span>
+        <Badge variant="outline" className="text-xs">
+          {response.modelUsed}
+        </Badge>
+        <span className="ml-auto">
+          {new Date(entry.createdAt).toLocaleString()}
+        </span>
+      </div>
+      <p className="line-clamp-2 text-sm" dir="auto">
+        {request.text}
+      </p>
+      <p className="text-muted-foreground line-clamp-2 text-sm" dir="auto">
+        {response.translatedText}
+      </p>
+      <div className="flex justify-end gap-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRerun}
+          title="Translate again with the current model"
+        >
+          <RotateCcw className="h-3 w-3" />
+          Re-run
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onDelete}
+          className="text-destructive hover:text-destructive"
+          title="Delete entry"
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+    </li>
+  );
+}
+
+export function HistoryPanel({ onClose }: HistoryPanelProps): JSX.Element {
+  const { availableModels, isTranslating, rerunTranslation } =
+    useTranslationStore();
+  const {
+    settings,
+    entries,
+    isLoading,
+    error,
+    loadSettings,
+    updateSettings,
+    search,
+    deleteEntry,
+    purge,
+  } = useHistoryStore();
+
+  const [text, setText] = useState("");
+  const [sourceLanguage, setSourceLanguage] = useState(ANY);
+  const [targetLanguage, setTargetLanguage] = useState(ANY);
+  const [modelName, setModelName] = useState(ANY);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  // Search as the user types, debounced; finished translations show up too
+  useEffect(() => {
+    if (!settings?.enabled || isTranslating) return;
+
+    const timer = setTimeout(() => {
+      search({
+        text: text.trim() || undefined,
+        sourceLanguage:
+          sourceLanguage === ANY
+            ? undefined
+            : (sourceLanguage as SupportedLanguage),
+        targetLanguage:
+          targetLanguage === ANY
+            ? undefined
+            : (targetLanguage as SupportedLanguage),
+        modelName: modelName === ANY ? undefined : modelName,
+      });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [
+    settings?.enabled,
+    isTranslating,
+    text,
+    sourceLanguage,
+    targetLanguage,
+    modelName,
+    search,
+  ]);
+
+  const handlePurge = async (): Promise<void> => {
+    if (!window.confirm("Delete the entire translation history?")) return;
+    await purge();
+    toast.success("History purged");
+  };
+
+  return (
+    <aside className="bg-background flex w-96 flex-shrink-0 flex-col border-l">
+      <div className="flex items-center justify-between border-b px-4 py-2">
+        <h2 className="font-medium">History</h2>
+        <Button variant="ghost" size="sm" onClick={onClose} title="Close">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {settings && !settings.enabled ? (
+        <div className="space-y-3 p-4 text-sm">
+          <p className="text-muted-foreground">
+            Translation history is off. When enabled, your translations are
+            stored on this device so you can search and re-run them.
+          </p>
+          <Button onClick={() => updateSettings({ enabled: true })}>
+            Enable history
+          </Button>
+        </div>
+      ) : (
+        <>
+          {/* Search & Filters */}
+          <div className="space-y-2 border-b p-4">
+            <div className="relative">
+              <Search className="text-muted-foreground absolute top-2.5 left-2 h-4 w-4" />
+              <Input
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder="Search source and translation"
+                className="pl-8"
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <Select value={sourceLanguage} onValueChange={setSourceLanguage}>
+                <SelectTrigger className="w-full" title="Source language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any source</SelectItem>
+                  {Object.values(LANGUAGE_CONFIG).map((config) => (
+                    <SelectItem key={config.code} value={config.code}>
+                      {config.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={targetLanguage} onValueChange={setTargetLanguage}>
+                <SelectTrigger className="w-full" title="Target language">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any target</SelectItem>
+                  {Object.values(LANGUAGE_CONFIG).map((config) => (
+                    <SelectItem key={config.code} value={config.code}>
+                      {config.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={modelName} onValueChange={setModelName}>
+                <SelectTrigger className="w-full" title="Model">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any model</SelectItem>
+                  {availableModels.map((model) => (
+                    <SelectItem key={model.name} value={model.name}>
+                      {model.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Entries */}
+          <ul className="min-h-0 flex-1 overflow-y-auto">
+            {entries.map((entry) => (
+              <HistoryItem
+                key={entry.id}
+                entry={entry}
+                onRerun={() => rerunTranslation(entry.request)}
+                onDelete={() => deleteEntry(entry.id)}
+              />
+            ))}
+            {!isLoading && entries.length === 0 && (
+              <li className="text-muted-foreground p-4 text-center text-sm">
+                No translations found
+              </li>
+            )}
+          </ul>
+
+          {error && (
+            <p className="text-destructive border-t px-4 py-2 text-sm">
+              {error}
+            </p>
+          )}
+
+          {/* Retention */}
+          {settings && (
+            <div className="space-y-2 border-t p-4 text-sm">
+              <div className="flex items-center gap-2">
+                <Label className="flex-1">Keep for</Label>
+                <Select
+                  value={String(settings.maxAgeDays ?? "forever")}
+                  onValueChange={(value) =>
+                    updateSettings({
+                      maxAgeDays:
+                        value === "forever" ? null : Number.parseInt(value, 10),
+                    })
+                  }
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RETENTION_DAYS.map((days) => (
+                      <SelectItem key={days} value={String(days)}>
+                        {days === 1 ? "1 day" : `${days} days`}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value="forever">Forever</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2">
+                <Label className="flex-1">Keep at most</Label>
+                <Select
+                  value={String(settings.maxItems)}
+                  onValueChange={(value) =>
+                    updateSettings({ maxItems: Number.parseInt(value, 10) })
+                  }
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from(
+                      new Set([...RETENTION_ITEMS, settings.maxItems]),
+                    )
+                      .sort((a, b) => a - b)
+                      .map((items) => (
+                        <SelectItem key={items} value={String(items)}>
+                          {items} items
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex justify-between pt-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateSettings({ enabled: false })}
+                >
+                  Turn off
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handlePurge}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-3 w-3" />
+                  Purge history
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </aside>
+  );
+}
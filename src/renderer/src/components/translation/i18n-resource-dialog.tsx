@@ -0,0 +1,211 @@
+import {
+  AUTO_DETECT_LANGUAGE,
+  getLanguageName,
+} from "#shared/domain/translation";
+import { Download, Loader2, Upload } from "lucide-react";
+import type { JSX } from "react";
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+import { downloadFile } from "../../lib/utils";
+import { useI18nResourceStore } from "../../stores/i18n-resource-store";
+import { useTranslationStore } from "../../stores/translation-store";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+
+interface I18nResourceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function I18nResourceDialog({
+  open,
+  onOpenChange,
+}: I18nResourceDialogProps): JSX.Element {
+  const {
+    manualSourceLanguage,
+    manualTargetLanguage,
+    detectedLanguage,
+    selectedModel,
+    translationContext,
+    translationStyle,
+  } = useTranslationStore();
+  const { result, progress, isTranslating, error, translate, cancel, reset } =
+    useI18nResourceStore();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Resource files are translated between concrete languages
+  const sourceLanguage =
+    manualSourceLanguage === AUTO_DETECT_LANGUAGE
+      ? detectedLanguage?.language
+      : manualSourceLanguage;
+
+  const handleFile = async (
+    e: React.ChangeEvent<HTMLInputElement>,
+  ): Promise<void> => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !sourceLanguage) return;
+
+    setFileName(file.name);
+    await translate({
+      content: await file.text(),
+      sourceLanguage,
+      targetLanguage: manualTargetLanguage,
+      modelName: selectedModel || undefined,
+      context: translationContext.trim() || undefined,
+      formality: translationStyle.formality,
+      domain: translationStyle.domain,
+    });
+  };
+
+  const handleSave = (): void => {
+    if (!result || !fileName) return;
+
+    // i18next keeps one folder per locale, so the file name stays the same
+    downloadFile(result.content, fileName);
+    toast.success(
+      `Saved ${fileName} for ${getLanguageName(manualTargetLanguage)}`,
+    );
+  };
+
+  const handleOpenChange = (next: boolean): void => {
+    if (!next) {
+      if (isTranslating) cancel();
+      reset();
+      setFileName(null);
+    }
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>Translate Resource File</DialogTitle>
+          <DialogDescription>
+            {sourceLanguage
+              ? `Translate the values of an i18next JSON file from ${getLanguageName(
+                  sourceLanguage,
+                )} to ${getLanguageName(manualTargetLanguage)}. Interpolations, printf and ICU syntax are kept and checked.`
+              : "Choose a source language, or enter text to detect it, before translating a resource file."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          {fileName && <p className="font-medium">{fileName}</p>}
+
+          {isTranslating && (
+            <div className="text-muted-foreground flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {progress
+                ? `Translated ${progress.completedKeys} of ${progress.totalKeys} keys…`
+                : "Reading file…"}
+            </div>
+          )}
+
+          {error && <p className="text-destructive">{error}</p>}
+
+          {result && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">
+                  {result.translatedKeys} translated
+                </Badge>
+                {result.copiedKeys > 0 && (
+                  <Badge variant="outline">{result.copiedKeys} copied</Badge>
+                )}
+                {result.failedKeys.length > 0 && (
+                  <Badge variant="destructive">
+                    {result.failedKeys.length} failed
+                  </Badge>
+                )}
+              </div>
+
+              {result.failedKeys.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-muted-foreground">
+                    These keys keep their source text in the saved file:
+                  </p>
+                  <div className="max-h-64 space-y-2 overflow-y-auto">
+                    {result.failedKeys.map((issue) => (
+                      <div
+                        key={issue.key}
+                        className="space-y-1 rounded border p-2"
+                      >
+                        <p className="font-mono text-xs">{issue.key}</p>
+                        <p className="text-muted-foreground text-xs">
+                          {issue.reason === "translation_failed"
+                            ? (issue.error ?? "Translation failed")
+                            : [
+                                issue.missingTokens.length > 0 &&
+                                  `Missing ${issue.missingTokens.join(", ")}`,
+                                issue.unexpectedTokens.length > 0 &&
+                                  `Unexpected ${issue.unexpectedTokens.join(", ")}`,
+                              ]
+                                .filter(Boolean)
+                                .join(" · ")}
+                        </p>
+                        {issue.translatedText && (
+                          <p className="text-xs">{issue.translatedText}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json"
+              className="hidden"
+              onChange={handleFile}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!sourceLanguage || isTranslating}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Open JSON
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSave}
+              disabled={!result}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Save
+            </Button>
+          </div>
+          {isTranslating ? (
+            <Button variant="outline" onClick={cancel}>
+              Cancel
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Close
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
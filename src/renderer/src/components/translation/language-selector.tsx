@@ -1,6 +1,11 @@
-import type { SupportedLanguage } from "#shared/domain/translation";
+import type {
+  SourceLanguage,
+  SupportedLanguage,
+} from "#shared/domain/translation";
 import {
+  AUTO_DETECT_LANGUAGE,
   getLanguageDisplayName,
+  getLanguageName,
   LANGUAGE_CONFIG,
 } from "#shared/domain/translation";
 import type { JSX } from "react";
@@ -17,33 +22,54 @@ interface LanguageSelectorProps {
   type: "source" | "target";
 }
 
+function LanguageOptions(): JSX.Element {
+  return (
+    <>
+      {Object.values(LANGUAGE_CONFIG).map((config) => (
+        <SelectItem key={config.code} value={config.code}>
+          <span>{config.name}</span>
+          {config.nativeName !== config.name && (
+            <span className="text-muted-foreground text-xs" dir="auto">
+              {config.nativeName}
+            </span>
+          )}
+        </SelectItem>
+      ))}
+    </>
+  );
+}
+
 export function LanguageSelector({ type }: LanguageSelectorProps): JSX.Element {
   const {
     manualSourceLanguage,
     setManualSourceLanguage,
     manualTargetLanguage,
     setManualTargetLanguage,
+    detectedLanguage,
   } = useTranslationStore();
 
   if (type === "source") {
+    const isAutoDetect = manualSourceLanguage === AUTO_DETECT_LANGUAGE;
+
     return (
       <Select
         value={manualSourceLanguage}
         onValueChange={(value) =>
-          setManualSourceLanguage(value as SupportedLanguage)
+          setManualSourceLanguage(value as SourceLanguage)
         }
       >
         <SelectTrigger className="text-muted-foreground h-8 border-0 text-sm font-medium shadow-none focus:ring-0">
           <SelectValue>
-            {getLanguageDisplayName(manualSourceLanguage)}
+            {isAutoDetect
+              ? detectedLanguage
+                ? `Detected: ${getLanguageName(detectedLanguage.language)}`
+                : "Detect language"
+              : getLanguageDisplayName(manualSourceLanguage)}
           </SelectValue>
         </SelectTrigger>
         <SelectContent>
-          {Object.entries(LANGUAGE_CONFIG).map(([code, config]) => (
-            <SelectItem key={code} value={code}>
-              {config.displayName}
-            </SelectItem>
-          ))}
+          <SelectItem value={AUTO_DETECT_LANGUAGE}>Detect language</SelectItem>
+          <LanguageOptions />
         </SelectContent>
       </Select>
     );
@@ -63,11 +89,7 @@ export function LanguageSelector({ type }: LanguageSelectorProps): JSX.Element {
         </SelectValue>
       </SelectTrigger>
       <SelectContent>
-        {Object.entries(LANGUAGE_CONFIG).map(([code, config]) => (
-          <SelectItem key={code} value={code}>
-            {config.displayName}
-          </SelectItem>
-        ))}
+        <LanguageOptions />
       </SelectContent>
     </Select>
   );
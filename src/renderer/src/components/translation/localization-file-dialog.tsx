@@ -0,0 +1,215 @@
+import type { LocalizationUnitIssueReason } from "#shared/domain/localization-file";
+import { LOCALIZATION_FILE_EXTENSIONS } from "#shared/domain/localization-file";
+import {
+  AUTO_DETECT_LANGUAGE,
+  getLanguageName,
+} from "#shared/domain/translation";
+import { Download, Loader2, Upload } from "lucide-react";
+import type { JSX } from "react";
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+import { downloadFile } from "../../lib/utils";
+import { useLocalizationFileStore } from "../../stores/localization-file-store";
+import { useTranslationStore } from "../../stores/translation-store";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+
+interface LocalizationFileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ISSUE_LABELS: Record<LocalizationUnitIssueReason, string> = {
+  tags_changed: "Inline tags or placeholders changed",
+  translation_failed: "Not translated",
+};
+
+export function LocalizationFileDialog({
+  open,
+  onOpenChange,
+}: LocalizationFileDialogProps): JSX.Element {
+  const {
+    manualSourceLanguage,
+    manualTargetLanguage,
+    detectedLanguage,
+    selectedModel,
+    translationContext,
+    translationStyle,
+  } = useTranslationStore();
+  const { result, progress, isTranslating, error, translate, cancel, reset } =
+    useLocalizationFileStore();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Localization files are translated between concrete languages
+  const sourceLanguage =
+    manualSourceLanguage === AUTO_DETECT_LANGUAGE
+      ? detectedLanguage?.language
+      : manualSourceLanguage;
+
+  const handleFile = async (
+    e: React.ChangeEvent<HTMLInputElement>,
+  ): Promise<void> => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !sourceLanguage) return;
+
+    setFileName(file.name);
+    await translate({
+      content: await file.text(),
+      sourceLanguage,
+      targetLanguage: manualTargetLanguage,
+      modelName: selectedModel || undefined,
+      context: translationContext.trim() || undefined,
+      formality: translationStyle.formality,
+      domain: translationStyle.domain,
+    });
+  };
+
+  const handleSave = (): void => {
+    if (!result || !fileName) return;
+
+    // XLIFF and PO files go back to the vendor under their own name;
+    // a translated template becomes the target language's catalog
+    const name = fileName.replace(/\.pot$/i, `.${manualTargetLanguage}.po`);
+    downloadFile(result.content, name);
+    toast.success(`Saved ${name}`);
+  };
+
+  const handleOpenChange = (next: boolean): void => {
+    if (!next) {
+      if (isTranslating) cancel();
+      reset();
+      setFileName(null);
+    }
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>Pre-translate Localization File</DialogTitle>
+          <DialogDescription>
+            {sourceLanguage
+              ? `Translate the untranslated and fuzzy units of an XLIFF or PO file from ${getLanguageName(
+                  sourceLanguage,
+                )} to ${getLanguageName(manualTargetLanguage)}. Translations are marked for review; notes, context and inline tags are kept.`
+              : "Choose a source language, or enter text to detect it, before translating a localization file."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          {fileName && <p className="font-medium">{fileName}</p>}
+
+          {isTranslating && (
+            <div className="text-muted-foreground flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {progress
+                ? `Translated ${progress.completedUnits} of ${progress.totalUnits} units…`
+                : "Reading file…"}
+            </div>
+          )}
+
+          {error && <p className="text-destructive">{error}</p>}
+
+          {result && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">
+                  {result.translatedUnits} translated
+                </Badge>
+                {result.skippedUnits > 0 && (
+                  <Badge variant="outline">
+                    {result.skippedUnits} already translated
+                  </Badge>
+                )}
+                {result.issues.length > 0 && (
+                  <Badge variant="destructive">
+                    {result.issues.length} failed
+                  </Badge>
+                )}
+              </div>
+
+              {result.issues.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-muted-foreground">
+                    These units stay untranslated in the saved file:
+                  </p>
+                  <div className="max-h-64 space-y-2 overflow-y-auto">
+                    {result.issues.map((issue) => (
+                      <div
+                        key={issue.unit}
+                        className="space-y-1 rounded border p-2"
+                      >
+                        <p className="font-mono text-xs">{issue.unit}</p>
+                        <p className="text-muted-foreground text-xs">
+                          {ISSUE_LABELS[issue.reason]}
+                          {issue.error && `: ${issue.error}`}
+                          {issue.missingTokens.length > 0 &&
+                            ` · Missing ${issue.missingTokens.join(", ")}`}
+                          {issue.unexpectedTokens.length > 0 &&
+                            ` · Unexpected ${issue.unexpectedTokens.join(", ")}`}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={LOCALIZATION_FILE_EXTENSIONS.map(
+                (extension) => `.${extension}`,
+              ).join(",")}
+              className="hidden"
+              onChange={handleFile}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!sourceLanguage || isTranslating}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Open XLIFF / PO
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSave}
+              disabled={!result}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Save
+            </Button>
+          </div>
+          {isTranslating ? (
+            <Button variant="outline" onClick={cancel}>
+              Cancel
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Close
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,289 @@
+import type { ModelComparisonResult } from "#shared/domain/translation";
+import {
+  AUTO_DETECT_LANGUAGE,
+  getLanguageDirection,
+  getLanguageName,
+  MAX_COMPARED_MODELS,
+} from "#shared/domain/translation";
+import { Loader2, Trophy } from "lucide-react";
+import type { JSX } from "react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useModelComparisonStore } from "../../stores/model-comparison-store";
+import { useTranslationStore } from "../../stores/translation-store";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { Checkbox } from "../ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import { Label } from "../ui/label";
+
+interface ModelComparisonDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function formatLatency(latencyMs: number): string {
+  return latencyMs < 1000
+    ? `${latencyMs} ms`
+    : `${(latencyMs / 1000).toFixed(1)} s`;
+}
+
+function ComparisonColumn({
+  result,
+  dir,
+  onPick,
+}: {
+  result: ModelComparisonResult;
+  dir: "ltr" | "rtl";
+  onPick: () => void;
+}): JSX.Element {
+  return (
+    <div className="flex min-w-0 flex-col rounded-lg border">
+      <div className="space-y-1 border-b p-3">
+        <p className="truncate text-sm font-medium" title={result.modelName}>
+          {result.modelName}
+        </p>
+        <div className="text-muted-foreground flex flex-wrap gap-1 text-xs">
+          <Badge variant="outline">{formatLatency(result.latencyMs)}</Badge>
+          {result.metrics?.promptTokens !== undefined && (
+            <Badge variant="outline" title="Prompt tokens → generated tokens">
+              {result.metrics.promptTokens} →{" "}
+              {result.metrics.completionTokens ?? 0} tokens
+            </Badge>
+          )}
+          {result.metrics?.tokensPerSecond !== undefined && (
+            <Badge variant="outline">
+              {Math.round(result.metrics.tokensPerSecond)} tok/s
+            </Badge>
+          )}
+        </div>
+      </div>
+      <div className="max-h-72 flex-1 overflow-y-auto p-3 text-sm">
+        {result.error ? (
+          <p className="text-destructive">{result.error}</p>
+        ) : (
+          <p className="whitespace-pre-wrap" dir={dir}>
+            {result.translatedText}
+          </p>
+        )}
+      </div>
+      <div className="border-t p-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={onPick}
+          disabled={result.translatedText === undefined}
+        >
+          <Trophy className="h-3 w-3" />
+          Pick
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function ModelComparisonDialog({
+  open,
+  onOpenChange,
+}: ModelComparisonDialogProps): JSX.Element {
+  const {
+    inputText,
+    translationContext,
+    translationStyle,
+    manualSourceLanguage,
+    manualTargetLanguage,
+    detectedLanguage,
+    availableModels,
+    selectedModel,
+    applyComparisonResult,
+    setLanguagePairModel,
+  } = useTranslationStore();
+  const { comparison, isComparing, error, compare, cancel, reset } =
+    useModelComparisonStore();
+
+  const [modelNames, setModelNames] = useState<string[]>([]);
+  const [rememberWinner, setRememberWinner] = useState(false);
+
+  const installedModels = availableModels.filter((model) => model.isAvailable);
+  const pairLabel = `${
+    manualSourceLanguage === AUTO_DETECT_LANGUAGE
+      ? "detected language"
+      : getLanguageName(manualSourceLanguage)
+  } → ${getLanguageName(manualTargetLanguage)}`;
+
+  // Start from the current model plus the next installed ones
+  useEffect(() => {
+    if (!open) return;
+    setModelNames((current) => {
+      const names = availableModels
+        .filter((model) => model.isAvailable)
+        .map((model) => model.name);
+      if (current.length > 0 || names.length === 0) return current;
+
+      const first = selectedModel && names.includes(selectedModel);
+      return [
+        ...(first ? [selectedModel] : []),
+        ...names.filter((name) => name !== selectedModel),
+      ].slice(0, 2);
+    });
+  }, [open, availableModels, selectedModel]);
+
+  const toggleModel = (name: string, checked: boolean): void => {
+    setModelNames((current) =>
+      checked ? [...current, name] : current.filter((n) => n !== name),
+    );
+  };
+
+  const handleCompare = (): Promise<void> =>
+    compare({
+      text: inputText,
+      sourceLanguage: manualSourceLanguage,
+      targetLanguage: manualTargetLanguage,
+      fallbackLanguage: detectedLanguage?.language,
+      context: translationContext.trim() || undefined,
+      formality: translationStyle.formality,
+      domain: translationStyle.domain,
+      modelNames,
+    });
+
+  const handleOpenChange = (next: boolean): void => {
+    if (!next) {
+      if (isComparing) cancel();
+      reset();
+    }
+    onOpenChange(next);
+  };
+
+  const handlePick = async (result: ModelComparisonResult): Promise<void> => {
+    if (!comparison) return;
+
+    applyComparisonResult(comparison, result);
+    if (rememberWinner) {
+      await setLanguagePairModel(result.modelName);
+    }
+    toast.success(
+      rememberWinner
+        ? `${result.modelName} is now used for ${pairLabel}`
+        : `Using ${result.modelName}`,
+    );
+    handleOpenChange(false);
+  };
+
+  const canCompare =
+    !isComparing &&
+    inputText.trim().length > 0 &&
+    modelNames.length >= 2 &&
+    modelNames.length <= MAX_COMPARED_MODELS;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[1000px]">
+        <DialogHeader>
+          <DialogTitle>Compare Models</DialogTitle>
+          <DialogDescription>
+            Translate the current input with several models, one after another,
+            and pick the best result.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Model Picker */}
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            {installedModels.map((model) => {
+              const checked = modelNames.includes(model.name);
+              return (
+                <div key={model.name} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`compare-${model.name}`}
+                    checked={checked}
+                    disabled={
+                      isComparing ||
+                      (!checked && modelNames.length >= MAX_COMPARED_MODELS)
+                    }
+                    onCheckedChange={(value) =>
+                      toggleModel(model.name, value === true)
+                    }
+                  />
+                  <Label htmlFor={`compare-${model.name}`}>{model.name}</Label>
+                </div>
+              );
+            })}
+            {installedModels.length < 2 && (
+              <p className="text-muted-foreground">
+                Install at least two models to compare them.
+              </p>
+            )}
+          </div>
+
+          {!inputText.trim() && (
+            <p className="text-muted-foreground text-sm">
+              Enter text to translate first.
+            </p>
+          )}
+
+          {error && <p className="text-destructive text-sm">{error}</p>}
+
+          {/* Results */}
+          {isComparing && (
+            <div className="text-muted-foreground flex items-center gap-2 text-sm">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Translating with {modelNames.length} models…
+            </div>
+          )}
+          {comparison && (
+            <div
+              className="grid gap-3"
+              style={{
+                gridTemplateColumns: `repeat(${comparison.results.length}, minmax(0, 1fr))`,
+              }}
+            >
+              {comparison.results.map((result) => (
+                <ComparisonColumn
+                  key={result.modelName}
+                  result={result}
+                  dir={getLanguageDirection(comparison.targetLanguage)}
+                  onPick={() => handlePick(result)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="items-center sm:justify-between">
+          <div className="flex items-center space-x-2 text-sm">
+            <Checkbox
+              id="compare-remember-winner"
+              checked={rememberWinner}
+              onCheckedChange={(value) => setRememberWinner(value === true)}
+            />
+            <Label htmlFor="compare-remember-winner">
+              Use the picked model for {pairLabel}
+            </Label>
+          </div>
+          <div className="flex gap-2">
+            {isComparing ? (
+              <Button variant="outline" onClick={cancel}>
+                Cancel
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Close
+              </Button>
+            )}
+            <Button onClick={handleCompare} disabled={!canCompare}>
+              Compare
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { ChevronDown, Plus, Settings } from "lucide-react";
+import { ChevronDown, FileText, Plus, Settings } from "lucide-react";
 import type { JSX } from "react";
 import { useState } from "react";
 import { useTranslationStore } from "../../stores/translation-store";
@@ -12,6 +12,7 @@ import {
 } from "../ui/dropdown-menu";
 import { AddModelDialog } from "./add-model-dialog";
 import { ModelManagementDialog } from "./model-management-dialog";
+import { PromptTemplateDialog } from "./prompt-template-dialog";
 
 export function ModelSelector(): JSX.Element {
   const { selectedModel, availableModels, setSelectedModel } =
@@ -19,6 +20,7 @@ export function ModelSelector(): JSX.Element {
 
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [showManageDialog, setShowManageDialog] = useState(false);
+  const [showPromptDialog, setShowPromptDialog] = useState(false);
 
   const currentModel = availableModels.find((m) => m.name === selectedModel);
   const displayName = currentModel ? currentModel.name : "Select Model";
@@ -83,6 +85,11 @@ export function ModelSelector(): JSX.Element {
             <Settings className="mr-2 h-4 w-4" />
             Manage Models
           </DropdownMenuItem>
+
+          <DropdownMenuItem onClick={() => setShowPromptDialog(true)}>
+            <FileText className="mr-2 h-4 w-4" />
+            Prompt Templates
+          </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
 
@@ -92,6 +99,11 @@ export function ModelSelector(): JSX.Element {
         open={showManageDialog}
         onOpenChange={setShowManageDialog}
       />
+
+      <PromptTemplateDialog
+        open={showPromptDialog}
+        onOpenChange={setShowPromptDialog}
+      />
     </>
   );
 }
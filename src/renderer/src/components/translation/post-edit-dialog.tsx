@@ -0,0 +1,173 @@
+import { getLanguageDirection } from "#shared/domain/translation";
+import { Trash2 } from "lucide-react";
+import type { JSX } from "react";
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { usePostEditStore } from "../../stores/post-edit-store";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { Checkbox } from "../ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import { Label } from "../ui/label";
+
+interface PostEditDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function PostEditDialog({
+  open,
+  onOpenChange,
+}: PostEditDialogProps): JSX.Element {
+  const {
+    settings,
+    postEdits,
+    statistics,
+    isLoading,
+    loadSettings,
+    updateSettings,
+    loadPostEdits,
+    deleteEntry,
+    purge,
+  } = usePostEditStore();
+
+  useEffect(() => {
+    if (!open) return;
+    loadSettings();
+    loadPostEdits();
+  }, [open, loadSettings, loadPostEdits]);
+
+  const handlePurge = async (): Promise<void> => {
+    if (!window.confirm("Delete every stored post-edit?")) return;
+    await purge();
+    toast.success("Post-edits purged");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>Post-edits</DialogTitle>
+          <DialogDescription>
+            When you correct a translation and then copy or save it, the source,
+            the machine translation and your version can be stored on this
+            device to measure how much each model needs correcting.
+          </DialogDescription>
+        </DialogHeader>
+
+        {settings && (
+          <div className="space-y-2 text-sm">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="capture-post-edits"
+                checked={settings.enabled}
+                onCheckedChange={(checked) =>
+                  updateSettings({ enabled: checked === true })
+                }
+              />
+              <Label htmlFor="capture-post-edits">
+                Store corrected translations
+              </Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="post-edits-to-memory"
+                checked={settings.addToTranslationMemory}
+                disabled={!settings.enabled}
+                onCheckedChange={(checked) =>
+                  updateSettings({ addToTranslationMemory: checked === true })
+                }
+              />
+              <Label htmlFor="post-edits-to-memory">
+                Add them to the translation memory
+              </Label>
+            </div>
+          </div>
+        )}
+
+        {statistics && statistics.postEdits > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">
+              {statistics.postEdits} post-edits ·{" "}
+              {statistics.averageEditPercent}% changed on average
+            </h4>
+            <div className="flex flex-wrap gap-2">
+              {statistics.models.map((model) => (
+                <Badge
+                  key={model.modelName}
+                  variant="secondary"
+                  title={`${model.postEdits} post-edits`}
+                >
+                  {model.modelName} · {model.averageEditPercent}%
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {postEdits.length === 0 ? (
+          <div className="text-muted-foreground py-6 text-center text-sm">
+            {isLoading ? "Loading..." : "No post-edits stored yet."}
+          </div>
+        ) : (
+          <div className="max-h-80 space-y-1 overflow-y-auto">
+            {postEdits.map((postEdit) => (
+              <div
+                key={postEdit.id}
+                className="bg-card flex items-start justify-between gap-2 rounded-md border px-3 py-2 text-sm"
+              >
+                <div className="min-w-0 flex-1 space-y-1">
+                  <p
+                    className="text-muted-foreground line-clamp-2 line-through"
+                    dir={getLanguageDirection(postEdit.targetLanguage)}
+                  >
+                    {postEdit.machineText}
+                  </p>
+                  <p
+                    className="line-clamp-2"
+                    dir={getLanguageDirection(postEdit.targetLanguage)}
+                  >
+                    {postEdit.editedText}
+                  </p>
+                  <p className="text-muted-foreground text-xs">
+                    {postEdit.modelName} · {postEdit.editPercent}% changed
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteEntry(postEdit.id)}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="sm:justify-between">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handlePurge}
+            disabled={postEdits.length === 0}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete all
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,345 @@
+import type { OllamaChatMessage } from "#shared/domain/ollama";
+import {
+  DEFAULT_PROMPT_TEMPLATE_ID,
+  getLanguagePairKey,
+  PROMPT_TEMPLATE_VARIABLES,
+} from "#shared/domain/prompt-template";
+import {
+  AUTO_DETECT_LANGUAGE,
+  getLanguageName,
+} from "#shared/domain/translation";
+import { Plus, RotateCcw, Save, Trash2 } from "lucide-react";
+import type { JSX } from "react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { usePromptTemplateStore } from "../../stores/prompt-template-store";
+import { useTranslationStore } from "../../stores/translation-store";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { Checkbox } from "../ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { Textarea } from "../ui/textarea";
+
+interface PromptTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Text used for the preview when the input is empty */
+const SAMPLE_TEXT = "Hello, world!";
+
+export function PromptTemplateDialog({
+  open,
+  onOpenChange,
+}: PromptTemplateDialogProps): JSX.Element {
+  const {
+    inputText,
+    translationContext,
+    translationStyle,
+    manualSourceLanguage,
+    manualTargetLanguage,
+    detectedLanguage,
+    selectedModel,
+  } = useTranslationStore();
+  const {
+    settings,
+    loadSettings,
+    createTemplate,
+    updateTemplate,
+    deleteTemplate,
+    resetTemplate,
+    assignTemplate,
+    previewTemplate,
+  } = usePromptTemplateStore();
+
+  const [selectedId, setSelectedId] = useState(DEFAULT_PROMPT_TEMPLATE_ID);
+  const [name, setName] = useState("");
+  const [systemPrompt, setSystemPrompt] = useState("");
+  const [userPrompt, setUserPrompt] = useState("");
+  const [preview, setPreview] = useState<OllamaChatMessage[]>([]);
+
+  const template = settings?.templates.find((t) => t.id === selectedId);
+  const isDirty =
+    !!template &&
+    (template.name !== name ||
+      template.systemPrompt !== systemPrompt ||
+      template.userPrompt !== userPrompt);
+
+  const sourceLanguage =
+    manualSourceLanguage === AUTO_DETECT_LANGUAGE
+      ? (detectedLanguage?.language ?? "en")
+      : manualSourceLanguage;
+  const pairKey = getLanguagePairKey(sourceLanguage, manualTargetLanguage);
+
+  useEffect(() => {
+    if (open) loadSettings();
+  }, [open, loadSettings]);
+
+  // Load the selected template into the editor
+  useEffect(() => {
+    if (!template) return;
+    setName(template.name);
+    setSystemPrompt(template.systemPrompt);
+    setUserPrompt(template.userPrompt);
+  }, [template]);
+
+  // Render the unsaved draft, debounced while typing
+  useEffect(() => {
+    if (!open || !userPrompt) return;
+
+    const timer = setTimeout(() => {
+      previewTemplate({
+        text: inputText.trim() || SAMPLE_TEXT,
+        sourceLanguage,
+        targetLanguage: manualTargetLanguage,
+        context: translationContext || undefined,
+        formality: translationStyle.formality,
+        domain: translationStyle.domain,
+        draft: { systemPrompt, userPrompt },
+      })
+        .then(setPreview)
+        .catch(() => setPreview([]));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [
+    open,
+    systemPrompt,
+    userPrompt,
+    inputText,
+    translationContext,
+    translationStyle,
+    sourceLanguage,
+    manualTargetLanguage,
+    previewTemplate,
+  ]);
+
+  const runAction = async (
+    action: () => Promise<unknown>,
+    successMessage: string,
+  ): Promise<void> => {
+    try {
+      await action();
+      toast.success(successMessage);
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Prompt template update failed",
+      );
+    }
+  };
+
+  const handleSave = (): Promise<void> =>
+    runAction(
+      () => updateTemplate(selectedId, { name, systemPrompt, userPrompt }),
+      `Saved "${name}"`,
+    );
+
+  const handleCreate = (): Promise<void> =>
+    runAction(async () => {
+      const created = await createTemplate({
+        name: `${name || "Template"} (copy)`,
+        systemPrompt,
+        userPrompt,
+      });
+      setSelectedId(created.id);
+    }, "Template created");
+
+  const handleDelete = (): Promise<void> =>
+    runAction(async () => {
+      await deleteTemplate(selectedId);
+      setSelectedId(DEFAULT_PROMPT_TEMPLATE_ID);
+    }, "Template deleted");
+
+  const handleReset = (): Promise<void> =>
+    runAction(() => resetTemplate(selectedId), "Template reset to default");
+
+  const isDefault = settings?.defaultTemplateId === selectedId;
+  const isModelTemplate =
+    !!selectedModel && settings?.modelTemplates[selectedModel] === selectedId;
+  const isPairTemplate =
+    settings?.languagePairTemplates[pairKey] === selectedId;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[760px]">
+        <DialogHeader>
+          <DialogTitle>Prompt Templates</DialogTitle>
+          <DialogDescription>
+            Edit the instructions sent to the model. A template assigned to the
+            language pair wins over one assigned to the model.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Template Picker */}
+          <div className="flex items-center gap-2">
+            <Select value={selectedId} onValueChange={setSelectedId}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Select template" />
+              </SelectTrigger>
+              <SelectContent>
+                {settings?.templates.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.name}
+                    <span className="text-muted-foreground text-xs">
+                      v{t.version}
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={handleCreate}>
+              <Plus className="mr-1 h-4 w-4" />
+              Duplicate
+            </Button>
+            {template?.isBuiltIn ? (
+              <Button variant="outline" size="sm" onClick={handleReset}>
+                <RotateCcw className="mr-1 h-4 w-4" />
+                Reset
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDelete}
+                className="text-destructive hover:text-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+
+          {/* Editor */}
+          <div className="space-y-1">
+            <Label htmlFor="prompt-template-name">Name</Label>
+            <Input
+              id="prompt-template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="prompt-template-system">System prompt</Label>
+            <Textarea
+              id="prompt-template-system"
+              value={systemPrompt}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+              className="min-h-20 font-mono text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="prompt-template-user">User prompt</Label>
+            <Textarea
+              id="prompt-template-user"
+              value={userPrompt}
+              onChange={(e) => setUserPrompt(e.target.value)}
+              className="min-h-28 font-mono text-xs"
+            />
+            <p className="text-muted-foreground text-xs">
+              Variables:{" "}
+              {PROMPT_TEMPLATE_VARIABLES.map((v) => `{{${v}}}`).join(" ")}. Wrap
+              text in {"{{#context}}…{{/context}}"} to include it only when the
+              value is set.
+            </p>
+          </div>
+
+          {/* Assignments */}
+          <div className="flex flex-wrap items-center gap-4 text-sm">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="prompt-template-default"
+                checked={isDefault}
+                disabled={isDefault}
+                onCheckedChange={() =>
+                  assignTemplate({ type: "default" }, selectedId)
+                }
+              />
+              <Label htmlFor="prompt-template-default">Default</Label>
+            </div>
+            {selectedModel && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="prompt-template-model"
+                  checked={isModelTemplate}
+                  onCheckedChange={(checked) =>
+                    assignTemplate(
+                      { type: "model", modelName: selectedModel },
+                      checked ? selectedId : null,
+                    )
+                  }
+                />
+                <Label htmlFor="prompt-template-model">
+                  Use for {selectedModel}
+                </Label>
+              </div>
+            )}
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="prompt-template-pair"
+                checked={isPairTemplate}
+                onCheckedChange={(checked) =>
+                  assignTemplate(
+                    {
+                      type: "languagePair",
+                      sourceLanguage,
+                      targetLanguage: manualTargetLanguage,
+                    },
+                    checked ? selectedId : null,
+                  )
+                }
+              />
+              <Label htmlFor="prompt-template-pair">
+                Use for {getLanguageName(sourceLanguage)} →{" "}
+                {getLanguageName(manualTargetLanguage)}
+              </Label>
+            </div>
+          </div>
+
+          {/* Preview */}
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Preview</h4>
+            <div className="bg-muted/50 max-h-60 space-y-2 overflow-y-auto rounded-lg p-3">
+              {preview.map((message, index) => (
+                <div key={index} className="space-y-1">
+                  <Badge variant="outline" className="text-xs">
+                    {message.role}
+                  </Badge>
+                  <pre className="font-mono text-xs whitespace-pre-wrap">
+                    {message.content}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleSave} disabled={!isDirty || !name.trim()}>
+            <Save className="mr-1 h-4 w-4" />
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,92 @@
+import type { Formality, TranslationDomain } from "#shared/domain/translation";
+import type { JSX } from "react";
+import { useTranslationStore } from "../../stores/translation-store";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+
+/** Select value for "let the model decide"; Radix Select does not allow empty values */
+const AUTO = "auto";
+
+const FORMALITY_LABELS: Record<Formality, string> = {
+  casual: "Casual",
+  polite: "Polite",
+  formal: "Formal",
+};
+
+/** Japanese output distinguishes plain form, です/ます and keigo */
+const JAPANESE_FORMALITY_LABELS: Record<Formality, string> = {
+  casual: "Plain (だ)",
+  polite: "Polite (です/ます)",
+  formal: "Keigo (敬語)",
+};
+
+const DOMAIN_LABELS: Record<TranslationDomain, string> = {
+  general: "General",
+  legal: "Legal",
+  technical: "Technical",
+  marketing: "Marketing",
+  chat: "Chat",
+};
+
+const triggerClassName =
+  "text-muted-foreground h-8 w-auto border-0 text-sm shadow-none focus:ring-0";
+
+export function StyleSelector(): JSX.Element {
+  const { manualTargetLanguage, translationStyle, setTranslationStyle } =
+    useTranslationStore();
+
+  const formalityLabels =
+    manualTargetLanguage === "ja"
+      ? JAPANESE_FORMALITY_LABELS
+      : FORMALITY_LABELS;
+
+  return (
+    <div className="flex items-center">
+      <Select
+        value={translationStyle.formality ?? AUTO}
+        onValueChange={(value) =>
+          setTranslationStyle({
+            formality: value === AUTO ? undefined : (value as Formality),
+          })
+        }
+      >
+        <SelectTrigger className={triggerClassName} title="Formality">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={AUTO}>Any formality</SelectItem>
+          {Object.entries(formalityLabels).map(([value, label]) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={translationStyle.domain ?? "general"}
+        onValueChange={(value) =>
+          setTranslationStyle({
+            domain:
+              value === "general" ? undefined : (value as TranslationDomain),
+          })
+        }
+      >
+        <SelectTrigger className={triggerClassName} title="Domain">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(DOMAIN_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
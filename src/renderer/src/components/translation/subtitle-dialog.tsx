@@ -0,0 +1,251 @@
+import { getTranslatedFileName } from "#shared/domain/document";
+import type { SubtitleCueIssueReason } from "#shared/domain/subtitle";
+import {
+  DEFAULT_SUBTITLE_LINE_LENGTH,
+  DEFAULT_SUBTITLE_LINES_PER_CUE,
+} from "#shared/domain/subtitle";
+import {
+  AUTO_DETECT_LANGUAGE,
+  getLanguageName,
+} from "#shared/domain/translation";
+import { Download, Loader2, Upload } from "lucide-react";
+import type { JSX } from "react";
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+import { downloadFile } from "../../lib/utils";
+import { useSubtitleStore } from "../../stores/subtitle-store";
+import { useTranslationStore } from "../../stores/translation-store";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+
+interface SubtitleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ISSUE_LABELS: Record<SubtitleCueIssueReason, string> = {
+  too_long: "Longer than the line limits",
+  tags_changed: "Styling tags changed",
+  translation_failed: "Not translated",
+};
+
+export function SubtitleDialog({
+  open,
+  onOpenChange,
+}: SubtitleDialogProps): JSX.Element {
+  const {
+    manualSourceLanguage,
+    manualTargetLanguage,
+    detectedLanguage,
+    selectedModel,
+    translationContext,
+    translationStyle,
+  } = useTranslationStore();
+  const { result, progress, isTranslating, error, translate, cancel, reset } =
+    useSubtitleStore();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [maxLineLength, setMaxLineLength] = useState(
+    DEFAULT_SUBTITLE_LINE_LENGTH,
+  );
+  const [maxLinesPerCue, setMaxLinesPerCue] = useState(
+    DEFAULT_SUBTITLE_LINES_PER_CUE,
+  );
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Subtitles are translated between concrete languages
+  const sourceLanguage =
+    manualSourceLanguage === AUTO_DETECT_LANGUAGE
+      ? detectedLanguage?.language
+      : manualSourceLanguage;
+
+  const handleFile = async (
+    e: React.ChangeEvent<HTMLInputElement>,
+  ): Promise<void> => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !sourceLanguage) return;
+
+    setFileName(file.name);
+    await translate({
+      content: await file.text(),
+      format: file.name.toLowerCase().endsWith(".vtt") ? "vtt" : "srt",
+      sourceLanguage,
+      targetLanguage: manualTargetLanguage,
+      modelName: selectedModel || undefined,
+      context: translationContext.trim() || undefined,
+      formality: translationStyle.formality,
+      domain: translationStyle.domain,
+      maxLineLength,
+      maxLinesPerCue,
+    });
+  };
+
+  const handleSave = (): void => {
+    if (!result || !fileName) return;
+
+    const name = getTranslatedFileName(fileName, manualTargetLanguage);
+    downloadFile(result.content, name);
+    toast.success(`Saved ${name}`);
+  };
+
+  const handleOpenChange = (next: boolean): void => {
+    if (!next) {
+      if (isTranslating) cancel();
+      reset();
+      setFileName(null);
+    }
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>Translate Subtitles</DialogTitle>
+          <DialogDescription>
+            {sourceLanguage
+              ? `Translate an SRT or WebVTT file from ${getLanguageName(
+                  sourceLanguage,
+                )} to ${getLanguageName(manualTargetLanguage)}. Timings, numbering and styling are kept.`
+              : "Choose a source language, or enter text to detect it, before translating subtitles."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          {/* Line Limits */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="subtitle-line-length">Characters per line</Label>
+              <Input
+                id="subtitle-line-length"
+                type="number"
+                min={10}
+                max={200}
+                value={maxLineLength}
+                disabled={isTranslating}
+                onChange={(e) =>
+                  setMaxLineLength(
+                    Number(e.target.value) || DEFAULT_SUBTITLE_LINE_LENGTH,
+                  )
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="subtitle-lines-per-cue">Lines per subtitle</Label>
+              <Input
+                id="subtitle-lines-per-cue"
+                type="number"
+                min={1}
+                max={5}
+                value={maxLinesPerCue}
+                disabled={isTranslating}
+                onChange={(e) =>
+                  setMaxLinesPerCue(
+                    Number(e.target.value) || DEFAULT_SUBTITLE_LINES_PER_CUE,
+                  )
+                }
+              />
+            </div>
+          </div>
+
+          {fileName && <p className="font-medium">{fileName}</p>}
+
+          {isTranslating && (
+            <div className="text-muted-foreground flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {progress
+                ? `Translated ${progress.completedCues} of ${progress.totalCues} subtitles…`
+                : "Reading file…"}
+            </div>
+          )}
+
+          {error && <p className="text-destructive">{error}</p>}
+
+          {result && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2">
+                <Badge variant="secondary">
+                  {result.translatedCues} of {result.totalCues} translated
+                </Badge>
+                {result.issues.length > 0 && (
+                  <Badge variant="destructive">
+                    {result.issues.length} to review
+                  </Badge>
+                )}
+              </div>
+
+              {result.issues.length > 0 && (
+                <div className="max-h-64 space-y-2 overflow-y-auto">
+                  {result.issues.map((issue) => (
+                    <div
+                      key={`${issue.cue}-${issue.reason}`}
+                      className="space-y-1 rounded border p-2"
+                    >
+                      <p className="font-mono text-xs">
+                        #{issue.cue} · {issue.timing}
+                      </p>
+                      <p className="text-muted-foreground text-xs">
+                        {ISSUE_LABELS[issue.reason]}
+                        {issue.error && `: ${issue.error}`}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".srt,.vtt"
+              className="hidden"
+              onChange={handleFile}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!sourceLanguage || isTranslating}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Open SRT / VTT
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSave}
+              disabled={!result}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Save
+            </Button>
+          </div>
+          {isTranslating ? (
+            <Button variant="outline" onClick={cancel}>
+              Cancel
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={() => handleOpenChange(false)}>
+              Close
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,137 @@
+import { Trash2 } from "lucide-react";
+import type { JSX } from "react";
+import { useEffect, useState } from "react";
+import { useTranslationCacheStore } from "../../stores/translation-cache-store";
+import { Button } from "../ui/button";
+import { Checkbox } from "../ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+
+interface TranslationCacheDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TranslationCacheDialog({
+  open,
+  onOpenChange,
+}: TranslationCacheDialogProps): JSX.Element {
+  const { stats, error, loadStats, updateSettings, clearCache } =
+    useTranslationCacheStore();
+  const [maxEntries, setMaxEntries] = useState("");
+
+  useEffect(() => {
+    if (open) loadStats();
+  }, [open, loadStats]);
+
+  useEffect(() => {
+    if (stats) setMaxEntries(String(stats.maxEntries));
+  }, [stats]);
+
+  const handleMaxEntriesBlur = (): void => {
+    const value = Number.parseInt(maxEntries, 10);
+    if (stats && Number.isInteger(value) && value > 0 && value <= 10000) {
+      if (value !== stats.maxEntries) updateSettings({ maxEntries: value });
+    } else if (stats) {
+      setMaxEntries(String(stats.maxEntries));
+    }
+  };
+
+  const lookups = stats ? stats.hits + stats.misses : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Translation Cache</DialogTitle>
+          <DialogDescription>
+            Reuse earlier translations of the same text, languages, model and
+            prompt instead of asking the model again. Off by default, so no
+            translations are kept unless you enable it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="translation-cache-enabled"
+              checked={stats?.enabled ?? false}
+              disabled={!stats}
+              onCheckedChange={(checked) =>
+                updateSettings({ enabled: checked === true })
+              }
+            />
+            <Label htmlFor="translation-cache-enabled">Enable cache</Label>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="translation-cache-persist"
+              checked={stats?.persist ?? false}
+              disabled={!stats?.enabled}
+              onCheckedChange={(checked) =>
+                updateSettings({ persist: checked === true })
+              }
+            />
+            <Label htmlFor="translation-cache-persist">
+              Keep cached translations on disk
+            </Label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Label htmlFor="translation-cache-max" className="flex-1">
+              Maximum entries
+            </Label>
+            <Input
+              id="translation-cache-max"
+              type="number"
+              min={1}
+              max={10000}
+              value={maxEntries}
+              disabled={!stats?.enabled}
+              onChange={(e) => setMaxEntries(e.target.value)}
+              onBlur={handleMaxEntriesBlur}
+              className="w-28"
+            />
+          </div>
+
+          {stats?.enabled && (
+            <div className="bg-muted/50 rounded-lg p-3 text-sm">
+              <p>
+                {stats.entries} of {stats.maxEntries} entries
+              </p>
+              <p className="text-muted-foreground">
+                {stats.hits} hits, {stats.misses} misses
+                {lookups > 0 &&
+                  ` (${Math.round((stats.hits / lookups) * 100)}% hit rate)`}
+              </p>
+            </div>
+          )}
+
+          {error && <p className="text-destructive text-sm">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={clearCache}
+            disabled={!stats || stats.entries === 0}
+            className="text-destructive hover:text-destructive"
+          >
+            <Trash2 className="mr-1 h-4 w-4" />
+            Clear cache
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
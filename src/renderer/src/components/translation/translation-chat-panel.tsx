@@ -0,0 +1,189 @@
+import { getLanguageDirection } from "#shared/domain/translation";
+import { parseChatReply } from "#shared/domain/translation-chat";
+import { Check, Loader2, Send, Square, X } from "lucide-react";
+import type { JSX } from "react";
+import { useEffect, useRef, useState } from "react";
+import { useTranslationChatStore } from "../../stores/translation-chat-store";
+import { useTranslationStore } from "../../stores/translation-store";
+import { Button } from "../ui/button";
+import { Textarea } from "../ui/textarea";
+
+interface TranslationChatPanelProps {
+  onClose: () => void;
+}
+
+/** Questions offered before the conversation starts */
+const SUGGESTIONS = [
+  "Explain the word choices",
+  "Give me a more casual version",
+  "Give me a more formal version",
+];
+
+function AssistantMessage({
+  content,
+  isStreaming,
+  onApply,
+}: {
+  content: string;
+  isStreaming: boolean;
+  onApply: (translation: string) => void;
+}): JSX.Element {
+  const { text, revisedTranslation } = parseChatReply(content);
+  const targetLanguage = useTranslationStore((state) => state.targetLanguage);
+
+  return (
+    <div className="space-y-2">
+      {text && <p className="text-sm whitespace-pre-wrap">{text}</p>}
+      {revisedTranslation && (
+        <div className="bg-muted/40 space-y-2 rounded-md border p-3">
+          <p
+            className="text-sm whitespace-pre-wrap"
+            dir={targetLanguage ? getLanguageDirection(targetLanguage) : "auto"}
+          >
+            {revisedTranslation}
+          </p>
+          {!isStreaming && (
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onApply(revisedTranslation)}
+                title="Replace the translation with this version"
+              >
+                <Check className="h-3 w-3" />
+                Use this version
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+      {isStreaming && !content && (
+        <Loader2 className="text-muted-foreground h-4 w-4 animate-spin" />
+      )}
+    </div>
+  );
+}
+
+export function TranslationChatPanel({
+  onClose,
+}: TranslationChatPanelProps): JSX.Element {
+  const { translatedText, isTranslating, applyRevisedTranslation } =
+    useTranslationStore();
+  const { turns, pendingReply, error, send, cancel } =
+    useTranslationChatStore();
+
+  const [message, setMessage] = useState("");
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const isResponding = pendingReply !== null;
+  const canAsk = Boolean(translatedText.trim()) && !isTranslating;
+
+  // Keep the latest turn in view as the reply streams in
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "end" });
+  }, [turns, pendingReply]);
+
+  const handleSend = (text: string): void => {
+    if (!text.trim() || !canAsk || isResponding) return;
+    setMessage("");
+    send(text);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>): void => {
+    // Enter sends; Shift+Enter starts a new line
+    if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      handleSend(message);
+    }
+  };
+
+  return (
+    <aside className="bg-background flex w-96 flex-shrink-0 flex-col border-l">
+      <div className="flex items-center justify-between border-b px-4 py-2">
+        <h2 className="font-medium">Ask about the translation</h2>
+        <Button variant="ghost" size="sm" onClick={onClose} title="Close">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 space-y-4 overflow-y-auto p-4">
+        {!canAsk && turns.length === 0 ? (
+          <p className="text-muted-foreground text-sm">
+            Translate something to ask the model about its translation.
+          </p>
+        ) : turns.length === 0 && !isResponding ? (
+          <div className="space-y-2">
+            <p className="text-muted-foreground text-sm">
+              Ask why a word was chosen, or for a different version.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {SUGGESTIONS.map((suggestion) => (
+                <Button
+                  key={suggestion}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleSend(suggestion)}
+                >
+                  {suggestion}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ) : null}
+
+        {turns.map((turn, index) =>
+          turn.role === "user" ? (
+            <p
+              key={index}
+              className="bg-primary text-primary-foreground ml-8 rounded-lg px-3 py-2 text-sm whitespace-pre-wrap"
+            >
+              {turn.content}
+            </p>
+          ) : (
+            <AssistantMessage
+              key={index}
+              content={turn.content}
+              isStreaming={false}
+              onApply={applyRevisedTranslation}
+            />
+          ),
+        )}
+        {isResponding && (
+          <AssistantMessage
+            content={pendingReply}
+            isStreaming
+            onApply={applyRevisedTranslation}
+          />
+        )}
+        {error && <p className="text-destructive text-sm">{error}</p>}
+        <div ref={endRef} />
+      </div>
+
+      <div className="flex items-end gap-2 border-t p-3">
+        <Textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Ask a question…"
+          className="max-h-32 min-h-[40px] resize-none"
+          rows={1}
+          disabled={!canAsk}
+        />
+        {isResponding ? (
+          <Button variant="outline" size="icon" onClick={cancel} title="Stop">
+            <Square className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button
+            size="icon"
+            onClick={() => handleSend(message)}
+            disabled={!canAsk || !message.trim()}
+            title="Send"
+          >
+            <Send className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </aside>
+  );
+}
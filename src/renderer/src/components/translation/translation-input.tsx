@@ -1,13 +1,38 @@
-import { IconLoader2, IconSend } from "@tabler/icons-react";
+import {
+  AUTO_DETECT_LANGUAGE,
+  getLanguageDirection,
+} from "#shared/domain/translation";
+import { IconLoader2, IconPlayerStop, IconSend } from "@tabler/icons-react";
 import type { JSX } from "react";
 import { useCallback, useEffect } from "react";
 import { useTranslationStore } from "../../stores/translation-store";
 import { Button } from "../ui/button";
-import { Textarea } from "../ui/textarea";
+import { Input } from "../ui/input";
+import { AlignedTextarea } from "./aligned-text";
 
 export function TranslationInput(): JSX.Element {
-  const { inputText, setInputText, translate, isTranslating } =
-    useTranslationStore();
+  const {
+    inputText,
+    setInputText,
+    translationContext,
+    setTranslationContext,
+    translate,
+    cancelTranslation,
+    isTranslating,
+    manualSourceLanguage,
+    detectLanguage,
+  } = useTranslationStore();
+
+  const isAutoDetect = manualSourceLanguage === AUTO_DETECT_LANGUAGE;
+
+  // Detect the source language while typing, debounced to avoid
+  // a round trip per keystroke
+  useEffect(() => {
+    if (!isAutoDetect) return;
+
+    const timer = setTimeout(() => detectLanguage(inputText), 300);
+    return () => clearTimeout(timer);
+  }, [inputText, isAutoDetect, detectLanguage]);
 
   const handleInputChange = (value: string): void => {
     setInputText(value);
@@ -40,11 +65,26 @@ export function TranslationInput(): JSX.Element {
       {/* Text Input Area */}
       {/* Set px-[8px] to align Taget language */}
       <div className="flex-1 px-[8px] py-2">
-        <Textarea
+        <AlignedTextarea
+          pane="source"
           value={inputText}
-          onChange={(e) => handleInputChange(e.target.value)}
+          onChange={handleInputChange}
           placeholder="Enter text to translate..."
-          className="h-full resize-none rounded-none border-0 text-base shadow-none focus-visible:ring-0"
+          dir={
+            isAutoDetect ? "auto" : getLanguageDirection(manualSourceLanguage)
+          }
+          className="px-3 py-2"
+          disabled={isTranslating}
+        />
+      </div>
+
+      {/* Translation Context */}
+      <div className="px-[8px] pb-2">
+        <Input
+          value={translationContext}
+          onChange={(e) => setTranslationContext(e.target.value)}
+          placeholder="Context for the translator (optional)"
+          className="h-8 border-0 text-sm shadow-none focus-visible:ring-0"
           disabled={isTranslating}
         />
       </div>
@@ -52,24 +92,32 @@ export function TranslationInput(): JSX.Element {
       {/* Status Bar */}
       <div className="text-muted-foreground flex items-center justify-between border-t px-5 py-4 text-sm">
         <div>Characters: {inputText.length}</div>
-        <Button
-          onClick={handleTranslate}
-          disabled={!inputText.trim() || isTranslating}
-          size="sm"
-          className=""
-        >
-          {isTranslating ? (
-            <>
-              <IconLoader2 className="animate-spin" />
-              Translating...
-            </>
-          ) : (
-            <>
-              <IconSend />
-              Translate (⌘↵)
-            </>
+        <div className="flex items-center space-x-2">
+          {isTranslating && (
+            <Button variant="outline" size="sm" onClick={cancelTranslation}>
+              <IconPlayerStop />
+              Cancel
+            </Button>
           )}
-        </Button>
+          <Button
+            onClick={handleTranslate}
+            disabled={!inputText.trim() || isTranslating}
+            size="sm"
+            className=""
+          >
+            {isTranslating ? (
+              <>
+                <IconLoader2 className="animate-spin" />
+                Translating...
+              </>
+            ) : (
+              <>
+                <IconSend />
+                Translate (⌘↵)
+              </>
+            )}
+          </Button>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,191 @@
+import {
+  AUTO_DETECT_LANGUAGE,
+  getLanguageDirection,
+  getLanguageName,
+} from "#shared/domain/translation";
+import type { TranslationMemoryLanguagePair } from "#shared/domain/translation-memory";
+import { Download, Trash2, Upload } from "lucide-react";
+import type { JSX } from "react";
+import { useEffect, useRef } from "react";
+import { toast } from "sonner";
+import { downloadFile } from "../../lib/utils";
+import { useTranslationMemoryStore } from "../../stores/translation-memory-store";
+import { useTranslationStore } from "../../stores/translation-store";
+import { Button } from "../ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+
+interface TranslationMemoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TranslationMemoryDialog({
+  open,
+  onOpenChange,
+}: TranslationMemoryDialogProps): JSX.Element {
+  const { manualSourceLanguage, manualTargetLanguage, detectedLanguage } =
+    useTranslationStore();
+  const { entries, isLoading, loadEntries, deleteEntry, importTmx, exportTmx } =
+    useTranslationMemoryStore();
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Memories are per concrete pair; with auto-detect use the detected source
+  const sourceLanguage =
+    manualSourceLanguage === AUTO_DETECT_LANGUAGE
+      ? detectedLanguage?.language
+      : manualSourceLanguage;
+  const pair: TranslationMemoryLanguagePair | null = sourceLanguage
+    ? { sourceLanguage, targetLanguage: manualTargetLanguage }
+    : null;
+
+  useEffect(() => {
+    if (open && sourceLanguage) {
+      loadEntries({ sourceLanguage, targetLanguage: manualTargetLanguage });
+    }
+  }, [open, sourceLanguage, manualTargetLanguage, loadEntries]);
+
+  const handleDelete = async (id: string): Promise<void> => {
+    try {
+      await deleteEntry(id);
+    } catch {
+      toast.error("Failed to remove segment");
+    }
+  };
+
+  const handleImport = async (
+    e: React.ChangeEvent<HTMLInputElement>,
+  ): Promise<void> => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !pair) return;
+
+    try {
+      const result = await importTmx(await file.text(), pair);
+      toast.success(
+        `Imported ${result.imported} new and ${result.updated} updated segments` +
+          (result.skipped > 0 ? ` (${result.skipped} skipped)` : ""),
+      );
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to import translation memory",
+      );
+    }
+  };
+
+  const handleExport = async (): Promise<void> => {
+    if (!pair) return;
+
+    try {
+      const content = await exportTmx(pair);
+      downloadFile(
+        content,
+        `memory-${pair.sourceLanguage}-${pair.targetLanguage}.tmx`,
+      );
+    } catch {
+      toast.error("Failed to export translation memory");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>Translation Memory</DialogTitle>
+          <DialogDescription>
+            {pair
+              ? `Approved ${getLanguageName(pair.sourceLanguage)} to ${getLanguageName(pair.targetLanguage)} translations. Exact matches are reused without asking the model; similar segments are given to it as references.`
+              : "Enter some text or pick a source language to see its translation memory."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {pair && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Segments ({entries.length})</h4>
+            {entries.length === 0 ? (
+              <div className="text-muted-foreground py-6 text-center text-sm">
+                {isLoading
+                  ? "Loading..."
+                  : "No segments yet. Save a translation or import a TMX file."}
+              </div>
+            ) : (
+              <div className="max-h-80 space-y-1 overflow-y-auto">
+                {entries.map((entry) => (
+                  <div
+                    key={entry.id}
+                    className="bg-card flex items-start justify-between gap-2 rounded-md border px-3 py-2 text-sm"
+                  >
+                    <div className="grid min-w-0 flex-1 grid-cols-2 gap-3">
+                      <p
+                        className="line-clamp-3 whitespace-pre-wrap"
+                        dir={getLanguageDirection(pair.sourceLanguage)}
+                      >
+                        {entry.sourceText}
+                      </p>
+                      <p
+                        className="line-clamp-3 whitespace-pre-wrap"
+                        dir={getLanguageDirection(pair.targetLanguage)}
+                      >
+                        {entry.targetText}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(entry.id)}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="sm:justify-between">
+          <div className="flex gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".tmx,.xml"
+              className="hidden"
+              onChange={handleImport}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!pair}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Import TMX
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExport}
+              disabled={!pair || entries.length === 0}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Export TMX
+            </Button>
+          </div>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
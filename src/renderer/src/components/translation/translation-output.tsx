@@ -1,20 +1,98 @@
-import { IconCopy, IconCopyCheck, IconLoader2 } from "@tabler/icons-react";
+import type { GenerationMetrics } from "#shared/domain/ollama";
+import {
+  AUTO_DETECT_LANGUAGE,
+  BACK_TRANSLATION_WARNING_THRESHOLD,
+  getLanguageDirection,
+  MAX_TRANSLATION_CANDIDATES,
+} from "#shared/domain/translation";
+import {
+  IconAlertTriangle,
+  IconArrowBackUp,
+  IconCopy,
+  IconCopyCheck,
+  IconDatabasePlus,
+  IconLoader2,
+} from "@tabler/icons-react";
 import type { JSX } from "react";
 import { useState } from "react";
 import { toast } from "sonner";
+import { useTranslationMemoryStore } from "../../stores/translation-memory-store";
 import { useTranslationStore } from "../../stores/translation-store";
+import { Badge } from "../ui/badge";
 import { Button } from "../ui/button";
+import { Checkbox } from "../ui/checkbox";
+import { Label } from "../ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../ui/select";
+import { AlignedTextarea } from "./aligned-text";
+
+/** Model loads shorter than this are not worth mentioning */
+const MODEL_LOAD_NOTICE_MS = 100;
+
+/** e.g. "312 tokens · 41 tok/s · model load 2.1s" */
+function formatMetrics(metrics: GenerationMetrics): string {
+  const parts: string[] = [];
+  if (metrics.completionTokens !== undefined) {
+    parts.push(`${metrics.completionTokens} tokens`);
+  }
+  if (metrics.tokensPerSecond !== undefined) {
+    parts.push(`${Math.round(metrics.tokensPerSecond)} tok/s`);
+  }
+  if (
+    metrics.loadDurationMs !== undefined &&
+    metrics.loadDurationMs >= MODEL_LOAD_NOTICE_MS
+  ) {
+    parts.push(`model load ${(metrics.loadDurationMs / 1000).toFixed(1)}s`);
+  }
+  return parts.join(" · ");
+}
 
 export function TranslationOutput(): JSX.Element {
-  const { translatedText, isTranslating } = useTranslationStore();
+  const {
+    translatedText,
+    isTranslating,
+    manualTargetLanguage,
+    missingGlossaryTerms,
+    missingProtectedSpans,
+    translationProgress,
+    alternatives,
+    selectAlternative,
+    candidateCount,
+    setCandidateCount,
+    backTranslate,
+    setBackTranslate,
+    backTranslation,
+    translationMetrics,
+    manualSourceLanguage,
+    inputText,
+    sourceLanguage,
+    targetLanguage,
+    translationMemoryMatches,
+    applyTranslationMemoryMatch,
+    alignSentences,
+    setAlignSentences,
+    machineTranslation,
+    editTranslation,
+    resetTranslation,
+    recordPostEdit,
+  } = useTranslationStore();
+  const addMemoryEntry = useTranslationMemoryStore((state) => state.addEntry);
 
   const [isCopied, setIsCopied] = useState(false);
 
-  const handleCopy = async (): Promise<void> => {
-    if (!translatedText) return;
+  // Corrections to the output are kept apart from what the model produced
+  const isEdited = !isTranslating && translatedText !== machineTranslation;
+
+  const copyText = async (text: string): Promise<void> => {
+    if (!text) return;
 
     try {
-      await navigator.clipboard.writeText(translatedText);
+      await navigator.clipboard.writeText(text);
       setIsCopied(true);
       toast.success("Translation copied to clipboard");
 
@@ -26,24 +104,85 @@ export function TranslationOutput(): JSX.Element {
     }
   };
 
+  // A corrected translation that was copied is worth capturing
+  const handleCopy = async (): Promise<void> => {
+    await copyText(translatedText);
+    await recordPostEdit();
+  };
+
+  // The chosen alternative becomes the main output and is copied right away
+  const handleSelectAlternative = (index: number): Promise<void> => {
+    const selected = alternatives[index];
+    selectAlternative(index);
+    return copyText(selected);
+  };
+
+  const exactMatch = translationMemoryMatches.find(
+    (match) =>
+      match.matchPercent === 100 && match.targetText === translatedText,
+  );
+  const fuzzyMatches = translationMemoryMatches.filter(
+    (match) => match.matchPercent < 100,
+  );
+
+  // Only a finished translation between two known languages can be stored
+  const canSaveToMemory =
+    !isTranslating &&
+    Boolean(translatedText && inputText.trim()) &&
+    sourceLanguage !== null &&
+    targetLanguage !== null &&
+    sourceLanguage !== targetLanguage;
+
+  const handleSaveToMemory = async (): Promise<void> => {
+    if (!canSaveToMemory || !sourceLanguage || !targetLanguage) return;
+
+    try {
+      await addMemoryEntry({
+        sourceLanguage,
+        targetLanguage,
+        sourceText: inputText.trim(),
+        targetText: translatedText,
+      });
+      toast.success("Saved to translation memory");
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : "Failed to save to translation memory",
+      );
+    }
+  };
+
   return (
     <div className="flex h-full flex-col">
       {/* Translation Output Area */}
       <div className="relative flex-1">
-        {isTranslating ? (
+        {isTranslating && !translatedText ? (
           <div className="flex h-full items-center justify-center">
             <div className="text-muted-foreground flex items-center space-x-2">
               <IconLoader2 className="animate-spin" />
               <span>Translating...</span>
             </div>
           </div>
-        ) : translatedText ? (
-          <div className="relative h-full">
-            <div className="bg-muted/20 h-full overflow-auto rounded-lg p-4">
-              <p className="text-base leading-relaxed whitespace-pre-wrap">
-                {translatedText}
-              </p>
-            </div>
+        ) : isTranslating ? (
+          <div className="bg-muted/20 h-full overflow-auto rounded-lg p-4">
+            <p
+              className="text-base leading-relaxed whitespace-pre-wrap"
+              dir={getLanguageDirection(manualTargetLanguage)}
+            >
+              {translatedText}
+              <IconLoader2 className="text-muted-foreground ml-1 inline h-4 w-4 animate-spin" />
+            </p>
+          </div>
+        ) : translatedText || machineTranslation ? (
+          <div className="bg-muted/20 h-full rounded-lg">
+            <AlignedTextarea
+              pane="target"
+              value={translatedText}
+              onChange={editTranslation}
+              dir={getLanguageDirection(manualTargetLanguage)}
+              className="p-4 leading-relaxed"
+            />
           </div>
         ) : (
           <div className="text-muted-foreground flex h-full items-center justify-center">
@@ -52,17 +191,239 @@ export function TranslationOutput(): JSX.Element {
         )}
       </div>
 
+      {/* Segment Progress */}
+      {isTranslating && translationProgress && (
+        <div className="space-y-1 border-t px-5 py-2">
+          <p className="text-muted-foreground text-xs">
+            Translating segment{" "}
+            {Math.min(
+              translationProgress.completedSegments + 1,
+              translationProgress.totalSegments,
+            )}{" "}
+            of {translationProgress.totalSegments}
+          </p>
+          <div className="bg-muted h-1 overflow-hidden rounded-full">
+            <div
+              className="bg-primary h-full transition-all"
+              style={{
+                width: `${(translationProgress.completedSegments / translationProgress.totalSegments) * 100}%`,
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Translation Memory Suggestions */}
+      {!isTranslating && fuzzyMatches.length > 0 && (
+        <div className="space-y-1 border-t px-5 py-2">
+          <p className="text-muted-foreground text-xs">Translation memory</p>
+          <ul className="space-y-1">
+            {fuzzyMatches.map((match) => (
+              <li key={match.entryId}>
+                <button
+                  type="button"
+                  onClick={() => applyTranslationMemoryMatch(match)}
+                  className="hover:bg-muted flex w-full items-start gap-2 rounded-md px-2 py-1 text-left text-sm"
+                  title={`Use the approved translation of: ${match.sourceText}`}
+                >
+                  <Badge variant="secondary" className="shrink-0 text-xs">
+                    {match.matchPercent}%
+                  </Badge>
+                  <span
+                    className="whitespace-pre-wrap"
+                    dir={getLanguageDirection(manualTargetLanguage)}
+                  >
+                    {match.targetText}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Alternatives */}
+      {!isTranslating && alternatives.length > 0 && (
+        <div className="space-y-1 border-t px-5 py-2">
+          <p className="text-muted-foreground text-xs">Alternatives</p>
+          <ul className="space-y-1">
+            {alternatives.map((alternative, index) => (
+              <li key={index}>
+                <button
+                  type="button"
+                  onClick={() => handleSelectAlternative(index)}
+                  className="hover:bg-muted w-full rounded-md px-2 py-1 text-left text-sm whitespace-pre-wrap"
+                  dir={getLanguageDirection(manualTargetLanguage)}
+                  title="Use this translation and copy it"
+                >
+                  {alternative}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Round-trip Check */}
+      {!isTranslating && backTranslation && (
+        <div
+          className={
+            backTranslation.score < BACK_TRANSLATION_WARNING_THRESHOLD
+              ? "space-y-1 border-t bg-amber-500/10 px-5 py-2 text-sm text-amber-700 dark:text-amber-400"
+              : "space-y-1 border-t px-5 py-2 text-sm"
+          }
+        >
+          <p className="flex items-center gap-2 text-xs">
+            {backTranslation.score < BACK_TRANSLATION_WARNING_THRESHOLD && (
+              <IconAlertTriangle className="h-4 w-4 shrink-0" />
+            )}
+            Back-translation · similarity{" "}
+            {Math.round(backTranslation.score * 100)}%
+            {backTranslation.score < BACK_TRANSLATION_WARNING_THRESHOLD &&
+              " — the meaning may have changed"}
+          </p>
+          <p
+            className="text-muted-foreground whitespace-pre-wrap"
+            dir={
+              manualSourceLanguage === AUTO_DETECT_LANGUAGE
+                ? "auto"
+                : getLanguageDirection(manualSourceLanguage)
+            }
+          >
+            {backTranslation.text}
+          </p>
+        </div>
+      )}
+
+      {/* Glossary Check */}
+      {!isTranslating && missingGlossaryTerms.length > 0 && (
+        <div className="flex items-start gap-2 border-t bg-amber-500/10 px-5 py-2 text-sm text-amber-700 dark:text-amber-400">
+          <IconAlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+          <p>
+            Missing glossary terms:{" "}
+            {missingGlossaryTerms
+              .map((term) => `${term.sourceTerm} → ${term.expectedTerm}`)
+              .join(", ")}
+          </p>
+        </div>
+      )}
+
+      {!isTranslating && missingProtectedSpans.length > 0 && (
+        <div className="flex items-start gap-2 border-t bg-amber-500/10 px-5 py-2 text-sm text-amber-700 dark:text-amber-400">
+          <IconAlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+          <p>
+            Protected text missing from the translation:{" "}
+            {missingProtectedSpans
+              .map((span) =>
+                span.length > 40 ? `${span.slice(0, 40)}…` : span,
+              )
+              .join(", ")}
+          </p>
+        </div>
+      )}
+
       {/* Status Bar */}
       <div className="text-muted-foreground flex items-center justify-between border-t px-5 py-4 text-sm">
-        <div>
+        <div className="flex items-center gap-4">
           {translatedText && <span>Characters: {translatedText.length}</span>}
+          {isEdited && (
+            <div className="flex items-center gap-1">
+              <Badge
+                variant="outline"
+                title="You changed the machine translation"
+              >
+                Edited
+              </Badge>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={resetTranslation}
+                title="Discard your changes and show the machine translation"
+              >
+                <IconArrowBackUp />
+                Reset
+              </Button>
+            </div>
+          )}
+          {!isTranslating && exactMatch && (
+            <Badge
+              variant="secondary"
+              title="Reused from the translation memory"
+            >
+              Memory · 100% match
+            </Badge>
+          )}
+          {!isTranslating && translationMetrics && (
+            <span title="Generated tokens, generation speed and model load time">
+              {formatMetrics(translationMetrics)}
+            </span>
+          )}
         </div>
-        <div>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="align-sentences"
+              checked={alignSentences}
+              onCheckedChange={(checked) => setAlignSentences(checked === true)}
+            />
+            <Label
+              htmlFor="align-sentences"
+              title="Translate sentence by sentence and highlight matching sentences in both panes"
+            >
+              Align sentences
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="back-translate"
+              checked={backTranslate}
+              onCheckedChange={(checked) => setBackTranslate(checked === true)}
+            />
+            <Label
+              htmlFor="back-translate"
+              title="Translate the result back to check its meaning"
+            >
+              Round-trip check
+            </Label>
+          </div>
+          <Select
+            value={String(candidateCount)}
+            onValueChange={(value) =>
+              setCandidateCount(Number.parseInt(value, 10))
+            }
+          >
+            <SelectTrigger
+              className="h-8 w-auto"
+              title="Number of candidate translations"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from(
+                { length: MAX_TRANSLATION_CANDIDATES },
+                (_, i) => i + 1,
+              ).map((count) => (
+                <SelectItem key={count} value={String(count)}>
+                  {count === 1 ? "1 candidate" : `${count} candidates`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleSaveToMemory}
+            disabled={!canSaveToMemory}
+            title="Save this translation to the translation memory"
+          >
+            <IconDatabasePlus />
+            Save
+          </Button>
           <Button
             variant="outline"
             size="sm"
             onClick={handleCopy}
-            disabled={!translatedText}
+            disabled={!translatedText || isTranslating}
           >
             {isCopied ? (
               <>
@@ -0,0 +1,115 @@
+import { Loader2, X } from "lucide-react";
+import type { JSX } from "react";
+import { useEffect, useRef } from "react";
+import { useWordLookupStore } from "../../stores/word-lookup-store";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+
+const POPOVER_WIDTH = 320;
+/** Keep the card this far from the viewport edges */
+const VIEWPORT_MARGIN = 8;
+
+/**
+ * Dictionary entry for the text selected in either pane, shown next to
+ * the pointer. Escape or a click elsewhere closes it.
+ */
+export function WordLookupPopover(): JSX.Element | null {
+  const { selection, lookup, isLoading, error, close } = useWordLookupStore();
+  const cardRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!selection) return;
+
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === "Escape") close();
+    };
+    const handlePointerDown = (e: PointerEvent): void => {
+      if (!cardRef.current?.contains(e.target as Node)) close();
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    document.addEventListener("pointerdown", handlePointerDown);
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown);
+      document.removeEventListener("pointerdown", handlePointerDown);
+    };
+  }, [selection, close]);
+
+  if (!selection) return null;
+
+  const left = Math.max(
+    VIEWPORT_MARGIN,
+    Math.min(
+      selection.x - POPOVER_WIDTH / 2,
+      window.innerWidth - POPOVER_WIDTH - VIEWPORT_MARGIN,
+    ),
+  );
+
+  return (
+    <div
+      ref={cardRef}
+      role="dialog"
+      aria-label={`Lookup of ${selection.text}`}
+      style={{ left, top: selection.y + 12, width: POPOVER_WIDTH }}
+      className="bg-popover text-popover-foreground fixed z-50 max-h-[60vh] space-y-3 overflow-y-auto rounded-md border p-4 text-sm shadow-md"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-base font-medium break-words" dir="auto">
+            {lookup?.headword ?? selection.text}
+          </p>
+          {lookup?.reading && (
+            <p className="text-muted-foreground" dir="auto">
+              {lookup.reading}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          {lookup?.partOfSpeech && (
+            <Badge variant="secondary">{lookup.partOfSpeech}</Badge>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={close}
+            title="Close"
+            className="h-6 w-6 p-0"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+
+      {isLoading && (
+        <div className="text-muted-foreground flex items-center gap-2">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Looking up…
+        </div>
+      )}
+
+      {error && <p className="text-destructive">{error}</p>}
+
+      {lookup && (
+        <>
+          <ol className="list-inside list-decimal space-y-0.5" dir="auto">
+            {lookup.translations.map((translation) => (
+              <li key={translation}>{translation}</li>
+            ))}
+          </ol>
+          {lookup.examples.length > 0 && (
+            <div className="space-y-2 border-t pt-3">
+              {lookup.examples.map((example) => (
+                <div key={example.sentence}>
+                  <p dir="auto">{example.sentence}</p>
+                  <p className="text-muted-foreground" dir="auto">
+                    {example.translation}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import type { TranslationPane } from "../stores/translation-store";
+
+/** Scroll containers of the source and translation panes */
+const panes: Partial<Record<TranslationPane, HTMLElement>> = {};
+
+/** Pane scrolled by this module, whose next scroll event is an echo */
+let echoPane: TranslationPane | null = null;
+
+function otherPane(pane: TranslationPane): TranslationPane {
+  return pane === "source" ? "target" : "source";
+}
+
+export function registerScrollPane(
+  pane: TranslationPane,
+  element: HTMLElement | null,
+): void {
+  if (element) panes[pane] = element;
+  else delete panes[pane];
+}
+
+function scrollPaneTo(pane: TranslationPane, top: number): void {
+  const element = panes[pane];
+  if (!element || Math.abs(element.scrollTop - top) < 1) return;
+
+  echoPane = pane;
+  element.scrollTop = top;
+}
+
+/**
+ * Keep the other pane at the same relative scroll position.
+ * Call from the scroll handler of either pane.
+ */
+export function syncScroll(pane: TranslationPane): void {
+  if (echoPane === pane) {
+    echoPane = null;
+    return;
+  }
+
+  const from = panes[pane];
+  const to = panes[otherPane(pane)];
+  if (!from || !to) return;
+
+  const range = from.scrollHeight - from.clientHeight;
+  const ratio = range > 0 ? from.scrollTop / range : 0;
+  scrollPaneTo(
+    otherPane(pane),
+    Math.round(ratio * (to.scrollHeight - to.clientHeight)),
+  );
+}
+
+/**
+ * Scroll a pane just enough to show the content between `top` and
+ * `bottom`, measured from the top of its scrolled content
+ */
+export function revealInPane(
+  pane: TranslationPane,
+  top: number,
+  bottom: number,
+): void {
+  const element = panes[pane];
+  if (!element) return;
+
+  if (top < element.scrollTop) {
+    scrollPaneTo(pane, top);
+  } else if (bottom > element.scrollTop + element.clientHeight) {
+    scrollPaneTo(pane, bottom - element.clientHeight);
+  }
+}
+
+/** Offset of an AlignedText sentence from the top of its scrolled container */
+export function findSentenceBounds(
+  container: HTMLElement,
+  index: number,
+): { top: number; bottom: number } | null {
+  const span = container.querySelector<HTMLElement>(
+    `[data-sentence="${index}"]`,
+  );
+  if (!span) return null;
+
+  const containerTop = container.getBoundingClientRect().top;
+  const rect = span.getBoundingClientRect();
+  const top = rect.top - containerTop + container.scrollTop;
+  return { top, bottom: top + rect.height };
+}
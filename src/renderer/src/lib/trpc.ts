@@ -1,4 +1,8 @@
-import type { IPCOperation } from "@main/trpc-ipc-adapter";
+import type {
+  IPCOperation,
+  IPCSubscriptionMessage,
+  IPCSubscriptionOperation,
+} from "@main/trpc-ipc-adapter";
 import type { AppRouter } from "@main/trpc/router";
 import { createTRPCClient, type Operation } from "@trpc/client";
 import { observable } from "@trpc/server/observable";
@@ -13,6 +17,7 @@ const generateRequestId = (): string => {
 /**
  * Custom IPC link that calls main-process router via ipcRenderer.
  * Handles error formatting and optional tracing in development.
+ * Subscriptions are carried over one-way IPC messages and stopped on unsubscribe.
  */
 const ipcLink =
   () =>
@@ -32,6 +37,45 @@ const ipcLink =
         console.log(`[tRPC:${requestId}] Renderer calling ${op.path}`);
       }
 
+      if (op.type === "subscription") {
+        const id = requestId ?? generateRequestId();
+
+        // `electron` API is exposed by preload.
+        const removeListener = window.electron.ipcRenderer.on(
+          "trpc:subscription",
+          (_event, message: IPCSubscriptionMessage) => {
+            if (message.id !== id) return;
+
+            switch (message.type) {
+              case "data":
+                observer.next({ result: { type: "data", data: message.data } });
+                break;
+              case "error":
+                console.error(
+                  `[tRPC:${id}] Subscription error (${message.error.code}): ${message.error.message}`,
+                );
+                observer.error(message.error);
+                break;
+              case "complete":
+                observer.complete();
+                break;
+            }
+          },
+        );
+
+        const subscriptionOp: IPCSubscriptionOperation = { ...enhancedOp, id };
+        window.electron.ipcRenderer.send(
+          "trpc:subscription:start",
+          subscriptionOp,
+        );
+
+        // Stop the subscription in the main process on unsubscribe
+        return () => {
+          removeListener();
+          window.electron.ipcRenderer.send("trpc:subscription:stop", { id });
+        };
+      }
+
       // `electron` API is exposed by preload.
       window.electron.ipcRenderer
         .invoke("trpc", enhancedOp)
@@ -1,19 +1,64 @@
-import { ArrowLeftRight } from "lucide-react";
+import {
+  ArrowLeftRight,
+  BookOpen,
+  Columns3,
+  Database,
+  FileJson,
+  History,
+  Languages,
+  Library,
+  MessageSquare,
+  PenLine,
+  Subtitles,
+} from "lucide-react";
 import type { JSX } from "react";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { ModeToggle } from "../components/mode-toggle";
 import { ConnectionStatus } from "../components/translation/connection-status";
+import { DocumentActions } from "../components/translation/document-actions";
+import { GlossaryDialog } from "../components/translation/glossary-dialog";
+import { HistoryPanel } from "../components/translation/history-panel";
+import { I18nResourceDialog } from "../components/translation/i18n-resource-dialog";
 import { LanguageSelector } from "../components/translation/language-selector";
+import { LocalizationFileDialog } from "../components/translation/localization-file-dialog";
+import { ModelComparisonDialog } from "../components/translation/model-comparison-dialog";
 import { ModelSelector } from "../components/translation/model-selector";
+import { PostEditDialog } from "../components/translation/post-edit-dialog";
+import { StyleSelector } from "../components/translation/style-selector";
+import { SubtitleDialog } from "../components/translation/subtitle-dialog";
+import { TranslationCacheDialog } from "../components/translation/translation-cache-dialog";
+import { TranslationChatPanel } from "../components/translation/translation-chat-panel";
 import { TranslationInput } from "../components/translation/translation-input";
+import { TranslationMemoryDialog } from "../components/translation/translation-memory-dialog";
 import { TranslationOutput } from "../components/translation/translation-output";
+import { WordLookupPopover } from "../components/translation/word-lookup-popover";
 import { Button } from "../components/ui/button";
 import { Separator } from "../components/ui/separator";
 import { useTranslationStore } from "../stores/translation-store";
 
 export function TranslationPage(): JSX.Element {
-  const { initialize, connectionStatus, translationError, swapLanguages } =
-    useTranslationStore();
+  const {
+    initialize,
+    connectionStatus,
+    translationError,
+    swapLanguages,
+    manualSourceLanguage,
+    detectedLanguage,
+  } = useTranslationStore();
+
+  const [showGlossaryDialog, setShowGlossaryDialog] = useState(false);
+  const [showMemoryDialog, setShowMemoryDialog] = useState(false);
+  const [showPostEditDialog, setShowPostEditDialog] = useState(false);
+  const [showCacheDialog, setShowCacheDialog] = useState(false);
+  const [showComparisonDialog, setShowComparisonDialog] = useState(false);
+  const [showResourceDialog, setShowResourceDialog] = useState(false);
+  const [showSubtitleDialog, setShowSubtitleDialog] = useState(false);
+  const [showLocalizationDialog, setShowLocalizationDialog] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showChat, setShowChat] = useState(false);
+
+  // Swapping needs a concrete source language
+  const canSwap = manualSourceLanguage !== "auto" || detectedLanguage !== null;
 
   useEffect(() => {
     // Initialize the store when component mounts
@@ -30,59 +75,183 @@ export function TranslationPage(): JSX.Element {
             <ConnectionStatus status={connectionStatus} />
           </div>
           <div className="flex items-center space-x-4">
+            <DocumentActions />
+            <Button
+              variant="outline"
+              onClick={() => setShowGlossaryDialog(true)}
+              title="Glossary"
+            >
+              <BookOpen className="h-4 w-4" />
+              Glossary
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setShowMemoryDialog(true)}
+              title="Translation memory"
+            >
+              <Library className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setShowPostEditDialog(true)}
+              title="Post-edits"
+            >
+              <PenLine className="h-4 w-4" />
+            </Button>
+            <Button
+              variant={showHistory ? "secondary" : "outline"}
+              onClick={() => setShowHistory((show) => !show)}
+              title="History"
+            >
+              <History className="h-4 w-4" />
+              History
+            </Button>
+            <Button
+              variant={showChat ? "secondary" : "outline"}
+              onClick={() => setShowChat((show) => !show)}
+              title="Ask about the translation"
+            >
+              <MessageSquare className="h-4 w-4" />
+              Ask
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setShowComparisonDialog(true)}
+              title="Compare models"
+            >
+              <Columns3 className="h-4 w-4" />
+              Compare
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setShowResourceDialog(true)}
+              title="Translate resource file"
+            >
+              <FileJson className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setShowSubtitleDialog(true)}
+              title="Translate subtitles"
+            >
+              <Subtitles className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setShowLocalizationDialog(true)}
+              title="Pre-translate XLIFF / PO file"
+            >
+              <Languages className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setShowCacheDialog(true)}
+              title="Translation cache"
+            >
+              <Database className="h-4 w-4" />
+            </Button>
             <ModelSelector />
             <ModeToggle />
           </div>
         </div>
       </header>
 
-      {/* Main Content */}
-      <main className="flex min-h-0 flex-1 flex-col">
-        {/* Error Display */}
-        {translationError && (
-          <div className="bg-destructive/10 border-destructive/20 border-b px-6 py-3">
-            <p className="text-destructive text-sm">{translationError}</p>
-          </div>
-        )}
+      <div className="flex min-h-0 flex-1">
+        {/* Main Content */}
+        <main className="flex min-h-0 min-w-0 flex-1 flex-col">
+          {/* Error Display */}
+          {translationError && (
+            <div className="bg-destructive/10 border-destructive/20 border-b px-6 py-3">
+              <p className="text-destructive text-sm">{translationError}</p>
+            </div>
+          )}
 
-        {/* Translation Interface */}
-        <div className="relative flex min-h-0 flex-1">
-          {/* Input Section */}
-          <div className="flex min-w-0 flex-1 flex-col">
-            {/* Source Language Header */}
-            <div className="border-b px-2 py-2">
-              <LanguageSelector type="source" />
+          {/* Translation Interface */}
+          <div className="relative flex min-h-0 flex-1">
+            {/* Input Section */}
+            <div className="flex min-w-0 flex-1 flex-col">
+              {/* Source Language Header */}
+              <div className="border-b px-2 py-2">
+                <LanguageSelector type="source" />
+              </div>
+              <TranslationInput />
             </div>
-            <TranslationInput />
-          </div>
 
-          {/* Separator with Swap Button */}
-          <div className="relative flex-shrink-0">
-            <Separator orientation="vertical" className="h-full" />
-            {/* Centered Swap Button */}
-            <div className="absolute top-2 left-1/2 -translate-x-1/2">
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={swapLanguages}
-                className="hover:bg-muted bg-background h-8 w-8 rounded-full border p-0"
-                title="Swap languages"
-              >
-                <ArrowLeftRight className="h-4 w-4" />
-              </Button>
+            {/* Separator with Swap Button */}
+            <div className="relative flex-shrink-0">
+              <Separator orientation="vertical" className="h-full" />
+              {/* Centered Swap Button */}
+              <div className="absolute top-2 left-1/2 -translate-x-1/2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={swapLanguages}
+                  disabled={!canSwap}
+                  className="hover:bg-muted bg-background h-8 w-8 rounded-full border p-0"
+                  title="Swap languages"
+                >
+                  <ArrowLeftRight className="h-4 w-4" />
+                </Button>
+              </div>
             </div>
-          </div>
 
-          {/* Output Section */}
-          <div className="flex min-w-0 flex-1 flex-col">
-            {/* Target Language Header */}
-            <div className="border-b px-2 py-2">
-              <LanguageSelector type="target" />
+            {/* Output Section */}
+            <div className="flex min-w-0 flex-1 flex-col">
+              {/* Target Language Header */}
+              <div className="flex items-center justify-between border-b px-2 py-2">
+                <LanguageSelector type="target" />
+                <StyleSelector />
+              </div>
+              <TranslationOutput />
             </div>
-            <TranslationOutput />
           </div>
-        </div>
-      </main>
+        </main>
+
+        {showChat && (
+          <TranslationChatPanel onClose={() => setShowChat(false)} />
+        )}
+        {showHistory && <HistoryPanel onClose={() => setShowHistory(false)} />}
+      </div>
+
+      <GlossaryDialog
+        open={showGlossaryDialog}
+        onOpenChange={setShowGlossaryDialog}
+      />
+      <TranslationMemoryDialog
+        open={showMemoryDialog}
+        onOpenChange={setShowMemoryDialog}
+      />
+      <PostEditDialog
+        open={showPostEditDialog}
+        onOpenChange={setShowPostEditDialog}
+      />
+      <TranslationCacheDialog
+        open={showCacheDialog}
+        onOpenChange={setShowCacheDialog}
+      />
+      <ModelComparisonDialog
+        open={showComparisonDialog}
+        onOpenChange={setShowComparisonDialog}
+      />
+      <I18nResourceDialog
+        open={showResourceDialog}
+        onOpenChange={setShowResourceDialog}
+      />
+      <SubtitleDialog
+        open={showSubtitleDialog}
+        onOpenChange={setShowSubtitleDialog}
+      />
+      <LocalizationFileDialog
+        open={showLocalizationDialog}
+        onOpenChange={setShowLocalizationDialog}
+      />
+      <WordLookupPopover />
     </div>
   );
 }
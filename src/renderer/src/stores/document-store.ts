@@ -0,0 +1,58 @@
+import type { OpenedDocument, SavedDocument } from "#shared/domain/document";
+import { getTranslatedFileName } from "#shared/domain/document";
+import { create } from "zustand";
+import { trpc } from "../lib/trpc";
+import { useTranslationStore } from "./translation-store";
+
+interface DocumentState {
+  /** File whose text is in the input, if it was opened from disk */
+  currentDocument: OpenedDocument | null;
+
+  // Actions
+  /** Resolves to null when the user cancels the dialog */
+  openDocument: () => Promise<OpenedDocument | null>;
+  /** Resolves to null when the user cancels the dialog */
+  saveDocument: () => Promise<SavedDocument | null>;
+  newDocument: () => void;
+}
+
+export const useDocumentStore = create<DocumentState>()((set, get) => ({
+  currentDocument: null,
+
+  openDocument: async () => {
+    const document = await trpc.documents.open.mutate();
+    if (!document) return null;
+
+    const translation = useTranslationStore.getState();
+    translation.cancelTranslation();
+    translation.clearTranslation();
+    translation.setInputText(document.text);
+    set({ currentDocument: document });
+    return document;
+  },
+
+  saveDocument: async () => {
+    const { translatedText, targetLanguage, manualTargetLanguage } =
+      useTranslationStore.getState();
+    const { currentDocument } = get();
+
+    const saved = await trpc.documents.save.mutate({
+      text: translatedText,
+      frontMatter: currentDocument?.frontMatter,
+      defaultFileName: getTranslatedFileName(
+        currentDocument?.fileName,
+        targetLanguage ?? manualTargetLanguage,
+      ),
+    });
+    // A corrected translation that was saved is worth capturing
+    if (saved) await useTranslationStore.getState().recordPostEdit();
+    return saved;
+  },
+
+  newDocument: () => {
+    const translation = useTranslationStore.getState();
+    translation.cancelTranslation();
+    translation.clearTranslation();
+    set({ currentDocument: null });
+  },
+}));
@@ -0,0 +1,88 @@
+import type {
+  GlossaryEntry,
+  GlossaryEntryInput,
+  GlossaryFormat,
+  GlossaryImportMode,
+  GlossaryImportResult,
+  GlossaryLanguagePair,
+} from "#shared/domain/glossary";
+import { create } from "zustand";
+import { handleTRPCError, trpc } from "../lib/trpc";
+
+interface GlossaryState {
+  entries: GlossaryEntry[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadEntries: (pair: GlossaryLanguagePair) => Promise<void>;
+  createEntry: (input: GlossaryEntryInput) => Promise<void>;
+  deleteEntry: (id: string) => Promise<void>;
+  importGlossary: (
+    format: GlossaryFormat,
+    content: string,
+    pair: GlossaryLanguagePair,
+    mode?: GlossaryImportMode,
+  ) => Promise<GlossaryImportResult>;
+  exportGlossary: (
+    format: GlossaryFormat,
+    pair?: GlossaryLanguagePair,
+  ) => Promise<string>;
+}
+
+/** Language pair the entry list was last loaded for */
+let loadedPair: GlossaryLanguagePair | null = null;
+
+export const useGlossaryStore = create<GlossaryState>()((set, get) => ({
+  entries: [],
+  isLoading: false,
+  error: null,
+
+  loadEntries: async (pair: GlossaryLanguagePair) => {
+    loadedPair = pair;
+    set({ isLoading: true, error: null });
+    try {
+      const entries = await trpc.glossary.list.query(pair);
+      set({ entries, isLoading: false });
+    } catch (error) {
+      set({
+        error: handleTRPCError(error, "Failed to load glossary"),
+        isLoading: false,
+      });
+    }
+  },
+
+  createEntry: async (input: GlossaryEntryInput) => {
+    const entry = await trpc.glossary.create.mutate(input);
+    set((state) => ({
+      entries: [...state.entries, entry].sort((a, b) =>
+        a.sourceTerm.localeCompare(b.sourceTerm),
+      ),
+    }));
+  },
+
+  deleteEntry: async (id: string) => {
+    await trpc.glossary.delete.mutate({ id });
+    set((state) => ({
+      entries: state.entries.filter((entry) => entry.id !== id),
+    }));
+  },
+
+  importGlossary: async (format, content, pair, mode = "merge") => {
+    const result = await trpc.glossary.import.mutate({
+      format,
+      content,
+      pair,
+      mode,
+    });
+
+    if (loadedPair) {
+      await get().loadEntries(loadedPair);
+    }
+    return result;
+  },
+
+  exportGlossary: async (format, pair) => {
+    return trpc.glossary.export.query({ format, pair });
+  },
+}));
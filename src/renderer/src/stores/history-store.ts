@@ -0,0 +1,82 @@
+import type {
+  HistoryEntry,
+  HistoryQuery,
+  HistorySettings,
+  HistorySettingsUpdate,
+} from "#shared/domain/translation-history";
+import { create } from "zustand";
+import { handleTRPCError, trpc } from "../lib/trpc";
+
+interface HistoryState {
+  settings: HistorySettings | null;
+  entries: HistoryEntry[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadSettings: () => Promise<void>;
+  updateSettings: (changes: HistorySettingsUpdate) => Promise<void>;
+  search: (query: HistoryQuery) => Promise<void>;
+  deleteEntry: (id: string) => Promise<void>;
+  purge: () => Promise<void>;
+}
+
+export const useHistoryStore = create<HistoryState>()((set) => ({
+  settings: null,
+  entries: [],
+  isLoading: false,
+  error: null,
+
+  loadSettings: async () => {
+    try {
+      const settings = await trpc.history.getSettings.query();
+      set({ settings, error: null });
+    } catch (error) {
+      set({ error: handleTRPCError(error, "Failed to load history settings") });
+    }
+  },
+
+  updateSettings: async (changes: HistorySettingsUpdate) => {
+    try {
+      const settings = await trpc.history.updateSettings.mutate(changes);
+      set({ settings, error: null });
+    } catch (error) {
+      set({
+        error: handleTRPCError(error, "Failed to update history settings"),
+      });
+    }
+  },
+
+  search: async (query: HistoryQuery) => {
+    set({ isLoading: true });
+    try {
+      const entries = await trpc.history.search.query(query);
+      set({ entries, isLoading: false, error: null });
+    } catch (error) {
+      set({
+        error: handleTRPCError(error, "Failed to search history"),
+        isLoading: false,
+      });
+    }
+  },
+
+  deleteEntry: async (id: string) => {
+    try {
+      await trpc.history.delete.mutate({ id });
+      set((state) => ({
+        entries: state.entries.filter((entry) => entry.id !== id),
+      }));
+    } catch (error) {
+      set({ error: handleTRPCError(error, "Failed to delete history entry") });
+    }
+  },
+
+  purge: async () => {
+    try {
+      await trpc.history.purge.mutate();
+      set({ entries: [], error: null });
+    } catch (error) {
+      set({ error: handleTRPCError(error, "Failed to purge history") });
+    }
+  },
+}));
@@ -0,0 +1,86 @@
+import type {
+  I18nResourceTranslationRequest,
+  I18nResourceTranslationResult,
+} from "#shared/domain/i18n-resource";
+import { create } from "zustand";
+import { handleTRPCError, trpc } from "../lib/trpc";
+
+/** Subscription of the running file translation; unsubscribing cancels it */
+let activeSubscription: { unsubscribe: () => void } | null = null;
+
+interface I18nResourceState {
+  result: I18nResourceTranslationResult | null;
+  progress: { completedKeys: number; totalKeys: number } | null;
+  isTranslating: boolean;
+  error: string | null;
+
+  // Actions
+  translate: (request: I18nResourceTranslationRequest) => Promise<void>;
+  cancel: () => void;
+  reset: () => void;
+}
+
+export const useI18nResourceStore = create<I18nResourceState>()((set) => ({
+  result: null,
+  progress: null,
+  isTranslating: false,
+  error: null,
+
+  translate: async (request: I18nResourceTranslationRequest) => {
+    activeSubscription?.unsubscribe();
+    set({ isTranslating: true, result: null, progress: null, error: null });
+
+    let current: { unsubscribe: () => void } | null = null;
+
+    await new Promise<void>((resolve) => {
+      const subscription = trpc.i18nResources.translate.subscribe(request, {
+        onData: (event) => {
+          if (event.type === "progress") {
+            set({
+              progress: {
+                completedKeys: event.completedKeys,
+                totalKeys: event.totalKeys,
+              },
+            });
+          } else {
+            set({ result: event.result });
+          }
+        },
+        onError: (error) => {
+          set({
+            error: handleTRPCError(error, "Resource file translation failed"),
+            isTranslating: false,
+          });
+          resolve();
+        },
+        onComplete: () => {
+          set({ isTranslating: false });
+          resolve();
+        },
+        onStopped: () => {
+          set({ isTranslating: false });
+          resolve();
+        },
+      });
+
+      current = {
+        unsubscribe: () => {
+          subscription.unsubscribe();
+          set({ isTranslating: false });
+          resolve();
+        },
+      };
+      activeSubscription = current;
+    });
+
+    if (activeSubscription === current) {
+      activeSubscription = null;
+    }
+  },
+
+  cancel: () => {
+    activeSubscription?.unsubscribe();
+  },
+
+  reset: () => set({ result: null, progress: null, error: null }),
+}));
@@ -0,0 +1,94 @@
+import type {
+  LocalizationFileTranslationRequest,
+  LocalizationFileTranslationResult,
+} from "#shared/domain/localization-file";
+import { create } from "zustand";
+import { handleTRPCError, trpc } from "../lib/trpc";
+
+/** Subscription of the running file translation; unsubscribing cancels it */
+let activeSubscription: { unsubscribe: () => void } | null = null;
+
+interface LocalizationFileState {
+  result: LocalizationFileTranslationResult | null;
+  progress: { completedUnits: number; totalUnits: number } | null;
+  isTranslating: boolean;
+  error: string | null;
+
+  // Actions
+  translate: (request: LocalizationFileTranslationRequest) => Promise<void>;
+  cancel: () => void;
+  reset: () => void;
+}
+
+export const useLocalizationFileStore = create<LocalizationFileState>()(
+  (set) => ({
+    result: null,
+    progress: null,
+    isTranslating: false,
+    error: null,
+
+    translate: async (request: LocalizationFileTranslationRequest) => {
+      activeSubscription?.unsubscribe();
+      set({ isTranslating: true, result: null, progress: null, error: null });
+
+      let current: { unsubscribe: () => void } | null = null;
+
+      await new Promise<void>((resolve) => {
+        const subscription = trpc.localizationFiles.translate.subscribe(
+          request,
+          {
+            onData: (event) => {
+              if (event.type === "progress") {
+                set({
+                  progress: {
+                    completedUnits: event.completedUnits,
+                    totalUnits: event.totalUnits,
+                  },
+                });
+              } else {
+                set({ result: event.result });
+              }
+            },
+            onError: (error) => {
+              set({
+                error: handleTRPCError(
+                  error,
+                  "Localization file translation failed",
+                ),
+                isTranslating: false,
+              });
+              resolve();
+            },
+            onComplete: () => {
+              set({ isTranslating: false });
+              resolve();
+            },
+            onStopped: () => {
+              set({ isTranslating: false });
+              resolve();
+            },
+          },
+        );
+
+        current = {
+          unsubscribe: () => {
+            subscription.unsubscribe();
+            set({ isTranslating: false });
+            resolve();
+          },
+        };
+        activeSubscription = current;
+      });
+
+      if (activeSubscription === current) {
+        activeSubscription = null;
+      }
+    },
+
+    cancel: () => {
+      activeSubscription?.unsubscribe();
+    },
+
+    reset: () => set({ result: null, progress: null, error: null }),
+  }),
+);
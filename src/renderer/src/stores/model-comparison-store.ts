@@ -0,0 +1,60 @@
+import type {
+  ModelComparison,
+  ModelComparisonRequest,
+} from "#shared/domain/translation";
+import { create } from "zustand";
+import { handleTRPCError, trpc } from "../lib/trpc";
+
+/** Job of the running comparison, so cancelling leaves other translations alone */
+let activeJobId: string | null = null;
+
+interface ModelComparisonState {
+  comparison: ModelComparison | null;
+  isComparing: boolean;
+  error: string | null;
+
+  // Actions
+  compare: (request: ModelComparisonRequest) => Promise<void>;
+  cancel: () => Promise<void>;
+  reset: () => void;
+}
+
+export const useModelComparisonStore = create<ModelComparisonState>()(
+  (set) => ({
+    comparison: null,
+    isComparing: false,
+    error: null,
+
+    compare: async (request: ModelComparisonRequest) => {
+      const jobId = crypto.randomUUID();
+      activeJobId = jobId;
+      set({ isComparing: true, comparison: null, error: null });
+      try {
+        const comparison = await trpc.translation.compareModels.mutate({
+          ...request,
+          jobId,
+        });
+        set({ comparison, isComparing: false });
+      } catch (error) {
+        set({
+          error: handleTRPCError(error, "Model comparison failed"),
+          isComparing: false,
+        });
+      } finally {
+        if (activeJobId === jobId) activeJobId = null;
+      }
+    },
+
+    cancel: async () => {
+      if (!activeJobId) return;
+
+      try {
+        await trpc.translation.jobs.cancel.mutate({ jobId: activeJobId });
+      } catch (error) {
+        console.error("Failed to cancel model comparison:", error);
+      }
+    },
+
+    reset: () => set({ comparison: null, error: null }),
+  }),
+);
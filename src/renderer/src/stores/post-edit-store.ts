@@ -0,0 +1,88 @@
+import type {
+  PostEdit,
+  PostEditSettings,
+  PostEditSettingsUpdate,
+  PostEditStatistics,
+} from "#shared/domain/post-edit";
+import { create } from "zustand";
+import { handleTRPCError, trpc } from "../lib/trpc";
+
+interface PostEditState {
+  settings: PostEditSettings | null;
+  postEdits: PostEdit[];
+  statistics: PostEditStatistics | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadSettings: () => Promise<void>;
+  updateSettings: (changes: PostEditSettingsUpdate) => Promise<void>;
+  /** Load the stored post-edits and their statistics */
+  loadPostEdits: () => Promise<void>;
+  deleteEntry: (id: string) => Promise<void>;
+  purge: () => Promise<void>;
+}
+
+export const usePostEditStore = create<PostEditState>()((set, get) => ({
+  settings: null,
+  postEdits: [],
+  statistics: null,
+  isLoading: false,
+  error: null,
+
+  loadSettings: async () => {
+    try {
+      const settings = await trpc.postEdits.getSettings.query();
+      set({ settings, error: null });
+    } catch (error) {
+      set({
+        error: handleTRPCError(error, "Failed to load post-edit settings"),
+      });
+    }
+  },
+
+  updateSettings: async (changes: PostEditSettingsUpdate) => {
+    try {
+      const settings = await trpc.postEdits.updateSettings.mutate(changes);
+      set({ settings, error: null });
+    } catch (error) {
+      set({
+        error: handleTRPCError(error, "Failed to update post-edit settings"),
+      });
+    }
+  },
+
+  loadPostEdits: async () => {
+    set({ isLoading: true });
+    try {
+      const [postEdits, statistics] = await Promise.all([
+        trpc.postEdits.list.query(),
+        trpc.postEdits.statistics.query(),
+      ]);
+      set({ postEdits, statistics, isLoading: false, error: null });
+    } catch (error) {
+      set({
+        error: handleTRPCError(error, "Failed to load post-edits"),
+        isLoading: false,
+      });
+    }
+  },
+
+  deleteEntry: async (id: string) => {
+    try {
+      await trpc.postEdits.delete.mutate({ id });
+      await get().loadPostEdits();
+    } catch (error) {
+      set({ error: handleTRPCError(error, "Failed to delete post-edit") });
+    }
+  },
+
+  purge: async () => {
+    try {
+      await trpc.postEdits.purge.mutate();
+      await get().loadPostEdits();
+    } catch (error) {
+      set({ error: handleTRPCError(error, "Failed to purge post-edits") });
+    }
+  },
+}));
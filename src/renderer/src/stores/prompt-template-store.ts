@@ -0,0 +1,111 @@
+import type { OllamaChatMessage } from "#shared/domain/ollama";
+import type {
+  PromptTemplate,
+  PromptTemplateInput,
+  PromptTemplateScope,
+  PromptTemplateSettings,
+} from "#shared/domain/prompt-template";
+import type {
+  Formality,
+  SupportedLanguage,
+  TranslationDomain,
+} from "#shared/domain/translation";
+import { create } from "zustand";
+import { handleTRPCError, trpc } from "../lib/trpc";
+
+interface PromptPreviewRequest {
+  text: string;
+  sourceLanguage: SupportedLanguage;
+  targetLanguage: SupportedLanguage;
+  context?: string;
+  formality?: Formality;
+  domain?: TranslationDomain;
+  draft: Pick<PromptTemplateInput, "systemPrompt" | "userPrompt">;
+}
+
+interface PromptTemplateState {
+  settings: PromptTemplateSettings | null;
+  error: string | null;
+
+  // Actions
+  loadSettings: () => Promise<void>;
+  createTemplate: (input: PromptTemplateInput) => Promise<PromptTemplate>;
+  updateTemplate: (
+    id: string,
+    changes: Partial<PromptTemplateInput>,
+  ) => Promise<PromptTemplate>;
+  deleteTemplate: (id: string) => Promise<void>;
+  resetTemplate: (id: string) => Promise<PromptTemplate>;
+  assignTemplate: (
+    scope: PromptTemplateScope,
+    templateId: string | null,
+  ) => Promise<void>;
+  previewTemplate: (
+    request: PromptPreviewRequest,
+  ) => Promise<OllamaChatMessage[]>;
+}
+
+/** Replace one template in the loaded settings */
+function withTemplate(
+  settings: PromptTemplateSettings | null,
+  template: PromptTemplate,
+): PromptTemplateSettings | null {
+  if (!settings) return settings;
+
+  const exists = settings.templates.some((t) => t.id === template.id);
+  return {
+    ...settings,
+    templates: exists
+      ? settings.templates.map((t) => (t.id === template.id ? template : t))
+      : [...settings.templates, template],
+  };
+}
+
+export const usePromptTemplateStore = create<PromptTemplateState>()((set) => ({
+  settings: null,
+  error: null,
+
+  loadSettings: async () => {
+    try {
+      const settings = await trpc.promptTemplates.getSettings.query();
+      set({ settings, error: null });
+    } catch (error) {
+      set({ error: handleTRPCError(error, "Failed to load prompt templates") });
+    }
+  },
+
+  createTemplate: async (input: PromptTemplateInput) => {
+    const template = await trpc.promptTemplates.create.mutate(input);
+    set((state) => ({ settings: withTemplate(state.settings, template) }));
+    return template;
+  },
+
+  updateTemplate: async (id, changes) => {
+    const template = await trpc.promptTemplates.update.mutate({ id, changes });
+    set((state) => ({ settings: withTemplate(state.settings, template) }));
+    return template;
+  },
+
+  deleteTemplate: async (id: string) => {
+    const settings = await trpc.promptTemplates.delete.mutate({ id });
+    set({ settings });
+  },
+
+  resetTemplate: async (id: string) => {
+    const template = await trpc.promptTemplates.reset.mutate({ id });
+    set((state) => ({ settings: withTemplate(state.settings, template) }));
+    return template;
+  },
+
+  assignTemplate: async (scope, templateId) => {
+    const settings = await trpc.promptTemplates.assign.mutate({
+      scope,
+      templateId,
+    });
+    set({ settings });
+  },
+
+  previewTemplate: async (request: PromptPreviewRequest) => {
+    return trpc.promptTemplates.preview.query(request);
+  },
+}));
@@ -0,0 +1,86 @@
+import type {
+  SubtitleTranslationRequestInput,
+  SubtitleTranslationResult,
+} from "#shared/domain/subtitle";
+import { create } from "zustand";
+import { handleTRPCError, trpc } from "../lib/trpc";
+
+/** Subscription of the running subtitle translation; unsubscribing cancels it */
+let activeSubscription: { unsubscribe: () => void } | null = null;
+
+interface SubtitleState {
+  result: SubtitleTranslationResult | null;
+  progress: { completedCues: number; totalCues: number } | null;
+  isTranslating: boolean;
+  error: string | null;
+
+  // Actions
+  translate: (request: SubtitleTranslationRequestInput) => Promise<void>;
+  cancel: () => void;
+  reset: () => void;
+}
+
+export const useSubtitleStore = create<SubtitleState>()((set) => ({
+  result: null,
+  progress: null,
+  isTranslating: false,
+  error: null,
+
+  translate: async (request: SubtitleTranslationRequestInput) => {
+    activeSubscription?.unsubscribe();
+    set({ isTranslating: true, result: null, progress: null, error: null });
+
+    let current: { unsubscribe: () => void } | null = null;
+
+    await new Promise<void>((resolve) => {
+      const subscription = trpc.subtitles.translate.subscribe(request, {
+        onData: (event) => {
+          if (event.type === "progress") {
+            set({
+              progress: {
+                completedCues: event.completedCues,
+                totalCues: event.totalCues,
+              },
+            });
+          } else {
+            set({ result: event.result });
+          }
+        },
+        onError: (error) => {
+          set({
+            error: handleTRPCError(error, "Subtitle translation failed"),
+            isTranslating: false,
+          });
+          resolve();
+        },
+        onComplete: () => {
+          set({ isTranslating: false });
+          resolve();
+        },
+        onStopped: () => {
+          set({ isTranslating: false });
+          resolve();
+        },
+      });
+
+      current = {
+        unsubscribe: () => {
+          subscription.unsubscribe();
+          set({ isTranslating: false });
+          resolve();
+        },
+      };
+      activeSubscription = current;
+    });
+
+    if (activeSubscription === current) {
+      activeSubscription = null;
+    }
+  },
+
+  cancel: () => {
+    activeSubscription?.unsubscribe();
+  },
+
+  reset: () => set({ result: null, progress: null, error: null }),
+}));
@@ -0,0 +1,57 @@
+import type {
+  TranslationCacheSettingsUpdate,
+  TranslationCacheStats,
+} from "#shared/domain/translation-cache";
+import { create } from "zustand";
+import { handleTRPCError, trpc } from "../lib/trpc";
+
+interface TranslationCacheState {
+  stats: TranslationCacheStats | null;
+  error: string | null;
+
+  // Actions
+  loadStats: () => Promise<void>;
+  updateSettings: (changes: TranslationCacheSettingsUpdate) => Promise<void>;
+  clearCache: () => Promise<void>;
+}
+
+export const useTranslationCacheStore = create<TranslationCacheState>()(
+  (set) => ({
+    stats: null,
+    error: null,
+
+    loadStats: async () => {
+      try {
+        const stats = await trpc.translationCache.stats.query();
+        set({ stats, error: null });
+      } catch (error) {
+        set({
+          error: handleTRPCError(error, "Failed to load translation cache"),
+        });
+      }
+    },
+
+    updateSettings: async (changes: TranslationCacheSettingsUpdate) => {
+      try {
+        const stats =
+          await trpc.translationCache.updateSettings.mutate(changes);
+        set({ stats, error: null });
+      } catch (error) {
+        set({
+          error: handleTRPCError(error, "Failed to update translation cache"),
+        });
+      }
+    },
+
+    clearCache: async () => {
+      try {
+        const stats = await trpc.translationCache.clear.mutate();
+        set({ stats, error: null });
+      } catch (error) {
+        set({
+          error: handleTRPCError(error, "Failed to clear translation cache"),
+        });
+      }
+    },
+  }),
+);
@@ -0,0 +1,147 @@
+import type { TranslationChatTurn } from "#shared/domain/translation-chat";
+import { TRANSLATION_MEMORY_MODEL } from "#shared/domain/translation-memory";
+import { create } from "zustand";
+import { handleTRPCError, trpc } from "../lib/trpc";
+import { useTranslationStore } from "./translation-store";
+
+/** Handle to the reply being streamed, if any */
+let activeChatStream: { unsubscribe: () => void } | null = null;
+
+interface TranslationChatState {
+  /** Questions and answers about the current translation, oldest first */
+  turns: TranslationChatTurn[];
+  /** Reply received so far while the model is answering */
+  pendingReply: string | null;
+  error: string | null;
+
+  // Actions
+  send: (message: string) => Promise<void>;
+  cancel: () => void;
+  /** Forget the conversation, e.g. when a new translation starts */
+  reset: () => void;
+}
+
+export const useTranslationChatStore = create<TranslationChatState>()(
+  (set, get) => ({
+    turns: [],
+    pendingReply: null,
+    error: null,
+
+    send: async (message: string) => {
+      const {
+        inputText,
+        translatedText,
+        sourceLanguage,
+        targetLanguage,
+        translationModel,
+        selectedModel,
+      } = useTranslationStore.getState();
+      // Translations reused from the memory had no model; ask the selected one
+      const modelName =
+        translationModel && translationModel !== TRANSLATION_MEMORY_MODEL
+          ? translationModel
+          : selectedModel;
+      if (
+        !message.trim() ||
+        !inputText.trim() ||
+        !translatedText.trim() ||
+        !sourceLanguage ||
+        !targetLanguage ||
+        !modelName
+      ) {
+        return;
+      }
+
+      get().cancel();
+      const history = get().turns;
+      set({
+        turns: [...history, { role: "user", content: message.trim() }],
+        pendingReply: "",
+        error: null,
+      });
+
+      let stream: { unsubscribe: () => void } | null = null;
+
+      await new Promise<void>((resolve) => {
+        const subscription = trpc.translationChat.chatStream.subscribe(
+          {
+            sourceText: inputText,
+            translatedText,
+            sourceLanguage,
+            targetLanguage,
+            modelName,
+            history,
+            message,
+          },
+          {
+            onData: (event) => {
+              if (event.type === "delta") {
+                set((current) => ({
+                  pendingReply: (current.pendingReply ?? "") + event.delta,
+                }));
+              } else {
+                set((current) => ({
+                  turns: [
+                    ...current.turns,
+                    { role: "assistant", content: event.reply.content },
+                  ],
+                  pendingReply: null,
+                }));
+              }
+            },
+            onError: (error) => {
+              // Drop the unanswered question so the history stays in pairs
+              set({
+                turns: history,
+                pendingReply: null,
+                error: handleTRPCError(error, "Failed to get a reply"),
+              });
+              resolve();
+            },
+            onComplete: () => resolve(),
+            onStopped: () => resolve(),
+          },
+        );
+
+        stream = {
+          unsubscribe: () => {
+            subscription.unsubscribe();
+            // A reply cut short is dropped together with its question
+            set((current) =>
+              current.pendingReply === null
+                ? {}
+                : { turns: history, pendingReply: null },
+            );
+            resolve();
+          },
+        };
+        activeChatStream = stream;
+      });
+
+      if (activeChatStream === stream) {
+        activeChatStream = null;
+      }
+    },
+
+    cancel: () => {
+      if (!activeChatStream) return;
+
+      // Unsubscribing aborts generation in the main process
+      activeChatStream.unsubscribe();
+      activeChatStream = null;
+    },
+
+    reset: () => {
+      get().cancel();
+      set({ turns: [], pendingReply: null, error: null });
+    },
+  }),
+);
+
+// A new translation starts a new conversation
+useTranslationStore.subscribe(
+  (state) => state.machineTranslation === "",
+  (isEmpty) => {
+    if (isEmpty) useTranslationChatStore.getState().reset();
+  },
+);
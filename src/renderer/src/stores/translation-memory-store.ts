@@ -0,0 +1,86 @@
+import type {
+  TranslationMemoryEntry,
+  TranslationMemoryEntryInput,
+  TranslationMemoryImportMode,
+  TranslationMemoryImportResult,
+  TranslationMemoryLanguagePair,
+} from "#shared/domain/translation-memory";
+import { create } from "zustand";
+import { handleTRPCError, trpc } from "../lib/trpc";
+
+interface TranslationMemoryState {
+  entries: TranslationMemoryEntry[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadEntries: (pair: TranslationMemoryLanguagePair) => Promise<void>;
+  addEntry: (input: TranslationMemoryEntryInput) => Promise<void>;
+  deleteEntry: (id: string) => Promise<void>;
+  importTmx: (
+    content: string,
+    pair: TranslationMemoryLanguagePair,
+    mode?: TranslationMemoryImportMode,
+  ) => Promise<TranslationMemoryImportResult>;
+  exportTmx: (pair?: TranslationMemoryLanguagePair) => Promise<string>;
+}
+
+/** Language pair the entry list was last loaded for */
+let loadedPair: TranslationMemoryLanguagePair | null = null;
+
+export const useTranslationMemoryStore = create<TranslationMemoryState>()(
+  (set, get) => ({
+    entries: [],
+    isLoading: false,
+    error: null,
+
+    loadEntries: async (pair: TranslationMemoryLanguagePair) => {
+      loadedPair = pair;
+      set({ isLoading: true, error: null });
+      try {
+        const entries = await trpc.translationMemory.list.query(pair);
+        set({ entries, isLoading: false });
+      } catch (error) {
+        set({
+          error: handleTRPCError(error, "Failed to load translation memory"),
+          isLoading: false,
+        });
+      }
+    },
+
+    addEntry: async (input: TranslationMemoryEntryInput) => {
+      const entry = await trpc.translationMemory.add.mutate(input);
+      // Saving a known segment updates its entry, which moves to the top
+      set((state) => ({
+        entries: [
+          entry,
+          ...state.entries.filter((current) => current.id !== entry.id),
+        ],
+      }));
+    },
+
+    deleteEntry: async (id: string) => {
+      await trpc.translationMemory.delete.mutate({ id });
+      set((state) => ({
+        entries: state.entries.filter((entry) => entry.id !== id),
+      }));
+    },
+
+    importTmx: async (content, pair, mode = "merge") => {
+      const result = await trpc.translationMemory.import.mutate({
+        content,
+        pair,
+        mode,
+      });
+
+      if (loadedPair) {
+        await get().loadEntries(loadedPair);
+      }
+      return result;
+    },
+
+    exportTmx: async (pair) => {
+      return trpc.translationMemory.export.query({ pair });
+    },
+  }),
+);
@@ -1,12 +1,32 @@
-import type { OllamaConnectionStatus } from "#shared/domain/ollama";
+import { getDefaultTargetLanguage } from "#shared/domain/language-registry";
 import type {
+  GenerationMetrics,
+  OllamaConnectionStatus,
+} from "#shared/domain/ollama";
+import type {
+  BackTranslation,
+  LanguageDetectionResult,
+  MissingGlossaryTerm,
+  ModelComparison,
+  ModelComparisonResult,
+  SentenceAlignment,
+  SourceLanguage,
   SupportedLanguage,
+  TranslationMemoryMatch,
   TranslationModel,
+  TranslationRequest,
   TranslationSettings,
+  TranslationStyle,
+} from "#shared/domain/translation";
+import {
+  AUTO_DETECT_LANGUAGE,
+  getLanguagePairModel,
+  getStylePreference,
 } from "#shared/domain/translation";
+import { TRANSLATION_MEMORY_MODEL } from "#shared/domain/translation-memory";
 import { create } from "zustand";
 import { subscribeWithSelector } from "zustand/middleware";
-import { trpc } from "../lib/trpc";
+import { handleTRPCError, trpc } from "../lib/trpc";
 
 /**
  * Helper function to normalize model objects (previously converted dates)
@@ -26,24 +46,94 @@ function convertModelDates(
   }));
 }
 
+/** Pane a highlighted sentence was pointed at in */
+export type TranslationPane = "source" | "target";
+
+/** Handle to the running translation stream, if any */
+let activeTranslationStream: { unsubscribe: () => void } | null = null;
+
+/**
+ * Source, machine and edited text last sent for capture, so copying twice
+ * stores a post-edit once while the same edit of another text still counts
+ */
+let lastRecordedPostEdit: string | null = null;
+
 interface TranslationState {
   // Input state
   inputText: string;
   setInputText: (text: string) => void;
+  /** Optional hint for the translator, sent as the {{context}} variable */
+  translationContext: string;
+  setTranslationContext: (context: string) => void;
+  /** Formality and domain, remembered per language pair */
+  translationStyle: TranslationStyle;
+  setTranslationStyle: (style: TranslationStyle) => Promise<void>;
 
   // Language selection state
-  manualSourceLanguage: SupportedLanguage;
-  setManualSourceLanguage: (language: SupportedLanguage) => void;
+  manualSourceLanguage: SourceLanguage;
+  setManualSourceLanguage: (language: SourceLanguage) => void;
   manualTargetLanguage: SupportedLanguage;
   setManualTargetLanguage: (language: SupportedLanguage) => void;
   swapLanguages: () => void;
+  rememberLanguagePair: () => Promise<void>;
+
+  // Detection result for the current input while the source is "auto"
+  detectedLanguage: LanguageDetectionResult | null;
+  detectLanguage: (text: string) => Promise<void>;
 
   // Translation state
+  /** The translation as shown, including the user's corrections */
   translatedText: string;
+  /** The translation as the model (or memory) produced it */
+  machineTranslation: string;
+  /** Model that produced the machine translation */
+  translationModel: string | null;
+  /** Correct the translation by hand */
+  editTranslation: (text: string) => void;
+  /** Discard corrections and show the machine translation again */
+  resetTranslation: () => void;
+  /** Show a revision the model proposed, e.g. in a follow-up chat */
+  applyRevisedTranslation: (text: string) => void;
+  /** Store the corrected translation, if capture of post-edits is enabled */
+  recordPostEdit: () => Promise<void>;
   isTranslating: boolean;
   translationError: string | null;
   sourceLanguage: SupportedLanguage | null;
   targetLanguage: SupportedLanguage | null;
+  /** Number of candidates to request; more than one yields alternatives */
+  candidateCount: number;
+  setCandidateCount: (count: number) => void;
+  /** Other renderings of the last translation */
+  alternatives: string[];
+  /** Make an alternative the main translation; the current one takes its place */
+  selectAlternative: (index: number) => void;
+  /** Round-trip check: translate the result back and score it */
+  backTranslate: boolean;
+  setBackTranslate: (enabled: boolean) => void;
+  backTranslation: BackTranslation | null;
+  /** Translate sentence by sentence to align source and translation */
+  alignSentences: boolean;
+  setAlignSentences: (enabled: boolean) => void;
+  /** Sentence pairs of the current input and translation */
+  sentenceAlignment: SentenceAlignment[];
+  /** Sentence pair under the pointer or caret, and the pane it is in */
+  highlightedSentence: { index: number; pane: TranslationPane } | null;
+  setHighlightedSentence: (index: number | null, pane: TranslationPane) => void;
+  /** Token counts and timings reported for the last translation */
+  translationMetrics: GenerationMetrics | null;
+  /** Glossary terms the last translation failed to use */
+  missingGlossaryTerms: MissingGlossaryTerm[];
+  /** Protected code, markup or URLs the last translation dropped */
+  missingProtectedSpans: string[];
+  /** Translation memory matches of the last input, best first */
+  translationMemoryMatches: TranslationMemoryMatch[];
+  /** Use the approved translation of a memory match as the output */
+  applyTranslationMemoryMatch: (match: TranslationMemoryMatch) => void;
+  /** Segment progress while a long input is translated in parts */
+  translationProgress: {
+    completedSegments: number;
+    totalSegments: number;
+  } | null;
 
   // Model state
   selectedModel: string | null;
@@ -60,6 +150,16 @@ interface TranslationState {
 
   // Actions
   translate: (text: string, modelName?: string) => Promise<void>;
+  /** Restore an earlier request and translate it with the current model */
+  rerunTranslation: (request: TranslationRequest) => Promise<void>;
+  /** Show a comparison result as the translation and switch to its model */
+  applyComparisonResult: (
+    comparison: ModelComparison,
+    result: ModelComparisonResult,
+  ) => void;
+  /** Remember a model for the current language pair; null forgets it */
+  setLanguagePairModel: (modelName: string | null) => Promise<void>;
+  cancelTranslation: () => void;
   clearTranslation: () => void;
   setSelectedModel: (modelName: string) => void;
   setTranslationError: (error: string | null) => void;
@@ -78,13 +178,30 @@ export const useTranslationStore = create<TranslationState>()(
   subscribeWithSelector((set, get) => ({
     // Initial state
     inputText: "",
+    translationContext: "",
+    translationStyle: {},
     manualSourceLanguage: "en",
     manualTargetLanguage: "ja",
+    detectedLanguage: null,
     translatedText: "",
+    machineTranslation: "",
+    translationModel: null,
     isTranslating: false,
     translationError: null,
     sourceLanguage: null,
     targetLanguage: null,
+    candidateCount: 1,
+    alternatives: [],
+    backTranslate: false,
+    backTranslation: null,
+    alignSentences: false,
+    sentenceAlignment: [],
+    highlightedSentence: null,
+    translationMetrics: null,
+    missingGlossaryTerms: [],
+    missingProtectedSpans: [],
+    translationMemoryMatches: [],
+    translationProgress: null,
     selectedModel: null,
     availableModels: [],
     ollamaModels: [],
@@ -92,34 +209,264 @@ export const useTranslationStore = create<TranslationState>()(
     settings: null,
 
     // Actions
-    setInputText: (text: string) => set({ inputText: text }),
-    setManualSourceLanguage: (language: SupportedLanguage) => {
-      const newState: {
-        manualSourceLanguage: SupportedLanguage;
-        manualTargetLanguage?: SupportedLanguage;
-      } = {
-        manualSourceLanguage: language,
-      };
+    setInputText: (text: string) =>
+      set((state) =>
+        // Edited text no longer lines up with the translation
+        text === state.inputText
+          ? {}
+          : {
+              inputText: text,
+              sentenceAlignment: [],
+              highlightedSentence: null,
+            },
+      ),
+    setTranslationContext: (context: string) =>
+      set({ translationContext: context }),
+    editTranslation: (text: string) =>
+      set((state) =>
+        // Edited text no longer lines up with the source
+        text === state.translatedText
+          ? {}
+          : {
+              translatedText: text,
+              sentenceAlignment: [],
+              highlightedSentence: null,
+            },
+      ),
+    resetTranslation: () =>
+      set((state) => ({ translatedText: state.machineTranslation })),
+    applyRevisedTranslation: (text: string) =>
+      set({
+        translatedText: text,
+        machineTranslation: text,
+        alternatives: [],
+        backTranslation: null,
+        sentenceAlignment: [],
+        highlightedSentence: null,
+        missingGlossaryTerms: [],
+        missingProtectedSpans: [],
+      }),
+    recordPostEdit: async () => {
+      const {
+        inputText,
+        translatedText,
+        machineTranslation,
+        translationModel,
+        sourceLanguage,
+        targetLanguage,
+      } = get();
+      const postEditKey = JSON.stringify([
+        inputText,
+        machineTranslation,
+        translatedText,
+      ]);
+      if (
+        !translationModel ||
+        !sourceLanguage ||
+        !targetLanguage ||
+        !inputText.trim() ||
+        !translatedText.trim() ||
+        translatedText === machineTranslation ||
+        postEditKey === lastRecordedPostEdit
+      ) {
+        return;
+      }
 
-      // Auto-switch target language based on source language selection
-      if (language === "en") {
-        newState.manualTargetLanguage = "ja";
-      } else if (language === "ja") {
-        newState.manualTargetLanguage = "en";
+      try {
+        await trpc.postEdits.record.mutate({
+          sourceLanguage,
+          targetLanguage,
+          modelName: translationModel,
+          sourceText: inputText,
+          machineText: machineTranslation,
+          editedText: translatedText,
+        });
+        lastRecordedPostEdit = postEditKey;
+      } catch (error) {
+        console.error("Failed to record post-edit:", error);
       }
+    },
+    setCandidateCount: (count: number) => set({ candidateCount: count }),
+    setBackTranslate: (enabled: boolean) => set({ backTranslate: enabled }),
+    setAlignSentences: (enabled: boolean) => set({ alignSentences: enabled }),
+    setHighlightedSentence: (index: number | null, pane: TranslationPane) =>
+      set({ highlightedSentence: index === null ? null : { index, pane } }),
+    selectAlternative: (index: number) => {
+      const { translatedText, alternatives } = get();
+      const selected = alternatives[index];
+      if (selected === undefined) return;
 
-      set(newState);
+      set({
+        translatedText: selected,
+        machineTranslation: selected,
+        alternatives: alternatives.map((alternative, i) =>
+          i === index ? translatedText : alternative,
+        ),
+        // Alignment ranges belong to the main translation
+        sentenceAlignment: [],
+        highlightedSentence: null,
+      });
+    },
+    applyTranslationMemoryMatch: (match: TranslationMemoryMatch) =>
+      set({
+        translatedText: match.targetText,
+        machineTranslation: match.targetText,
+        translationModel: TRANSLATION_MEMORY_MODEL,
+        alternatives: [],
+        backTranslation: null,
+        sentenceAlignment: [],
+        highlightedSentence: null,
+        missingGlossaryTerms: [],
+        missingProtectedSpans: [],
+      }),
+    setTranslationStyle: async (style: TranslationStyle) => {
+      const { manualSourceLanguage, manualTargetLanguage, translationStyle } =
+        get();
+      const updatedStyle = { ...translationStyle, ...style };
+      set({ translationStyle: updatedStyle });
+
+      try {
+        const updatedSettings = await trpc.translation.rememberStyle.mutate({
+          pair: {
+            sourceLanguage: manualSourceLanguage,
+            targetLanguage: manualTargetLanguage,
+          },
+          style: updatedStyle,
+        });
+
+        set({
+          settings: {
+            ...updatedSettings,
+            models: convertModelDates(updatedSettings.models),
+          },
+        });
+      } catch (error) {
+        console.error("Failed to remember translation style:", error);
+      }
+    },
+    setManualSourceLanguage: (language: SourceLanguage) => {
+      if (language === AUTO_DETECT_LANGUAGE) {
+        set({ manualSourceLanguage: language });
+        get().rememberLanguagePair();
+        return;
+      }
+
+      // Auto-switch target language to the one last used with this source,
+      // falling back to the registry default for first-time pairs
+      const preferredTarget =
+        get().settings?.preferredTargetLanguages[language] ??
+        getDefaultTargetLanguage(language);
+
+      const manualTargetLanguage =
+        preferredTarget !== language
+          ? preferredTarget
+          : getDefaultTargetLanguage(language);
+
+      set({
+        manualSourceLanguage: language,
+        manualTargetLanguage,
+        detectedLanguage: null,
+      });
+      get().rememberLanguagePair();
+    },
+    setManualTargetLanguage: (language: SupportedLanguage) => {
+      set({ manualTargetLanguage: language });
+      get().rememberLanguagePair();
     },
-    setManualTargetLanguage: (language: SupportedLanguage) =>
-      set({ manualTargetLanguage: language }),
 
     swapLanguages: () => {
       const state = get();
-      if (state.manualTargetLanguage) {
+
+      // With auto-detect the detected language takes the source's place
+      const source =
+        state.manualSourceLanguage === AUTO_DETECT_LANGUAGE
+          ? state.detectedLanguage?.language
+          : state.manualSourceLanguage;
+      if (!source) return;
+
+      set({
+        manualSourceLanguage: state.manualTargetLanguage,
+        manualTargetLanguage: source,
+        detectedLanguage: null,
+      });
+      get().rememberLanguagePair();
+    },
+
+    detectLanguage: async (text: string) => {
+      if (!text.trim()) {
+        set({ detectedLanguage: null });
+        return;
+      }
+
+      try {
+        // Short or ambiguous text keeps the language detected before
+        const detectedLanguage = await trpc.translation.detectLanguage.query({
+          text,
+          fallbackLanguage: get().detectedLanguage?.language,
+        });
+
+        // Ignore results that arrive after the user picked a fixed source
+        if (get().manualSourceLanguage !== AUTO_DETECT_LANGUAGE) return;
+
+        // Translating into the detected language makes no sense,
+        // so flip the target to the one preferred for that language
+        const { manualTargetLanguage, settings } = get();
+        if (detectedLanguage.language === manualTargetLanguage) {
+          const preferredTarget =
+            settings?.preferredTargetLanguages[detectedLanguage.language] ??
+            getDefaultTargetLanguage(detectedLanguage.language);
+          set({
+            manualTargetLanguage:
+              preferredTarget !== detectedLanguage.language
+                ? preferredTarget
+                : getDefaultTargetLanguage(detectedLanguage.language),
+          });
+        }
+
+        set({ detectedLanguage });
+      } catch (error) {
+        console.error("Failed to detect language:", error);
+      }
+    },
+
+    rememberLanguagePair: async () => {
+      const { manualSourceLanguage, manualTargetLanguage } = get();
+      try {
+        const updatedSettings =
+          await trpc.translation.rememberLanguagePair.mutate({
+            sourceLanguage: manualSourceLanguage,
+            targetLanguage: manualTargetLanguage,
+          });
+
         set({
-          manualSourceLanguage: state.manualTargetLanguage,
-          manualTargetLanguage: state.manualSourceLanguage,
+          settings: {
+            ...updatedSettings,
+            models: convertModelDates(updatedSettings.models),
+          },
+          // Switch to the style last used with the new pair
+          translationStyle: getStylePreference(
+            updatedSettings,
+            manualSourceLanguage,
+            manualTargetLanguage,
+          ),
         });
+
+        // Switch to the model preferred for the pair, if it is still installed
+        const pairModel = getLanguagePairModel(
+          updatedSettings,
+          manualSourceLanguage,
+          manualTargetLanguage,
+        );
+        if (
+          pairModel &&
+          get().availableModels.some(
+            (model) => model.name === pairModel && model.isAvailable,
+          )
+        ) {
+          set({ selectedModel: pairModel });
+        }
+      } catch (error) {
+        console.error("Failed to remember language pair:", error);
       }
     },
 
@@ -127,50 +474,216 @@ export const useTranslationStore = create<TranslationState>()(
       if (!text.trim()) {
         set({
           translatedText: "",
+          machineTranslation: "",
+          translationModel: null,
           sourceLanguage: null,
           targetLanguage: null,
         });
         return;
       }
 
+      // Stop a stream that is still running from a previous request
+      get().cancelTranslation();
+
       set({
         isTranslating: true,
         translationError: null,
+        translatedText: "",
+        machineTranslation: "",
+        translationModel: null,
+        alternatives: [],
+        backTranslation: null,
+        sentenceAlignment: [],
+        highlightedSentence: null,
+        translationMetrics: null,
+        missingGlossaryTerms: [],
+        missingProtectedSpans: [],
+        translationMemoryMatches: [],
+        translationProgress: null,
       });
 
-      try {
-        const state = get();
-        const sourceLanguage = state.manualSourceLanguage;
+      const state = get();
 
-        const result = await trpc.translation.translateText.mutate({
-          text,
-          sourceLanguage,
-          targetLanguage: state.manualTargetLanguage,
-          modelName: modelName || state.selectedModel || undefined,
-        });
+      let stream: { unsubscribe: () => void } | null = null;
+
+      // Deltas are appended as they arrive; the final event replaces them
+      // with the normalized translation from the main process.
+      await new Promise<void>((resolve) => {
+        const subscription = trpc.translation.translateStream.subscribe(
+          {
+            text,
+            sourceLanguage: state.manualSourceLanguage,
+            targetLanguage: state.manualTargetLanguage,
+            fallbackLanguage: state.detectedLanguage?.language,
+            modelName: modelName || state.selectedModel || undefined,
+            context: state.translationContext.trim() || undefined,
+            formality: state.translationStyle.formality,
+            domain: state.translationStyle.domain,
+            candidateCount:
+              state.candidateCount > 1 ? state.candidateCount : undefined,
+            backTranslate: state.backTranslate || undefined,
+            alignSentences: state.alignSentences || undefined,
+          },
+          {
+            onData: (event) => {
+              if (event.type === "delta") {
+                set((current) => ({
+                  translatedText: current.translatedText + event.delta,
+                  machineTranslation: current.machineTranslation + event.delta,
+                }));
+              } else if (event.type === "progress") {
+                set({
+                  translationProgress: {
+                    completedSegments: event.completedSegments,
+                    totalSegments: event.totalSegments,
+                  },
+                });
+              } else {
+                set({
+                  translatedText: event.response.translatedText,
+                  machineTranslation: event.response.translatedText,
+                  translationModel: event.response.modelUsed,
+                  sourceLanguage: event.response.sourceLanguage,
+                  targetLanguage: event.response.targetLanguage,
+                  alternatives: event.response.alternatives ?? [],
+                  backTranslation: event.response.backTranslation ?? null,
+                  sentenceAlignment: event.response.alignment ?? [],
+                  translationMetrics: event.response.metrics ?? null,
+                  missingGlossaryTerms:
+                    event.response.missingGlossaryTerms ?? [],
+                  missingProtectedSpans:
+                    event.response.missingProtectedSpans ?? [],
+                  translationMemoryMatches:
+                    event.response.translationMemoryMatches ?? [],
+                  ...(event.response.detectedLanguage && {
+                    detectedLanguage: event.response.detectedLanguage,
+                  }),
+                });
+              }
+            },
+            onError: (error) => {
+              set({
+                translationError: handleTRPCError(error, "Translation failed"),
+                isTranslating: false,
+                translationProgress: null,
+              });
+              resolve();
+            },
+            onComplete: () => {
+              set({ isTranslating: false, translationProgress: null });
+              resolve();
+            },
+            onStopped: () => resolve(),
+          },
+        );
+
+        stream = {
+          unsubscribe: () => {
+            subscription.unsubscribe();
+            resolve();
+          },
+        };
+        activeTranslationStream = stream;
+      });
+
+      if (activeTranslationStream === stream) {
+        activeTranslationStream = null;
+      }
+    },
+
+    rerunTranslation: async (request: TranslationRequest) => {
+      set({
+        inputText: request.text,
+        translationContext: request.context ?? "",
+        translationStyle: {
+          formality: request.formality,
+          domain: request.domain,
+        },
+        manualSourceLanguage: request.sourceLanguage,
+        manualTargetLanguage: request.targetLanguage,
+        detectedLanguage: null,
+      });
+      await get().translate(request.text);
+    },
+
+    applyComparisonResult: (comparison, result) => {
+      if (result.translatedText === undefined) return;
+
+      set({
+        translatedText: result.translatedText,
+        machineTranslation: result.translatedText,
+        translationModel: result.modelName,
+        selectedModel: result.modelName,
+        sourceLanguage: comparison.sourceLanguage,
+        targetLanguage: comparison.targetLanguage,
+        alternatives: [],
+        backTranslation: null,
+        sentenceAlignment: [],
+        highlightedSentence: null,
+        translationMetrics: result.metrics ?? null,
+        missingGlossaryTerms: [],
+        missingProtectedSpans: [],
+        translationMemoryMatches: [],
+        translationError: null,
+      });
+    },
+
+    setLanguagePairModel: async (modelName: string | null) => {
+      const { manualSourceLanguage, manualTargetLanguage } = get();
+      try {
+        const updatedSettings =
+          await trpc.translation.setLanguagePairModel.mutate({
+            pair: {
+              sourceLanguage: manualSourceLanguage,
+              targetLanguage: manualTargetLanguage,
+            },
+            modelName,
+          });
 
         set({
-          translatedText: result.translatedText,
-          sourceLanguage: result.sourceLanguage,
-          targetLanguage: result.targetLanguage,
-          isTranslating: false,
+          settings: {
+            ...updatedSettings,
+            models: convertModelDates(updatedSettings.models),
+          },
         });
       } catch (error) {
-        const errorMessage =
-          error instanceof Error ? error.message : "Translation failed";
         set({
-          translationError: errorMessage,
-          isTranslating: false,
+          translationError: handleTRPCError(
+            error,
+            "Failed to remember model for language pair",
+          ),
         });
       }
     },
 
+    cancelTranslation: () => {
+      if (!activeTranslationStream) return;
+
+      // Unsubscribing aborts the stream in the main process;
+      // text received so far is kept
+      activeTranslationStream.unsubscribe();
+      activeTranslationStream = null;
+      set({ isTranslating: false, translationProgress: null });
+    },
+
     clearTranslation: () =>
       set({
         inputText: "",
         translatedText: "",
+        machineTranslation: "",
+        translationModel: null,
         sourceLanguage: null,
         targetLanguage: null,
+        detectedLanguage: null,
+        alternatives: [],
+        backTranslation: null,
+        sentenceAlignment: [],
+        highlightedSentence: null,
+        translationMetrics: null,
+        missingGlossaryTerms: [],
+        missingProtectedSpans: [],
+        translationMemoryMatches: [],
+        translationProgress: null,
         translationError: null,
       }),
 
@@ -269,6 +782,29 @@ export const useTranslationStore = create<TranslationState>()(
             settings.defaultModel ||
             (convertedModels.length > 0 ? convertedModels[0].name : null),
         });
+
+        // Restore the language pair from the previous session
+        if (settings.lastLanguagePair) {
+          const { sourceLanguage, targetLanguage } = settings.lastLanguagePair;
+          const pairModel = getLanguagePairModel(
+            settings,
+            sourceLanguage,
+            targetLanguage,
+          );
+          set({
+            manualSourceLanguage: sourceLanguage,
+            manualTargetLanguage: targetLanguage,
+            translationStyle: getStylePreference(
+              settings,
+              sourceLanguage,
+              targetLanguage,
+            ),
+            ...(pairModel &&
+              convertedModels.some(
+                (model) => model.name === pairModel && model.isAvailable,
+              ) && { selectedModel: pairModel }),
+          });
+        }
       } catch (error) {
         console.error("Failed to refresh models:", error);
       }
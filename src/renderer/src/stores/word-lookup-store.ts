@@ -0,0 +1,124 @@
+import { AUTO_DETECT_LANGUAGE } from "#shared/domain/translation";
+import { TRANSLATION_MEMORY_MODEL } from "#shared/domain/translation-memory";
+import type { WordLookup } from "#shared/domain/word-lookup";
+import { create } from "zustand";
+import { handleTRPCError, trpc } from "../lib/trpc";
+import type { TranslationPane } from "./translation-store";
+import { useTranslationStore } from "./translation-store";
+
+/** Lookup in flight, stopped when another one starts */
+let activeLookup: { unsubscribe: () => void } | null = null;
+
+export interface LookupSelection {
+  pane: TranslationPane;
+  text: string;
+  /** Sentence around the selection */
+  context?: string;
+  /** Viewport position to show the entry at */
+  x: number;
+  y: number;
+}
+
+interface WordLookupState {
+  selection: LookupSelection | null;
+  lookup: WordLookup | null;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  lookUp: (selection: LookupSelection) => Promise<void>;
+  close: () => void;
+}
+
+export const useWordLookupStore = create<WordLookupState>()((set) => ({
+  selection: null,
+  lookup: null,
+  isLoading: false,
+  error: null,
+
+  lookUp: async (selection: LookupSelection) => {
+    const {
+      sourceLanguage,
+      targetLanguage,
+      manualSourceLanguage,
+      manualTargetLanguage,
+      detectedLanguage,
+      translationModel,
+      selectedModel,
+    } = useTranslationStore.getState();
+
+    const source =
+      sourceLanguage ??
+      (manualSourceLanguage === AUTO_DETECT_LANGUAGE
+        ? detectedLanguage?.language
+        : manualSourceLanguage);
+    const target = targetLanguage ?? manualTargetLanguage;
+    // Translations reused from the memory had no model; ask the selected one
+    const modelName =
+      translationModel && translationModel !== TRANSLATION_MEMORY_MODEL
+        ? translationModel
+        : selectedModel;
+
+    activeLookup?.unsubscribe();
+    activeLookup = null;
+    set({ selection, lookup: null, error: null });
+
+    if (!source || !modelName) {
+      set({
+        error: !source
+          ? "Choose a source language to look up words"
+          : "Choose a model to look up words",
+      });
+      return;
+    }
+
+    set({ isLoading: true });
+
+    let current: { unsubscribe: () => void } | null = null;
+
+    await new Promise<void>((resolve) => {
+      // Selections in the translation are explained in the source language
+      const subscription = trpc.wordLookup.lookUp.subscribe(
+        {
+          text: selection.text,
+          context: selection.context,
+          sourceLanguage: selection.pane === "source" ? source : target,
+          targetLanguage: selection.pane === "source" ? target : source,
+          modelName,
+        },
+        {
+          onData: (lookup) => {
+            set({ lookup, isLoading: false });
+          },
+          onError: (error) => {
+            set({
+              error: handleTRPCError(error, "Failed to look up the selection"),
+              isLoading: false,
+            });
+            resolve();
+          },
+          onComplete: () => resolve(),
+          onStopped: () => resolve(),
+        },
+      );
+
+      current = {
+        unsubscribe: () => {
+          subscription.unsubscribe();
+          resolve();
+        },
+      };
+      activeLookup = current;
+    });
+
+    if (activeLookup === current) {
+      activeLookup = null;
+    }
+  },
+
+  close: () => {
+    activeLookup?.unsubscribe();
+    activeLookup = null;
+    set({ selection: null, lookup: null, isLoading: false, error: null });
+  },
+}));
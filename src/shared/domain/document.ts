@@ -0,0 +1,49 @@
+import { z } from "zod";
+
+/** Extensions offered by File > Open */
+export const DOCUMENT_EXTENSIONS = ["txt", "md", "markdown"] as const;
+
+/** File menu commands forwarded to the renderer */
+export const MenuAction = z.enum(["new", "open", "save"]);
+export type MenuAction = z.infer<typeof MenuAction>;
+
+export const OpenedDocument = z.object({
+  filePath: z.string(),
+  fileName: z.string(),
+  /** Text to translate, without the front matter */
+  text: z.string(),
+  /** Markdown front matter, including its fences, kept out of translation */
+  frontMatter: z.string().optional(),
+});
+export type OpenedDocument = z.infer<typeof OpenedDocument>;
+
+export const SaveDocumentRequest = z.object({
+  text: z.string(),
+  /** Written verbatim before the text */
+  frontMatter: z.string().optional(),
+  /** File name suggested in the save dialog */
+  defaultFileName: z.string().min(1).optional(),
+});
+export type SaveDocumentRequest = z.infer<typeof SaveDocumentRequest>;
+
+export const SavedDocument = z.object({
+  filePath: z.string(),
+  fileName: z.string(),
+});
+export type SavedDocument = z.infer<typeof SavedDocument>;
+
+/**
+ * Name for a translated copy of a document, e.g. `notes.ja.md`.
+ * Falls back to `translation.<lang>.txt` when no document is open.
+ */
+export function getTranslatedFileName(
+  fileName: string | undefined,
+  targetLanguage: string,
+): string {
+  if (!fileName) return `translation.${targetLanguage}.txt`;
+
+  const dot = fileName.lastIndexOf(".");
+  return dot > 0
+    ? `${fileName.slice(0, dot)}.${targetLanguage}${fileName.slice(dot)}`
+    : `${fileName}.${targetLanguage}`;
+}
@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { SupportedLanguage } from "./translation.js";
+
+export const GlossaryEntry = z.object({
+  id: z.string().min(1),
+  sourceLanguage: SupportedLanguage,
+  targetLanguage: SupportedLanguage,
+  sourceTerm: z.string().trim().min(1),
+  /** Required translation; ignored when `doNotTranslate` is set */
+  targetTerm: z.string().trim().default(""),
+  /** Match the source term and check the target term case-sensitively */
+  caseSensitive: z.boolean().default(false),
+  /** Keep the source term verbatim in the translation */
+  doNotTranslate: z.boolean().default(false),
+  note: z.string().optional(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+export type GlossaryEntry = z.infer<typeof GlossaryEntry>;
+
+export const GlossaryEntryInput = GlossaryEntry.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type GlossaryEntryInput = z.input<typeof GlossaryEntryInput>;
+
+/** Fields to change; unlike creation, omitted flags keep their value */
+export const GlossaryEntryUpdate = z
+  .object({
+    sourceLanguage: SupportedLanguage,
+    targetLanguage: SupportedLanguage,
+    sourceTerm: z.string().trim().min(1),
+    targetTerm: z.string().trim(),
+    caseSensitive: z.boolean(),
+    doNotTranslate: z.boolean(),
+    note: z.string(),
+  })
+  .partial();
+export type GlossaryEntryUpdate = z.input<typeof GlossaryEntryUpdate>;
+
+/** Glossaries are kept per concrete language pair (no auto-detect) */
+export const GlossaryLanguagePair = z.object({
+  sourceLanguage: SupportedLanguage,
+  targetLanguage: SupportedLanguage,
+});
+export type GlossaryLanguagePair = z.infer<typeof GlossaryLanguagePair>;
+
+export const GlossaryFormat = z.enum(["csv", "tbx"]);
+export type GlossaryFormat = z.infer<typeof GlossaryFormat>;
+
+export const GlossaryImportMode = z.enum(["merge", "replace"]);
+export type GlossaryImportMode = z.infer<typeof GlossaryImportMode>;
+
+export const GlossaryImportResult = z.object({
+  imported: z.number().int().nonnegative(),
+  updated: z.number().int().nonnegative(),
+  skipped: z.number().int().nonnegative(),
+});
+export type GlossaryImportResult = z.infer<typeof GlossaryImportResult>;
+
+/**
+ * Term the translation is expected to use for an entry:
+ * the source term itself for "do not translate" entries
+ */
+export function getExpectedTargetTerm(entry: GlossaryEntry): string {
+  return entry.doNotTranslate ? entry.sourceTerm : entry.targetTerm;
+}
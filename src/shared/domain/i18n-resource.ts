@@ -0,0 +1,73 @@
+import { z } from "zod";
+import {
+  Formality,
+  SupportedLanguage,
+  TranslationDomain,
+} from "./translation.js";
+
+/** An i18next JSON resource file to translate into another locale */
+export const I18nResourceTranslationRequest = z.object({
+  /** File content, as nested or flat i18next JSON */
+  content: z.string().min(1),
+  sourceLanguage: SupportedLanguage,
+  targetLanguage: SupportedLanguage,
+  modelName: z.string().optional(),
+  /** Extra information about the application, e.g. what it does */
+  context: z.string().optional(),
+  formality: Formality.optional(),
+  domain: TranslationDomain.optional(),
+});
+export type I18nResourceTranslationRequest = z.infer<
+  typeof I18nResourceTranslationRequest
+>;
+
+export const I18nResourceIssueReason = z.enum([
+  /** Interpolations, printf or ICU syntax differ from the source value */
+  "tokens_changed",
+  /** The model could not translate the value */
+  "translation_failed",
+]);
+export type I18nResourceIssueReason = z.infer<typeof I18nResourceIssueReason>;
+
+/** Key whose source value was written in place of a rejected translation */
+export const I18nResourceIssue = z.object({
+  /** Dot-separated key path in the translated file */
+  key: z.string(),
+  reason: I18nResourceIssueReason,
+  sourceText: z.string(),
+  /** The rejected translation, when the model produced one */
+  translatedText: z.string().optional(),
+  /** Source tokens absent from the translation */
+  missingTokens: z.array(z.string()),
+  /** Tokens in the translation that the source does not have */
+  unexpectedTokens: z.array(z.string()),
+  error: z.string().optional(),
+});
+export type I18nResourceIssue = z.infer<typeof I18nResourceIssue>;
+
+export const I18nResourceTranslationResult = z.object({
+  /** The translated resource file, as formatted JSON */
+  content: z.string(),
+  translatedKeys: z.number().int().nonnegative(),
+  /** Values copied as-is because they contain nothing to translate */
+  copiedKeys: z.number().int().nonnegative(),
+  failedKeys: z.array(I18nResourceIssue),
+});
+export type I18nResourceTranslationResult = z.infer<
+  typeof I18nResourceTranslationResult
+>;
+
+export const I18nResourceTranslationEvent = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("progress"),
+    completedKeys: z.number().int().nonnegative(),
+    totalKeys: z.number().int().nonnegative(),
+  }),
+  z.object({
+    type: z.literal("done"),
+    result: I18nResourceTranslationResult,
+  }),
+]);
+export type I18nResourceTranslationEvent = z.infer<
+  typeof I18nResourceTranslationEvent
+>;
@@ -0,0 +1,228 @@
+import { z } from "zod";
+
+/** Writing direction of a language */
+export const TextDirection = z.enum(["ltr", "rtl"]);
+export type TextDirection = z.infer<typeof TextDirection>;
+
+/** Registry entry describing a translation language */
+export const LanguageDefinition = z.object({
+  /** BCP 47 language tag */
+  code: z.string().min(1),
+  /** English name, also used in prompts */
+  name: z.string().min(1),
+  /** Name of the language in the language itself */
+  nativeName: z.string().min(1),
+  /** ISO 15924 script code */
+  script: z.string().length(4),
+  direction: TextDirection,
+});
+export type LanguageDefinition = z.infer<typeof LanguageDefinition>;
+
+/**
+ * Languages available for translation.
+ * Add new languages here; schemas, selectors and prompts are derived from it.
+ */
+export const LANGUAGE_REGISTRY = {
+  en: {
+    code: "en",
+    name: "English",
+    nativeName: "English",
+    script: "Latn",
+    direction: "ltr",
+  },
+  ja: {
+    code: "ja",
+    name: "Japanese",
+    nativeName: "日本語",
+    script: "Jpan",
+    direction: "ltr",
+  },
+  "zh-Hans": {
+    code: "zh-Hans",
+    name: "Chinese (Simplified)",
+    nativeName: "简体中文",
+    script: "Hans",
+    direction: "ltr",
+  },
+  "zh-Hant": {
+    code: "zh-Hant",
+    name: "Chinese (Traditional)",
+    nativeName: "繁體中文",
+    script: "Hant",
+    direction: "ltr",
+  },
+  ko: {
+    code: "ko",
+    name: "Korean",
+    nativeName: "한국어",
+    script: "Kore",
+    direction: "ltr",
+  },
+  fr: {
+    code: "fr",
+    name: "French",
+    nativeName: "Français",
+    script: "Latn",
+    direction: "ltr",
+  },
+  de: {
+    code: "de",
+    name: "German",
+    nativeName: "Deutsch",
+    script: "Latn",
+    direction: "ltr",
+  },
+  es: {
+    code: "es",
+    name: "Spanish",
+    nativeName: "Español",
+    script: "Latn",
+    direction: "ltr",
+  },
+  "pt-BR": {
+    code: "pt-BR",
+    name: "Portuguese (Brazil)",
+    nativeName: "Português (Brasil)",
+    script: "Latn",
+    direction: "ltr",
+  },
+  "pt-PT": {
+    code: "pt-PT",
+    name: "Portuguese (Portugal)",
+    nativeName: "Português (Portugal)",
+    script: "Latn",
+    direction: "ltr",
+  },
+  it: {
+    code: "it",
+    name: "Italian",
+    nativeName: "Italiano",
+    script: "Latn",
+    direction: "ltr",
+  },
+  nl: {
+    code: "nl",
+    name: "Dutch",
+    nativeName: "Nederlands",
+    script: "Latn",
+    direction: "ltr",
+  },
+  pl: {
+    code: "pl",
+    name: "Polish",
+    nativeName: "Polski",
+    script: "Latn",
+    direction: "ltr",
+  },
+  ru: {
+    code: "ru",
+    name: "Russian",
+    nativeName: "Русский",
+    script: "Cyrl",
+    direction: "ltr",
+  },
+  uk: {
+    code: "uk",
+    name: "Ukrainian",
+    nativeName: "Українська",
+    script: "Cyrl",
+    direction: "ltr",
+  },
+  tr: {
+    code: "tr",
+    name: "Turkish",
+    nativeName: "Türkçe",
+    script: "Latn",
+    direction: "ltr",
+  },
+  vi: {
+    code: "vi",
+    name: "Vietnamese",
+    nativeName: "Tiếng Việt",
+    script: "Latn",
+    direction: "ltr",
+  },
+  id: {
+    code: "id",
+    name: "Indonesian",
+    nativeName: "Bahasa Indonesia",
+    script: "Latn",
+    direction: "ltr",
+  },
+  th: {
+    code: "th",
+    name: "Thai",
+    nativeName: "ไทย",
+    script: "Thai",
+    direction: "ltr",
+  },
+  hi: {
+    code: "hi",
+    name: "Hindi",
+    nativeName: "हिन्दी",
+    script: "Deva",
+    direction: "ltr",
+  },
+  ar: {
+    code: "ar",
+    name: "Arabic",
+    nativeName: "العربية",
+    script: "Arab",
+    direction: "rtl",
+  },
+  he: {
+    code: "he",
+    name: "Hebrew",
+    nativeName: "עברית",
+    script: "Hebr",
+    direction: "rtl",
+  },
+} as const satisfies Record<string, LanguageDefinition>;
+
+export type LanguageCode = keyof typeof LANGUAGE_REGISTRY;
+
+/** All registered language codes, in registry order */
+export const LANGUAGE_CODES = Object.keys(LANGUAGE_REGISTRY) as [
+  LanguageCode,
+  ...LanguageCode[],
+];
+
+/**
+ * Target language picked when the user selects a source language
+ * they have not used before.
+ */
+export function getDefaultTargetLanguage(source: LanguageCode): LanguageCode {
+  return source === "en" ? "ja" : "en";
+}
+
+/**
+ * Map a BCP 47 / POSIX locale tag from an external file (e.g. "ja-JP",
+ * "zh_TW", "pt") to a registered language, or undefined when unsupported
+ */
+export function resolveLanguageCode(tag: string): LanguageCode | undefined {
+  const normalized = tag.trim().replace(/_/g, "-").toLowerCase();
+  if (!normalized) return undefined;
+
+  const exact = LANGUAGE_CODES.find(
+    (code) => code.toLowerCase() === normalized,
+  );
+  if (exact) return exact;
+
+  const [primary, ...subtags] = normalized.split("-");
+
+  if (primary === "zh") {
+    const traditional = subtags.some((subtag) =>
+      ["hant", "tw", "hk", "mo"].includes(subtag),
+    );
+    return traditional ? "zh-Hant" : "zh-Hans";
+  }
+
+  if (primary === "pt") {
+    return subtags.includes("br") ? "pt-BR" : "pt-PT";
+  }
+
+  const candidates = LANGUAGE_CODES.filter(
+    (code) => code.toLowerCase().split("-")[0] === primary,
+  );
+  return candidates.length === 1 ? candidates[0] : undefined;
+}
@@ -0,0 +1,79 @@
+import { z } from "zod";
+import {
+  Formality,
+  SupportedLanguage,
+  TranslationDomain,
+} from "./translation.js";
+
+export const LocalizationFileFormat = z.enum(["xliff-1.2", "xliff-2.0", "po"]);
+export type LocalizationFileFormat = z.infer<typeof LocalizationFileFormat>;
+
+/** Extensions offered when opening a localization file */
+export const LOCALIZATION_FILE_EXTENSIONS = ["xlf", "xliff", "po", "pot"];
+
+export const LocalizationFileTranslationRequest = z.object({
+  /** XLIFF or gettext PO file content */
+  content: z.string().min(1),
+  /** Detected from the content when omitted */
+  format: LocalizationFileFormat.optional(),
+  sourceLanguage: SupportedLanguage,
+  targetLanguage: SupportedLanguage,
+  modelName: z.string().optional(),
+  /** Extra information about the product, added to every unit's notes */
+  context: z.string().optional(),
+  formality: Formality.optional(),
+  domain: TranslationDomain.optional(),
+});
+export type LocalizationFileTranslationRequest = z.infer<
+  typeof LocalizationFileTranslationRequest
+>;
+
+export const LocalizationUnitIssueReason = z.enum([
+  /** Inline tags or placeholders of the unit were lost or duplicated */
+  "tags_changed",
+  /** The model could not translate the unit; it is left untranslated */
+  "translation_failed",
+]);
+export type LocalizationUnitIssueReason = z.infer<
+  typeof LocalizationUnitIssueReason
+>;
+
+export const LocalizationUnitIssue = z.object({
+  /** Unit id (XLIFF) or msgctxt and msgid (PO), to find it in a CAT tool */
+  unit: z.string(),
+  reason: LocalizationUnitIssueReason,
+  missingTokens: z.array(z.string()),
+  unexpectedTokens: z.array(z.string()),
+  error: z.string().optional(),
+});
+export type LocalizationUnitIssue = z.infer<typeof LocalizationUnitIssue>;
+
+export const LocalizationFileTranslationResult = z.object({
+  /** The file with translated units marked for review */
+  content: z.string(),
+  format: LocalizationFileFormat,
+  totalUnits: z.number().int().nonnegative(),
+  translatedUnits: z.number().int().nonnegative(),
+  /** Units that were already translated, or locked against translation */
+  skippedUnits: z.number().int().nonnegative(),
+  issues: z.array(LocalizationUnitIssue),
+});
+export type LocalizationFileTranslationResult = z.infer<
+  typeof LocalizationFileTranslationResult
+>;
+
+export const LocalizationFileTranslationEvent = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("progress"),
+    completedUnits: z.number().int().nonnegative(),
+    /** Units that need translation, not every unit of the file */
+    totalUnits: z.number().int().nonnegative(),
+  }),
+  z.object({
+    type: z.literal("done"),
+    result: LocalizationFileTranslationResult,
+  }),
+]);
+export type LocalizationFileTranslationEvent = z.infer<
+  typeof LocalizationFileTranslationEvent
+>;
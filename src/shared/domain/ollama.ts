@@ -34,6 +34,12 @@ export const OllamaChatRequest = z.object({
   stream: z.boolean().default(false),
   temperature: z.number().min(0).max(2).optional(),
   top_p: z.number().min(0).max(1).optional(),
+  /** Context window to load the model with, in tokens */
+  num_ctx: z.number().int().positive().optional(),
+  /** "json", or a JSON schema the reply must follow */
+  format: z
+    .union([z.literal("json"), z.record(z.string(), z.unknown())])
+    .optional(),
   signal: z.instanceof(AbortSignal).optional(),
 });
 export type OllamaChatRequest = z.infer<typeof OllamaChatRequest>;
@@ -52,6 +58,71 @@ export const OllamaChatResponse = z.object({
 });
 export type OllamaChatResponse = z.infer<typeof OllamaChatResponse>;
 
+/**
+ * Token counts and timings Ollama reports for a generation.
+ * Durations are converted from nanoseconds to milliseconds.
+ */
+export const GenerationMetrics = z.object({
+  promptTokens: z.number().int().nonnegative().optional(),
+  completionTokens: z.number().int().nonnegative().optional(),
+  totalDurationMs: z.number().nonnegative().optional(),
+  /** Time spent loading the model into memory; large on a cold start */
+  loadDurationMs: z.number().nonnegative().optional(),
+  promptDurationMs: z.number().nonnegative().optional(),
+  evalDurationMs: z.number().nonnegative().optional(),
+  /** Generated tokens per second of evaluation time */
+  tokensPerSecond: z.number().nonnegative().optional(),
+});
+export type GenerationMetrics = z.infer<typeof GenerationMetrics>;
+
+export const OllamaChatResult = z.object({
+  content: z.string(),
+  metrics: GenerationMetrics.optional(),
+});
+export type OllamaChatResult = z.infer<typeof OllamaChatResult>;
+
+/** Streamed piece of a reply; the final chunk carries the metrics */
+export const OllamaChatChunk = z.object({
+  content: z.string(),
+  metrics: GenerationMetrics.optional(),
+});
+export type OllamaChatChunk = z.infer<typeof OllamaChatChunk>;
+
+/**
+ * Sum metrics of several generations, e.g. the segments of one translation
+ */
+export function combineGenerationMetrics(
+  metrics: (GenerationMetrics | undefined)[],
+): GenerationMetrics | undefined {
+  const reported = metrics.filter((m): m is GenerationMetrics => !!m);
+  if (reported.length === 0) return undefined;
+
+  const sum = (
+    key: Exclude<keyof GenerationMetrics, "tokensPerSecond">,
+  ): number | undefined =>
+    reported.some((m) => m[key] !== undefined)
+      ? reported.reduce((total, m) => total + (m[key] ?? 0), 0)
+      : undefined;
+
+  const combined: GenerationMetrics = {
+    promptTokens: sum("promptTokens"),
+    completionTokens: sum("completionTokens"),
+    totalDurationMs: sum("totalDurationMs"),
+    loadDurationMs: sum("loadDurationMs"),
+    promptDurationMs: sum("promptDurationMs"),
+    evalDurationMs: sum("evalDurationMs"),
+  };
+  return { ...combined, tokensPerSecond: getTokensPerSecond(combined) };
+}
+
+export function getTokensPerSecond(
+  metrics: Pick<GenerationMetrics, "completionTokens" | "evalDurationMs">,
+): number | undefined {
+  const { completionTokens, evalDurationMs } = metrics;
+  if (completionTokens === undefined || !evalDurationMs) return undefined;
+  return completionTokens / (evalDurationMs / 1000);
+}
+
 export const OllamaErrorResponse = z.object({
   error: z.string(),
 });
@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { SupportedLanguage } from "./translation.js";
+
+/** Post-edits are only stored once the user enables it */
+export const PostEditSettings = z.object({
+  enabled: z.boolean().default(false),
+  /** Also store each post-edited segment pair in the translation memory */
+  addToTranslationMemory: z.boolean().default(false),
+});
+export type PostEditSettings = z.infer<typeof PostEditSettings>;
+
+/** Settings to change; omitted fields keep their value */
+export const PostEditSettingsUpdate = z
+  .object({
+    enabled: z.boolean(),
+    addToTranslationMemory: z.boolean(),
+  })
+  .partial();
+export type PostEditSettingsUpdate = z.infer<typeof PostEditSettingsUpdate>;
+
+/** A machine translation and the version the user corrected it to */
+export const PostEdit = z.object({
+  id: z.string().min(1),
+  sourceLanguage: SupportedLanguage,
+  targetLanguage: SupportedLanguage,
+  modelName: z.string().min(1),
+  sourceText: z.string().trim().min(1),
+  machineText: z.string().trim().min(1),
+  editedText: z.string().trim().min(1),
+  /** Share of the machine translation the user changed, 0 to 100 */
+  editPercent: z.number().int().min(0).max(100),
+  createdAt: z.string().datetime(),
+});
+export type PostEdit = z.infer<typeof PostEdit>;
+
+export const PostEditInput = PostEdit.omit({
+  id: true,
+  editPercent: true,
+  createdAt: true,
+});
+export type PostEditInput = z.input<typeof PostEditInput>;
+
+export const ModelPostEditStatistics = z.object({
+  modelName: z.string(),
+  postEdits: z.number().int().nonnegative(),
+  averageEditPercent: z.number().min(0).max(100),
+});
+export type ModelPostEditStatistics = z.infer<typeof ModelPostEditStatistics>;
+
+/** How much the stored machine translations needed correcting */
+export const PostEditStatistics = z.object({
+  postEdits: z.number().int().nonnegative(),
+  averageEditPercent: z.number().min(0).max(100),
+  /** Models with the fewest corrections first */
+  models: z.array(ModelPostEditStatistics),
+});
+export type PostEditStatistics = z.infer<typeof PostEditStatistics>;
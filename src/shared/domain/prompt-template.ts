@@ -0,0 +1,134 @@
+import { z } from "zod";
+import { LANGUAGE_CODES } from "./language-registry.js";
+
+/**
+ * Variables available in prompt templates.
+ * `{{name}}` inserts a value; `{{#name}}...{{/name}}` keeps the enclosed
+ * text only when the value is not empty.
+ */
+export const PROMPT_TEMPLATE_VARIABLES = [
+  "sourceLanguage",
+  "targetLanguage",
+  "sourceLanguageCode",
+  "targetLanguageCode",
+  "text",
+  "context",
+  "glossary",
+  "translationMemory",
+  "formality",
+  "domain",
+  "placeholders",
+] as const;
+
+export type PromptTemplateVariable = (typeof PROMPT_TEMPLATE_VARIABLES)[number];
+
+export type PromptTemplateVariables = Record<PromptTemplateVariable, string>;
+
+export const DEFAULT_PROMPT_TEMPLATE_ID = "default";
+
+export const PromptTemplate = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  systemPrompt: z.string(),
+  userPrompt: z.string().min(1),
+  /** Incremented on every change so responses can be traced to a revision */
+  version: z.number().int().positive(),
+  /** Built-in templates can be edited and reset, but not deleted */
+  isBuiltIn: z.boolean().default(false),
+  updatedAt: z.string().datetime(),
+});
+export type PromptTemplate = z.infer<typeof PromptTemplate>;
+
+export const PromptTemplateInput = z.object({
+  name: z.string().trim().min(1),
+  systemPrompt: z.string(),
+  userPrompt: z.string().min(1),
+});
+export type PromptTemplateInput = z.infer<typeof PromptTemplateInput>;
+
+/** Template revision used for a translation */
+export const PromptTemplateRef = z.object({
+  id: z.string(),
+  name: z.string(),
+  version: z.number().int().positive(),
+});
+export type PromptTemplateRef = z.infer<typeof PromptTemplateRef>;
+
+export const PromptTemplateSettings = z.object({
+  templates: z.array(PromptTemplate).default([]),
+  defaultTemplateId: z.string().default(DEFAULT_PROMPT_TEMPLATE_ID),
+  /** Template id per model name */
+  modelTemplates: z.record(z.string(), z.string()).default({}),
+  /** Template id per language pair, keyed by `getLanguagePairKey` */
+  languagePairTemplates: z.record(z.string(), z.string()).default({}),
+});
+export type PromptTemplateSettings = z.infer<typeof PromptTemplateSettings>;
+
+/** Where a template is assigned; a language pair wins over a model */
+export const PromptTemplateScope = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("default") }),
+  z.object({ type: z.literal("model"), modelName: z.string().min(1) }),
+  z.object({
+    type: z.literal("languagePair"),
+    sourceLanguage: z.enum(LANGUAGE_CODES),
+    targetLanguage: z.enum(LANGUAGE_CODES),
+  }),
+]);
+export type PromptTemplateScope = z.infer<typeof PromptTemplateScope>;
+
+export function getLanguagePairKey(
+  sourceLanguage: string,
+  targetLanguage: string,
+): string {
+  return `${sourceLanguage}>${targetLanguage}`;
+}
+
+export const DEFAULT_PROMPT_TEMPLATE: Omit<PromptTemplate, "updatedAt"> = {
+  id: DEFAULT_PROMPT_TEMPLATE_ID,
+  name: "Default",
+  systemPrompt:
+    "You are a professional translator. Translate the given text accurately and naturally. Return only the translated text without any explanations or additional content.",
+  userPrompt: `{{#glossary}}{{glossary}}
+
+{{/glossary}}{{#translationMemory}}{{translationMemory}}
+
+{{/translationMemory}}{{#context}}Context: {{context}}
+
+{{/context}}{{#formality}}{{formality}}
+
+{{/formality}}{{#domain}}{{domain}}
+
+{{/domain}}{{#placeholders}}{{placeholders}}
+
+{{/placeholders}}Translate the following {{sourceLanguage}} text to {{targetLanguage}}:
+
+{{text}}`,
+  /** Bump whenever the text above changes: caches and history key on it */
+  version: 4,
+  isBuiltIn: true,
+};
+
+/**
+ * Fill a template with variable values.
+ * Unknown variables are left untouched so typos stay visible in previews.
+ */
+export function renderPromptTemplate(
+  template: string,
+  variables: Partial<PromptTemplateVariables>,
+): string {
+  const value = (name: string): string | undefined =>
+    (PROMPT_TEMPLATE_VARIABLES as readonly string[]).includes(name)
+      ? (variables[name as PromptTemplateVariable] ?? "")
+      : undefined;
+
+  return template
+    .replace(
+      /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g,
+      (section, name: string, body: string) => {
+        const content = value(name);
+        if (content === undefined) return section;
+        return content.trim() ? body : "";
+      },
+    )
+    .replace(/\{\{(\w+)\}\}/g, (match, name: string) => value(name) ?? match);
+}
@@ -0,0 +1,92 @@
+import { z } from "zod";
+import {
+  Formality,
+  SupportedLanguage,
+  TranslationDomain,
+} from "./translation.js";
+
+export const SubtitleFormat = z.enum(["srt", "vtt"]);
+export type SubtitleFormat = z.infer<typeof SubtitleFormat>;
+
+/** Common broadcast limits; CJK subtitles usually need fewer characters */
+export const DEFAULT_SUBTITLE_LINE_LENGTH = 42;
+export const DEFAULT_SUBTITLE_LINES_PER_CUE = 2;
+
+export const SubtitleTranslationRequest = z.object({
+  /** SRT or WebVTT file content */
+  content: z.string().min(1),
+  /** Detected from the content when omitted */
+  format: SubtitleFormat.optional(),
+  sourceLanguage: SupportedLanguage,
+  targetLanguage: SupportedLanguage,
+  modelName: z.string().optional(),
+  /** Extra information about the video, e.g. its topic or speakers */
+  context: z.string().optional(),
+  formality: Formality.optional(),
+  domain: TranslationDomain.optional(),
+  /** Characters per line, not counting styling tags */
+  maxLineLength: z
+    .number()
+    .int()
+    .min(10)
+    .max(200)
+    .default(DEFAULT_SUBTITLE_LINE_LENGTH),
+  maxLinesPerCue: z
+    .number()
+    .int()
+    .min(1)
+    .max(5)
+    .default(DEFAULT_SUBTITLE_LINES_PER_CUE),
+});
+export type SubtitleTranslationRequest = z.infer<
+  typeof SubtitleTranslationRequest
+>;
+/** Request as sent by callers, with the line limits optional */
+export type SubtitleTranslationRequestInput = z.input<
+  typeof SubtitleTranslationRequest
+>;
+
+export const SubtitleCueIssueReason = z.enum([
+  /** The translation needs more lines than allowed even after rewrapping */
+  "too_long",
+  /** Styling tags of the cue were lost or duplicated */
+  "tags_changed",
+  /** The model could not translate the cue; its source text is kept */
+  "translation_failed",
+]);
+export type SubtitleCueIssueReason = z.infer<typeof SubtitleCueIssueReason>;
+
+export const SubtitleCueIssue = z.object({
+  /** Position of the cue in the file, from 1 */
+  cue: z.number().int().positive(),
+  /** Timing line of the cue, to find it in a player */
+  timing: z.string(),
+  reason: SubtitleCueIssueReason,
+  error: z.string().optional(),
+});
+export type SubtitleCueIssue = z.infer<typeof SubtitleCueIssue>;
+
+export const SubtitleTranslationResult = z.object({
+  /** The translated subtitle file */
+  content: z.string(),
+  format: SubtitleFormat,
+  totalCues: z.number().int().nonnegative(),
+  translatedCues: z.number().int().nonnegative(),
+  issues: z.array(SubtitleCueIssue),
+});
+export type SubtitleTranslationResult = z.infer<
+  typeof SubtitleTranslationResult
+>;
+
+export const SubtitleTranslationEvent = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("progress"),
+    completedCues: z.number().int().nonnegative(),
+    totalCues: z.number().int().nonnegative(),
+  }),
+  z.object({
+    type: z.literal("done"),
+    result: SubtitleTranslationResult,
+  }),
+]);
+export type SubtitleTranslationEvent = z.infer<typeof SubtitleTranslationEvent>;
@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { TranslationResponse } from "./translation.js";
+
+/** The cache stays off until the user enables it; nothing is kept by default */
+export const TranslationCacheSettings = z.object({
+  enabled: z.boolean().default(false),
+  /** Keep cached translations on disk across restarts */
+  persist: z.boolean().default(false),
+  /** Least recently used entries are evicted beyond this count */
+  maxEntries: z.number().int().min(1).max(10000).default(500),
+});
+export type TranslationCacheSettings = z.infer<typeof TranslationCacheSettings>;
+
+/** Settings to change; omitted fields keep their value */
+export const TranslationCacheSettingsUpdate = z
+  .object({
+    enabled: z.boolean(),
+    persist: z.boolean(),
+    maxEntries: z.number().int().min(1).max(10000),
+  })
+  .partial();
+export type TranslationCacheSettingsUpdate = z.infer<
+  typeof TranslationCacheSettingsUpdate
+>;
+
+export const TranslationCacheEntry = z.object({
+  /** SHA-256 of everything that influences the translation */
+  key: z.string().min(1),
+  response: TranslationResponse,
+  createdAt: z.string().datetime(),
+  lastUsedAt: z.string().datetime(),
+});
+export type TranslationCacheEntry = z.infer<typeof TranslationCacheEntry>;
+
+export const TranslationCacheStats = TranslationCacheSettings.extend({
+  entries: z.number().int().nonnegative(),
+  /** Lookups served from the cache since startup */
+  hits: z.number().int().nonnegative(),
+  misses: z.number().int().nonnegative(),
+});
+export type TranslationCacheStats = z.infer<typeof TranslationCacheStats>;
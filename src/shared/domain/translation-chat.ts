@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { GenerationMetrics, OllamaChatMessage } from "./ollama.js";
+import { SupportedLanguage } from "./translation.js";
+
+/** A question or an answer of a conversation about a translation */
+export const TranslationChatTurn = OllamaChatMessage.extend({
+  role: z.enum(["user", "assistant"]),
+});
+export type TranslationChatTurn = z.infer<typeof TranslationChatTurn>;
+
+export const TranslationChatRequest = z.object({
+  sourceText: z.string().trim().min(1),
+  /** The translation as currently shown, including the user's corrections */
+  translatedText: z.string().trim().min(1),
+  sourceLanguage: SupportedLanguage,
+  targetLanguage: SupportedLanguage,
+  /** The model that made the translation */
+  modelName: z.string().min(1),
+  /** Earlier turns of the conversation, oldest first */
+  history: z.array(TranslationChatTurn).default([]),
+  message: z.string().trim().min(1),
+});
+export type TranslationChatRequest = z.input<typeof TranslationChatRequest>;
+
+export const TranslationChatReply = z.object({
+  /** The reply as the model wrote it, to send back as history */
+  content: z.string(),
+  /** Complete revised translation proposed in the reply, if any */
+  revisedTranslation: z.string().optional(),
+  metrics: GenerationMetrics.optional(),
+});
+export type TranslationChatReply = z.infer<typeof TranslationChatReply>;
+
+export const TranslationChatEvent = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("delta"),
+    delta: z.string(),
+  }),
+  z.object({
+    type: z.literal("done"),
+    reply: TranslationChatReply,
+  }),
+]);
+export type TranslationChatEvent = z.infer<typeof TranslationChatEvent>;
+
+/** Models are asked to wrap a revised translation in these tags */
+export const REVISED_TRANSLATION_OPEN_TAG = "<translation>";
+export const REVISED_TRANSLATION_CLOSE_TAG = "</translation>";
+
+/** Remove the revision tags, keeping what they enclose */
+function stripRevisionTags(text: string): string {
+  return text
+    .split(REVISED_TRANSLATION_OPEN_TAG)
+    .join("")
+    .split(REVISED_TRANSLATION_CLOSE_TAG)
+    .join("");
+}
+
+/**
+ * Split a chat reply into the explanation to show and the revised
+ * translation it proposes. The last tagged block is the revision; an
+ * unclosed block (e.g. while the reply streams in) runs to the end.
+ */
+export function parseChatReply(content: string): {
+  text: string;
+  revisedTranslation?: string;
+} {
+  const start = content.lastIndexOf(REVISED_TRANSLATION_OPEN_TAG);
+  if (start < 0) return { text: stripRevisionTags(content).trim() };
+
+  const body = content.slice(start + REVISED_TRANSLATION_OPEN_TAG.length);
+  const end = body.indexOf(REVISED_TRANSLATION_CLOSE_TAG);
+  const revisedTranslation = (end < 0 ? body : body.slice(0, end)).trim();
+  const rest =
+    end < 0 ? "" : body.slice(end + REVISED_TRANSLATION_CLOSE_TAG.length);
+  const text = stripRevisionTags(
+    `${content.slice(0, start).trimEnd()}\n\n${rest.trimStart()}`,
+  ).trim();
+
+  return revisedTranslation ? { text, revisedTranslation } : { text };
+}
@@ -0,0 +1,45 @@
+import { z } from "zod";
+import {
+  SupportedLanguage,
+  TranslationRequest,
+  TranslationResponse,
+} from "./translation.js";
+
+/** History is off until the user enables it; nothing is recorded by default */
+export const HistorySettings = z.object({
+  enabled: z.boolean().default(false),
+  /** Entries older than this are removed; null keeps them indefinitely */
+  maxAgeDays: z.number().int().min(1).max(3650).nullable().default(30),
+  /** Oldest entries are removed beyond this count */
+  maxItems: z.number().int().min(1).max(10000).default(100),
+});
+export type HistorySettings = z.infer<typeof HistorySettings>;
+
+/** Settings to change; omitted fields keep their value */
+export const HistorySettingsUpdate = z
+  .object({
+    enabled: z.boolean(),
+    maxAgeDays: z.number().int().min(1).max(3650).nullable(),
+    maxItems: z.number().int().min(1).max(10000),
+  })
+  .partial();
+export type HistorySettingsUpdate = z.infer<typeof HistorySettingsUpdate>;
+
+export const HistoryEntry = z.object({
+  id: z.string().min(1),
+  request: TranslationRequest,
+  response: TranslationResponse,
+  createdAt: z.string().datetime(),
+});
+export type HistoryEntry = z.infer<typeof HistoryEntry>;
+
+export const HistoryQuery = z.object({
+  /** Words that must all appear in the source or the translation */
+  text: z.string().optional(),
+  /** Matches the detected language for automatic source detection */
+  sourceLanguage: SupportedLanguage.optional(),
+  targetLanguage: SupportedLanguage.optional(),
+  modelName: z.string().optional(),
+  limit: z.number().int().min(1).max(1000).default(100),
+});
+export type HistoryQuery = z.input<typeof HistoryQuery>;
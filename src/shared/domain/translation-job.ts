@@ -0,0 +1,38 @@
+import { z } from "zod";
+import {
+  SourceLanguage,
+  SupportedLanguage,
+  TranslationJobPriority,
+} from "./translation.js";
+
+/** Jobs running against Ollama at the same time; further jobs wait in a queue */
+export const MAX_CONCURRENT_TRANSLATION_JOBS = 2;
+
+export const TranslationJobKind = z.enum(["translate", "stream", "compare"]);
+export type TranslationJobKind = z.infer<typeof TranslationJobKind>;
+
+export const TranslationJobStatus = z.enum([
+  "queued",
+  "running",
+  "completed",
+  "failed",
+  "cancelled",
+]);
+export type TranslationJobStatus = z.infer<typeof TranslationJobStatus>;
+
+export const TranslationJob = z.object({
+  id: z.string().min(1),
+  kind: TranslationJobKind,
+  status: TranslationJobStatus,
+  priority: TranslationJobPriority,
+  sourceLanguage: SourceLanguage,
+  targetLanguage: SupportedLanguage,
+  /** Beginning of the source text, for telling jobs apart */
+  textPreview: z.string(),
+  createdAt: z.string().datetime(),
+  startedAt: z.string().datetime().optional(),
+  finishedAt: z.string().datetime().optional(),
+  /** Present when the job failed */
+  error: z.string().optional(),
+});
+export type TranslationJob = z.infer<typeof TranslationJob>;
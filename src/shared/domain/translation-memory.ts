@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { SupportedLanguage } from "./translation.js";
+
+/** Reported as the model of translations reused from the memory */
+export const TRANSLATION_MEMORY_MODEL = "translation-memory";
+
+/** Fuzzy matches below this are too different to help the model */
+export const MIN_FUZZY_MATCH_PERCENT = 70;
+
+/** Fuzzy matches passed to the model as references */
+export const MAX_TRANSLATION_MEMORY_REFERENCES = 3;
+
+/** A human-approved segment pair */
+export const TranslationMemoryEntry = z.object({
+  id: z.string().min(1),
+  sourceLanguage: SupportedLanguage,
+  targetLanguage: SupportedLanguage,
+  sourceText: z.string().trim().min(1),
+  targetText: z.string().trim().min(1),
+  note: z.string().optional(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+export type TranslationMemoryEntry = z.infer<typeof TranslationMemoryEntry>;
+
+export const TranslationMemoryEntryInput = TranslationMemoryEntry.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export type TranslationMemoryEntryInput = z.input<
+  typeof TranslationMemoryEntryInput
+>;
+
+/** Memories are kept per concrete language pair (no auto-detect) */
+export const TranslationMemoryLanguagePair = z.object({
+  sourceLanguage: SupportedLanguage,
+  targetLanguage: SupportedLanguage,
+});
+export type TranslationMemoryLanguagePair = z.infer<
+  typeof TranslationMemoryLanguagePair
+>;
+
+export const TranslationMemoryImportMode = z.enum(["merge", "replace"]);
+export type TranslationMemoryImportMode = z.infer<
+  typeof TranslationMemoryImportMode
+>;
+
+export const TranslationMemoryImportResult = z.object({
+  imported: z.number().int().nonnegative(),
+  updated: z.number().int().nonnegative(),
+  skipped: z.number().int().nonnegative(),
+});
+export type TranslationMemoryImportResult = z.infer<
+  typeof TranslationMemoryImportResult
+>;
@@ -1,20 +1,13 @@
 import { z } from "zod";
+import type { TextDirection } from "./language-registry.js";
+import { LANGUAGE_CODES, LANGUAGE_REGISTRY } from "./language-registry.js";
+import { GenerationMetrics } from "./ollama.js";
+import { getLanguagePairKey, PromptTemplateRef } from "./prompt-template.js";
 
-export const SupportedLanguage = z.enum(["ja", "en"]);
+export const SupportedLanguage = z.enum(LANGUAGE_CODES);
 export type SupportedLanguage = z.infer<typeof SupportedLanguage>;
 
-export const LANGUAGE_CONFIG = {
-  ja: {
-    code: "ja" as const,
-    name: "Japanese",
-    displayName: "Japanese",
-  },
-  en: {
-    code: "en" as const,
-    name: "English",
-    displayName: "English",
-  },
-} as const;
+export const LANGUAGE_CONFIG = LANGUAGE_REGISTRY;
 
 export type LanguageInfo = (typeof LANGUAGE_CONFIG)[SupportedLanguage];
 
@@ -25,26 +18,200 @@ export function getLanguageName(languageCode: SupportedLanguage): string {
 export function getLanguageDisplayName(
   languageCode: SupportedLanguage,
 ): string {
-  return LANGUAGE_CONFIG[languageCode].displayName;
+  return LANGUAGE_CONFIG[languageCode].name;
+}
+
+export function getLanguageNativeName(languageCode: SupportedLanguage): string {
+  return LANGUAGE_CONFIG[languageCode].nativeName;
+}
+
+export function getLanguageDirection(
+  languageCode: SupportedLanguage,
+): TextDirection {
+  return LANGUAGE_CONFIG[languageCode].direction;
 }
 
+/** Source language value asking the main process to detect the language */
+export const AUTO_DETECT_LANGUAGE = "auto" as const;
+
+export const SourceLanguage = z.union([
+  z.literal(AUTO_DETECT_LANGUAGE),
+  SupportedLanguage,
+]);
+export type SourceLanguage = z.infer<typeof SourceLanguage>;
+
+export const LanguageDetectionResult = z.object({
+  language: SupportedLanguage,
+  confidence: z.number().min(0).max(1),
+  isReliable: z.boolean(),
+  method: z.enum(["script", "ngram", "fallback"]),
+});
+export type LanguageDetectionResult = z.infer<typeof LanguageDetectionResult>;
+
+export const LanguagePair = z.object({
+  sourceLanguage: SourceLanguage,
+  targetLanguage: SupportedLanguage,
+});
+export type LanguagePair = z.infer<typeof LanguagePair>;
+
+/**
+ * Register of the translation. For Japanese these map to plain form,
+ * です/ます and full keigo; for other languages to casual, neutral-polite
+ * and business tone. Unset leaves the choice to the model.
+ */
+export const Formality = z.enum(["casual", "polite", "formal"]);
+export type Formality = z.infer<typeof Formality>;
+
+/** Subject area of the text, steering terminology and style */
+export const TranslationDomain = z.enum([
+  "general",
+  "legal",
+  "technical",
+  "marketing",
+  "chat",
+]);
+export type TranslationDomain = z.infer<typeof TranslationDomain>;
+
+export const TranslationStyle = z.object({
+  formality: Formality.optional(),
+  domain: TranslationDomain.optional(),
+});
+export type TranslationStyle = z.infer<typeof TranslationStyle>;
+
+/** Queued translation jobs start in priority order, then first come first served */
+export const TranslationJobPriority = z.enum(["low", "normal", "high"]);
+export type TranslationJobPriority = z.infer<typeof TranslationJobPriority>;
+
+/** Upper bound for candidates per request; each one is a full model run */
+export const MAX_TRANSLATION_CANDIDATES = 5;
+
 export const TranslationRequest = z.object({
   text: z.string().min(1),
-  sourceLanguage: SupportedLanguage,
+  sourceLanguage: SourceLanguage,
   targetLanguage: SupportedLanguage,
+  /**
+   * Language assumed when "auto" finds nothing to go by, typically the one
+   * detected last
+   */
+  fallbackLanguage: SupportedLanguage.optional(),
   modelName: z.string().optional(),
+  /** Extra information for the translator, available as {{context}} */
+  context: z.string().optional(),
+  formality: Formality.optional(),
+  domain: TranslationDomain.optional(),
+  /** Number of candidate translations, including the main one */
+  candidateCount: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_TRANSLATION_CANDIDATES)
+    .optional(),
+  /** Translate the result back to the source language to check its meaning */
+  backTranslate: z.boolean().optional(),
+  /**
+   * Translate sentence by sentence and report which part of the
+   * translation renders which source sentence
+   */
+  alignSentences: z.boolean().optional(),
+  /** Caller-chosen ID to follow or cancel the job; generated when omitted */
+  jobId: z.string().min(1).max(100).optional(),
+  priority: TranslationJobPriority.optional(),
 });
 export type TranslationRequest = z.infer<typeof TranslationRequest>;
 
+/** Required glossary term that does not appear in a translation */
+export const MissingGlossaryTerm = z.object({
+  entryId: z.string(),
+  sourceTerm: z.string(),
+  expectedTerm: z.string(),
+});
+export type MissingGlossaryTerm = z.infer<typeof MissingGlossaryTerm>;
+
+/** Translation memory entry whose source resembles the text to translate */
+export const TranslationMemoryMatch = z.object({
+  entryId: z.string(),
+  sourceText: z.string(),
+  targetText: z.string(),
+  /** Edit-distance similarity of the sources; 100 is an exact match */
+  matchPercent: z.number().int().min(0).max(100),
+});
+export type TranslationMemoryMatch = z.infer<typeof TranslationMemoryMatch>;
+
+/** Character range of a text, end exclusive, in UTF-16 code units */
+export const TextRange = z.object({
+  start: z.number().int().nonnegative(),
+  end: z.number().int().nonnegative(),
+});
+export type TextRange = z.infer<typeof TextRange>;
+
+/** A source sentence and the part of the translation that renders it */
+export const SentenceAlignment = z.object({
+  source: TextRange,
+  target: TextRange,
+});
+export type SentenceAlignment = z.infer<typeof SentenceAlignment>;
+
+/** Round-trip scores below this suggest the meaning was not preserved */
+export const BACK_TRANSLATION_WARNING_THRESHOLD = 0.5;
+
+export const BackTranslation = z.object({
+  /** The translation rendered back into the source language */
+  text: z.string(),
+  /** chrF similarity between the back-translation and the source, 0 to 1 */
+  score: z.number().min(0).max(1),
+});
+export type BackTranslation = z.infer<typeof BackTranslation>;
+
 export const TranslationResponse = z.object({
   translatedText: z.string(),
   sourceLanguage: SupportedLanguage,
   targetLanguage: SupportedLanguage,
   modelUsed: z.string(),
   timestamp: z.string().datetime(),
+  /** Present when the source language was detected automatically */
+  detectedLanguage: LanguageDetectionResult.optional(),
+  /** Present when glossary terms applied to the source text */
+  missingGlossaryTerms: z.array(MissingGlossaryTerm).optional(),
+  /** Protected code, markup or URLs the model dropped from the translation */
+  missingProtectedSpans: z.array(z.string()).optional(),
+  /** Prompt template revision the translation was generated with */
+  promptTemplate: PromptTemplateRef.optional(),
+  /** Set when the translation was served from the translation cache */
+  fromCache: z.boolean().optional(),
+  /**
+   * Translation memory matches, best first. An exact match is the
+   * translation itself; fuzzy matches were given to the model as references.
+   */
+  translationMemoryMatches: z.array(TranslationMemoryMatch).optional(),
+  /** Sentence pairs in document order, when alignment was requested */
+  alignment: z.array(SentenceAlignment).optional(),
+  /** Other distinct renderings, present when several candidates were requested */
+  alternatives: z.array(z.string()).optional(),
+  /** Present when a round-trip check was requested */
+  backTranslation: BackTranslation.optional(),
+  /** Tokens and timings of the main translation, summed over its segments */
+  metrics: GenerationMetrics.optional(),
 });
 export type TranslationResponse = z.infer<typeof TranslationResponse>;
 
+export const TranslationStreamEvent = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("delta"),
+    delta: z.string(),
+  }),
+  /** Sent for long inputs that are translated in several segments */
+  z.object({
+    type: z.literal("progress"),
+    completedSegments: z.number().int().nonnegative(),
+    totalSegments: z.number().int().positive(),
+  }),
+  z.object({
+    type: z.literal("done"),
+    response: TranslationResponse,
+  }),
+]);
+export type TranslationStreamEvent = z.infer<typeof TranslationStreamEvent>;
+
 export const TranslationModel = z.object({
   name: z.string().min(1),
   isDefault: z.boolean().default(false),
@@ -56,15 +223,87 @@ export type TranslationModel = z.infer<typeof TranslationModel>;
 export const TranslationSettings = z.object({
   defaultModel: z.string().optional(),
   models: z.array(TranslationModel).default([]),
+  /** Language pair used most recently, restored on startup */
+  lastLanguagePair: LanguagePair.optional(),
+  /** Last target language chosen for each source language */
+  preferredTargetLanguages: z
+    .partialRecord(SupportedLanguage, SupportedLanguage)
+    .default({}),
+  /** Formality and domain last chosen for each language pair */
+  stylePreferences: z.record(z.string(), TranslationStyle).default({}),
+  /** Model preferred for each language pair, e.g. the winner of a comparison */
+  languagePairModels: z.record(z.string(), z.string()).default({}),
 });
 export type TranslationSettings = z.infer<typeof TranslationSettings>;
 
+/** Formality and domain remembered for a language pair */
+export function getStylePreference(
+  settings: Pick<TranslationSettings, "stylePreferences"> | null | undefined,
+  sourceLanguage: SourceLanguage,
+  targetLanguage: SupportedLanguage,
+): TranslationStyle {
+  return (
+    settings?.stylePreferences[
+      getLanguagePairKey(sourceLanguage, targetLanguage)
+    ] ?? {}
+  );
+}
+
+/** Model remembered for a language pair, if any */
+export function getLanguagePairModel(
+  settings: Pick<TranslationSettings, "languagePairModels"> | null | undefined,
+  sourceLanguage: SourceLanguage,
+  targetLanguage: SupportedLanguage,
+): string | undefined {
+  return settings?.languagePairModels[
+    getLanguagePairKey(sourceLanguage, targetLanguage)
+  ];
+}
+
+/** Comparing more models at once takes too long on local hardware */
+export const MAX_COMPARED_MODELS = 5;
+
+export const ModelComparisonRequest = TranslationRequest.pick({
+  text: true,
+  sourceLanguage: true,
+  targetLanguage: true,
+  fallbackLanguage: true,
+  context: true,
+  formality: true,
+  domain: true,
+  jobId: true,
+  priority: true,
+}).extend({
+  modelNames: z.array(z.string().min(1)).min(2).max(MAX_COMPARED_MODELS),
+});
+export type ModelComparisonRequest = z.infer<typeof ModelComparisonRequest>;
+
+/** Outcome for one model; a failing model does not fail the comparison */
+export const ModelComparisonResult = z.object({
+  modelName: z.string(),
+  translatedText: z.string().optional(),
+  error: z.string().optional(),
+  /** Wall-clock time including model loading, in milliseconds */
+  latencyMs: z.number().nonnegative(),
+  metrics: GenerationMetrics.optional(),
+});
+export type ModelComparisonResult = z.infer<typeof ModelComparisonResult>;
+
+export const ModelComparison = z.object({
+  sourceLanguage: SupportedLanguage,
+  targetLanguage: SupportedLanguage,
+  detectedLanguage: LanguageDetectionResult.optional(),
+  results: z.array(ModelComparisonResult),
+});
+export type ModelComparison = z.infer<typeof ModelComparison>;
+
 export const TranslationError = z.object({
   code: z.enum([
     "OLLAMA_NOT_RUNNING",
     "MODEL_NOT_FOUND",
     "NETWORK_ERROR",
     "TRANSLATION_FAILED",
+    "TRANSLATION_CANCELLED",
   ]),
   message: z.string(),
   details: z.string().optional(),
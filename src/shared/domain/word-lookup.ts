@@ -0,0 +1,37 @@
+import { z } from "zod";
+import { SupportedLanguage } from "./translation.js";
+
+/** Longer selections are phrases to translate, not words to look up */
+export const MAX_LOOKUP_LENGTH = 80;
+
+export const WordLookupRequest = z.object({
+  /** The selected word or phrase */
+  text: z.string().trim().min(1).max(MAX_LOOKUP_LENGTH),
+  /** Sentence the selection appears in, to pick the right sense */
+  context: z.string().trim().max(1000).optional(),
+  /** Language of the selected text */
+  sourceLanguage: SupportedLanguage,
+  /** Language to give translations and explanations in */
+  targetLanguage: SupportedLanguage,
+  modelName: z.string().min(1),
+});
+export type WordLookupRequest = z.input<typeof WordLookupRequest>;
+
+export const WordLookupExample = z.object({
+  sentence: z.string().min(1),
+  translation: z.string().min(1),
+});
+export type WordLookupExample = z.infer<typeof WordLookupExample>;
+
+/** Dictionary-style entry the model is asked to fill in */
+export const WordLookup = z.object({
+  /** Dictionary form of the selection */
+  headword: z.string().min(1),
+  /** Furigana for Japanese, pinyin for Chinese, otherwise pronunciation */
+  reading: z.string().optional(),
+  partOfSpeech: z.string().optional(),
+  /** Translations of the selection, most fitting first */
+  translations: z.array(z.string().min(1)).min(1),
+  examples: z.array(WordLookupExample).default([]),
+});
+export type WordLookup = z.infer<typeof WordLookup>;
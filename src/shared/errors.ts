@@ -62,3 +62,15 @@ export class InternalError extends AppError {
     Object.setPrototypeOf(this, InternalError.prototype);
   }
 }
+
+/**
+ * Message of a thrown value.
+ * Ollama failures arrive as plain { message, details } objects.
+ */
+export function describeError(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === "object" && error !== null && "message" in error) {
+    return String(error.message);
+  }
+  return String(error);
+}
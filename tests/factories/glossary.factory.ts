@@ -0,0 +1,16 @@
+import type { GlossaryEntry } from "#shared/domain/glossary.js";
+
+export const createGlossaryEntry = (
+  overrides: Partial<GlossaryEntry> = {},
+): GlossaryEntry => ({
+  id: "entry-1",
+  sourceLanguage: "en",
+  targetLanguage: "ja",
+  sourceTerm: "Workspace",
+  targetTerm: "ワークスペース",
+  caseSensitive: false,
+  doNotTranslate: false,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
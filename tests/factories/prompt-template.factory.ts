@@ -0,0 +1,23 @@
+import type {
+  PromptTemplate,
+  PromptTemplateSettings,
+} from "#shared/domain/prompt-template.js";
+import { DEFAULT_PROMPT_TEMPLATE } from "#shared/domain/prompt-template.js";
+
+export const createPromptTemplate = (
+  overrides: Partial<PromptTemplate> = {},
+): PromptTemplate => ({
+  ...DEFAULT_PROMPT_TEMPLATE,
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+export const createPromptTemplateSettings = (
+  overrides: Partial<PromptTemplateSettings> = {},
+): PromptTemplateSettings => ({
+  templates: [createPromptTemplate()],
+  defaultTemplateId: DEFAULT_PROMPT_TEMPLATE.id,
+  modelTemplates: {},
+  languagePairTemplates: {},
+  ...overrides,
+});
@@ -0,0 +1,14 @@
+import type { TranslationMemoryEntry } from "#shared/domain/translation-memory.js";
+
+export const createTranslationMemoryEntry = (
+  overrides: Partial<TranslationMemoryEntry> = {},
+): TranslationMemoryEntry => ({
+  id: "tm-1",
+  sourceLanguage: "en",
+  targetLanguage: "de",
+  sourceText: "Save the file before closing.",
+  targetText: "Speichern Sie die Datei vor dem Schließen.",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  ...overrides,
+});
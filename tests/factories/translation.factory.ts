@@ -45,5 +45,8 @@ export const createTranslationSettings = (
     createTranslationModel(),
     createTranslationModel({ name: "llama3:latest", isDefault: false }),
   ],
+  preferredTargetLanguages: {},
+  stylePreferences: {},
+  languagePairModels: {},
   ...overrides,
 });
@@ -20,10 +20,11 @@ export const createMockOllamaService = (): jest.Mocked<OllamaService> =>
       },
     ]),
     modelExists: vi.fn().mockResolvedValue(true),
-    chat: vi.fn().mockResolvedValue("mocked translation"),
+    getContextLength: vi.fn().mockResolvedValue(4096),
+    chat: vi.fn().mockResolvedValue({ content: "mocked translation" }),
     chatStream: vi.fn().mockImplementation(async function* () {
-      yield "mocked";
-      yield " stream";
-      yield " response";
+      yield { content: "mocked" };
+      yield { content: " stream" };
+      yield { content: " response" };
     }),
   }) as unknown as jest.Mocked<OllamaService>;
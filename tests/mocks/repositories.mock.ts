@@ -1,5 +1,7 @@
+import type { PromptTemplateRepository } from "@main/repository/prompt-template-repository.js";
 import type { TranslationSettingsRepository } from "@main/repository/translation-settings-repository.js";
 import { vi } from "vitest";
+import { createPromptTemplateSettings } from "../factories/prompt-template.factory.js";
 import { createTranslationSettings } from "../factories/translation.factory.js";
 
 export const createMockTranslationSettingsRepository =
@@ -12,4 +14,20 @@ export const createMockTranslationSettingsRepository =
       setDefaultModel: vi.fn().mockResolvedValue(createTranslationSettings()),
       getModels: vi.fn().mockResolvedValue([]),
       updateModelUsage: vi.fn().mockResolvedValue(undefined),
+      rememberLanguagePair: vi
+        .fn()
+        .mockResolvedValue(createTranslationSettings()),
+      rememberStyle: vi.fn().mockResolvedValue(createTranslationSettings()),
+      setLanguagePairModel: vi
+        .fn()
+        .mockResolvedValue(createTranslationSettings()),
     }) as unknown as jest.Mocked<TranslationSettingsRepository>;
+
+export const createMockPromptTemplateRepository =
+  (): jest.Mocked<PromptTemplateRepository> =>
+    ({
+      getSettings: vi.fn().mockResolvedValue(createPromptTemplateSettings()),
+      saveSettings: vi
+        .fn()
+        .mockImplementation(async (settings: unknown) => settings),
+    }) as unknown as jest.Mocked<PromptTemplateRepository>;
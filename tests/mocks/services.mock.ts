@@ -1,12 +1,143 @@
+import type { GlossaryService } from "@main/services/glossary-service.js";
+import type { LanguageDetectionService } from "@main/services/language-detection-service.js";
+import type { PostEditService } from "@main/services/post-edit-service.js";
+import type { PromptTemplateService } from "@main/services/prompt-template-service.js";
+import type { TranslationCacheService } from "@main/services/translation-cache-service.js";
+import type { TranslationHistoryService } from "@main/services/translation-history-service.js";
+import type { TranslationMemoryService } from "@main/services/translation-memory-service.js";
 import type { TranslationService } from "@main/services/translation-service.js";
 import { vi } from "vitest";
+import { createGlossaryEntry } from "../factories/glossary.factory.js";
+import {
+  createPromptTemplate,
+  createPromptTemplateSettings,
+} from "../factories/prompt-template.factory.js";
 import { createTranslationResponse } from "../factories/translation.factory.js";
 
 export const createMockTranslationService =
   (): jest.Mocked<TranslationService> =>
     ({
       translate: vi.fn().mockResolvedValue(createTranslationResponse()),
+      translateStream: vi.fn().mockImplementation(async function* () {
+        yield { type: "delta", delta: "こんにちは" };
+        yield { type: "done", response: createTranslationResponse() };
+      }),
       translateText: vi.fn().mockResolvedValue(createTranslationResponse()),
+      compareModels: vi.fn().mockResolvedValue({
+        sourceLanguage: "en",
+        targetLanguage: "ja",
+        results: [],
+      }),
+      detectLanguage: vi.fn().mockReturnValue({
+        language: "en",
+        confidence: 0.9,
+        isReliable: true,
+        method: "ngram",
+      }),
       cancelTranslation: vi.fn().mockReturnValue(false),
       isTranslating: vi.fn().mockReturnValue(false),
     }) as unknown as jest.Mocked<TranslationService>;
+
+export const createMockLanguageDetectionService =
+  (): jest.Mocked<LanguageDetectionService> =>
+    ({
+      detect: vi.fn().mockReturnValue({
+        language: "en",
+        confidence: 0.9,
+        isReliable: true,
+        method: "ngram",
+      }),
+    }) as unknown as jest.Mocked<LanguageDetectionService>;
+
+export const createMockGlossaryService = (): jest.Mocked<GlossaryService> =>
+  ({
+    listEntries: vi.fn().mockResolvedValue([]),
+    createEntry: vi.fn().mockResolvedValue(createGlossaryEntry()),
+    updateEntry: vi.fn().mockResolvedValue(createGlossaryEntry()),
+    deleteEntry: vi.fn().mockResolvedValue(undefined),
+    findMatchingEntries: vi.fn().mockResolvedValue([]),
+    findMissingTerms: vi.fn().mockReturnValue([]),
+    importEntries: vi
+      .fn()
+      .mockResolvedValue({ imported: 0, updated: 0, skipped: 0 }),
+    exportEntries: vi.fn().mockResolvedValue(""),
+  }) as unknown as jest.Mocked<GlossaryService>;
+
+export const createMockPromptTemplateService =
+  (): jest.Mocked<PromptTemplateService> =>
+    ({
+      getSettings: vi.fn().mockResolvedValue(createPromptTemplateSettings()),
+      getTemplate: vi.fn().mockResolvedValue(createPromptTemplate()),
+      createTemplate: vi.fn().mockResolvedValue(createPromptTemplate()),
+      updateTemplate: vi.fn().mockResolvedValue(createPromptTemplate()),
+      deleteTemplate: vi.fn().mockResolvedValue(createPromptTemplateSettings()),
+      resetTemplate: vi.fn().mockResolvedValue(createPromptTemplate()),
+      assignTemplate: vi.fn().mockResolvedValue(createPromptTemplateSettings()),
+      resolveTemplate: vi.fn().mockResolvedValue(createPromptTemplate()),
+      renderMessages: vi
+        .fn()
+        .mockReturnValue([{ role: "user", content: "Hello World" }]),
+      buildPrompt: vi.fn().mockResolvedValue({
+        messages: [{ role: "user", content: "Hello World" }],
+        template: { id: "default", name: "Default", version: 1 },
+      }),
+    }) as unknown as jest.Mocked<PromptTemplateService>;
+
+export const createMockTranslationCacheService =
+  (): jest.Mocked<TranslationCacheService> =>
+    ({
+      isEnabled: vi.fn().mockResolvedValue(false),
+      createKey: vi.fn().mockReturnValue("cache-key"),
+      get: vi.fn().mockResolvedValue(undefined),
+      set: vi.fn().mockResolvedValue(undefined),
+      getStats: vi.fn().mockResolvedValue({
+        enabled: false,
+        persist: false,
+        maxEntries: 500,
+        entries: 0,
+        hits: 0,
+        misses: 0,
+      }),
+      updateSettings: vi.fn(),
+      clear: vi.fn().mockResolvedValue(undefined),
+    }) as unknown as jest.Mocked<TranslationCacheService>;
+
+export const createMockTranslationHistoryService =
+  (): jest.Mocked<TranslationHistoryService> =>
+    ({
+      getSettings: vi.fn().mockResolvedValue({
+        enabled: false,
+        maxAgeDays: 30,
+        maxItems: 100,
+      }),
+      updateSettings: vi.fn(),
+      record: vi.fn().mockResolvedValue(undefined),
+      search: vi.fn().mockResolvedValue([]),
+      deleteEntry: vi.fn().mockResolvedValue(undefined),
+      purge: vi.fn().mockResolvedValue(undefined),
+    }) as unknown as jest.Mocked<TranslationHistoryService>;
+
+export const createMockTranslationMemoryService =
+  (): jest.Mocked<TranslationMemoryService> =>
+    ({
+      listEntries: vi.fn().mockResolvedValue([]),
+      addEntry: vi.fn(),
+      deleteEntry: vi.fn().mockResolvedValue(undefined),
+      findMatches: vi.fn().mockResolvedValue([]),
+      importTmx: vi.fn(),
+      exportTmx: vi.fn().mockResolvedValue(""),
+    }) as unknown as jest.Mocked<TranslationMemoryService>;
+
+export const createMockPostEditService = (): jest.Mocked<PostEditService> =>
+  ({
+    getSettings: vi.fn().mockResolvedValue({
+      enabled: false,
+      addToTranslationMemory: false,
+    }),
+    updateSettings: vi.fn(),
+    record: vi.fn().mockResolvedValue(undefined),
+    list: vi.fn().mockResolvedValue([]),
+    deleteEntry: vi.fn().mockResolvedValue(undefined),
+    purge: vi.fn().mockResolvedValue(undefined),
+    getStatistics: vi.fn(),
+  }) as unknown as jest.Mocked<PostEditService>;
@@ -1,4 +1,5 @@
 import {
+  combineGenerationMetrics,
   OllamaChatMessage,
   OllamaChatRequest,
   OllamaChatResponse,
@@ -226,4 +227,33 @@ describe("Ollama Domain", () => {
       expect(() => OllamaConnectionStatus.parse("")).toThrow();
     });
   });
+
+  describe("combineGenerationMetrics", () => {
+    test("sums segments and recomputes the generation speed", () => {
+      const combined = combineGenerationMetrics([
+        {
+          promptTokens: 40,
+          completionTokens: 30,
+          loadDurationMs: 2000,
+          evalDurationMs: 1000,
+        },
+        undefined,
+        { promptTokens: 40, completionTokens: 50, evalDurationMs: 1000 },
+      ]);
+
+      expect(combined).toEqual({
+        promptTokens: 80,
+        completionTokens: 80,
+        totalDurationMs: undefined,
+        loadDurationMs: 2000,
+        promptDurationMs: undefined,
+        evalDurationMs: 2000,
+        tokensPerSecond: 40,
+      });
+    });
+
+    test("returns undefined when nothing was reported", () => {
+      expect(combineGenerationMetrics([undefined])).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,32 @@
+import { parseChatReply } from "#shared/domain/translation-chat.js";
+import { describe, expect, test } from "vitest";
+
+describe("parseChatReply", () => {
+  test("leaves replies without a revision as they are", () => {
+    expect(parseChatReply(" 'Morgen' means tomorrow. ")).toEqual({
+      text: "'Morgen' means tomorrow.",
+    });
+  });
+
+  test("separates the revised translation from the explanation", () => {
+    expect(
+      parseChatReply(
+        "A casual version:\n<translation>\nBis dann!\n</translation>\nUse it with friends.",
+      ),
+    ).toEqual({
+      text: "A casual version:\n\nUse it with friends.",
+      revisedTranslation: "Bis dann!",
+    });
+  });
+
+  test("uses the last revision, including one still streaming in", () => {
+    expect(
+      parseChatReply(
+        "Before: <translation>Bis morgen.</translation> After: <translation>Bis da",
+      ),
+    ).toEqual({
+      text: "Before: Bis morgen. After:",
+      revisedTranslation: "Bis da",
+    });
+  });
+});
@@ -1,4 +1,5 @@
 import {
+  LANGUAGE_CONFIG,
   SupportedLanguage,
   TranslationError,
   TranslationRequest,
@@ -12,10 +13,19 @@ describe("Translation Domain", () => {
     test("accepts valid languages", () => {
       expect(() => SupportedLanguage.parse("en")).not.toThrow();
       expect(() => SupportedLanguage.parse("ja")).not.toThrow();
+      expect(() => SupportedLanguage.parse("zh-Hans")).not.toThrow();
+      expect(() => SupportedLanguage.parse("pt-BR")).not.toThrow();
+    });
+
+    test("accepts every registered language", () => {
+      for (const code of Object.keys(LANGUAGE_CONFIG)) {
+        expect(() => SupportedLanguage.parse(code)).not.toThrow();
+      }
     });
 
     test("rejects invalid languages", () => {
-      expect(() => SupportedLanguage.parse("fr")).toThrow();
+      expect(() => SupportedLanguage.parse("xx")).toThrow();
+      expect(() => SupportedLanguage.parse("pt")).toThrow();
       expect(() => SupportedLanguage.parse("invalid")).toThrow();
       expect(() => SupportedLanguage.parse("")).toThrow();
     });
@@ -47,6 +57,23 @@ describe("Translation Domain", () => {
       expect(() => TranslationRequest.parse(validRequest)).not.toThrow();
     });
 
+    test("limits the number of candidates", () => {
+      const request = {
+        text: "Hello World",
+        sourceLanguage: "en",
+        targetLanguage: "ja",
+      };
+      expect(() =>
+        TranslationRequest.parse({ ...request, candidateCount: 3 }),
+      ).not.toThrow();
+      expect(() =>
+        TranslationRequest.parse({ ...request, candidateCount: 0 }),
+      ).toThrow();
+      expect(() =>
+        TranslationRequest.parse({ ...request, candidateCount: 6 }),
+      ).toThrow();
+    });
+
     test("rejects empty text", () => {
       const invalidRequest = {
         text: "",
@@ -173,6 +200,31 @@ describe("Translation Domain", () => {
       const result = TranslationSettings.parse(settings);
       expect(result.models[0].isDefault).toBe(false);
       expect(result.models[0].isAvailable).toBe(true);
+      expect(result.preferredTargetLanguages).toEqual({});
+    });
+
+    test("accepts remembered language pairs", () => {
+      const settings = {
+        lastLanguagePair: { sourceLanguage: "fr", targetLanguage: "ja" },
+        preferredTargetLanguages: { fr: "ja", en: "de" },
+      };
+      expect(() => TranslationSettings.parse(settings)).not.toThrow();
+    });
+
+    test("accepts style preferences per language pair", () => {
+      const result = TranslationSettings.parse({
+        stylePreferences: { "auto>ja": { formality: "polite" } },
+      });
+      expect(result.stylePreferences).toEqual({
+        "auto>ja": { formality: "polite" },
+      });
+    });
+
+    test("rejects unregistered languages in preferred targets", () => {
+      const settings = {
+        preferredTargetLanguages: { en: "xx" },
+      };
+      expect(() => TranslationSettings.parse(settings)).toThrow();
     });
   });
 
@@ -0,0 +1,123 @@
+import { getTranslatedFileName } from "#shared/domain/document.js";
+import {
+  joinFrontMatter,
+  splitFrontMatter,
+} from "@main/services/document-format.js";
+import type { DocumentDialogs } from "@main/services/document-service.js";
+import { DocumentServiceImpl } from "@main/services/document-service.js";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+
+describe("splitFrontMatter", () => {
+  test("separates YAML front matter from Markdown", () => {
+    const content = "---\ntitle: Hello\ntags: [a]\n---\n\n# Hello\n\nWorld\n";
+
+    expect(splitFrontMatter(content, "post.md")).toEqual({
+      frontMatter: "---\ntitle: Hello\ntags: [a]\n---\n",
+      body: "# Hello\n\nWorld\n",
+    });
+  });
+
+  test("accepts TOML and empty front matter", () => {
+    expect(
+      splitFrontMatter("+++\ndraft = true\n+++\nText", "a.markdown"),
+    ).toEqual({ frontMatter: "+++\ndraft = true\n+++\n", body: "Text" });
+    expect(splitFrontMatter("---\n---\nText", "a.md")).toEqual({
+      frontMatter: "---\n---\n",
+      body: "Text",
+    });
+  });
+
+  test("keeps text files and thematic breaks as body", () => {
+    const content = "---\nnot: front matter\n---\nText";
+
+    expect(splitFrontMatter(content, "notes.txt")).toEqual({ body: content });
+    expect(splitFrontMatter("Intro\n\n---\n\nMore", "a.md")).toEqual({
+      body: "Intro\n\n---\n\nMore",
+    });
+  });
+
+  test("restores the front matter in front of the translation", () => {
+    expect(joinFrontMatter("# こんにちは\n", "---\ntitle: Hello\n---\n")).toBe(
+      "---\ntitle: Hello\n---\n\n# こんにちは\n",
+    );
+    expect(joinFrontMatter("Text")).toBe("Text");
+  });
+});
+
+describe("getTranslatedFileName", () => {
+  test("adds the target language before the extension", () => {
+    expect(getTranslatedFileName("notes.md", "ja")).toBe("notes.ja.md");
+    expect(getTranslatedFileName("README", "de")).toBe("README.de");
+    expect(getTranslatedFileName(undefined, "fr")).toBe("translation.fr.txt");
+  });
+});
+
+describe("DocumentService", () => {
+  let directory: string;
+  let dialogs: { [K in keyof DocumentDialogs]: ReturnType<typeof vi.fn> };
+  let service: DocumentServiceImpl;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "deep-llama-documents-"));
+    dialogs = {
+      showOpenDialog: vi.fn(),
+      showSaveDialog: vi.fn(),
+    };
+    service = new DocumentServiceImpl(dialogs as unknown as DocumentDialogs);
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test("opens a Markdown file without its front matter", async () => {
+    const filePath = join(directory, "post.md");
+    await writeFile(filePath, "---\ntitle: Hi\n---\nHello world\n");
+    dialogs.showOpenDialog.mockResolvedValue(filePath);
+
+    await expect(service.openDocument()).resolves.toEqual({
+      filePath,
+      fileName: "post.md",
+      text: "Hello world\n",
+      frontMatter: "---\ntitle: Hi\n---\n",
+    });
+    expect(dialogs.showOpenDialog).toHaveBeenCalledWith(
+      expect.objectContaining({
+        filters: [
+          expect.objectContaining({ extensions: ["txt", "md", "markdown"] }),
+        ],
+      }),
+    );
+  });
+
+  test("returns null when a dialog is cancelled", async () => {
+    dialogs.showOpenDialog.mockResolvedValue(undefined);
+    dialogs.showSaveDialog.mockResolvedValue(undefined);
+
+    await expect(service.openDocument()).resolves.toBeNull();
+    await expect(service.saveDocument({ text: "Hallo" })).resolves.toBeNull();
+  });
+
+  test("saves the translation with the original front matter", async () => {
+    const filePath = join(directory, "post.ja.md");
+    dialogs.showSaveDialog.mockResolvedValue(filePath);
+
+    await expect(
+      service.saveDocument({
+        text: "こんにちは世界\n",
+        frontMatter: "---\ntitle: Hi\n---\n",
+        defaultFileName: "post.ja.md",
+      }),
+    ).resolves.toEqual({ filePath, fileName: "post.ja.md" });
+
+    expect(dialogs.showSaveDialog).toHaveBeenCalledWith(
+      expect.objectContaining({ defaultPath: "post.ja.md" }),
+    );
+    await expect(readFile(filePath, "utf8")).resolves.toBe(
+      "---\ntitle: Hi\n---\n\nこんにちは世界\n",
+    );
+  });
+});
@@ -0,0 +1,388 @@
+import type { GlossaryEntry } from "#shared/domain/glossary.js";
+import { NotFoundError, ValidationError } from "#shared/errors.js";
+import { GlossaryRepositoryImpl } from "@main/repository/glossary-repository.js";
+import {
+  containsTerm,
+  GlossaryServiceImpl,
+} from "@main/services/glossary-service.js";
+import { beforeEach, describe, expect, test } from "vitest";
+import { createGlossaryEntry } from "../../factories/glossary.factory.js";
+import { createMockStore } from "../../mocks/store.mock.js";
+
+describe("GlossaryService", () => {
+  let stored: GlossaryEntry[];
+  let service: GlossaryServiceImpl;
+
+  beforeEach(() => {
+    stored = [];
+    const store = createMockStore();
+    store.get.mockImplementation(async () => stored as never);
+    store.set.mockImplementation(async (_key, value) => {
+      stored = value as GlossaryEntry[];
+    });
+    service = new GlossaryServiceImpl(new GlossaryRepositoryImpl(store));
+  });
+
+  describe("CRUD", () => {
+    test("creates entries with id and timestamps", async () => {
+      const entry = await service.createEntry({
+        sourceLanguage: "en",
+        targetLanguage: "ja",
+        sourceTerm: " Workspace ",
+        targetTerm: "ワークスペース",
+      });
+
+      expect(entry.id).toBeTruthy();
+      expect(entry.sourceTerm).toBe("Workspace");
+      expect(entry.caseSensitive).toBe(false);
+      expect(stored).toEqual([entry]);
+    });
+
+    test("rejects duplicate source terms within a language pair", async () => {
+      stored = [createGlossaryEntry()];
+
+      await expect(
+        service.createEntry({
+          sourceLanguage: "en",
+          targetLanguage: "ja",
+          sourceTerm: "workspace",
+          targetTerm: "作業場",
+        }),
+      ).rejects.toThrow(ValidationError);
+    });
+
+    test("requires a target term unless the term is kept verbatim", async () => {
+      await expect(
+        service.createEntry({
+          sourceLanguage: "en",
+          targetLanguage: "ja",
+          sourceTerm: "Workspace",
+        }),
+      ).rejects.toThrow(ValidationError);
+
+      await expect(
+        service.createEntry({
+          sourceLanguage: "en",
+          targetLanguage: "ja",
+          sourceTerm: "DeepLlama",
+          doNotTranslate: true,
+        }),
+      ).resolves.toMatchObject({ doNotTranslate: true });
+    });
+
+    test("lists entries of one language pair sorted by term", async () => {
+      stored = [
+        createGlossaryEntry({ id: "1", sourceTerm: "Zone" }),
+        createGlossaryEntry({ id: "2", sourceTerm: "Account" }),
+        createGlossaryEntry({ id: "3", targetLanguage: "fr" }),
+      ];
+
+      const entries = await service.listEntries({
+        sourceLanguage: "en",
+        targetLanguage: "ja",
+      });
+
+      expect(entries.map((entry) => entry.id)).toEqual(["2", "1"]);
+    });
+
+    test("updates and deletes entries", async () => {
+      stored = [createGlossaryEntry()];
+
+      const updated = await service.updateEntry("entry-1", {
+        targetTerm: "作業スペース",
+      });
+      expect(updated.targetTerm).toBe("作業スペース");
+
+      await service.deleteEntry("entry-1");
+      expect(stored).toEqual([]);
+    });
+
+    test("rejects renaming an entry to a term the pair already has", async () => {
+      stored = [
+        createGlossaryEntry({ id: "1", sourceTerm: "Workspace" }),
+        createGlossaryEntry({ id: "2", sourceTerm: "Project" }),
+      ];
+
+      await expect(
+        service.updateEntry("2", { sourceTerm: "workspace" }),
+      ).rejects.toThrow(ValidationError);
+      await expect(
+        service.updateEntry("1", { sourceTerm: "WORKSPACE" }),
+      ).resolves.toMatchObject({ sourceTerm: "WORKSPACE" });
+    });
+
+    test("throws NotFoundError for unknown ids", async () => {
+      await expect(
+        service.updateEntry("missing", { targetTerm: "x" }),
+      ).rejects.toThrow(NotFoundError);
+      await expect(service.deleteEntry("missing")).rejects.toThrow(
+        NotFoundError,
+      );
+    });
+  });
+
+  describe("matching", () => {
+    test("finds entries whose source term occurs in the text", async () => {
+      stored = [
+        createGlossaryEntry({ id: "1", sourceTerm: "Workspace" }),
+        createGlossaryEntry({ id: "2", sourceTerm: "Work" }),
+        createGlossaryEntry({
+          id: "3",
+          sourceTerm: "API",
+          caseSensitive: true,
+        }),
+      ];
+
+      const entries = await service.findMatchingEntries(
+        "Open your workspace via the api",
+        "en",
+        "ja",
+      );
+
+      expect(entries.map((entry) => entry.id)).toEqual(["1"]);
+    });
+
+    test("flags required target terms missing from the output", () => {
+      const entries = [
+        createGlossaryEntry({ id: "1" }),
+        createGlossaryEntry({
+          id: "2",
+          sourceTerm: "DeepLlama",
+          targetTerm: "",
+          doNotTranslate: true,
+        }),
+      ];
+
+      const missing = service.findMissingTerms(
+        entries,
+        "ディープラマのワークスペースを開く",
+      );
+
+      expect(missing).toEqual([
+        { entryId: "2", sourceTerm: "DeepLlama", expectedTerm: "DeepLlama" },
+      ]);
+    });
+
+    test("finds Latin terms embedded in Japanese text", async () => {
+      const entry = createGlossaryEntry({
+        sourceTerm: "DeepLlama",
+        targetTerm: "",
+        doNotTranslate: true,
+      });
+      stored = [
+        createGlossaryEntry({
+          id: "ja-1",
+          sourceLanguage: "ja",
+          targetLanguage: "en",
+          sourceTerm: "API",
+          targetTerm: "API",
+        }),
+      ];
+
+      expect(
+        service.findMissingTerms([entry], "DeepLlamaアプリを使ってください"),
+      ).toEqual([]);
+      expect(
+        (
+          await service.findMatchingEntries("APIキーを設定する", "ja", "en")
+        ).map((match) => match.id),
+      ).toEqual(["ja-1"]);
+    });
+
+    test.each([
+      ["matches whole words", "Open the workspace", "workspace", false, true],
+      ["ignores partial words", "workspaces", "workspace", false, false],
+      ["respects case sensitivity", "the api", "API", true, false],
+      ["matches CJK terms as substrings", "東京都庁", "東京", false, true],
+      ["escapes regex characters", "Use C++ here", "C++", false, true],
+      [
+        "matches Latin terms next to kana",
+        "DeepLlamaアプリを使ってください",
+        "DeepLlama",
+        false,
+        true,
+      ],
+      ["matches Latin terms next to Han", "最新のAPI設定", "API", true, true],
+      [
+        "matches Latin terms next to Hangul",
+        "DeepLlama를 사용",
+        "DeepLlama",
+        false,
+        true,
+      ],
+      [
+        "still ignores partial Latin words",
+        "DeepLlamas設定",
+        "DeepLlama",
+        false,
+        false,
+      ],
+    ])("containsTerm %s", (_name, text, term, caseSensitive, expected) => {
+      expect(containsTerm(text, term, caseSensitive)).toBe(expected);
+    });
+  });
+
+  describe("import and export", () => {
+    test("round-trips entries through CSV", async () => {
+      stored = [
+        createGlossaryEntry({ note: 'Product area, "main"' }),
+        createGlossaryEntry({
+          id: "entry-2",
+          sourceTerm: "DeepLlama",
+          targetTerm: "",
+          doNotTranslate: true,
+          caseSensitive: true,
+        }),
+      ];
+      const csv = await service.exportEntries("csv");
+
+      stored = [];
+      const result = await service.importEntries({
+        format: "csv",
+        content: csv,
+        mode: "merge",
+      });
+
+      expect(result).toEqual({ imported: 2, updated: 0, skipped: 0 });
+      expect(stored).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            sourceTerm: "Workspace",
+            note: 'Product area, "main"',
+          }),
+          expect.objectContaining({
+            sourceTerm: "DeepLlama",
+            doNotTranslate: true,
+            caseSensitive: true,
+          }),
+        ]),
+      );
+    });
+
+    test("imports headerless CSV into the given language pair", async () => {
+      const result = await service.importEntries({
+        format: "csv",
+        content: "Workspace,Espace de travail\nDashboard,Tableau de bord\n",
+        mode: "merge",
+        pair: { sourceLanguage: "en", targetLanguage: "fr" },
+      });
+
+      expect(result.imported).toBe(2);
+      expect(stored.every((entry) => entry.targetLanguage === "fr")).toBe(true);
+    });
+
+    test("updates existing terms and skips unusable rows", async () => {
+      stored = [createGlossaryEntry()];
+
+      const result = await service.importEntries({
+        format: "csv",
+        content: [
+          "source_language,target_language,source_term,target_term",
+          "en,ja,workspace,作業スペース",
+          "en,xx,Dashboard,ダッシュボード",
+          "en-US,ja-JP,Project,",
+        ].join("\n"),
+        mode: "merge",
+      });
+
+      expect(result).toEqual({ imported: 0, updated: 1, skipped: 2 });
+      expect(stored).toEqual([
+        expect.objectContaining({ id: "entry-1", targetTerm: "作業スペース" }),
+      ]);
+    });
+
+    test("replace mode only drops entries of the imported pairs", async () => {
+      stored = [
+        createGlossaryEntry({ id: "ja", sourceTerm: "Old" }),
+        createGlossaryEntry({ id: "fr", targetLanguage: "fr" }),
+      ];
+
+      await service.importEntries({
+        format: "csv",
+        content:
+          "source_language,target_language,source_term,target_term\nen,ja,New,新規\n",
+        mode: "replace",
+      });
+
+      expect(stored.map((entry) => entry.sourceTerm).sort()).toEqual([
+        "New",
+        "Workspace",
+      ]);
+    });
+
+    test("round-trips entries through TBX", async () => {
+      stored = [
+        createGlossaryEntry({ sourceTerm: "R&D", targetTerm: "研究開発" }),
+        createGlossaryEntry({
+          id: "entry-2",
+          sourceTerm: "DeepLlama",
+          targetTerm: "",
+          doNotTranslate: true,
+        }),
+      ];
+      const tbx = await service.exportEntries("tbx");
+      expect(tbx).toContain("<term>R&amp;D</term>");
+
+      stored = [];
+      const result = await service.importEntries({
+        format: "tbx",
+        content: tbx,
+        mode: "merge",
+      });
+
+      expect(result.imported).toBe(2);
+      expect(stored).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            sourceTerm: "R&D",
+            targetTerm: "研究開発",
+          }),
+          expect.objectContaining({
+            sourceTerm: "DeepLlama",
+            doNotTranslate: true,
+          }),
+        ]),
+      );
+    });
+
+    test("reads TBX v2 term entries with regional language tags", async () => {
+      const tbx = `<?xml version="1.0"?>
+<martif type="TBX">
+  <text><body>
+    <termEntry id="t1">
+      <langSet xml:lang="en-US"><tig><term>Invoice</term></tig></langSet>
+      <langSet xml:lang="de-DE"><tig><term>Rechnung</term></tig></langSet>
+      <langSet xml:lang="ja-JP"><tig><term>請求書</term></tig></langSet>
+    </termEntry>
+  </body></text>
+</martif>`;
+
+      const result = await service.importEntries({
+        format: "tbx",
+        content: tbx,
+        mode: "merge",
+        pair: { sourceLanguage: "en", targetLanguage: "ja" },
+      });
+
+      expect(result.imported).toBe(1);
+      expect(stored).toEqual([
+        expect.objectContaining({
+          sourceLanguage: "en",
+          targetLanguage: "ja",
+          sourceTerm: "Invoice",
+          targetTerm: "請求書",
+        }),
+      ]);
+    });
+
+    test("rejects content that is not TBX", async () => {
+      await expect(
+        service.importEntries({
+          format: "tbx",
+          content: "source,target",
+          mode: "merge",
+        }),
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import {
+  extractResourceTokens,
+  findTokenMismatch,
+  hasTranslatableText,
+  mapI18nResource,
+  parseI18nResource,
+  protectResourceText,
+} from "@main/services/i18n-resource-format.js";
+import { describe, expect, test } from "vitest";
+
+describe("extractResourceTokens", () => {
+  test("finds i18next interpolation and nesting", () => {
+    expect(
+      extractResourceTokens("Hello {{name}}, see $t(common.help) {{- link}}"),
+    ).toEqual(["{{name}}", "$t(common.help)", "{{- link}}"]);
+  });
+
+  test("finds printf conversions without matching plain percentages", () => {
+    expect(extractResourceTokens("%s has %1$d files (%%)")).toEqual([
+      "%s",
+      "%1$d",
+      "%%",
+    ]);
+    expect(extractResourceTokens("50% off")).toEqual([]);
+  });
+
+  test("keeps ICU syntax while leaving branch text translatable", () => {
+    const text = "You have {count, plural, one {# message} other {# messages}}";
+
+    expect(extractResourceTokens(text)).toEqual([
+      "{count, plural,",
+      " one {",
+      "#",
+      "}",
+      " other {",
+      "#",
+      "}",
+      "}",
+    ]);
+    expect(protectResourceText(text)).toBe(
+      "You have {{notranslate}}{count, plural, one {#{{/notranslate}} message" +
+        "{{notranslate}}} other {#{{/notranslate}} messages{{notranslate}}}}{{/notranslate}}",
+    );
+  });
+
+  test("treats simple and styled ICU arguments as single tokens", () => {
+    expect(
+      extractResourceTokens("{name} paid {amount, number, ::currency/EUR}"),
+    ).toEqual(["{name}", "{amount, number, ::currency/EUR}"]);
+  });
+
+  test("handles select nested in plural", () => {
+    const text =
+      "{gender, select, female {{n, plural, one {She has # item} other {She has # items}}} other {They have {n} items}}";
+
+    expect(hasTranslatableText(text)).toBe(true);
+    expect(extractResourceTokens(text)).toContain("#");
+    expect(
+      extractResourceTokens(text).filter((token) => token === "#"),
+    ).toHaveLength(2);
+  });
+
+  test("leaves unbalanced braces as text", () => {
+    expect(extractResourceTokens("Use { to open a block")).toEqual([]);
+  });
+});
+
+describe("findTokenMismatch", () => {
+  test("accepts reordered tokens and whitespace changes", () => {
+    expect(
+      findTokenMismatch(
+        "{{count}} of {{total}}",
+        "{{ total }} 件中 {{count}} 件",
+      ),
+    ).toEqual({ missingTokens: [], unexpectedTokens: [] });
+  });
+
+  test("reports dropped and invented tokens", () => {
+    expect(findTokenMismatch("Hello {{name}}", "こんにちは {{nom}}")).toEqual({
+      missingTokens: ["{{name}}"],
+      unexpectedTokens: ["{{nom}}"],
+    });
+  });
+
+  test("reports broken ICU structure", () => {
+    const { missingTokens } = findTokenMismatch(
+      "{count, plural, one {# file} other {# files}}",
+      "{count, plural, other {# ファイル}}",
+    );
+
+    expect(missingTokens).toEqual(expect.arrayContaining(["one{", "#"]));
+  });
+});
+
+describe("mapI18nResource", () => {
+  test("keeps nesting, key order and non-string values", () => {
+    const resource = parseI18nResource(
+      JSON.stringify({ app: { title: "App", version: 2 }, list: ["a", "b"] }),
+    );
+
+    const keys: string[] = [];
+    const mapped = mapI18nResource(resource, "ja", (entry) => {
+      keys.push(entry.key);
+      return entry.text.toUpperCase();
+    });
+
+    expect(keys).toEqual(["app.title", "list.0", "list.1"]);
+    expect(mapped).toEqual({
+      app: { title: "APP", version: 2 },
+      list: ["A", "B"],
+    });
+  });
+
+  test("regroups plural keys for the target language", () => {
+    const resource = {
+      item_one: "{{count}} item",
+      item_other: "{{count}} items",
+      label: "Items",
+    };
+
+    const japanese = mapI18nResource(
+      resource,
+      "ja",
+      (entry) => entry.sourceKey,
+    );
+    expect(japanese).toEqual({ item_other: "item_other", label: "label" });
+
+    const polish = mapI18nResource(resource, "pl", (entry) => entry.sourceKey);
+    expect(Object.keys(polish)).toEqual([
+      "item_one",
+      "item_few",
+      "item_many",
+      "item_other",
+      "label",
+    ]);
+    expect(polish.item_few).toBe("item_other");
+  });
+
+  test("keeps keys that only look like plural forms", () => {
+    const resource = { step_one: "First step" };
+
+    expect(mapI18nResource(resource, "ja", (entry) => entry.key)).toEqual({
+      step_one: "step_one",
+    });
+  });
+});
+
+describe("parseI18nResource", () => {
+  test("rejects invalid JSON and non-object roots", () => {
+    expect(() => parseI18nResource("{")).toThrow("not valid JSON");
+    expect(() => parseI18nResource("[]")).toThrow("JSON object");
+  });
+});
@@ -0,0 +1,194 @@
+import type {
+  I18nResourceTranslationEvent,
+  I18nResourceTranslationRequest,
+} from "#shared/domain/i18n-resource.js";
+import { I18nResourceServiceImpl } from "@main/services/i18n-resource-service.js";
+import { protectText, restoreText } from "@main/services/text-protection.js";
+import type { TranslationService } from "@main/services/translation-service.js";
+import { beforeEach, describe, expect, test } from "vitest";
+import { createTranslationResponse } from "../../factories/translation.factory.js";
+import { createMockTranslationService } from "../../mocks/services.mock.js";
+
+/** Upper-cases the text around protected spans, as the real service masks them */
+function fakeTranslate(text: string): string {
+  const { text: masked, spans } = protectText(text);
+  return restoreText(masked.toUpperCase(), spans).text;
+}
+
+async function collect(
+  events: AsyncGenerator<I18nResourceTranslationEvent>,
+): Promise<I18nResourceTranslationEvent[]> {
+  const result: I18nResourceTranslationEvent[] = [];
+  for await (const event of events) result.push(event);
+  return result;
+}
+
+function createRequest(resource: unknown): I18nResourceTranslationRequest {
+  return {
+    content: JSON.stringify(resource),
+    sourceLanguage: "en",
+    targetLanguage: "ja",
+  };
+}
+
+describe("I18nResourceService", () => {
+  let translationService: jest.Mocked<TranslationService>;
+  let service: I18nResourceServiceImpl;
+
+  beforeEach(() => {
+    translationService = createMockTranslationService();
+    translationService.translate.mockImplementation(async (request) =>
+      createTranslationResponse({
+        translatedText: fakeTranslate(request.text),
+      }),
+    );
+    service = new I18nResourceServiceImpl(translationService);
+  });
+
+  test("translates values and keeps interpolations", async () => {
+    const events = await collect(
+      service.translateResource(
+        createRequest({
+          greeting: "Hello {{name}}",
+          inbox: {
+            unread: "{count, plural, one {# message} other {# messages}}",
+          },
+          port: "%s:%d",
+        }),
+      ),
+    );
+
+    const done = events.at(-1);
+    expect(done?.type).toBe("done");
+    if (done?.type !== "done") return;
+
+    expect(JSON.parse(done.result.content)).toEqual({
+      greeting: "HELLO {{name}}",
+      inbox: { unread: "{count, plural, one {# MESSAGE} other {# MESSAGES}}" },
+      port: "%s:%d",
+    });
+    expect(done.result).toMatchObject({
+      translatedKeys: 2,
+      copiedKeys: 1,
+      failedKeys: [],
+    });
+    expect(translationService.translate).toHaveBeenCalledTimes(2);
+    expect(translationService.translate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        text: "Hello {{notranslate}}{{name}}{{/notranslate}}",
+        priority: "low",
+        context: expect.stringContaining('key "greeting"'),
+      }),
+      undefined,
+    );
+  });
+
+  test("reports progress for every key", async () => {
+    const events = await collect(
+      service.translateResource(createRequest({ a: "One", b: "Two" })),
+    );
+
+    expect(events.filter((event) => event.type === "progress")).toEqual([
+      { type: "progress", completedKeys: 0, totalKeys: 2 },
+      { type: "progress", completedKeys: 1, totalKeys: 2 },
+      { type: "progress", completedKeys: 2, totalKeys: 2 },
+    ]);
+  });
+
+  test("keeps the source value of keys that fail validation", async () => {
+    translationService.translate.mockResolvedValueOnce(
+      createTranslationResponse({ translatedText: "こんにちは {{nom}}" }),
+    );
+
+    const events = await collect(
+      service.translateResource(
+        createRequest({ greeting: "Hello {{name}}", bye: "Goodbye" }),
+      ),
+    );
+    const done = events.at(-1);
+    if (done?.type !== "done") throw new Error("Expected a done event");
+
+    expect(JSON.parse(done.result.content)).toEqual({
+      greeting: "Hello {{name}}",
+      bye: "GOODBYE",
+    });
+    expect(done.result.failedKeys).toEqual([
+      {
+        key: "greeting",
+        reason: "tokens_changed",
+        sourceText: "Hello {{name}}",
+        translatedText: "こんにちは {{nom}}",
+        missingTokens: ["{{name}}"],
+        unexpectedTokens: ["{{nom}}"],
+      },
+    ]);
+  });
+
+  test("reports model failures per key", async () => {
+    translationService.translate.mockRejectedValueOnce({
+      message: "model not found",
+    });
+
+    const events = await collect(
+      service.translateResource(createRequest({ title: "Settings" })),
+    );
+    const done = events.at(-1);
+    if (done?.type !== "done") throw new Error("Expected a done event");
+
+    expect(done.result.failedKeys).toEqual([
+      expect.objectContaining({
+        key: "title",
+        reason: "translation_failed",
+        error: "model not found",
+      }),
+    ]);
+  });
+
+  test("translates repeated plural forms once", async () => {
+    const events = await collect(
+      service.translateResource({
+        ...createRequest({
+          file_one: "{{count}} file",
+          file_other: "{{count}} files",
+        }),
+        targetLanguage: "pl",
+      }),
+    );
+    const done = events.at(-1);
+    if (done?.type !== "done") throw new Error("Expected a done event");
+
+    expect(JSON.parse(done.result.content)).toEqual({
+      file_one: "{{count}} FILE",
+      file_few: "{{count}} FILES",
+      file_many: "{{count}} FILES",
+      file_other: "{{count}} FILES",
+    });
+    expect(translationService.translate).toHaveBeenCalledTimes(2);
+  });
+
+  test("stops when the signal is aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      collect(
+        service.translateResource(
+          createRequest({ a: "One" }),
+          controller.signal,
+        ),
+      ),
+    ).rejects.toThrow();
+    expect(translationService.translate).not.toHaveBeenCalled();
+  });
+
+  test("rejects content that is not a JSON object", async () => {
+    await expect(
+      collect(
+        service.translateResource({
+          ...createRequest({}),
+          content: "not json",
+        }),
+      ),
+    ).rejects.toThrow("not valid JSON");
+  });
+});
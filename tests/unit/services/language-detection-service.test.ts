@@ -0,0 +1,113 @@
+import { LanguageDetectionServiceImpl } from "@main/services/language-detection-service.js";
+import { beforeEach, describe, expect, test } from "vitest";
+
+describe("LanguageDetectionService", () => {
+  let detector: LanguageDetectionServiceImpl;
+
+  beforeEach(() => {
+    detector = new LanguageDetectionServiceImpl();
+  });
+
+  describe("script heuristics", () => {
+    test.each([
+      ["ja", "今日はとても良い天気ですね。"],
+      ["ja", "Reactのコンポーネントを再利用する方法"],
+      ["ko", "안녕하세요, 만나서 반갑습니다."],
+      ["zh-Hans", "这个问题我们明天再说。"],
+      ["zh-Hant", "這個問題我們明天再說。"],
+      ["ru", "Привет, как у тебя дела сегодня?"],
+      ["uk", "Привіт, як твої справи сьогодні?"],
+      ["ar", "مرحبا، كيف حالك اليوم؟"],
+      ["he", "שלום, מה שלומך היום?"],
+      ["th", "สวัสดีครับ วันนี้อากาศดีมาก"],
+      ["hi", "नमस्ते, आप कैसे हैं?"],
+    ])("detects %s", (language, text) => {
+      const result = detector.detect(text);
+
+      expect(result.language).toBe(language);
+      expect(result.method).toBe("script");
+      expect(result.confidence).toBeGreaterThan(0);
+    });
+
+    test("keeps kanji-only text Japanese when Japanese was used last", () => {
+      const result = detector.detect("東京都庁", "ja");
+
+      expect(result.language).toBe("ja");
+      expect(result.isReliable).toBe(false);
+    });
+  });
+
+  describe("n-gram statistics", () => {
+    test.each([
+      ["en", "The quick brown fox jumps over the lazy dog and runs away."],
+      ["fr", "Je voudrais réserver une table pour deux personnes ce soir."],
+      [
+        "de",
+        "Ich möchte heute Abend einen Tisch für zwei Personen reservieren.",
+      ],
+      ["es", "Me gustaría reservar una mesa para dos personas esta noche."],
+      ["pt-BR", "Eu gostaria de reservar uma mesa para duas pessoas, não é?"],
+      ["it", "Vorrei prenotare un tavolo per due persone questa sera."],
+      ["nl", "Ik wil graag een tafel voor twee personen reserveren vanavond."],
+      ["pl", "Chciałbym zarezerwować stolik dla dwóch osób na dzisiaj."],
+      ["tr", "Bu akşam iki kişilik bir masa ayırtmak istiyorum."],
+      ["vi", "Tôi muốn đặt một bàn cho hai người vào tối nay."],
+      ["id", "Saya ingin memesan meja untuk dua orang malam ini dan besok."],
+    ])("detects %s", (language, text) => {
+      const result = detector.detect(text);
+
+      expect(result.language).toBe(language);
+      expect(result.method).toBe("ngram");
+    });
+
+    test("reports higher confidence for longer English text", () => {
+      const short = detector.detect("the cat");
+      const long = detector.detect(
+        "The committee said that the report would be published in the spring, and that it would include all of the findings.",
+      );
+
+      expect(long.confidence).toBeGreaterThan(short.confidence);
+      expect(long.isReliable).toBe(true);
+    });
+
+    test("keeps the Portuguese variant used last", () => {
+      const result = detector.detect(
+        "Eu gostaria de reservar uma mesa para duas pessoas, não é?",
+        "pt-PT",
+      );
+
+      expect(result.language).toBe("pt-PT");
+    });
+  });
+
+  describe("fallback", () => {
+    test("falls back for text shorter than three letters", () => {
+      const result = detector.detect("ok", "ja");
+
+      expect(result).toEqual({
+        language: "ja",
+        confidence: 0,
+        isReliable: false,
+        method: "fallback",
+      });
+    });
+
+    test("ignores digits and punctuation when counting letters", () => {
+      expect(detector.detect("12345 !!", "fr").method).toBe("fallback");
+    });
+
+    test("does not remember earlier detections", () => {
+      detector.detect("今日はとても良い天気ですね。");
+
+      const result = detector.detect("a");
+
+      expect(result.language).toBe("en");
+    });
+
+    test("uses the given fallback language", () => {
+      const result = detector.detect("?", "de");
+
+      expect(result.language).toBe("de");
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import type {
+  LocalizationFileTranslationEvent,
+  LocalizationFileTranslationResult,
+} from "#shared/domain/localization-file.js";
+import { LocalizationFileServiceImpl } from "@main/services/localization-file-service.js";
+import { protectText, restoreText } from "@main/services/text-protection.js";
+import type { TranslationService } from "@main/services/translation-service.js";
+import { beforeEach, describe, expect, test } from "vitest";
+import { createTranslationResponse } from "../../factories/translation.factory.js";
+import { createMockTranslationService } from "../../mocks/services.mock.js";
+
+/** Upper-cases the text around protected spans, as the real service masks them */
+function fakeTranslate(text: string): string {
+  const { text: masked, spans } = protectText(text);
+  return restoreText(masked.toUpperCase(), spans).text;
+}
+
+async function translateFile(
+  service: LocalizationFileServiceImpl,
+  content: string,
+): Promise<{
+  events: LocalizationFileTranslationEvent[];
+  result: LocalizationFileTranslationResult;
+}> {
+  const events: LocalizationFileTranslationEvent[] = [];
+  for await (const event of service.translateFile({
+    content,
+    sourceLanguage: "en",
+    targetLanguage: "de",
+  })) {
+    events.push(event);
+  }
+
+  const done = events.at(-1);
+  if (done?.type !== "done") throw new Error("Expected a done event");
+  return { events, result: done.result };
+}
+
+const XLIFF = `<xliff version="1.2">
+  <file source-language="en" target-language="de">
+    <body>
+      <trans-unit id="welcome">
+        <source>Welcome, <x id="1"/>!</source>
+        <note>Greeting with the user name</note>
+      </trans-unit>
+      <trans-unit id="done">
+        <source>Done</source>
+        <target state="final">Fertig</target>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>
+`;
+
+describe("LocalizationFileService", () => {
+  let translationService: jest.Mocked<TranslationService>;
+  let service: LocalizationFileServiceImpl;
+
+  beforeEach(() => {
+    translationService = createMockTranslationService();
+    translationService.translate.mockImplementation(async (request) =>
+      createTranslationResponse({
+        translatedText: fakeTranslate(request.text),
+      }),
+    );
+    service = new LocalizationFileServiceImpl(translationService);
+  });
+
+  test("translates pending XLIFF units with their notes as context", async () => {
+    const { events, result } = await translateFile(service, XLIFF);
+
+    expect(translationService.translate).toHaveBeenCalledTimes(1);
+    expect(translationService.translate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        text: 'Welcome, {{notranslate}}<x id="1"/>{{/notranslate}}!',
+        context: expect.stringContaining(
+          "Notes for translators:\nGreeting with the user name",
+        ),
+        priority: "low",
+      }),
+      undefined,
+    );
+    expect(result.content).toContain(
+      '<target state="needs-review-translation" state-qualifier="mt-suggestion">WELCOME, <x id="1"/>!</target>',
+    );
+    expect(result).toMatchObject({
+      format: "xliff-1.2",
+      totalUnits: 2,
+      translatedUnits: 1,
+      skippedUnits: 1,
+      issues: [],
+    });
+    expect(events.at(-2)).toEqual({
+      type: "progress",
+      completedUnits: 1,
+      totalUnits: 1,
+    });
+  });
+
+  test("translates both PO plural texts and keeps trailing line breaks", async () => {
+    const { result } = await translateFile(
+      service,
+      'msgid "One file\\n"\nmsgid_plural "%d files\\n"\nmsgstr[0] ""\nmsgstr[1] ""\n',
+    );
+
+    expect(translationService.translate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        text: "{{notranslate}}%d{{/notranslate}} files",
+      }),
+      undefined,
+    );
+    expect(result.content).toBe(
+      '#, fuzzy\nmsgid "One file\\n"\nmsgid_plural "%d files\\n"\nmsgstr[0] "ONE FILE\\n"\nmsgstr[1] "%d FILES\\n"\n',
+    );
+  });
+
+  test("leaves units untranslated when the model drops inline tags", async () => {
+    translationService.translate.mockResolvedValue(
+      createTranslationResponse({ translatedText: "Willkommen!" }),
+    );
+
+    const { result } = await translateFile(service, XLIFF);
+
+    expect(result.translatedUnits).toBe(0);
+    expect(result.issues).toEqual([
+      {
+        unit: "welcome",
+        reason: "tags_changed",
+        missingTokens: ['<x id="1"/>'],
+        unexpectedTokens: [],
+      },
+    ]);
+    expect(result.content).not.toContain("Willkommen");
+  });
+
+  test("reports units the model could not translate", async () => {
+    translationService.translate.mockRejectedValue(new Error("Model offline"));
+
+    const { result } = await translateFile(service, XLIFF);
+
+    expect(result.issues).toEqual([
+      expect.objectContaining({
+        unit: "welcome",
+        reason: "translation_failed",
+        error: "Model offline",
+      }),
+    ]);
+  });
+
+  test("stops when cancelled", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const events = service.translateFile(
+      { content: XLIFF, sourceLanguage: "en", targetLanguage: "de" },
+      controller.signal,
+    );
+
+    await events.next();
+    await expect(events.next()).rejects.toThrow();
+    expect(translationService.translate).not.toHaveBeenCalled();
+  });
+});
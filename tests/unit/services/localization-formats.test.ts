@@ -0,0 +1,296 @@
+import {
+  detectLocalizationFormat,
+  findUnitTokenMismatch,
+  parseLocalizationFile,
+  serializeLocalizationFile,
+} from "@main/services/localization-formats.js";
+import { describe, expect, test } from "vitest";
+
+const XLIFF_12 = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file source-language="en" datatype="plaintext" original="app.properties">
+    <body>
+      <trans-unit id="greeting">
+        <source>Hello <g id="1">world</g> &amp; friends</source>
+        <note>Shown on the start page</note>
+      </trans-unit>
+      <trans-unit id="save">
+        <source>Save</source>
+        <target state="translated">Speichern</target>
+      </trans-unit>
+      <trans-unit id="cancel">
+        <source>Cancel</source>
+        <target state="needs-review-translation" state-qualifier="fuzzy-match">Abbruch</target>
+        <alt-trans><source>Cancel</source><target>Abbrechen</target></alt-trans>
+      </trans-unit>
+      <trans-unit id="brand" translate="no">
+        <source>Deep Llama</source>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>
+`;
+
+const XLIFF_20 = `<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="en">
+  <file id="f1">
+    <unit id="u1">
+      <notes><note>Button label</note></notes>
+      <segment id="s1">
+        <source>Click <pc id="1">here</pc><ph id="2"/></source>
+      </segment>
+    </unit>
+    <unit id="u2">
+      <segment state="final">
+        <source>Done</source>
+        <target>Fertig</target>
+      </segment>
+    </unit>
+  </file>
+</xliff>
+`;
+
+const PO = `# German translation
+msgid ""
+msgstr ""
+"Project-Id-Version: app 1.0\\n"
+"Language: \\n"
+"Content-Type: text/plain; charset=UTF-8\\n"
+
+#. Shown after saving
+#: src/save.c:12
+#, c-format
+msgctxt "toolbar"
+msgid "Saved %d files"
+msgstr ""
+
+#, fuzzy
+#| msgid "Open"
+msgid "Open file"
+msgstr "Öffnen"
+
+msgid "Quit"
+msgstr "Beenden"
+
+msgid "One item"
+msgid_plural "%d items"
+msgstr[0] ""
+msgstr[1] ""
+
+#~ msgid "Old"
+#~ msgstr "Alt"
+`;
+
+describe("detectLocalizationFormat", () => {
+  test("detects XLIFF versions and PO files", () => {
+    expect(detectLocalizationFormat(XLIFF_12)).toBe("xliff-1.2");
+    expect(detectLocalizationFormat(XLIFF_20)).toBe("xliff-2.0");
+    expect(detectLocalizationFormat(PO)).toBe("po");
+  });
+
+  test("rejects other files", () => {
+    expect(() => detectLocalizationFormat('{"key": "value"}')).toThrow(
+      "neither XLIFF nor gettext PO",
+    );
+  });
+});
+
+describe("XLIFF 1.2", () => {
+  test("finds untranslated and fuzzy units with their notes", () => {
+    const document = parseLocalizationFile(XLIFF_12);
+
+    expect(
+      document.units.map((unit) => [unit.id, unit.needsTranslation]),
+    ).toEqual([
+      ["greeting", true],
+      ["save", false],
+      ["cancel", true],
+      ["brand", false],
+    ]);
+    expect(document.units[0]).toMatchObject({
+      sourceTexts: [
+        'Hello {{notranslate}}<g id="1">{{/notranslate}}world{{notranslate}}</g>{{/notranslate}} & friends',
+      ],
+      notes: ["Shown on the start page"],
+    });
+  });
+
+  test("writes targets marked for review and keeps everything else", () => {
+    const document = parseLocalizationFile(XLIFF_12);
+
+    const content = serializeLocalizationFile(
+      document,
+      [['Hallo <g id="1">Welt</g> & Freunde'], undefined, ["Abbrechen"]],
+      "de",
+    );
+
+    expect(content).toContain(
+      '<file source-language="en" datatype="plaintext" original="app.properties" target-language="de">',
+    );
+    expect(content).toContain(
+      `<source>Hello <g id="1">world</g> &amp; friends</source>
+        <target state="needs-review-translation" state-qualifier="mt-suggestion">Hallo <g id="1">Welt</g> &amp; Freunde</target>
+        <note>Shown on the start page</note>`,
+    );
+    expect(content).toContain(
+      '<target state="needs-review-translation" state-qualifier="mt-suggestion">Abbrechen</target>\n' +
+        "        <alt-trans><source>Cancel</source><target>Abbrechen</target></alt-trans>",
+    );
+    expect(content).toContain('<target state="translated">Speichern</target>');
+  });
+
+  test("escapes text that only looks like markup", () => {
+    const document = parseLocalizationFile(XLIFF_12);
+
+    const content = serializeLocalizationFile(
+      document,
+      [undefined, undefined, ["x <b> y"]],
+      "de",
+    );
+
+    expect(content).toContain(">x &lt;b&gt; y</target>");
+  });
+
+  test("reports inline tags the translation lost", () => {
+    const document = parseLocalizationFile(XLIFF_12);
+
+    expect(findUnitTokenMismatch(document, 0, ["Hallo Welt</g>"])).toEqual({
+      missingTokens: ['<g id="1">'],
+      unexpectedTokens: [],
+    });
+  });
+});
+
+describe("XLIFF 2.0", () => {
+  test("translates segments and sets their state", () => {
+    const document = parseLocalizationFile(XLIFF_20);
+
+    expect(document.units).toMatchObject([
+      {
+        id: "u1",
+        needsTranslation: true,
+        notes: ["Button label"],
+        sourceTexts: [
+          'Click {{notranslate}}<pc id="1">{{/notranslate}}here{{notranslate}}</pc><ph id="2"/>{{/notranslate}}',
+        ],
+      },
+      { id: "u2", needsTranslation: false },
+    ]);
+
+    const content = serializeLocalizationFile(
+      document,
+      [['Klicken Sie <pc id="1">hier</pc><ph id="2"/>']],
+      "de",
+    );
+
+    expect(content).toContain('srcLang="en" trgLang="de">');
+    expect(content).toContain(`<segment id="s1" state="translated">
+        <source>Click <pc id="1">here</pc><ph id="2"/></source>
+        <target>Klicken Sie <pc id="1">hier</pc><ph id="2"/></target>
+      </segment>`);
+    expect(content).toContain('<segment state="final">');
+  });
+});
+
+describe("gettext PO", () => {
+  test("finds empty and fuzzy entries with context and comments", () => {
+    const document = parseLocalizationFile(PO);
+
+    expect(document.units).toMatchObject([
+      {
+        id: "toolbar | Saved %d files",
+        sourceTexts: ["Saved {{notranslate}}%d{{/notranslate}} files"],
+        notes: ["Context: toolbar", "Shown after saving"],
+        needsTranslation: true,
+      },
+      { id: "Open file", needsTranslation: true },
+      { id: "Quit", needsTranslation: false },
+      {
+        id: "One item",
+        sourceTexts: ["One item", "{{notranslate}}%d{{/notranslate}} items"],
+        needsTranslation: true,
+      },
+    ]);
+  });
+
+  test("writes translations as fuzzy and fills in the header", () => {
+    const document = parseLocalizationFile(PO);
+
+    const content = serializeLocalizationFile(
+      document,
+      [
+        ["%d Dateien gespeichert"],
+        ["Datei öffnen"],
+        undefined,
+        ["Ein Element", "%d Elemente"],
+      ],
+      "de",
+    );
+
+    expect(content).toBe(`# German translation
+msgid ""
+msgstr ""
+"Project-Id-Version: app 1.0\\n"
+"Language: de\\n"
+"Content-Type: text/plain; charset=UTF-8\\n"
+"Plural-Forms: nplurals=2; plural=(n != 1);\\n"
+
+#. Shown after saving
+#: src/save.c:12
+#, fuzzy, c-format
+msgctxt "toolbar"
+msgid "Saved %d files"
+msgstr "%d Dateien gespeichert"
+
+#, fuzzy
+#| msgid "Open"
+msgid "Open file"
+msgstr "Datei öffnen"
+
+msgid "Quit"
+msgstr "Beenden"
+
+#, fuzzy
+msgid "One item"
+msgid_plural "%d items"
+msgstr[0] "Ein Element"
+msgstr[1] "%d Elemente"
+
+#~ msgid "Old"
+#~ msgstr "Alt"
+`);
+  });
+
+  test("writes one plural form per form of the target language", () => {
+    const document = parseLocalizationFile(PO);
+
+    const content = serializeLocalizationFile(
+      document,
+      [undefined, undefined, undefined, ["1 項目", "%d 項目"]],
+      "ja",
+    );
+
+    expect(content).toContain(
+      'msgid_plural "%d items"\nmsgstr[0] "%d 項目"\n\n',
+    );
+    expect(content).toContain('"Plural-Forms: nplurals=1; plural=0;\\n"');
+  });
+
+  test("splits multi-line strings and escapes quotes", () => {
+    const document = parseLocalizationFile(
+      'msgid ""\n"Line one\\n"\n"Line two"\nmsgstr ""\n',
+    );
+
+    expect(document.units[0].sourceTexts).toEqual(["Line one\nLine two"]);
+    expect(
+      serializeLocalizationFile(document, [['Zeile "eins"\nZeile zwei']], "de"),
+    ).toBe(
+      '#, fuzzy\nmsgid ""\n"Line one\\n"\n"Line two"\nmsgstr ""\n"Zeile \\"eins\\"\\n"\n"Zeile zwei"\n',
+    );
+  });
+
+  test("rejects invalid syntax", () => {
+    expect(() =>
+      parseLocalizationFile('msgid "a"\nmsgstr "b"\nnonsense\n', "po"),
+    ).toThrow("Invalid PO syntax on line 3");
+  });
+});
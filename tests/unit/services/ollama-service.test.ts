@@ -0,0 +1,123 @@
+import { OllamaServiceImpl } from "@main/services/ollama-service.js";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+
+// Exercise the real client over a fake fetch instead of the global mock
+vi.unmock("ollama");
+
+const MODEL = "llama3:latest";
+
+const jsonResponse = (body: unknown): Response =>
+  new Response(JSON.stringify(body), {
+    headers: { "Content-Type": "application/json" },
+  });
+
+/** Response that never completes on its own; fails once `signal` aborts */
+const pendingUntilAborted = (
+  signal: AbortSignal | null | undefined,
+): Promise<Response> =>
+  new Promise((_, reject) => {
+    signal?.addEventListener("abort", () => reject(signal.reason));
+  });
+
+describe("OllamaService", () => {
+  let chatSignals: AbortSignal[];
+  let fetchMock: ReturnType<typeof vi.fn<typeof fetch>>;
+  let service: OllamaServiceImpl;
+
+  beforeEach(() => {
+    chatSignals = [];
+    fetchMock = vi.fn<typeof fetch>();
+    fetchMock.mockImplementation(async (input, init) => {
+      if (String(input).endsWith("/api/tags")) {
+        return jsonResponse({ models: [{ name: MODEL }] });
+      }
+      chatSignals.push(init!.signal!);
+      return pendingUntilAborted(init?.signal);
+    });
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    service = new OllamaServiceImpl("http://localhost:11434", fetchMock);
+  });
+
+  test("chat aborts the HTTP request when cancelled", async () => {
+    const controller = new AbortController();
+    const reply = service.chat({
+      model: MODEL,
+      messages: [{ role: "user", content: "Hello" }],
+      stream: false,
+      signal: controller.signal,
+    });
+    await vi.waitFor(() => expect(chatSignals).toHaveLength(1));
+
+    controller.abort();
+
+    await expect(reply).rejects.toMatchObject({
+      code: "TRANSLATION_CANCELLED",
+    });
+    expect(chatSignals[0].aborted).toBe(true);
+  });
+
+  test("chat does not send a request that is already cancelled", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      service.chat({
+        model: MODEL,
+        messages: [{ role: "user", content: "Hello" }],
+        stream: false,
+        signal: controller.signal,
+      }),
+    ).rejects.toMatchObject({ code: "TRANSLATION_CANCELLED" });
+    expect(chatSignals).toHaveLength(0);
+  });
+
+  test("chatStream aborts the HTTP request when cancelled", async () => {
+    const controller = new AbortController();
+    const stream = service.chatStream({
+      model: MODEL,
+      messages: [{ role: "user", content: "Hello" }],
+      stream: true,
+      signal: controller.signal,
+    });
+    const next = stream.next();
+    await vi.waitFor(() => expect(chatSignals).toHaveLength(1));
+
+    controller.abort();
+
+    await expect(next).rejects.toMatchObject({
+      code: "TRANSLATION_CANCELLED",
+    });
+    expect(chatSignals[0].aborted).toBe(true);
+  });
+
+  test("chatStream closes the response when the consumer stops early", async () => {
+    fetchMock.mockImplementation(async (input, init) => {
+      if (String(input).endsWith("/api/tags")) {
+        return jsonResponse({ models: [{ name: MODEL }] });
+      }
+      chatSignals.push(init!.signal!);
+      const body = new ReadableStream<Uint8Array>({
+        start(streamController) {
+          streamController.enqueue(
+            new TextEncoder().encode(
+              `${JSON.stringify({ message: { content: "Hi" }, done: false })}\n`,
+            ),
+          );
+        },
+      });
+      return new Response(body);
+    });
+
+    for await (const chunk of service.chatStream({
+      model: MODEL,
+      messages: [{ role: "user", content: "Hello" }],
+      stream: true,
+      signal: new AbortController().signal,
+    })) {
+      expect(chunk.content).toBe("Hi");
+      break;
+    }
+
+    expect(chatSignals[0].aborted).toBe(true);
+  });
+});
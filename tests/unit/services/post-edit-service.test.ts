@@ -0,0 +1,130 @@
+import type { PostEdit, PostEditInput } from "#shared/domain/post-edit.js";
+import { NotFoundError } from "#shared/errors.js";
+import { PostEditRepositoryImpl } from "@main/repository/post-edit-repository.js";
+import { PostEditServiceImpl } from "@main/services/post-edit-service.js";
+import type { TranslationMemoryService } from "@main/services/translation-memory-service.js";
+import { beforeEach, describe, expect, test } from "vitest";
+import { createMockTranslationMemoryService } from "../../mocks/services.mock.js";
+import { createMockStore } from "../../mocks/store.mock.js";
+
+const createPostEditInput = (
+  overrides: Partial<PostEditInput> = {},
+): PostEditInput => ({
+  sourceLanguage: "en",
+  targetLanguage: "de",
+  modelName: "llama3:latest",
+  sourceText: "Open the file.",
+  machineText: "Öffne die Akte.",
+  editedText: "Öffne die Datei.",
+  ...overrides,
+});
+
+describe("PostEditService", () => {
+  let stored: Record<string, unknown>;
+  let translationMemoryService: jest.Mocked<TranslationMemoryService>;
+  let service: PostEditServiceImpl;
+
+  const postEdits = (): PostEdit[] =>
+    (stored["post-edits"] as PostEdit[] | undefined) ?? [];
+
+  beforeEach(() => {
+    stored = {};
+    const store = createMockStore();
+    store.get.mockImplementation(async (key) => stored[key] as never);
+    store.set.mockImplementation(async (key, value) => {
+      stored[key] = value;
+    });
+    translationMemoryService = createMockTranslationMemoryService();
+    service = new PostEditServiceImpl(
+      new PostEditRepositoryImpl(store),
+      translationMemoryService,
+    );
+  });
+
+  test("stores nothing until capture is enabled", async () => {
+    expect(await service.record(createPostEditInput())).toBeUndefined();
+    expect(postEdits()).toEqual([]);
+  });
+
+  test("stores the source, machine and edited text with the edit share", async () => {
+    await service.updateSettings({ enabled: true });
+
+    const postEdit = await service.record(createPostEditInput());
+
+    expect(postEdit).toMatchObject({
+      sourceText: "Open the file.",
+      machineText: "Öffne die Akte.",
+      editedText: "Öffne die Datei.",
+      editPercent: 19,
+    });
+    expect(postEdits()).toEqual([postEdit]);
+    expect(translationMemoryService.addEntry).not.toHaveBeenCalled();
+  });
+
+  test("ignores translations that were not changed", async () => {
+    await service.updateSettings({ enabled: true });
+
+    const postEdit = await service.record(
+      createPostEditInput({ editedText: " Öffne die Akte. " }),
+    );
+
+    expect(postEdit).toBeUndefined();
+    expect(postEdits()).toEqual([]);
+  });
+
+  test("adds the edited segment to the translation memory when configured", async () => {
+    await service.updateSettings({
+      enabled: true,
+      addToTranslationMemory: true,
+    });
+
+    await service.record(createPostEditInput());
+
+    expect(translationMemoryService.addEntry).toHaveBeenCalledWith({
+      sourceLanguage: "en",
+      targetLanguage: "de",
+      sourceText: "Open the file.",
+      targetText: "Öffne die Datei.",
+    });
+  });
+
+  test("summarizes edits per model, least edited first", async () => {
+    await service.updateSettings({ enabled: true });
+    await service.record(createPostEditInput({ modelName: "llama3:latest" }));
+    await service.record(
+      createPostEditInput({ modelName: "gemma3:4b", editedText: "Tschüss" }),
+    );
+    await service.record(
+      createPostEditInput({
+        modelName: "gemma3:4b",
+        editedText: "Öffne die Akten.",
+      }),
+    );
+
+    expect(await service.getStatistics()).toEqual({
+      postEdits: 3,
+      averageEditPercent: 41.7,
+      models: [
+        { modelName: "llama3:latest", postEdits: 1, averageEditPercent: 19 },
+        { modelName: "gemma3:4b", postEdits: 2, averageEditPercent: 53 },
+      ],
+    });
+  });
+
+  test("lists newest first, deletes and purges", async () => {
+    await service.updateSettings({ enabled: true });
+    const first = await service.record(createPostEditInput());
+    const second = await service.record(
+      createPostEditInput({ editedText: "Datei öffnen." }),
+    );
+
+    expect(await service.list()).toEqual([second, first]);
+
+    await service.deleteEntry(first!.id);
+    expect(postEdits()).toEqual([second]);
+    await expect(service.deleteEntry(first!.id)).rejects.toThrow(NotFoundError);
+
+    await service.purge();
+    expect(postEdits()).toEqual([]);
+  });
+});
@@ -0,0 +1,391 @@
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  renderPromptTemplate,
+} from "#shared/domain/prompt-template.js";
+import { NotFoundError, ValidationError } from "#shared/errors.js";
+import type { PromptTemplateRepository } from "@main/repository/prompt-template-repository.js";
+import { PromptTemplateServiceImpl } from "@main/services/prompt-template-service.js";
+import { beforeEach, describe, expect, test } from "vitest";
+import { createGlossaryEntry } from "../../factories/glossary.factory.js";
+import {
+  createPromptTemplate,
+  createPromptTemplateSettings,
+} from "../../factories/prompt-template.factory.js";
+import { createMockPromptTemplateRepository } from "../../mocks/repositories.mock.js";
+
+describe("PromptTemplateService", () => {
+  let mockRepository: jest.Mocked<PromptTemplateRepository>;
+  let service: PromptTemplateServiceImpl;
+
+  const customTemplate = createPromptTemplate({
+    id: "custom",
+    name: "Custom",
+    userPrompt: "{{text}}",
+    isBuiltIn: false,
+  });
+
+  beforeEach(() => {
+    mockRepository = createMockPromptTemplateRepository();
+    service = new PromptTemplateServiceImpl(mockRepository);
+  });
+
+  describe("renderPromptTemplate", () => {
+    test("replaces variables and leaves unknown ones visible", () => {
+      expect(
+        renderPromptTemplate(
+          "{{sourceLanguage}} → {{targetLanguage}} {{typo}}",
+          {
+            sourceLanguage: "English",
+            targetLanguage: "Japanese",
+          },
+        ),
+      ).toBe("English → Japanese {{typo}}");
+    });
+
+    test("keeps conditional sections only for non-empty values", () => {
+      const template = "{{#context}}Context: {{context}}\n{{/context}}{{text}}";
+
+      expect(renderPromptTemplate(template, { text: "Hi", context: "" })).toBe(
+        "Hi",
+      );
+      expect(
+        renderPromptTemplate(template, { text: "Hi", context: "Greeting" }),
+      ).toBe("Context: Greeting\nHi");
+    });
+
+    test("does not expand variables inside inserted values", () => {
+      expect(
+        renderPromptTemplate("{{text}}", { text: "{{context}}", context: "x" }),
+      ).toBe("{{context}}");
+    });
+  });
+
+  describe("renderMessages", () => {
+    test("renders the default template like the original prompt", () => {
+      const messages = service.renderMessages(DEFAULT_PROMPT_TEMPLATE, {
+        text: "Hello",
+        sourceLanguage: "en",
+        targetLanguage: "pt-BR",
+      });
+
+      expect(messages).toEqual([
+        { role: "system", content: DEFAULT_PROMPT_TEMPLATE.systemPrompt },
+        {
+          role: "user",
+          content:
+            "Translate the following English text to Portuguese (Brazil) / Português (Brasil):\n\nHello",
+        },
+      ]);
+    });
+
+    test("includes glossary and context blocks when present", () => {
+      const [, user] = service.renderMessages(DEFAULT_PROMPT_TEMPLATE, {
+        text: "Open the workspace",
+        sourceLanguage: "en",
+        targetLanguage: "ja",
+        context: "Menu item",
+        glossaryEntries: [createGlossaryEntry()],
+      });
+
+      expect(user.content).toBe(
+        [
+          "Use the following terminology exactly as given:",
+          '- "Workspace" → "ワークスペース"',
+          "",
+          "Context: Menu item",
+          "",
+          "Translate the following English text to Japanese / 日本語:",
+          "",
+          "Open the workspace",
+        ].join("\n"),
+      );
+    });
+
+    test("keeps glossary terms under templates without the variable", () => {
+      const [system, user] = service.renderMessages(
+        { systemPrompt: "Translate.", userPrompt: "{{text}}" },
+        {
+          text: "Open the workspace",
+          sourceLanguage: "en",
+          targetLanguage: "ja",
+          glossaryEntries: [createGlossaryEntry()],
+        },
+      );
+
+      expect(system.content).toBe(
+        [
+          "Translate.",
+          'Use the following terminology exactly as given:\n- "Workspace" → "ワークスペース"',
+        ].join("\n\n"),
+      );
+      expect(user.content).toBe("Open the workspace");
+    });
+
+    test("adds formality and domain instructions", () => {
+      const [system, user] = service.renderMessages(DEFAULT_PROMPT_TEMPLATE, {
+        text: "Please check the contract",
+        sourceLanguage: "en",
+        targetLanguage: "de",
+        formality: "formal",
+        domain: "legal",
+      });
+
+      expect(user.content).toBe(
+        [
+          "Use a formal tone suitable for business correspondence.",
+          "",
+          "This is a legal text: keep the wording precise and use established legal terminology.",
+          "",
+          "Translate the following English text to German / Deutsch:",
+          "",
+          "Please check the contract",
+        ].join("\n"),
+      );
+      expect(system.content).toBe(DEFAULT_PROMPT_TEMPLATE.systemPrompt);
+    });
+
+    test("appends style instructions a template has no slot for", () => {
+      const [system, user] = service.renderMessages(
+        { systemPrompt: "Translate.", userPrompt: "{{text}}" },
+        {
+          text: "Please check the contract",
+          sourceLanguage: "en",
+          targetLanguage: "de",
+          formality: "formal",
+          domain: "legal",
+        },
+      );
+
+      expect(system.content).toBe(
+        [
+          "Translate.",
+          "Use a formal tone suitable for business correspondence.",
+          "This is a legal text: keep the wording precise and use established legal terminology.",
+        ].join("\n\n"),
+      );
+      expect(user.content).toBe("Please check the contract");
+    });
+
+    test.each([
+      ["casual", "普通体"],
+      ["polite", "です/ます"],
+      ["formal", "尊敬語"],
+    ] as const)("uses Japanese register for %s output", (formality, marker) => {
+      const [, user] = service.renderMessages(DEFAULT_PROMPT_TEMPLATE, {
+        text: "Thank you",
+        sourceLanguage: "en",
+        targetLanguage: "ja",
+        formality,
+      });
+
+      expect(user.content).toContain(marker);
+    });
+
+    test("adds nothing for the general domain", () => {
+      const [, user] = service.renderMessages(DEFAULT_PROMPT_TEMPLATE, {
+        text: "Hello",
+        sourceLanguage: "en",
+        targetLanguage: "fr",
+        domain: "general",
+      });
+
+      expect(user.content).toBe(
+        "Translate the following English text to French / Français:\n\nHello",
+      );
+    });
+
+    test("asks to keep placeholders when the text has some", () => {
+      const [, user] = service.renderMessages(DEFAULT_PROMPT_TEMPLATE, {
+        text: 'Run <ph id="1"/>',
+        sourceLanguage: "en",
+        targetLanguage: "ja",
+      });
+
+      expect(user.content).toContain("Copy every placeholder unchanged");
+    });
+
+    test("asks to keep placeholders under templates without the section", () => {
+      const [system, user] = service.renderMessages(
+        { systemPrompt: "", userPrompt: "{{text}}" },
+        {
+          text: 'Run <ph id="1"/>',
+          sourceLanguage: "en",
+          targetLanguage: "ja",
+        },
+      );
+
+      expect(system.role).toBe("system");
+      expect(system.content).toContain("Copy every placeholder unchanged");
+      expect(user.content).toBe('Run <ph id="1"/>');
+    });
+
+    test("adds translation memory references under any template", () => {
+      const match = {
+        entryId: "tm-1",
+        sourceText: "Open the file",
+        targetText: "ファイルを開く",
+        matchPercent: 85,
+      };
+
+      const [, user] = service.renderMessages(DEFAULT_PROMPT_TEMPLATE, {
+        text: "Open the folder",
+        sourceLanguage: "en",
+        targetLanguage: "ja",
+        translationMemoryMatches: [match],
+      });
+      const [system] = service.renderMessages(
+        { systemPrompt: "Translate.", userPrompt: "{{text}}" },
+        {
+          text: "Open the folder",
+          sourceLanguage: "en",
+          targetLanguage: "ja",
+          translationMemoryMatches: [match],
+        },
+      );
+
+      expect(user.content).toContain(
+        "Source (85% similar): Open the file\nTranslation: ファイルを開く",
+      );
+      expect(system.content).toContain(
+        "Source (85% similar): Open the file\nTranslation: ファイルを開く",
+      );
+    });
+
+    test("omits an empty system prompt", () => {
+      const messages = service.renderMessages(
+        { systemPrompt: "  ", userPrompt: "{{text}}" },
+        { text: "Hi", sourceLanguage: "en", targetLanguage: "ja" },
+      );
+
+      expect(messages).toEqual([{ role: "user", content: "Hi" }]);
+    });
+  });
+
+  describe("resolveTemplate", () => {
+    test("prefers language pair over model over default", async () => {
+      const modelTemplate = createPromptTemplate({ id: "model" });
+      mockRepository.getSettings.mockResolvedValue(
+        createPromptTemplateSettings({
+          templates: [createPromptTemplate(), customTemplate, modelTemplate],
+          modelTemplates: { "llama3:latest": "model" },
+          languagePairTemplates: { "en>ja": "custom" },
+        }),
+      );
+
+      expect(
+        (await service.resolveTemplate("llama3:latest", "en", "ja")).id,
+      ).toBe("custom");
+      expect(
+        (await service.resolveTemplate("llama3:latest", "en", "fr")).id,
+      ).toBe("model");
+      expect((await service.resolveTemplate("other", "en", "fr")).id).toBe(
+        "default",
+      );
+    });
+
+    test("falls back to the built-in template for dangling assignments", async () => {
+      mockRepository.getSettings.mockResolvedValue(
+        createPromptTemplateSettings({
+          defaultTemplateId: "deleted",
+          languagePairTemplates: { "en>ja": "deleted" },
+        }),
+      );
+
+      const template = await service.resolveTemplate(undefined, "en", "ja");
+
+      expect(template.id).toBe("default");
+    });
+  });
+
+  describe("editing", () => {
+    test("bumps the version on update", async () => {
+      const updated = await service.updateTemplate("default", {
+        systemPrompt: "Be concise.",
+      });
+
+      expect(updated.version).toBe(DEFAULT_PROMPT_TEMPLATE.version + 1);
+      expect(updated.systemPrompt).toBe("Be concise.");
+      expect(updated.isBuiltIn).toBe(true);
+      expect(mockRepository.saveSettings).toHaveBeenCalledWith(
+        expect.objectContaining({ templates: [updated] }),
+      );
+    });
+
+    test("resets the built-in template to its shipped content", async () => {
+      mockRepository.getSettings.mockResolvedValue(
+        createPromptTemplateSettings({
+          templates: [
+            createPromptTemplate({ systemPrompt: "Edited", version: 4 }),
+          ],
+        }),
+      );
+
+      const reset = await service.resetTemplate("default");
+
+      expect(reset.systemPrompt).toBe(DEFAULT_PROMPT_TEMPLATE.systemPrompt);
+      expect(reset.version).toBe(5);
+    });
+
+    test("refuses to reset or delete the wrong kind of template", async () => {
+      mockRepository.getSettings.mockResolvedValue(
+        createPromptTemplateSettings({
+          templates: [createPromptTemplate(), customTemplate],
+        }),
+      );
+
+      await expect(service.resetTemplate("custom")).rejects.toThrow(
+        ValidationError,
+      );
+      await expect(service.deleteTemplate("default")).rejects.toThrow(
+        ValidationError,
+      );
+    });
+
+    test("deleting a template removes its assignments", async () => {
+      mockRepository.getSettings.mockResolvedValue(
+        createPromptTemplateSettings({
+          templates: [createPromptTemplate(), customTemplate],
+          defaultTemplateId: "custom",
+          modelTemplates: { "llama3:latest": "custom" },
+          languagePairTemplates: { "en>ja": "custom", "en>fr": "default" },
+        }),
+      );
+
+      const settings = await service.deleteTemplate("custom");
+
+      expect(settings).toEqual({
+        templates: [createPromptTemplate()],
+        defaultTemplateId: "default",
+        modelTemplates: {},
+        languagePairTemplates: { "en>fr": "default" },
+      });
+    });
+
+    test("assigns and clears templates per scope", async () => {
+      mockRepository.getSettings.mockResolvedValue(
+        createPromptTemplateSettings({
+          templates: [createPromptTemplate(), customTemplate],
+          modelTemplates: { "llama3:latest": "default" },
+        }),
+      );
+
+      const assigned = await service.assignTemplate(
+        { type: "languagePair", sourceLanguage: "en", targetLanguage: "ja" },
+        "custom",
+      );
+      expect(assigned.languagePairTemplates).toEqual({ "en>ja": "custom" });
+
+      const cleared = await service.assignTemplate(
+        { type: "model", modelName: "llama3:latest" },
+        null,
+      );
+      expect(cleared.modelTemplates).toEqual({});
+    });
+
+    test("rejects assigning an unknown template", async () => {
+      await expect(
+        service.assignTemplate({ type: "default" }, "missing"),
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+});
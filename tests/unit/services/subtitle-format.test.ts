@@ -0,0 +1,130 @@
+import {
+  detectSubtitleFormat,
+  getSubtitleCues,
+  parseSubtitles,
+  serializeSubtitles,
+  wrapSubtitleText,
+} from "@main/services/subtitle-format.js";
+import { describe, expect, test } from "vitest";
+
+const SRT = `1
+00:00:01,000 --> 00:00:03,500
+<i>Welcome to the course.</i>
+
+2
+00:00:04,000 --> 00:00:06,000
+{\\an8}In this lesson we cover
+the basics of safety.
+`;
+
+const VTT = `WEBVTT - Training
+
+NOTE Recorded in 2024
+
+STYLE
+::cue { color: yellow }
+
+intro
+00:00:01.000 --> 00:00:03.000 align:start position:10%
+<v Trainer>Hello, everyone.
+
+00:00:03.500 --> 00:00:05.000
+Let's begin.
+`;
+
+describe("parseSubtitles", () => {
+  test("reads SRT cue numbers, timings and text", () => {
+    const document = parseSubtitles(SRT);
+
+    expect(document.format).toBe("srt");
+    expect(getSubtitleCues(document)).toEqual([
+      {
+        identifier: "1",
+        timing: "00:00:01,000 --> 00:00:03,500",
+        text: "<i>Welcome to the course.</i>",
+      },
+      {
+        identifier: "2",
+        timing: "00:00:04,000 --> 00:00:06,000",
+        text: "{\\an8}In this lesson we cover\nthe basics of safety.",
+      },
+    ]);
+  });
+
+  test("reads WebVTT cues and keeps metadata blocks", () => {
+    const document = parseSubtitles(VTT);
+
+    expect(document.format).toBe("vtt");
+    expect(document.blocks.map((block) => block.type)).toEqual([
+      "raw",
+      "raw",
+      "raw",
+      "cue",
+      "cue",
+    ]);
+    expect(getSubtitleCues(document)[0]).toEqual({
+      identifier: "intro",
+      timing: "00:00:01.000 --> 00:00:03.000 align:start position:10%",
+      text: "<v Trainer>Hello, everyone.",
+    });
+  });
+
+  test("writes the file back unchanged", () => {
+    for (const content of [SRT, VTT]) {
+      const document = parseSubtitles(content);
+      const texts = getSubtitleCues(document).map((cue) => cue.text);
+
+      expect(serializeSubtitles(document, texts)).toBe(content);
+    }
+  });
+
+  test("keeps Windows line endings", () => {
+    const content = SRT.replace(/\n/g, "\r\n");
+    const document = parseSubtitles(content);
+
+    expect(serializeSubtitles(document, ["Willkommen", "Hallo"])).toContain(
+      "1\r\n00:00:01,000 --> 00:00:03,500\r\nWillkommen\r\n\r\n",
+    );
+  });
+
+  test("rejects files without cues", () => {
+    expect(() => parseSubtitles("Just some text")).toThrow("no timing line");
+    expect(() => parseSubtitles("WEBVTT\n\nNOTE only")).toThrow("no cues");
+  });
+
+  test("detects the format from the header", () => {
+    expect(detectSubtitleFormat("﻿WEBVTT\n\n")).toBe("vtt");
+    expect(detectSubtitleFormat(SRT)).toBe("srt");
+  });
+});
+
+describe("wrapSubtitleText", () => {
+  test("breaks at spaces without counting tags", () => {
+    expect(
+      wrapSubtitleText(
+        "<i>In this lesson we cover the basics of safety.</i>",
+        30,
+      ),
+    ).toEqual(["<i>In this lesson we cover the", "basics of safety.</i>"]);
+  });
+
+  test("moves opening tags with the word they style", () => {
+    expect(wrapSubtitleText("Please read the <b>manual</b>", 16)).toEqual([
+      "Please read the",
+      "<b>manual</b>",
+    ]);
+  });
+
+  test("breaks text without spaces between characters", () => {
+    expect(
+      wrapSubtitleText("このレッスンでは安全の基本を学びます。", 10),
+    ).toEqual(["このレッスンでは安全", "の基本を学びます。"]);
+  });
+
+  test("keeps existing line breaks and short text", () => {
+    expect(wrapSubtitleText("- Hi.\n- Hello.", 42)).toEqual([
+      "- Hi.",
+      "- Hello.",
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+import type {
+  SubtitleTranslationEvent,
+  SubtitleTranslationResult,
+} from "#shared/domain/subtitle.js";
+import { SubtitleTranslationRequest } from "#shared/domain/subtitle.js";
+import { SubtitleServiceImpl } from "@main/services/subtitle-service.js";
+import { protectText, restoreText } from "@main/services/text-protection.js";
+import type { TranslationService } from "@main/services/translation-service.js";
+import { beforeEach, describe, expect, test } from "vitest";
+import { createTranslationResponse } from "../../factories/translation.factory.js";
+import { createMockTranslationService } from "../../mocks/services.mock.js";
+
+/** Upper-cases the text around protected spans, as the real service masks them */
+function fakeTranslate(text: string): string {
+  const { text: masked, spans } = protectText(text);
+  return restoreText(masked.toUpperCase(), spans).text;
+}
+
+async function translateFile(
+  service: SubtitleServiceImpl,
+  content: string,
+  options: { maxLineLength?: number; maxLinesPerCue?: number } = {},
+): Promise<{
+  events: SubtitleTranslationEvent[];
+  result: SubtitleTranslationResult;
+}> {
+  const events: SubtitleTranslationEvent[] = [];
+  const request = SubtitleTranslationRequest.parse({
+    content,
+    sourceLanguage: "en",
+    targetLanguage: "de",
+    ...options,
+  });
+  for await (const event of service.translateSubtitles(request)) {
+    events.push(event);
+  }
+
+  const done = events.at(-1);
+  if (done?.type !== "done") throw new Error("Expected a done event");
+  return { events, result: done.result };
+}
+
+function createSrt(texts: string[]): string {
+  return texts
+    .map(
+      (text, index) =>
+        `${index + 1}\n00:00:0${index},000 --> 00:00:0${index},900\n${text}\n`,
+    )
+    .join("\n");
+}
+
+describe("SubtitleService", () => {
+  let translationService: jest.Mocked<TranslationService>;
+  let service: SubtitleServiceImpl;
+
+  beforeEach(() => {
+    translationService = createMockTranslationService();
+    translationService.translate.mockImplementation(async (request) =>
+      createTranslationResponse({
+        translatedText: fakeTranslate(request.text),
+      }),
+    );
+    service = new SubtitleServiceImpl(translationService);
+  });
+
+  test("translates neighbouring cues together and keeps timings and tags", async () => {
+    const content = createSrt([
+      "<i>When the alarm sounds,</i>",
+      "leave the building\nby the nearest exit.",
+    ]);
+
+    const { result } = await translateFile(service, content);
+
+    expect(translationService.translate).toHaveBeenCalledTimes(1);
+    expect(translationService.translate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        text:
+          "{{notranslate}}[[cue 1]]{{/notranslate}} {{notranslate}}<i>{{/notranslate}}When the alarm sounds,{{notranslate}}</i>{{/notranslate}}\n" +
+          "{{notranslate}}[[cue 2]]{{/notranslate}} leave the building by the nearest exit.",
+        priority: "low",
+      }),
+      undefined,
+    );
+    expect(result.content).toBe(
+      createSrt([
+        "<i>WHEN THE ALARM SOUNDS,</i>",
+        "LEAVE THE BUILDING BY THE NEAREST EXIT.",
+      ]),
+    );
+    expect(result).toMatchObject({
+      format: "srt",
+      totalCues: 2,
+      translatedCues: 2,
+      issues: [],
+    });
+  });
+
+  test("falls back to single cues when the model merges cues", async () => {
+    translationService.translate.mockResolvedValueOnce(
+      createTranslationResponse({ translatedText: "[[cue 1]] EINS ZWEI" }),
+    );
+
+    const { result } = await translateFile(service, createSrt(["One", "Two"]));
+
+    expect(translationService.translate).toHaveBeenCalledTimes(3);
+    expect(translationService.translate).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        text: "Two",
+        context: expect.stringContaining("Previous subtitles:\nOne"),
+      }),
+      undefined,
+    );
+    expect(result.content).toBe(createSrt(["ONE", "TWO"]));
+  });
+
+  test("reports cues that exceed the line limits", async () => {
+    const { result } = await translateFile(
+      service,
+      createSrt(["This sentence is much too long for one short line"]),
+      { maxLineLength: 12, maxLinesPerCue: 2 },
+    );
+
+    expect(result.issues).toEqual([
+      {
+        cue: 1,
+        timing: "00:00:00,000 --> 00:00:00,900",
+        reason: "too_long",
+      },
+    ]);
+  });
+
+  test("keeps the source text of cues the model cannot translate", async () => {
+    translationService.translate.mockRejectedValue({ message: "model busy" });
+
+    const { result } = await translateFile(service, createSrt(["Hello"]));
+
+    expect(result.content).toBe(createSrt(["Hello"]));
+    expect(result.translatedCues).toBe(0);
+    expect(result.issues).toEqual([
+      expect.objectContaining({
+        cue: 1,
+        reason: "translation_failed",
+        error: "model busy",
+      }),
+    ]);
+  });
+
+  test("reports progress per window", async () => {
+    const texts = Array.from({ length: 8 }, (_, index) => `Line ${index}`);
+
+    const { events } = await translateFile(service, createSrt(texts));
+
+    expect(events.filter((event) => event.type === "progress")).toEqual([
+      { type: "progress", completedCues: 0, totalCues: 8 },
+      { type: "progress", completedCues: 6, totalCues: 8 },
+      { type: "progress", completedCues: 8, totalCues: 8 },
+    ]);
+  });
+
+  test("copies cues without words", async () => {
+    const { result } = await translateFile(service, createSrt(["♪ ♪", "Hi"]));
+
+    expect(translationService.translate).toHaveBeenCalledTimes(1);
+    expect(result.content).toBe(createSrt(["♪ ♪", "HI"]));
+  });
+});
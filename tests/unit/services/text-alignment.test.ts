@@ -0,0 +1,83 @@
+import type { SentenceAlignment } from "#shared/domain/translation.js";
+import { alignSegments } from "@main/services/text-alignment.js";
+import {
+  protectText,
+  restoreOriginalText,
+  restoreText,
+} from "@main/services/text-protection.js";
+import { joinSegments, splitSentences } from "@main/services/text-segmenter.js";
+import { describe, expect, test } from "vitest";
+
+/** Translate like the pipeline does, with a fake model */
+function align(
+  sourceText: string,
+  translate: (text: string) => string,
+): { alignment?: SentenceAlignment[]; pairs?: string[][] } {
+  const { text, spans, originals } = protectText(sourceText);
+  const segments = splitSentences(text, 500);
+  const translations = segments.map((segment) => translate(segment.text));
+  const translatedText = restoreText(
+    joinSegments(segments, translations).trim(),
+    spans,
+  ).text;
+
+  const alignment = alignSegments({
+    segments,
+    translations,
+    sourceText,
+    translatedText,
+    renderSource: (masked) => restoreOriginalText(masked, originals),
+    renderTarget: (joined) => restoreText(joined.trim(), spans).text,
+  });
+
+  const pairs = alignment?.map(({ source, target }) => [
+    sourceText.slice(source.start, source.end),
+    translatedText.slice(target.start, target.end),
+  ]);
+  return { alignment, pairs };
+}
+
+describe("alignSegments", () => {
+  test("pairs every sentence with its translation", () => {
+    const { pairs } = align("  Hello there. How are you?\n\nGood.", (text) =>
+      text.toUpperCase(),
+    );
+
+    expect(pairs).toEqual([
+      ["Hello there.", "HELLO THERE."],
+      ["How are you?", "HOW ARE YOU?"],
+      ["Good.", "GOOD."],
+    ]);
+  });
+
+  test("accounts for restored code, URLs and markers", () => {
+    const { pairs } = align(
+      "See {{notranslate}}Deep Llama{{/notranslate}} now. Open https://example.com/docs today.",
+      (text) => ` ${text.toUpperCase()}\n`,
+    );
+
+    expect(pairs).toEqual([
+      [
+        "See {{notranslate}}Deep Llama{{/notranslate}} now.",
+        "SEE Deep Llama NOW.",
+      ],
+      [
+        "Open https://example.com/docs today.",
+        "OPEN https://example.com/docs TODAY.",
+      ],
+    ]);
+  });
+
+  test("gives up when the texts cannot be rebuilt", () => {
+    const alignment = alignSegments({
+      segments: [{ leading: "", text: "Hi.", trailing: "" }],
+      translations: ["Salut."],
+      sourceText: "Hi.",
+      translatedText: "Bonjour.",
+      renderSource: (text) => text,
+      renderTarget: (text) => text,
+    });
+
+    expect(alignment).toBeUndefined();
+  });
+});
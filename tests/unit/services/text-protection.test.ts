@@ -0,0 +1,150 @@
+import {
+  containsPlaceholders,
+  isPlaceholderOnly,
+  PlaceholderStreamRestorer,
+  protectText,
+  restoreOriginalText,
+  restoreText,
+} from "@main/services/text-protection.js";
+import { describe, expect, test } from "vitest";
+
+describe("protectText", () => {
+  test("masks inline code, URLs and HTML tags", () => {
+    const { text, spans } = protectText(
+      'Run `npm test` and see <a href="https://example.com/docs">the docs</a>.',
+    );
+
+    expect(text).toBe(
+      'Run <ph id="1"/> and see <ph id="2"/>the docs<ph id="3"/>.',
+    );
+    expect(spans).toEqual([
+      "`npm test`",
+      '<a href="https://example.com/docs">',
+      "</a>",
+    ]);
+  });
+
+  test("masks fenced code blocks as a whole", () => {
+    const source = "Example:\n\n```ts\nconst url = `https://x`;\n```\n\nDone.";
+
+    const { text, spans } = protectText(source);
+
+    expect(text).toBe('Example:\n\n<ph id="1"/>\n\nDone.');
+    expect(spans).toEqual(["```ts\nconst url = `https://x`;\n```"]);
+  });
+
+  test("keeps sentence punctuation out of URLs", () => {
+    const { spans } = protectText(
+      "See https://example.com/a, or https://en.wikipedia.org/wiki/Kyoto_(city).",
+    );
+
+    expect(spans).toEqual([
+      "https://example.com/a",
+      "https://en.wikipedia.org/wiki/Kyoto_(city)",
+    ]);
+  });
+
+  test("masks e-mail addresses and HTML comments", () => {
+    const { spans } = protectText(
+      "Write to support@example.co.jp <!-- internal note -->",
+    );
+
+    expect(spans).toEqual(["support@example.co.jp", "<!-- internal note -->"]);
+  });
+
+  test("strips explicit do-not-translate markers", () => {
+    const { text, spans } = protectText(
+      "Welcome to {{notranslate}}Deep Llama{{/notranslate}}!",
+    );
+
+    expect(text).toBe('Welcome to <ph id="1"/>!');
+    expect(spans).toEqual(["Deep Llama"]);
+  });
+
+  test("leaves plain prose and comparisons untouched", () => {
+    const source = "If a < b and c > d, nothing changes.";
+
+    expect(protectText(source)).toEqual({
+      text: source,
+      spans: [],
+      originals: [],
+    });
+  });
+});
+
+describe("restoreText", () => {
+  const spans = ["`npm test`", "https://example.com"];
+
+  test("puts the original spans back", () => {
+    expect(
+      restoreText('<ph id="1"/> を実行し、<ph id="2"/> を参照', spans),
+    ).toEqual({
+      text: "`npm test` を実行し、https://example.com を参照",
+      missingSpans: [],
+    });
+  });
+
+  test("accepts placeholders rewritten by the model", () => {
+    expect(restoreText("<ph id=1> と <PH id='2' />", spans).text).toBe(
+      "`npm test` と https://example.com",
+    );
+  });
+
+  test("drops duplicated and unknown placeholders", () => {
+    expect(
+      restoreText('<ph id="1"/> <ph id="1"/> <ph id="3"/> <ph id="2"/>', spans)
+        .text,
+    ).toBe("`npm test`   https://example.com");
+  });
+
+  test("reports spans whose placeholder is missing", () => {
+    expect(restoreText('<ph id="2"/>', spans)).toEqual({
+      text: "https://example.com",
+      missingSpans: ["`npm test`"],
+    });
+  });
+});
+
+describe("restoreOriginalText", () => {
+  test("puts back the input including notranslate markers", () => {
+    const source =
+      "Call {{notranslate}}Deep Llama{{/notranslate}} at https://x.io";
+    const { text, originals } = protectText(source);
+
+    expect(restoreOriginalText(text, originals)).toBe(source);
+  });
+});
+
+describe("placeholder helpers", () => {
+  test("recognizes segments made of placeholders only", () => {
+    expect(isPlaceholderOnly(' <ph id="1"/>\n<ph id="2"/> ')).toBe(true);
+    expect(isPlaceholderOnly('Run <ph id="1"/>')).toBe(false);
+  });
+
+  test("detects placeholders in text", () => {
+    expect(containsPlaceholders('Run <ph id="1"/>')).toBe(true);
+    expect(containsPlaceholders("Run <b>")).toBe(false);
+  });
+});
+
+describe("PlaceholderStreamRestorer", () => {
+  test("restores placeholders split across deltas", () => {
+    const restorer = new PlaceholderStreamRestorer(["`npm test`"]);
+
+    const output = [
+      restorer.push("実行: <p"),
+      restorer.push('h id="1'),
+      restorer.push('"/> です'),
+      restorer.flush(),
+    ];
+
+    expect(output).toEqual(["実行: ", "", "`npm test` です", ""]);
+  });
+
+  test("releases held back text on flush", () => {
+    const restorer = new PlaceholderStreamRestorer(["x"]);
+
+    expect(restorer.push("a <")).toBe("a ");
+    expect(restorer.flush()).toBe("<");
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  estimateTokens,
+  getSegmentTokenBudget,
+  joinSegments,
+  segmentText,
+  splitSentences,
+} from "@main/services/text-segmenter.js";
+import { describe, expect, test } from "vitest";
+
+const reassemble = (text: string, maxTokens: number): string =>
+  segmentText(text, maxTokens)
+    .map((segment) => segment.leading + segment.text + segment.trailing)
+    .join("");
+
+describe("text segmenter", () => {
+  describe("estimateTokens", () => {
+    test("counts wide characters individually", () => {
+      expect(estimateTokens("こんにちは世界")).toBe(7);
+      expect(estimateTokens("Hello World!")).toBe(3);
+      expect(estimateTokens("")).toBe(0);
+    });
+  });
+
+  describe("getSegmentTokenBudget", () => {
+    test("leaves room for the prompt and the translation", () => {
+      expect(getSegmentTokenBudget(2048, 200)).toBe(616);
+    });
+
+    test("is clamped for very small and very large contexts", () => {
+      expect(getSegmentTokenBudget(100, 200)).toBe(64);
+      expect(getSegmentTokenBudget(131072, 200)).toBe(1500);
+    });
+  });
+
+  describe("segmentText", () => {
+    test("keeps short text in one segment", () => {
+      expect(segmentText("  Hello World\n", 100)).toEqual([
+        { leading: "  ", text: "Hello World", trailing: "\n" },
+      ]);
+    });
+
+    test("returns no segments for blank text", () => {
+      expect(segmentText(" \n ", 100)).toEqual([]);
+    });
+
+    test("splits at paragraphs before sentences", () => {
+      const first = "First paragraph. It has two sentences.";
+      const second = "Second paragraph.";
+      const segments = segmentText(`${first}\n\n${second}`, 12);
+
+      expect(segments).toEqual([
+        { leading: "", text: first, trailing: "\n\n" },
+        { leading: "", text: second, trailing: "" },
+      ]);
+    });
+
+    test("splits long English paragraphs at sentence ends", () => {
+      const text =
+        "The cat sat on the mat. The dog lay by the door! Did the bird sing?";
+      const segments = segmentText(text, 8);
+
+      expect(segments.map((segment) => segment.text)).toEqual([
+        "The cat sat on the mat.",
+        "The dog lay by the door!",
+        "Did the bird sing?",
+      ]);
+    });
+
+    test("splits Japanese at sentence ends without spaces", () => {
+      const text =
+        "今日は晴れです。明日は雨が降るでしょう。「本当？」と聞いた。";
+      const segments = segmentText(text, 12);
+
+      expect(segments.map((segment) => segment.text)).toEqual([
+        "今日は晴れです。",
+        "明日は雨が降るでしょう。",
+        "「本当？」と聞いた。",
+      ]);
+    });
+
+    test("packs small paragraphs together up to the budget", () => {
+      const segments = segmentText("One.\n\nTwo.\n\nThree.", 100);
+
+      expect(segments).toHaveLength(1);
+      expect(segments[0].text).toBe("One.\n\nTwo.\n\nThree.");
+    });
+
+    test("hard-splits text without boundaries", () => {
+      const text = "a".repeat(1000);
+      const segments = segmentText(text, 64);
+
+      expect(segments.every((s) => estimateTokens(s.text) <= 64)).toBe(true);
+      expect(segments.map((s) => s.text).join("")).toBe(text);
+    });
+
+    test("reproduces the original whitespace exactly", () => {
+      const text =
+        "\n  Title\n\n\tIndented line one.\nLine two.   \n\n\n最後の段落です。これで終わり。 \n";
+
+      for (const maxTokens of [1, 4, 8, 16, 1000]) {
+        expect(reassemble(text, maxTokens)).toBe(text);
+      }
+    });
+  });
+
+  describe("joinSegments", () => {
+    test("puts translations between the original whitespace", () => {
+      const segments = segmentText("Hello.\n\nGoodbye.", 2);
+
+      expect(joinSegments(segments, [" こんにちは。\n", "さようなら。"])).toBe(
+        "こんにちは。\n\nさようなら。",
+      );
+    });
+  });
+});
+
+describe("splitSentences", () => {
+  test("gives every sentence its own segment", () => {
+    const text =
+      "First one. Second one!\n\nA new paragraph? 最後です。終わり。";
+
+    const segments = splitSentences(text, 500);
+
+    expect(segments.map((segment) => segment.text)).toEqual([
+      "First one.",
+      "Second one!",
+      "A new paragraph?",
+      "最後です。",
+      "終わり。",
+    ]);
+    expect(
+      segments
+        .map((segment) => segment.leading + segment.text + segment.trailing)
+        .join(""),
+    ).toBe(text);
+  });
+
+  test("splits sentences that exceed the budget at clauses", () => {
+    const sentence = Array.from({ length: 8 }, () => "word ".repeat(20))
+      .join(", ")
+      .concat(".");
+
+    const segments = splitSentences(sentence, 64);
+
+    expect(segments.length).toBeGreaterThan(1);
+    for (const segment of segments) {
+      expect(estimateTokens(segment.text)).toBeLessThanOrEqual(64);
+    }
+  });
+});
@@ -0,0 +1,60 @@
+import { chrF, editSimilarity } from "@main/services/text-similarity.js";
+import { describe, expect, test } from "vitest";
+
+describe("chrF", () => {
+  test("scores identical texts as 1", () => {
+    expect(chrF("The cat sat on the mat.", "The cat sat on the mat.")).toBe(1);
+  });
+
+  test("ignores case, width and whitespace", () => {
+    expect(chrF("the  cat\nsat", "The cat sat")).toBe(1);
+    expect(chrF("ＡＢＣ１２３", "abc123")).toBe(1);
+  });
+
+  test("scores unrelated texts near 0", () => {
+    expect(chrF("xyz", "abc")).toBe(0);
+  });
+
+  test("ranks closer paraphrases higher", () => {
+    const reference = "The meeting was moved to Friday afternoon.";
+    const close = chrF("The meeting was moved to Friday.", reference);
+    const distant = chrF("We will eat lunch together.", reference);
+
+    expect(close).toBeGreaterThan(0.6);
+    expect(distant).toBeLessThan(0.3);
+    expect(close).toBeGreaterThan(distant);
+  });
+
+  test("works for texts without spaces", () => {
+    expect(
+      chrF("会議は金曜日に移動しました", "会議は金曜日に変更されました"),
+    ).toBeGreaterThan(0.4);
+  });
+
+  test("handles empty and very short texts", () => {
+    expect(chrF("", "")).toBe(1);
+    expect(chrF("", "Hello")).toBe(0);
+    expect(chrF("a", "a")).toBe(1);
+  });
+});
+
+describe("editSimilarity", () => {
+  test("scores identical texts as 1 after normalizing whitespace", () => {
+    expect(editSimilarity("Save  the file\n", "Save the file")).toBe(1);
+    expect(editSimilarity("", "")).toBe(1);
+  });
+
+  test("counts edits against the longer text", () => {
+    // One substituted character out of ten
+    expect(editSimilarity("Open files", "Open filed")).toBeCloseTo(0.9);
+    expect(editSimilarity("abc", "")).toBe(0);
+  });
+
+  test("is case-sensitive", () => {
+    expect(editSimilarity("Save", "save")).toBe(0.75);
+  });
+
+  test("compares code points rather than UTF-16 units", () => {
+    expect(editSimilarity("😀 ok", "😃 ok")).toBe(0.75);
+  });
+});
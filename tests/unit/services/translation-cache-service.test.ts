@@ -0,0 +1,157 @@
+import { TranslationCacheRepositoryImpl } from "@main/repository/translation-cache-repository.js";
+import type { TranslationCacheKeyParts } from "@main/services/translation-cache-service.js";
+import { TranslationCacheServiceImpl } from "@main/services/translation-cache-service.js";
+import { beforeEach, describe, expect, test } from "vitest";
+import { createGlossaryEntry } from "../../factories/glossary.factory.js";
+import { createTranslationResponse } from "../../factories/translation.factory.js";
+import { createMockStore } from "../../mocks/store.mock.js";
+
+describe("TranslationCacheService", () => {
+  let stored: Record<string, unknown>;
+  let service: TranslationCacheServiceImpl;
+
+  const keyParts: TranslationCacheKeyParts = {
+    text: "Hello World",
+    sourceLanguage: "en",
+    targetLanguage: "ja",
+    modelDigest: "sha256:abc",
+    promptTemplate: { id: "default", name: "Default", version: 1 },
+    glossaryEntries: [],
+    options: { temperature: 0.3 },
+  };
+
+  const createService = (): TranslationCacheServiceImpl => {
+    const store = createMockStore();
+    store.get.mockImplementation(async (key) => stored[key] as never);
+    store.set.mockImplementation(async (key, value) => {
+      stored[key] = value;
+    });
+    return new TranslationCacheServiceImpl(
+      new TranslationCacheRepositoryImpl(store),
+    );
+  };
+
+  beforeEach(() => {
+    stored = {};
+    service = createService();
+  });
+
+  describe("createKey", () => {
+    test("ignores whitespace and Unicode form differences", () => {
+      const key = service.createKey(keyParts);
+
+      expect(
+        service.createKey({ ...keyParts, text: "  Hello World \r\n" }),
+      ).toBe(key);
+      expect(
+        service.createKey({
+          ...keyParts,
+          text: "Café",
+        }),
+      ).toBe(service.createKey({ ...keyParts, text: "Café" }));
+    });
+
+    test("changes with anything that influences the translation", () => {
+      const key = service.createKey(keyParts);
+      const variants: Partial<TranslationCacheKeyParts>[] = [
+        { text: "Hello world" },
+        { targetLanguage: "fr" },
+        { modelDigest: "sha256:def" },
+        { promptTemplate: { id: "default", name: "Default", version: 2 } },
+        { context: "Greeting" },
+        { glossaryEntries: [createGlossaryEntry()] },
+        { formality: "formal" },
+        { domain: "legal" },
+        { options: { temperature: 0.7 } },
+      ];
+
+      for (const variant of variants) {
+        expect(service.createKey({ ...keyParts, ...variant })).not.toBe(key);
+      }
+    });
+  });
+
+  test("is disabled by default and stores nothing", async () => {
+    const key = service.createKey(keyParts);
+    await service.set(key, createTranslationResponse());
+
+    expect(await service.isEnabled()).toBe(false);
+    expect(await service.get(key)).toBeUndefined();
+    expect(await service.getStats()).toMatchObject({
+      enabled: false,
+      entries: 0,
+      hits: 0,
+      misses: 0,
+    });
+  });
+
+  test("returns cached responses and counts hits and misses", async () => {
+    await service.updateSettings({ enabled: true });
+    const key = service.createKey(keyParts);
+    const response = createTranslationResponse();
+
+    expect(await service.get(key)).toBeUndefined();
+    await service.set(key, response);
+
+    expect(await service.get(key)).toEqual(response);
+    expect(await service.getStats()).toMatchObject({
+      entries: 1,
+      hits: 1,
+      misses: 1,
+    });
+    expect(stored["translation-cache"]).toEqual([]);
+  });
+
+  test("evicts the least recently used entry", async () => {
+    await service.updateSettings({ enabled: true, maxEntries: 2 });
+    const keys = ["a", "b", "c"].map((text) =>
+      service.createKey({ ...keyParts, text }),
+    );
+
+    await service.set(keys[0], createTranslationResponse());
+    await service.set(keys[1], createTranslationResponse());
+    await service.get(keys[0]);
+    await service.set(keys[2], createTranslationResponse());
+
+    expect(await service.get(keys[0])).toBeDefined();
+    expect(await service.get(keys[1])).toBeUndefined();
+    expect(await service.get(keys[2])).toBeDefined();
+  });
+
+  test("restores persisted entries after a restart", async () => {
+    await service.updateSettings({ enabled: true, persist: true });
+    const key = service.createKey(keyParts);
+    await service.set(key, createTranslationResponse());
+
+    const restarted = createService();
+
+    expect(await restarted.get(key)).toEqual(createTranslationResponse());
+  });
+
+  test("disabling the cache discards all entries", async () => {
+    await service.updateSettings({ enabled: true, persist: true });
+    const key = service.createKey(keyParts);
+    await service.set(key, createTranslationResponse());
+
+    const stats = await service.updateSettings({ enabled: false });
+
+    expect(stats.entries).toBe(0);
+    expect(stored["translation-cache"]).toEqual([]);
+  });
+
+  test("clear removes entries and resets counters", async () => {
+    await service.updateSettings({ enabled: true });
+    const key = service.createKey(keyParts);
+    await service.set(key, createTranslationResponse());
+    await service.get(key);
+
+    await service.clear();
+
+    expect(await service.getStats()).toMatchObject({
+      enabled: true,
+      entries: 0,
+      hits: 0,
+      misses: 0,
+    });
+  });
+});
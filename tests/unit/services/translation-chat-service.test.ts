@@ -0,0 +1,91 @@
+import type { TranslationChatEvent } from "#shared/domain/translation-chat.js";
+import { NotFoundError } from "#shared/errors.js";
+import type { OllamaService } from "@main/services/ollama-service.js";
+import { TranslationChatServiceImpl } from "@main/services/translation-chat-service.js";
+import { beforeEach, describe, expect, test } from "vitest";
+import { createMockOllamaService } from "../../mocks/ollama-service.mock.js";
+
+const collect = async (
+  stream: AsyncGenerator<TranslationChatEvent, void, unknown>,
+): Promise<TranslationChatEvent[]> => {
+  const events: TranslationChatEvent[] = [];
+  for await (const event of stream) events.push(event);
+  return events;
+};
+
+describe("TranslationChatService", () => {
+  let mockOllamaService: jest.Mocked<OllamaService>;
+  let service: TranslationChatServiceImpl;
+
+  const request = {
+    sourceText: "See you tomorrow.",
+    translatedText: "Bis morgen.",
+    sourceLanguage: "en" as const,
+    targetLanguage: "de" as const,
+    modelName: "llama3:latest",
+    history: [
+      { role: "user" as const, content: "Why not 'Auf Wiedersehen'?" },
+      { role: "assistant" as const, content: "It is more formal." },
+    ],
+    message: "Give me a more casual version",
+  };
+
+  beforeEach(() => {
+    mockOllamaService = createMockOllamaService();
+    service = new TranslationChatServiceImpl(mockOllamaService);
+  });
+
+  test("asks the same model with the translation and earlier turns", async () => {
+    await collect(service.chatStream(request));
+
+    const { model, messages } = mockOllamaService.chatStream.mock.calls[0][0];
+    expect(model).toBe("llama3:latest");
+    expect(messages.map((message) => message.role)).toEqual([
+      "system",
+      "user",
+      "assistant",
+      "user",
+    ]);
+    expect(messages[0].content).toContain(
+      'English source text:\n"""\nSee you tomorrow.\n"""',
+    );
+    expect(messages[0].content).toContain(
+      'German translation:\n"""\nBis morgen.\n"""',
+    );
+    expect(messages[3].content).toBe("Give me a more casual version");
+  });
+
+  test("streams the reply and extracts a revised translation", async () => {
+    mockOllamaService.chatStream.mockImplementation(async function* () {
+      yield { content: "Sure:\n<translation>Bis " };
+      yield {
+        content: "dann!</translation>",
+        metrics: { completionTokens: 9 },
+      };
+    });
+
+    const events = await collect(service.chatStream(request));
+
+    expect(events).toEqual([
+      { type: "delta", delta: "Sure:\n<translation>Bis " },
+      { type: "delta", delta: "dann!</translation>" },
+      {
+        type: "done",
+        reply: {
+          content: "Sure:\n<translation>Bis dann!</translation>",
+          revisedTranslation: "Bis dann!",
+          metrics: { completionTokens: 9 },
+        },
+      },
+    ]);
+  });
+
+  test("fails for a model that is no longer installed", async () => {
+    mockOllamaService.modelExists.mockResolvedValue(false);
+
+    await expect(collect(service.chatStream(request))).rejects.toThrow(
+      NotFoundError,
+    );
+    expect(mockOllamaService.chatStream).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,194 @@
+import type { HistoryEntry } from "#shared/domain/translation-history.js";
+import { NotFoundError } from "#shared/errors.js";
+import { TranslationHistoryRepositoryImpl } from "@main/repository/translation-history-repository.js";
+import { TranslationHistoryServiceImpl } from "@main/services/translation-history-service.js";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import {
+  createTranslationRequest,
+  createTranslationResponse,
+} from "../../factories/translation.factory.js";
+import { createMockStore } from "../../mocks/store.mock.js";
+
+describe("TranslationHistoryService", () => {
+  let stored: Record<string, unknown>;
+  let service: TranslationHistoryServiceImpl;
+
+  const history = (): HistoryEntry[] =>
+    (stored["translation-history"] as HistoryEntry[] | undefined) ?? [];
+
+  const recordAt = async (
+    date: string,
+    text: string,
+    translatedText = "翻訳",
+    modelUsed = "llama2:latest",
+  ): Promise<void> => {
+    vi.setSystemTime(new Date(date));
+    await service.record(
+      createTranslationRequest({ text }),
+      createTranslationResponse({ translatedText, modelUsed }),
+    );
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-06-01T00:00:00Z"));
+    stored = {};
+    const store = createMockStore();
+    store.get.mockImplementation(async (key) => stored[key] as never);
+    store.set.mockImplementation(async (key, value) => {
+      stored[key] = value;
+    });
+    service = new TranslationHistoryServiceImpl(
+      new TranslationHistoryRepositoryImpl(store),
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test("records nothing until history is enabled", async () => {
+    const entry = await service.record(
+      createTranslationRequest(),
+      createTranslationResponse(),
+    );
+
+    expect(entry).toBeUndefined();
+    expect(history()).toEqual([]);
+    expect(await service.getSettings()).toEqual({
+      enabled: false,
+      maxAgeDays: 30,
+      maxItems: 100,
+    });
+  });
+
+  describe("with history enabled", () => {
+    beforeEach(async () => {
+      await service.updateSettings({ enabled: true });
+    });
+
+    test("skips low-priority batch translations", async () => {
+      const entry = await service.record(
+        createTranslationRequest({ priority: "low" }),
+        createTranslationResponse(),
+      );
+
+      expect(entry).toBeUndefined();
+      expect(history()).toEqual([]);
+    });
+
+    test("keeps every entry of concurrent records", async () => {
+      await Promise.all(
+        ["One", "Two", "Three"].map((text) =>
+          service.record(
+            createTranslationRequest({ text }),
+            createTranslationResponse(),
+          ),
+        ),
+      );
+
+      expect(history().map((entry) => entry.request.text)).toEqual([
+        "One",
+        "Two",
+        "Three",
+      ]);
+    });
+
+    test("records request, response and time", async () => {
+      const request = createTranslationRequest({ context: "Greeting" });
+      const response = createTranslationResponse();
+
+      const entry = await service.record(request, response);
+
+      expect(entry).toEqual({
+        id: expect.any(String),
+        request,
+        response,
+        createdAt: "2024-06-01T00:00:00.000Z",
+      });
+      expect(history()).toEqual([entry]);
+    });
+
+    test("searches source and translation, newest first", async () => {
+      await recordAt("2024-06-01T00:00:00Z", "Open the file", "ファイルを開く");
+      await recordAt(
+        "2024-06-01T01:00:00Z",
+        "Close the FILE",
+        "ファイルを閉じる",
+      );
+      await recordAt("2024-06-01T02:00:00Z", "Hello", "こんにちは");
+
+      const byWords = await service.search({ text: "the file" });
+      expect(byWords.map((e) => e.request.text)).toEqual([
+        "Close the FILE",
+        "Open the file",
+      ]);
+
+      const byTranslation = await service.search({ text: "閉じる" });
+      expect(byTranslation.map((e) => e.request.text)).toEqual([
+        "Close the FILE",
+      ]);
+    });
+
+    test("filters by language pair and model", async () => {
+      await recordAt("2024-06-01T00:00:00Z", "One", "一", "llama2:latest");
+      await recordAt("2024-06-01T01:00:00Z", "Two", "二", "llama3:latest");
+
+      expect(
+        (await service.search({ modelName: "llama3:latest" })).map(
+          (e) => e.request.text,
+        ),
+      ).toEqual(["Two"]);
+      expect(
+        await service.search({ sourceLanguage: "en", targetLanguage: "fr" }),
+      ).toEqual([]);
+      expect(
+        await service.search({ sourceLanguage: "en", targetLanguage: "ja" }),
+      ).toHaveLength(2);
+    });
+
+    test("drops entries beyond the item limit", async () => {
+      await service.updateSettings({ maxItems: 2 });
+      await recordAt("2024-06-01T00:00:00Z", "One");
+      await recordAt("2024-06-01T01:00:00Z", "Two");
+      await recordAt("2024-06-01T02:00:00Z", "Three");
+
+      expect(history().map((e) => e.request.text)).toEqual(["Two", "Three"]);
+    });
+
+    test("drops entries older than the retention period", async () => {
+      await service.updateSettings({ maxAgeDays: 7 });
+      await recordAt("2024-06-01T00:00:00Z", "Old");
+      await recordAt("2024-06-05T00:00:00Z", "Recent");
+
+      vi.setSystemTime(new Date("2024-06-10T00:00:00Z"));
+      const entries = await service.search();
+
+      expect(entries.map((e) => e.request.text)).toEqual(["Recent"]);
+      expect(history()).toHaveLength(1);
+    });
+
+    test("keeps entries indefinitely without an age limit", async () => {
+      await service.updateSettings({ maxAgeDays: null });
+      await recordAt("2020-01-01T00:00:00Z", "Ancient");
+
+      vi.setSystemTime(new Date("2024-06-10T00:00:00Z"));
+
+      expect(await service.search()).toHaveLength(1);
+    });
+
+    test("deletes single entries and purges everything", async () => {
+      await recordAt("2024-06-01T00:00:00Z", "One");
+      await recordAt("2024-06-01T01:00:00Z", "Two");
+
+      await service.deleteEntry(history()[0].id);
+      expect(history().map((e) => e.request.text)).toEqual(["Two"]);
+      await expect(service.deleteEntry("missing")).rejects.toThrow(
+        NotFoundError,
+      );
+
+      await service.purge();
+      expect(history()).toEqual([]);
+    });
+  });
+});
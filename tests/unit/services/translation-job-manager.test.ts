@@ -0,0 +1,167 @@
+import { NotFoundError, ValidationError } from "#shared/errors.js";
+import type { TranslationJobOptions } from "@main/services/translation-job-manager.js";
+import { TranslationJobManagerImpl } from "@main/services/translation-job-manager.js";
+import { beforeEach, describe, expect, test } from "vitest";
+
+const jobOptions = (
+  overrides: Partial<TranslationJobOptions> = {},
+): TranslationJobOptions => ({
+  kind: "translate",
+  sourceLanguage: "en",
+  targetLanguage: "ja",
+  text: "Hello World",
+  ...overrides,
+});
+
+describe("TranslationJobManager", () => {
+  let manager: TranslationJobManagerImpl;
+
+  beforeEach(() => {
+    manager = new TranslationJobManagerImpl(1);
+  });
+
+  test("tracks a job from start to completion", async () => {
+    const job = await manager.start(jobOptions({ id: "job-1" }));
+
+    expect(manager.getJob("job-1")).toMatchObject({
+      status: "running",
+      priority: "normal",
+      textPreview: "Hello World",
+    });
+    expect(manager.hasActiveJobs()).toBe(true);
+
+    manager.finish(job.id);
+
+    expect(manager.getJob("job-1")).toMatchObject({
+      status: "completed",
+      finishedAt: expect.any(String),
+    });
+    expect(manager.hasActiveJobs()).toBe(false);
+  });
+
+  test("generates IDs when none are given", async () => {
+    const first = await manager.run(jobOptions(), async (job) => job.id);
+    const second = await manager.run(jobOptions(), async (job) => job.id);
+
+    expect(first).not.toBe(second);
+    expect(manager.list().map((job) => job.id)).toEqual([first, second]);
+  });
+
+  test("records failures with their message", async () => {
+    await expect(
+      manager.run(jobOptions({ id: "job-1" }), async () => {
+        throw new Error("model crashed");
+      }),
+    ).rejects.toThrow("model crashed");
+
+    expect(manager.getJob("job-1")).toMatchObject({
+      status: "failed",
+      error: "model crashed",
+    });
+  });
+
+  test("queues jobs beyond the concurrency limit by priority", async () => {
+    const started: string[] = [];
+    const first = await manager.start(jobOptions({ id: "first" }));
+    const low = manager
+      .start(jobOptions({ id: "low", priority: "low" }))
+      .then(({ id }) => started.push(id));
+    const high = manager
+      .start(jobOptions({ id: "high", priority: "high" }))
+      .then(({ id }) => started.push(id));
+
+    expect(manager.getJob("high").status).toBe("queued");
+
+    manager.finish(first.id);
+    await high;
+    expect(started).toEqual(["high"]);
+    expect(manager.getJob("low").status).toBe("queued");
+
+    manager.finish("high");
+    await low;
+    expect(started).toEqual(["high", "low"]);
+  });
+
+  test("cancels one job without touching the others", async () => {
+    const manager = new TranslationJobManagerImpl(2);
+    const first = await manager.start(jobOptions({ id: "first" }));
+    const second = await manager.start(jobOptions({ id: "second" }));
+
+    expect(manager.cancel("first")).toBe(true);
+
+    expect(first.signal.aborted).toBe(true);
+    expect(second.signal.aborted).toBe(false);
+    expect(manager.getJob("first").status).toBe("cancelled");
+    expect(manager.getJob("second").status).toBe("running");
+  });
+
+  test("keeps a cancelled job cancelled when its task fails afterwards", async () => {
+    const job = await manager.start(jobOptions({ id: "job-1" }));
+
+    manager.cancel(job.id);
+    manager.finish(job.id, new Error("aborted"));
+
+    expect(manager.getJob("job-1").status).toBe("cancelled");
+  });
+
+  test("rejects a queued job that is cancelled before it starts", async () => {
+    await manager.start(jobOptions({ id: "first" }));
+    const queued = manager.start(jobOptions({ id: "queued" }));
+
+    expect(manager.cancel("queued")).toBe(true);
+
+    await expect(queued).rejects.toThrow("cancelled");
+    expect(manager.getJob("queued").status).toBe("cancelled");
+  });
+
+  test("cancels a job when its signal is aborted", async () => {
+    const controller = new AbortController();
+    const job = await manager.start(
+      jobOptions({ id: "job-1", signal: controller.signal }),
+    );
+
+    controller.abort();
+
+    expect(job.signal.aborted).toBe(true);
+    expect(manager.getJob("job-1").status).toBe("cancelled");
+  });
+
+  test("returns false when cancelling unknown or finished jobs", async () => {
+    await manager.run(jobOptions({ id: "job-1" }), async () => undefined);
+
+    expect(manager.cancel("job-1")).toBe(false);
+    expect(manager.cancel("missing")).toBe(false);
+  });
+
+  test("cancelAll cancels queued and running jobs", async () => {
+    await manager.start(jobOptions({ id: "running" }));
+    const queued = manager.start(jobOptions({ id: "queued" }));
+
+    expect(manager.cancelAll()).toBe(2);
+
+    await expect(queued).rejects.toThrow("cancelled");
+    expect(manager.hasActiveJobs()).toBe(false);
+  });
+
+  test("rejects a second active job with the same ID", async () => {
+    await manager.start(jobOptions({ id: "job-1" }));
+
+    await expect(manager.start(jobOptions({ id: "job-1" }))).rejects.toThrow(
+      ValidationError,
+    );
+  });
+
+  test("throws NotFoundError for unknown jobs", () => {
+    expect(() => manager.getJob("missing")).toThrow(NotFoundError);
+  });
+
+  test("forgets the oldest finished jobs", async () => {
+    for (let i = 0; i < 60; i++) {
+      await manager.run(jobOptions({ id: `job-${i}` }), async () => undefined);
+    }
+
+    const jobs = manager.list();
+    expect(jobs).toHaveLength(50);
+    expect(jobs[0].id).toBe("job-10");
+  });
+});
@@ -0,0 +1,256 @@
+import type { TranslationMemoryEntry } from "#shared/domain/translation-memory.js";
+import { NotFoundError, ValidationError } from "#shared/errors.js";
+import { TranslationMemoryRepositoryImpl } from "@main/repository/translation-memory-repository.js";
+import { TranslationMemoryServiceImpl } from "@main/services/translation-memory-service.js";
+import { beforeEach, describe, expect, test } from "vitest";
+import { createTranslationMemoryEntry } from "../../factories/translation-memory.factory.js";
+import { createMockStore } from "../../mocks/store.mock.js";
+
+const TMX = `<?xml version="1.0" encoding="UTF-8"?>
+<tmx version="1.4">
+  <header creationtool="Other" segtype="sentence" o-tmf="x" adminlang="en-US" srclang="en-US" datatype="plaintext"/>
+  <body>
+    <tu tuid="1">
+      <note>Dialog button</note>
+      <tuv xml:lang="en-US"><seg>Open &amp; save</seg></tuv>
+      <tuv xml:lang="de-DE"><seg>Öffnen &amp; speichern</seg></tuv>
+      <tuv xml:lang="fr-FR"><seg>Ouvrir et enregistrer</seg></tuv>
+    </tu>
+    <tu tuid="2">
+      <tuv xml:lang="en-US"><seg>Click <bpt i="1">&lt;b&gt;</bpt>here<ept i="1">&lt;/b&gt;</ept></seg></tuv>
+      <tuv xml:lang="de-DE"><seg>Hier <ph x="1"/>klicken</seg></tuv>
+    </tu>
+    <tu tuid="3">
+      <tuv xml:lang="en-US"><seg>Only a source</seg></tuv>
+    </tu>
+    <tu tuid="4">
+      <tuv xml:lang="tlh"><seg>Qapla'</seg></tuv>
+      <tuv xml:lang="de-DE"><seg>Erfolg</seg></tuv>
+    </tu>
+  </body>
+</tmx>
+`;
+
+describe("TranslationMemoryService", () => {
+  let stored: TranslationMemoryEntry[];
+  let service: TranslationMemoryServiceImpl;
+
+  beforeEach(() => {
+    stored = [];
+    const store = createMockStore();
+    store.get.mockImplementation(async () => stored as never);
+    store.set.mockImplementation(async (_key, value) => {
+      stored = value as TranslationMemoryEntry[];
+    });
+    service = new TranslationMemoryServiceImpl(
+      new TranslationMemoryRepositoryImpl(store),
+    );
+  });
+
+  describe("entries", () => {
+    test("adds entries with id and timestamps", async () => {
+      const entry = await service.addEntry({
+        sourceLanguage: "en",
+        targetLanguage: "de",
+        sourceText: " Save ",
+        targetText: "Speichern",
+      });
+
+      expect(entry.id).toBeTruthy();
+      expect(entry.sourceText).toBe("Save");
+      expect(stored).toEqual([entry]);
+    });
+
+    test("updates the entry of a segment already in the memory", async () => {
+      stored = [createTranslationMemoryEntry()];
+
+      const entry = await service.addEntry({
+        sourceLanguage: "en",
+        targetLanguage: "de",
+        sourceText: "Save the  file before closing.",
+        targetText: "Datei vor dem Schließen speichern.",
+      });
+
+      expect(entry.id).toBe("tm-1");
+      expect(entry.createdAt).toBe("2024-01-01T00:00:00.000Z");
+      expect(stored).toHaveLength(1);
+      expect(stored[0].targetText).toBe("Datei vor dem Schließen speichern.");
+    });
+
+    test("rejects identical source and target languages", async () => {
+      await expect(
+        service.addEntry({
+          sourceLanguage: "en",
+          targetLanguage: "en",
+          sourceText: "Save",
+          targetText: "Save",
+        }),
+      ).rejects.toThrow(ValidationError);
+    });
+
+    test("reports unknown ids on delete", async () => {
+      await expect(service.deleteEntry("missing")).rejects.toThrow(
+        NotFoundError,
+      );
+    });
+  });
+
+  describe("findMatches", () => {
+    beforeEach(() => {
+      stored = [
+        createTranslationMemoryEntry(),
+        createTranslationMemoryEntry({
+          id: "tm-2",
+          sourceText: "Save the files before closing.",
+          targetText: "Speichern Sie die Dateien vor dem Schließen.",
+        }),
+        createTranslationMemoryEntry({
+          id: "tm-3",
+          sourceText: "Delete everything.",
+          targetText: "Alles löschen.",
+        }),
+        createTranslationMemoryEntry({
+          id: "tm-4",
+          targetLanguage: "fr",
+          targetText: "Enregistrez le fichier avant de fermer.",
+        }),
+      ];
+    });
+
+    test("ranks an exact match first and drops distant segments", async () => {
+      const matches = await service.findMatches(
+        "Save the file before closing.",
+        "en",
+        "de",
+      );
+
+      expect(
+        matches.map((match) => [match.entryId, match.matchPercent]),
+      ).toEqual([
+        ["tm-1", 100],
+        ["tm-2", 96],
+      ]);
+    });
+
+    test("never reports a fuzzy match as 100%", async () => {
+      stored = [createTranslationMemoryEntry({ sourceText: "a".repeat(300) })];
+
+      const [match] = await service.findMatches(
+        "a".repeat(299) + "b",
+        "en",
+        "de",
+      );
+
+      expect(match.matchPercent).toBe(99);
+    });
+
+    test("honours the minimum match percentage", async () => {
+      expect(
+        await service.findMatches("Save the file.", "en", "de", 95),
+      ).toEqual([]);
+    });
+  });
+
+  describe("TMX", () => {
+    test("imports segment pairs, resolving regional language tags", async () => {
+      const result = await service.importTmx({ content: TMX, mode: "merge" });
+
+      expect(result).toEqual({ imported: 3, updated: 0, skipped: 2 });
+      expect(stored).toMatchObject([
+        {
+          sourceLanguage: "en",
+          targetLanguage: "de",
+          sourceText: "Open & save",
+          targetText: "Öffnen & speichern",
+          note: "Dialog button",
+        },
+        { targetLanguage: "fr", targetText: "Ouvrir et enregistrer" },
+        { sourceText: "Click here", targetText: "Hier klicken" },
+      ]);
+    });
+
+    test("reads only the requested language pair", async () => {
+      const result = await service.importTmx({
+        content: TMX,
+        mode: "merge",
+        pair: { sourceLanguage: "en", targetLanguage: "fr" },
+      });
+
+      expect(result.imported).toBe(1);
+      expect(stored[0].targetText).toBe("Ouvrir et enregistrer");
+    });
+
+    test("replaces only the imported language pairs", async () => {
+      stored = [
+        createTranslationMemoryEntry({ id: "old-de" }),
+        createTranslationMemoryEntry({ id: "old-ja", targetLanguage: "ja" }),
+      ];
+
+      await service.importTmx({
+        content: TMX,
+        mode: "replace",
+        pair: { sourceLanguage: "en", targetLanguage: "de" },
+      });
+
+      expect(stored.map((entry) => entry.id)).not.toContain("old-de");
+      expect(stored.map((entry) => entry.id)).toContain("old-ja");
+    });
+
+    test("round-trips an export", async () => {
+      stored = [
+        createTranslationMemoryEntry({
+          sourceText: 'Use "quotes" & <tags>',
+          targetText: "Verwende „Anführungszeichen“ & <Tags>",
+          note: "Escaping",
+        }),
+      ];
+
+      const tmx = await service.exportTmx();
+      expect(tmx).toContain('srclang="en"');
+      expect(tmx).toContain('creationdate="20240101T000000Z"');
+
+      stored = [];
+      await service.importTmx({ content: tmx, mode: "merge" });
+
+      expect(stored).toMatchObject([
+        {
+          sourceText: 'Use "quotes" & <tags>',
+          targetText: "Verwende „Anführungszeichen“ & <Tags>",
+          note: "Escaping",
+        },
+      ]);
+    });
+
+    test("merges duplicate segments of the file and the memory", async () => {
+      stored = [
+        createTranslationMemoryEntry({ id: "existing", sourceText: "Save" }),
+      ];
+      const tu = (source: string, target: string): string =>
+        `<tu><tuv xml:lang="en"><seg>${source}</seg></tuv><tuv xml:lang="de"><seg>${target}</seg></tuv></tu>`;
+
+      const result = await service.importTmx({
+        content: `<tmx version="1.4"><header srclang="en"/><body>${[
+          tu("Save", "Sichern"),
+          tu("Open  the file", "Datei öffnen"),
+          tu("Open the file ", "Die Datei öffnen"),
+          tu("Ｃlose", "Schließen"),
+          tu("Close", "Zumachen"),
+        ].join("")}</body></tmx>`,
+        mode: "merge",
+      });
+
+      expect(result).toEqual({ imported: 2, updated: 3, skipped: 0 });
+      expect(stored).toMatchObject([
+        { id: "existing", sourceText: "Save", targetText: "Sichern" },
+        { sourceText: "Open the file", targetText: "Die Datei öffnen" },
+        { sourceText: "Close", targetText: "Zumachen" },
+      ]);
+    });
+
+    test("rejects files that are not TMX", async () => {
+      await expect(
+        service.importTmx({ content: "<tbx/>", mode: "merge" }),
+      ).rejects.toThrow("Not a TMX document");
+    });
+  });
+});
@@ -1,23 +1,75 @@
+import { DEFAULT_PROMPT_TEMPLATE } from "#shared/domain/prompt-template.js";
+import type {
+  TranslationResponse,
+  TranslationStreamEvent,
+} from "#shared/domain/translation.js";
+import { ValidationError } from "#shared/errors.js";
+import type { PromptTemplateRepository } from "@main/repository/prompt-template-repository.js";
 import type { TranslationSettingsRepository } from "@main/repository/translation-settings-repository.js";
+import type { GlossaryService } from "@main/services/glossary-service.js";
+import type { LanguageDetectionService } from "@main/services/language-detection-service.js";
 import type { OllamaService } from "@main/services/ollama-service.js";
+import { PromptTemplateServiceImpl } from "@main/services/prompt-template-service.js";
+import type { TranslationCacheService } from "@main/services/translation-cache-service.js";
+import type { TranslationHistoryService } from "@main/services/translation-history-service.js";
+import { TranslationJobManagerImpl } from "@main/services/translation-job-manager.js";
+import type { TranslationMemoryService } from "@main/services/translation-memory-service.js";
 import { TranslationServiceImpl } from "@main/services/translation-service.js";
 import { beforeEach, describe, expect, test, vi } from "vitest";
+import { createGlossaryEntry } from "../../factories/glossary.factory.js";
+import {
+  createPromptTemplate,
+  createPromptTemplateSettings,
+} from "../../factories/prompt-template.factory.js";
 import {
   createTranslationRequest,
+  createTranslationResponse,
   createTranslationSettings,
 } from "../../factories/translation.factory.js";
 import { createMockOllamaService } from "../../mocks/ollama-service.mock.js";
-import { createMockTranslationSettingsRepository } from "../../mocks/repositories.mock.js";
+import {
+  createMockPromptTemplateRepository,
+  createMockTranslationSettingsRepository,
+} from "../../mocks/repositories.mock.js";
+import {
+  createMockGlossaryService,
+  createMockLanguageDetectionService,
+  createMockTranslationCacheService,
+  createMockTranslationHistoryService,
+  createMockTranslationMemoryService,
+} from "../../mocks/services.mock.js";
 
 describe("TranslationService", () => {
   let service: TranslationServiceImpl;
   let mockOllamaService: jest.Mocked<OllamaService>;
   let mockSettingsRepo: jest.Mocked<TranslationSettingsRepository>;
+  let mockDetectionService: jest.Mocked<LanguageDetectionService>;
+  let mockGlossaryService: jest.Mocked<GlossaryService>;
+  let mockPromptTemplateRepo: jest.Mocked<PromptTemplateRepository>;
+  let mockCacheService: jest.Mocked<TranslationCacheService>;
+  let mockHistoryService: jest.Mocked<TranslationHistoryService>;
+  let mockMemoryService: jest.Mocked<TranslationMemoryService>;
 
   beforeEach(() => {
     mockOllamaService = createMockOllamaService();
     mockSettingsRepo = createMockTranslationSettingsRepository();
-    service = new TranslationServiceImpl(mockOllamaService, mockSettingsRepo);
+    mockDetectionService = createMockLanguageDetectionService();
+    mockGlossaryService = createMockGlossaryService();
+    mockPromptTemplateRepo = createMockPromptTemplateRepository();
+    mockCacheService = createMockTranslationCacheService();
+    mockHistoryService = createMockTranslationHistoryService();
+    mockMemoryService = createMockTranslationMemoryService();
+    service = new TranslationServiceImpl(
+      mockOllamaService,
+      mockSettingsRepo,
+      mockDetectionService,
+      mockGlossaryService,
+      new PromptTemplateServiceImpl(mockPromptTemplateRepo),
+      mockCacheService,
+      mockHistoryService,
+      new TranslationJobManagerImpl(),
+      mockMemoryService,
+    );
   });
 
   describe("translate", () => {
@@ -64,7 +116,7 @@ describe("TranslationService", () => {
         modelName: "custom-model",
       });
       mockOllamaService.modelExists.mockResolvedValue(true);
-      mockOllamaService.chat.mockResolvedValue("こんにちは世界");
+      mockOllamaService.chat.mockResolvedValue({ content: "こんにちは世界" });
 
       await service.translate(request);
 
@@ -86,7 +138,7 @@ describe("TranslationService", () => {
       mockSettingsRepo.getSettings.mockResolvedValue(
         createTranslationSettings({ defaultModel: "default-model" }),
       );
-      mockOllamaService.chat.mockResolvedValue("translated");
+      mockOllamaService.chat.mockResolvedValue({ content: "translated" });
 
       await service.translate(request);
 
@@ -95,6 +147,24 @@ describe("TranslationService", () => {
       );
     });
 
+    test("prefers the model remembered for the language pair", async () => {
+      mockSettingsRepo.getSettings.mockResolvedValue(
+        createTranslationSettings({
+          defaultModel: "default-model",
+          languagePairModels: { "en>ja": "pair-model" },
+        }),
+      );
+      mockOllamaService.chat.mockResolvedValue({ content: "translated" });
+
+      await service.translate(
+        createTranslationRequest({ modelName: undefined }),
+      );
+
+      expect(mockOllamaService.chat).toHaveBeenCalledWith(
+        expect.objectContaining({ model: "pair-model" }),
+      );
+    });
+
     test("uses first available model when no default model exists", async () => {
       const request = createTranslationRequest({ modelName: undefined });
       mockSettingsRepo.getSettings.mockResolvedValue(
@@ -108,7 +178,7 @@ describe("TranslationService", () => {
           modified_at: "2024-01-01T00:00:00Z",
         },
       ]);
-      mockOllamaService.chat.mockResolvedValue("translated");
+      mockOllamaService.chat.mockResolvedValue({ content: "translated" });
 
       await service.translate(request);
 
@@ -135,7 +205,7 @@ describe("TranslationService", () => {
         sourceLanguage: "en",
         targetLanguage: "ja",
       });
-      mockOllamaService.chat.mockResolvedValue("こんにちは世界");
+      mockOllamaService.chat.mockResolvedValue({ content: "こんにちは世界" });
 
       const result = await service.translate(request);
 
@@ -146,9 +216,74 @@ describe("TranslationService", () => {
       expect(result.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/);
     });
 
+    test("detects the source language when set to auto", async () => {
+      mockDetectionService.detect.mockReturnValue({
+        language: "ja",
+        confidence: 0.95,
+        isReliable: true,
+        method: "script",
+      });
+      mockOllamaService.chat.mockResolvedValue({ content: "Hello World" });
+
+      const result = await service.translate(
+        createTranslationRequest({
+          text: "こんにちは世界",
+          sourceLanguage: "auto",
+          targetLanguage: "en",
+          fallbackLanguage: "zh-Hans",
+        }),
+      );
+
+      expect(mockDetectionService.detect).toHaveBeenCalledWith(
+        "こんにちは世界",
+        "zh-Hans",
+      );
+      expect(result.sourceLanguage).toBe("ja");
+      expect(result.detectedLanguage).toMatchObject({
+        language: "ja",
+        confidence: 0.95,
+      });
+      expect(mockOllamaService.chat).toHaveBeenCalledWith(
+        expect.objectContaining({
+          messages: expect.arrayContaining([
+            expect.objectContaining({
+              role: "user",
+              content: expect.stringContaining("Japanese"),
+            }),
+          ]),
+        }),
+      );
+    });
+
+    test("returns original text when detected language equals target", async () => {
+      mockDetectionService.detect.mockReturnValue({
+        language: "en",
+        confidence: 0.8,
+        isReliable: true,
+        method: "ngram",
+      });
+
+      const result = await service.translate(
+        createTranslationRequest({
+          text: "Hello World",
+          sourceLanguage: "auto",
+          targetLanguage: "en",
+        }),
+      );
+
+      expect(result.translatedText).toBe("Hello World");
+      expect(mockOllamaService.chat).not.toHaveBeenCalled();
+    });
+
+    test("does not run detection for an explicit source language", async () => {
+      await service.translate(createTranslationRequest());
+
+      expect(mockDetectionService.detect).not.toHaveBeenCalled();
+    });
+
     test("calls ollama service with correct system prompt", async () => {
       const request = createTranslationRequest();
-      mockOllamaService.chat.mockResolvedValue("translated");
+      mockOllamaService.chat.mockResolvedValue({ content: "translated" });
 
       await service.translate(request);
 
@@ -164,9 +299,566 @@ describe("TranslationService", () => {
       );
     });
 
+    test("injects matching glossary terms into the prompt", async () => {
+      mockGlossaryService.findMatchingEntries.mockResolvedValue([
+        createGlossaryEntry(),
+        createGlossaryEntry({
+          id: "entry-2",
+          sourceTerm: "DeepLlama",
+          targetTerm: "",
+          doNotTranslate: true,
+        }),
+      ]);
+      mockOllamaService.chat.mockResolvedValue({
+        content: "DeepLlamaのワークスペース",
+      });
+
+      await service.translate(
+        createTranslationRequest({ text: "The DeepLlama workspace" }),
+      );
+
+      expect(mockGlossaryService.findMatchingEntries).toHaveBeenCalledWith(
+        "The DeepLlama workspace",
+        "en",
+        "ja",
+      );
+      const userMessage = mockOllamaService.chat.mock.calls[0][0].messages[1];
+      expect(userMessage.content).toContain('"Workspace" → "ワークスペース"');
+      expect(userMessage.content).toContain(
+        '"DeepLlama" → keep as "DeepLlama" (do not translate)',
+      );
+      expect(userMessage.content).toMatch(/The DeepLlama workspace$/);
+    });
+
+    test("passes formality and domain into the prompt", async () => {
+      mockOllamaService.chat.mockResolvedValue({ content: "ご確認ください" });
+
+      await service.translate(
+        createTranslationRequest({
+          text: "Please check",
+          formality: "formal",
+          domain: "technical",
+        }),
+      );
+
+      const userMessage = mockOllamaService.chat.mock.calls[0][0].messages[1];
+      expect(userMessage.content).toContain("keigo");
+      expect(userMessage.content).toContain("This is a technical text");
+    });
+
+    test("reports glossary terms missing from the translation", async () => {
+      const entry = createGlossaryEntry();
+      const missing = {
+        entryId: entry.id,
+        sourceTerm: "Workspace",
+        expectedTerm: "ワークスペース",
+      };
+      mockGlossaryService.findMatchingEntries.mockResolvedValue([entry]);
+      mockGlossaryService.findMissingTerms.mockReturnValue([missing]);
+      mockOllamaService.chat.mockResolvedValue({ content: "作業スペース" });
+
+      const result = await service.translate(
+        createTranslationRequest({ text: "Open the workspace" }),
+      );
+
+      expect(mockGlossaryService.findMissingTerms).toHaveBeenCalledWith(
+        [entry],
+        "作業スペース",
+      );
+      expect(result.missingGlossaryTerms).toEqual([missing]);
+    });
+
+    test("omits the glossary check when no terms match", async () => {
+      mockOllamaService.chat.mockResolvedValue({ content: "translated" });
+
+      const result = await service.translate(createTranslationRequest());
+
+      expect(result.missingGlossaryTerms).toBeUndefined();
+      expect(
+        mockOllamaService.chat.mock.calls[0][0].messages[1].content,
+      ).not.toContain("terminology");
+    });
+
+    test("records the default prompt template version", async () => {
+      mockOllamaService.chat.mockResolvedValue({ content: "translated" });
+
+      const result = await service.translate(createTranslationRequest());
+
+      expect(result.promptTemplate).toEqual({
+        id: "default",
+        name: "Default",
+        version: DEFAULT_PROMPT_TEMPLATE.version,
+      });
+    });
+
+    test("renders the template assigned to the language pair", async () => {
+      mockPromptTemplateRepo.getSettings.mockResolvedValue(
+        createPromptTemplateSettings({
+          templates: [
+            createPromptTemplate(),
+            createPromptTemplate({
+              id: "formal",
+              name: "Formal",
+              systemPrompt: "Translate into {{targetLanguageCode}}.",
+              userPrompt: "{{#context}}[{{context}}] {{/context}}{{text}}",
+              version: 3,
+              isBuiltIn: false,
+            }),
+          ],
+          languagePairTemplates: { "en>ja": "formal" },
+        }),
+      );
+      mockOllamaService.chat.mockResolvedValue({ content: "translated" });
+
+      const result = await service.translate(
+        createTranslationRequest({ context: "UI button" }),
+      );
+
+      expect(mockOllamaService.chat.mock.calls[0][0].messages).toEqual([
+        { role: "system", content: "Translate into ja." },
+        { role: "user", content: "[UI button] Hello World" },
+      ]);
+      expect(result.promptTemplate).toEqual({
+        id: "formal",
+        name: "Formal",
+        version: 3,
+      });
+    });
+
+    describe("long inputs", () => {
+      const paragraph = (word: string): string =>
+        `${word} is a sentence that keeps going for quite a while. `
+          .repeat(4)
+          .trim();
+      const longText = `${paragraph("One")}\n\n${paragraph("Two")}`;
+
+      beforeEach(() => {
+        // Small enough that each paragraph becomes its own segment
+        mockOllamaService.getContextLength.mockResolvedValue(256);
+      });
+
+      test("translates segments in order and keeps paragraph breaks", async () => {
+        mockOllamaService.chat
+          .mockResolvedValueOnce({ content: "一つ目の段落。\n" })
+          .mockResolvedValueOnce({ content: "二つ目の段落。" });
+
+        const result = await service.translate(
+          createTranslationRequest({ text: longText }),
+        );
+
+        expect(mockOllamaService.chat).toHaveBeenCalledTimes(2);
+        const userMessages = mockOllamaService.chat.mock.calls.map(
+          ([request]) => request.messages.at(-1)?.content,
+        );
+        expect(userMessages[0]).toContain(paragraph("One"));
+        expect(userMessages[0]).not.toContain("Two is");
+        expect(userMessages[1]).toContain(paragraph("Two"));
+        expect(result.translatedText).toBe("一つ目の段落。\n\n二つ目の段落。");
+      });
+
+      test("caps the requested context window", async () => {
+        mockOllamaService.getContextLength.mockResolvedValue(131072);
+        mockOllamaService.chat.mockResolvedValue({ content: "translated" });
+
+        await service.translate(createTranslationRequest());
+
+        expect(mockOllamaService.chat).toHaveBeenCalledWith(
+          expect.objectContaining({ num_ctx: 8192 }),
+        );
+      });
+
+      test("reports segment progress while streaming", async () => {
+        mockOllamaService.chatStream
+          .mockImplementationOnce(async function* () {
+            yield { content: "一つ目" };
+          })
+          .mockImplementationOnce(async function* () {
+            yield { content: "二つ目" };
+          });
+
+        const events: TranslationStreamEvent[] = [];
+        for await (const event of service.translateStream(
+          createTranslationRequest({ text: longText }),
+        )) {
+          events.push(event);
+        }
+
+        expect(events).toEqual([
+          { type: "progress", completedSegments: 0, totalSegments: 2 },
+          { type: "delta", delta: "一つ目" },
+          { type: "delta", delta: "\n\n" },
+          { type: "progress", completedSegments: 1, totalSegments: 2 },
+          { type: "delta", delta: "二つ目" },
+          { type: "progress", completedSegments: 2, totalSegments: 2 },
+          expect.objectContaining({
+            type: "done",
+            response: expect.objectContaining({
+              translatedText: "一つ目\n\n二つ目",
+            }),
+          }),
+        ]);
+      });
+    });
+
+    describe("sentence alignment", () => {
+      test("translates sentence by sentence and reports the pairs", async () => {
+        mockOllamaService.chat
+          .mockResolvedValueOnce({ content: "こんにちは。" })
+          .mockResolvedValueOnce({ content: "元気ですか？\n" });
+
+        const text = "Hello there. How are you?";
+        const result = await service.translate(
+          createTranslationRequest({ text, alignSentences: true }),
+        );
+
+        expect(mockOllamaService.chat).toHaveBeenCalledTimes(2);
+        expect(result.translatedText).toBe("こんにちは。 元気ですか？");
+        expect(
+          result.alignment?.map(({ source, target }) => [
+            text.slice(source.start, source.end),
+            result.translatedText.slice(target.start, target.end),
+          ]),
+        ).toEqual([
+          ["Hello there.", "こんにちは。"],
+          ["How are you?", "元気ですか？"],
+        ]);
+      });
+
+      test("aligns streamed translations", async () => {
+        mockOllamaService.chatStream
+          .mockImplementationOnce(async function* () {
+            yield { content: "こんにちは。" };
+          })
+          .mockImplementationOnce(async function* () {
+            yield { content: "元気ですか？" };
+          });
+
+        let response: TranslationResponse | undefined;
+        for await (const event of service.translateStream(
+          createTranslationRequest({
+            text: "Hello there. How are you?",
+            alignSentences: true,
+          }),
+        )) {
+          if (event.type === "done") response = event.response;
+        }
+
+        expect(response?.alignment).toEqual([
+          { source: { start: 0, end: 12 }, target: { start: 0, end: 6 } },
+          { source: { start: 13, end: 25 }, target: { start: 7, end: 13 } },
+        ]);
+      });
+
+      test("is not reported unless requested", async () => {
+        mockOllamaService.chat.mockResolvedValue({ content: "translated" });
+
+        const result = await service.translate(
+          createTranslationRequest({ text: "Hello there. How are you?" }),
+        );
+
+        expect(mockOllamaService.chat).toHaveBeenCalledTimes(1);
+        expect(result.alignment).toBeUndefined();
+      });
+    });
+
+    describe("alternatives", () => {
+      test("samples extra candidates at higher temperatures", async () => {
+        mockOllamaService.chat
+          .mockResolvedValueOnce({ content: "こんにちは" })
+          .mockResolvedValueOnce({ content: "どうも" })
+          .mockResolvedValueOnce({ content: "やあ" });
+
+        const result = await service.translate(
+          createTranslationRequest({ text: "Hi", candidateCount: 3 }),
+        );
+
+        expect(result.translatedText).toBe("こんにちは");
+        expect(result.alternatives).toEqual(["どうも", "やあ"]);
+        expect(
+          mockOllamaService.chat.mock.calls.map(([request]) => [
+            request.temperature,
+          ]),
+        ).toEqual([[0.3], [0.7], [0.9]]);
+      });
+
+      test("drops candidates that repeat an earlier one", async () => {
+        mockOllamaService.chat
+          .mockResolvedValueOnce({ content: "こんにちは" })
+          .mockResolvedValueOnce({ content: "こんにちは " })
+          .mockResolvedValueOnce({ content: "どうも" });
+
+        const result = await service.translate(
+          createTranslationRequest({ text: "Hi", candidateCount: 3 }),
+        );
+
+        expect(result.alternatives).toEqual(["どうも"]);
+      });
+
+      test("generates no alternatives by default", async () => {
+        mockOllamaService.chat.mockResolvedValue({ content: "translated" });
+
+        const result = await service.translate(createTranslationRequest());
+
+        expect(result.alternatives).toBeUndefined();
+        expect(mockOllamaService.chat).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe("back-translation", () => {
+      test("translates the result back and scores the round trip", async () => {
+        mockOllamaService.chat
+          .mockResolvedValueOnce({ content: "会議は金曜日です" })
+          .mockResolvedValueOnce({ content: "The meeting is on Friday" });
+
+        const result = await service.translate(
+          createTranslationRequest({
+            text: "The meeting is on Friday",
+            backTranslate: true,
+          }),
+        );
+
+        expect(result.translatedText).toBe("会議は金曜日です");
+        expect(result.backTranslation).toEqual({
+          text: "The meeting is on Friday",
+          score: 1,
+        });
+        const reverseMessages =
+          mockOllamaService.chat.mock.calls[1][0].messages;
+        expect(reverseMessages[1].content).toContain(
+          "Translate the following Japanese / 日本語 text to English:",
+        );
+      });
+
+      test("gives a low score when the meaning drifted", async () => {
+        mockOllamaService.chat
+          .mockResolvedValueOnce({ content: "昼食を食べましょう" })
+          .mockResolvedValueOnce({ content: "Let's have lunch" });
+
+        const result = await service.translate(
+          createTranslationRequest({
+            text: "The meeting is on Friday",
+            backTranslate: true,
+          }),
+        );
+
+        expect(result.backTranslation?.score).toBeLessThan(0.5);
+      });
+
+      test("is skipped unless requested", async () => {
+        mockOllamaService.chat.mockResolvedValue({ content: "translated" });
+
+        const result = await service.translate(createTranslationRequest());
+
+        expect(result.backTranslation).toBeUndefined();
+        expect(mockOllamaService.chat).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe("cache", () => {
+      test("does not touch the cache while it is disabled", async () => {
+        mockOllamaService.chat.mockResolvedValue({ content: "translated" });
+
+        await service.translate(createTranslationRequest());
+
+        expect(mockCacheService.createKey).not.toHaveBeenCalled();
+        expect(mockCacheService.set).not.toHaveBeenCalled();
+      });
+
+      test("keys translations by model digest and prompt template", async () => {
+        mockCacheService.isEnabled.mockResolvedValue(true);
+        mockOllamaService.chat.mockResolvedValue({ content: "translated" });
+
+        const result = await service.translate(
+          createTranslationRequest({ context: "Greeting" }),
+        );
+
+        expect(mockCacheService.createKey).toHaveBeenCalledWith({
+          text: "Hello World",
+          sourceLanguage: "en",
+          targetLanguage: "ja",
+          modelDigest: "test",
+          promptTemplate: {
+            id: "default",
+            name: "Default",
+            version: DEFAULT_PROMPT_TEMPLATE.version,
+          },
+          context: "Greeting",
+          glossaryEntries: [],
+          translationMemoryMatches: [],
+          options: { temperature: 0.3 },
+        });
+        expect(mockCacheService.set).toHaveBeenCalledWith("cache-key", result);
+      });
+
+      test("keys translations by formality and domain", async () => {
+        mockCacheService.isEnabled.mockResolvedValue(true);
+        mockOllamaService.chat.mockResolvedValue({ content: "translated" });
+
+        await service.translate(
+          createTranslationRequest({ formality: "casual", domain: "chat" }),
+        );
+
+        expect(mockCacheService.createKey).toHaveBeenCalledWith(
+          expect.objectContaining({ formality: "casual", domain: "chat" }),
+        );
+      });
+
+      test("returns a cached translation without calling the model", async () => {
+        mockCacheService.isEnabled.mockResolvedValue(true);
+        mockCacheService.get.mockResolvedValue(
+          createTranslationResponse({ translatedText: "キャッシュ" }),
+        );
+
+        const result = await service.translate(createTranslationRequest());
+
+        expect(mockOllamaService.chat).not.toHaveBeenCalled();
+        expect(result.translatedText).toBe("キャッシュ");
+        expect(result.fromCache).toBe(true);
+      });
+
+      test("drops generation metrics from cached translations", async () => {
+        mockCacheService.isEnabled.mockResolvedValue(true);
+        mockCacheService.get.mockResolvedValue(
+          createTranslationResponse({ metrics: { completionTokens: 12 } }),
+        );
+
+        const result = await service.translate(createTranslationRequest());
+
+        expect(result.metrics).toBeUndefined();
+      });
+    });
+
+    describe("translation memory", () => {
+      test("returns an exact match without calling the model", async () => {
+        mockMemoryService.findMatches.mockResolvedValue([
+          {
+            entryId: "tm-1",
+            sourceText: "Hello World",
+            targetText: "こんにちは、世界",
+            matchPercent: 100,
+          },
+        ]);
+
+        const result = await service.translate(createTranslationRequest());
+
+        expect(mockMemoryService.findMatches).toHaveBeenCalledWith(
+          "Hello World",
+          "en",
+          "ja",
+        );
+        expect(mockOllamaService.modelExists).not.toHaveBeenCalled();
+        expect(mockOllamaService.chat).not.toHaveBeenCalled();
+        expect(result).toMatchObject({
+          translatedText: "こんにちは、世界",
+          modelUsed: "translation-memory",
+          translationMemoryMatches: [{ entryId: "tm-1", matchPercent: 100 }],
+        });
+        expect(mockHistoryService.record).toHaveBeenCalled();
+      });
+
+      test("gives fuzzy matches to the model as references", async () => {
+        const match = {
+          entryId: "tm-1",
+          sourceText: "Hello Worlds",
+          targetText: "こんにちは、世界の皆さん",
+          matchPercent: 91,
+        };
+        mockMemoryService.findMatches.mockResolvedValue([match]);
+        mockOllamaService.chat.mockResolvedValue({ content: "こんにちは世界" });
+
+        const result = await service.translate(createTranslationRequest());
+
+        const prompt = mockOllamaService.chat.mock.calls[0][0].messages[1];
+        expect(prompt.content).toContain(
+          "Source (91% similar): Hello Worlds\nTranslation: こんにちは、世界の皆さん",
+        );
+        expect(result.translationMemoryMatches).toEqual([match]);
+      });
+
+      test("translates with the model when the lookup fails", async () => {
+        mockMemoryService.findMatches.mockRejectedValue(new Error("Broken"));
+        mockOllamaService.chat.mockResolvedValue({ content: "こんにちは世界" });
+
+        const result = await service.translate(createTranslationRequest());
+
+        expect(result.translatedText).toBe("こんにちは世界");
+        expect(result.translationMemoryMatches).toBeUndefined();
+      });
+    });
+
+    test("reports generation metrics of the translation", async () => {
+      mockOllamaService.chat.mockResolvedValue({
+        content: "translated",
+        metrics: {
+          promptTokens: 50,
+          completionTokens: 20,
+          loadDurationMs: 2100,
+          evalDurationMs: 500,
+          tokensPerSecond: 40,
+        },
+      });
+
+      const result = await service.translate(createTranslationRequest());
+
+      expect(result.metrics).toMatchObject({
+        promptTokens: 50,
+        completionTokens: 20,
+        loadDurationMs: 2100,
+        tokensPerSecond: 40,
+      });
+    });
+
+    test("keeps code and URLs away from the model", async () => {
+      mockOllamaService.chat.mockImplementation(async ({ messages }) => {
+        const prompt = messages[messages.length - 1].content;
+        expect(prompt).toContain('<ph id="1"/>');
+        expect(prompt).not.toContain("https://example.com");
+        return { content: '<ph id="1"/> を参照してください\n\n<ph id="2"/>' };
+      });
+
+      const result = await service.translate(
+        createTranslationRequest({
+          text: "See https://example.com\n\n```\nnpm test\n```",
+        }),
+      );
+
+      expect(result.translatedText).toBe(
+        "https://example.com を参照してください\n\n```\nnpm test\n```",
+      );
+      expect(result.missingProtectedSpans).toBeUndefined();
+    });
+
+    test("reports protected spans the model dropped", async () => {
+      mockOllamaService.chat.mockResolvedValue({ content: "実行してください" });
+
+      const result = await service.translate(
+        createTranslationRequest({ text: "Please run `npm test`" }),
+      );
+
+      expect(result.missingProtectedSpans).toEqual(["`npm test`"]);
+    });
+
+    test("hands finished translations to the history", async () => {
+      const request = createTranslationRequest();
+      mockOllamaService.chat.mockResolvedValue({ content: "translated" });
+
+      const result = await service.translate(request);
+
+      expect(mockHistoryService.record).toHaveBeenCalledWith(request, result);
+    });
+
+    test("still returns the translation when recording history fails", async () => {
+      mockOllamaService.chat.mockResolvedValue({ content: "translated" });
+      mockHistoryService.record.mockRejectedValue(new Error("disk full"));
+
+      const result = await service.translate(createTranslationRequest());
+
+      expect(result.translatedText).toBe("translated");
+    });
+
     test("updates model usage after successful translation", async () => {
       const request = createTranslationRequest();
-      mockOllamaService.chat.mockResolvedValue("translated");
+      mockOllamaService.chat.mockResolvedValue({ content: "translated" });
 
       await service.translate(request);
 
@@ -181,7 +873,7 @@ describe("TranslationService", () => {
 
       mockOllamaService.chat.mockImplementation(async () => {
         isTranslatingDuringCall = service.isTranslating();
-        return "translated";
+        return { content: "translated" };
       });
 
       expect(service.isTranslating()).toBe(false);
@@ -203,6 +895,260 @@ describe("TranslationService", () => {
     });
   });
 
+  describe("compareModels", () => {
+    const comparisonRequest = {
+      text: "Hello",
+      sourceLanguage: "en" as const,
+      targetLanguage: "ja" as const,
+      modelNames: ["llama2:latest", "llama3:latest"],
+    };
+
+    test("runs every model and reports tokens and latency", async () => {
+      mockOllamaService.chat
+        .mockResolvedValueOnce({
+          content: "こんにちは",
+          metrics: { promptTokens: 30, completionTokens: 4 },
+        })
+        .mockResolvedValueOnce({
+          content: "もしもし\n",
+          metrics: { promptTokens: 32, completionTokens: 5 },
+        });
+
+      const comparison = await service.compareModels(comparisonRequest);
+
+      expect(comparison.results).toEqual([
+        {
+          modelName: "llama2:latest",
+          translatedText: "こんにちは",
+          latencyMs: expect.any(Number),
+          metrics: expect.objectContaining({
+            promptTokens: 30,
+            completionTokens: 4,
+          }),
+        },
+        {
+          modelName: "llama3:latest",
+          translatedText: "もしもし",
+          latencyMs: expect.any(Number),
+          metrics: expect.objectContaining({
+            promptTokens: 32,
+            completionTokens: 5,
+          }),
+        },
+      ]);
+      expect(
+        mockOllamaService.chat.mock.calls.map(([request]) => request.model),
+      ).toEqual(["llama2:latest", "llama3:latest"]);
+      expect(service.isTranslating()).toBe(false);
+    });
+
+    test("keeps going when one model fails", async () => {
+      mockOllamaService.chat
+        .mockRejectedValueOnce(new Error("model crashed"))
+        .mockResolvedValueOnce({ content: "こんにちは" });
+
+      const comparison = await service.compareModels(comparisonRequest);
+
+      expect(comparison.results[0]).toMatchObject({
+        modelName: "llama2:latest",
+        error: "model crashed",
+      });
+      expect(comparison.results[1]).toMatchObject({
+        modelName: "llama3:latest",
+        translatedText: "こんにちは",
+      });
+    });
+
+    test("rejects identical source and target languages", async () => {
+      await expect(
+        service.compareModels({ ...comparisonRequest, targetLanguage: "en" }),
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe("translateStream", () => {
+    const collect = async (
+      stream: AsyncGenerator<TranslationStreamEvent, void, unknown>,
+    ): Promise<TranslationStreamEvent[]> => {
+      const events: TranslationStreamEvent[] = [];
+      for await (const event of stream) {
+        events.push(event);
+      }
+      return events;
+    };
+
+    test("yields deltas followed by the final response", async () => {
+      mockOllamaService.chatStream.mockImplementation(async function* () {
+        yield { content: "こんにちは" };
+        yield { content: "世界\n" };
+      });
+
+      const events = await collect(
+        service.translateStream(createTranslationRequest()),
+      );
+
+      expect(events.slice(0, 2)).toEqual([
+        { type: "delta", delta: "こんにちは" },
+        { type: "delta", delta: "世界\n" },
+      ]);
+      expect(events[2]).toMatchObject({
+        type: "done",
+        response: {
+          translatedText: "こんにちは世界",
+          sourceLanguage: "en",
+          targetLanguage: "ja",
+          modelUsed: "llama2:latest",
+        },
+      });
+      expect(mockOllamaService.chat).not.toHaveBeenCalled();
+      expect(mockSettingsRepo.updateModelUsage).toHaveBeenCalledWith(
+        "llama2:latest",
+      );
+    });
+
+    test("streams an exact translation memory match at once", async () => {
+      mockMemoryService.findMatches.mockResolvedValue([
+        {
+          entryId: "tm-1",
+          sourceText: "Hello World",
+          targetText: "こんにちは、世界",
+          matchPercent: 100,
+        },
+      ]);
+
+      const events = await collect(
+        service.translateStream(createTranslationRequest()),
+      );
+
+      expect(events[0]).toEqual({ type: "delta", delta: "こんにちは、世界" });
+      expect(events[1]).toMatchObject({
+        type: "done",
+        response: { modelUsed: "translation-memory" },
+      });
+      expect(mockOllamaService.chatStream).not.toHaveBeenCalled();
+    });
+
+    test("takes metrics from the final stream chunk", async () => {
+      mockOllamaService.chatStream.mockImplementation(async function* () {
+        yield { content: "こんにちは" };
+        yield {
+          content: "",
+          metrics: { completionTokens: 3, evalDurationMs: 100 },
+        };
+      });
+
+      const events = await collect(
+        service.translateStream(createTranslationRequest()),
+      );
+
+      expect(events).toHaveLength(2);
+      expect(events[1]).toMatchObject({
+        type: "done",
+        response: {
+          translatedText: "こんにちは",
+          metrics: { completionTokens: 3, tokensPerSecond: 30 },
+        },
+      });
+    });
+
+    test("restores placeholders in streamed deltas", async () => {
+      mockOllamaService.chatStream.mockImplementation(async function* () {
+        yield { content: "<ph " };
+        yield { content: 'id="1"/> を実行' };
+      });
+
+      const events = await collect(
+        service.translateStream(
+          createTranslationRequest({ text: "Run `npm test`" }),
+        ),
+      );
+
+      const streamed = events
+        .map((event) => (event.type === "delta" ? event.delta : ""))
+        .join("");
+      expect(streamed).toBe("`npm test` を実行");
+      expect(events[events.length - 1]).toMatchObject({
+        type: "done",
+        response: { translatedText: "`npm test` を実行" },
+      });
+    });
+
+    test("includes alternatives in the final response", async () => {
+      mockOllamaService.chatStream.mockImplementation(async function* () {
+        yield { content: "こんにちは" };
+      });
+      mockOllamaService.chat.mockResolvedValue({ content: "どうも" });
+
+      const events = await collect(
+        service.translateStream(
+          createTranslationRequest({ text: "Hi", candidateCount: 2 }),
+        ),
+      );
+
+      expect(events.at(-1)).toMatchObject({
+        type: "done",
+        response: { translatedText: "こんにちは", alternatives: ["どうも"] },
+      });
+    });
+
+    test("returns original text when source equals target language", async () => {
+      const events = await collect(
+        service.translateStream(
+          createTranslationRequest({
+            text: "Hello World",
+            sourceLanguage: "en",
+            targetLanguage: "en",
+          }),
+        ),
+      );
+
+      expect(events.at(-1)).toMatchObject({
+        type: "done",
+        response: { translatedText: "Hello World" },
+      });
+      expect(mockOllamaService.chatStream).not.toHaveBeenCalled();
+    });
+
+    test("stops with an error when the external signal is aborted", async () => {
+      const controller = new AbortController();
+      mockOllamaService.chatStream.mockImplementation(async function* () {
+        yield { content: "partial" };
+        controller.abort();
+        yield { content: " rest" };
+      });
+
+      const events: TranslationStreamEvent[] = [];
+      await expect(async () => {
+        for await (const event of service.translateStream(
+          createTranslationRequest(),
+          controller.signal,
+        )) {
+          events.push(event);
+        }
+      }).rejects.toThrow("aborted");
+
+      expect(events).toEqual([{ type: "delta", delta: "partial" }]);
+      expect(service.isTranslating()).toBe(false);
+    });
+
+    test("can be cancelled through cancelTranslation", async () => {
+      mockOllamaService.chatStream.mockImplementation(async function* () {
+        yield { content: "partial" };
+        yield { content: " rest" };
+      });
+
+      const stream = service.translateStream(
+        createTranslationRequest({ jobId: "stream" }),
+      );
+      await stream.next();
+
+      expect(service.isTranslating()).toBe(true);
+      expect(service.cancelTranslation("stream")).toBe(true);
+      await expect(stream.next()).rejects.toThrow("aborted");
+      expect(service.isTranslating()).toBe(false);
+    });
+  });
+
   describe("translateText", () => {
     test("calls translate with ja->en translation and custom model", async () => {
       const translateSpy = vi.spyOn(service, "translate");
@@ -267,7 +1213,7 @@ describe("TranslationService", () => {
 
   describe("cancelTranslation", () => {
     test("returns false when no active translation", () => {
-      const result = service.cancelTranslation();
+      const result = service.cancelTranslation("missing");
       expect(result).toBe(false);
     });
 
@@ -284,19 +1230,124 @@ describe("TranslationService", () => {
         });
       });
 
-      const request = createTranslationRequest();
+      const request = createTranslationRequest({ jobId: "job-1" });
       const translationPromise = service.translate(request);
 
       // Small delay to ensure translation has started
       await new Promise((resolve) => setTimeout(resolve, 10));
 
-      const result = service.cancelTranslation();
+      const result = service.cancelTranslation("job-1");
 
       expect(result).toBe(true);
       expect(service.isTranslating()).toBe(false);
 
       await expect(translationPromise).rejects.toThrow();
     });
+
+    test("leaves other jobs running", async () => {
+      mockOllamaService.chat.mockImplementation(
+        (request) =>
+          new Promise((resolve, reject) => {
+            const timeoutId = setTimeout(
+              () => resolve({ content: "translated" }),
+              20,
+            );
+            request.signal?.addEventListener("abort", () => {
+              clearTimeout(timeoutId);
+              reject(new Error("Translation cancelled"));
+            });
+          }),
+      );
+
+      const mine = service.translate(
+        createTranslationRequest({ jobId: "mine" }),
+      );
+      const other = service.translate(
+        createTranslationRequest({ jobId: "other" }),
+      );
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      expect(service.cancelTranslation("mine")).toBe(true);
+
+      await expect(mine).rejects.toThrow();
+      await expect(other).resolves.toMatchObject({
+        translatedText: "translated",
+      });
+    });
+  });
+
+  describe("translation jobs", () => {
+    test("cancelling one job leaves concurrent translations running", async () => {
+      mockOllamaService.chat.mockImplementation(
+        (request) =>
+          new Promise((resolve, reject) => {
+            const timeoutId = setTimeout(
+              () => resolve({ content: "translated" }),
+              20,
+            );
+            request.signal?.addEventListener("abort", () => {
+              clearTimeout(timeoutId);
+              reject(new Error("Translation cancelled"));
+            });
+          }),
+      );
+      const jobManager = new TranslationJobManagerImpl();
+      service = new TranslationServiceImpl(
+        mockOllamaService,
+        mockSettingsRepo,
+        mockDetectionService,
+        mockGlossaryService,
+        new PromptTemplateServiceImpl(mockPromptTemplateRepo),
+        mockCacheService,
+        mockHistoryService,
+        jobManager,
+        mockMemoryService,
+      );
+
+      const first = service.translate(
+        createTranslationRequest({ jobId: "first" }),
+      );
+      const second = service.translate(
+        createTranslationRequest({ jobId: "second" }),
+      );
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      expect(jobManager.cancel("first")).toBe(true);
+
+      await expect(first).rejects.toThrow();
+      await expect(second).resolves.toMatchObject({
+        translatedText: "translated",
+      });
+      expect(jobManager.getJob("first").status).toBe("cancelled");
+      expect(jobManager.getJob("second").status).toBe("completed");
+    });
+
+    test("marks streamed translations as completed", async () => {
+      const jobManager = new TranslationJobManagerImpl();
+      service = new TranslationServiceImpl(
+        mockOllamaService,
+        mockSettingsRepo,
+        mockDetectionService,
+        mockGlossaryService,
+        new PromptTemplateServiceImpl(mockPromptTemplateRepo),
+        mockCacheService,
+        mockHistoryService,
+        jobManager,
+        mockMemoryService,
+      );
+
+      for await (const event of service.translateStream(
+        createTranslationRequest({ jobId: "stream" }),
+      )) {
+        expect(jobManager.getJob("stream").status).toBe("running");
+        expect(event.type).toBeDefined();
+      }
+
+      expect(jobManager.getJob("stream")).toMatchObject({
+        kind: "stream",
+        status: "completed",
+      });
+    });
   });
 
   describe("isTranslating", () => {
@@ -309,7 +1360,7 @@ describe("TranslationService", () => {
 
       mockOllamaService.chat.mockImplementation(async () => {
         isTranslatingDuringCall = service.isTranslating();
-        return "translated";
+        return { content: "translated" };
       });
 
       await service.translate(createTranslationRequest());
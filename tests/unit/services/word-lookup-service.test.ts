@@ -0,0 +1,96 @@
+import { InternalError } from "#shared/errors.js";
+import type { OllamaService } from "@main/services/ollama-service.js";
+import { WordLookupServiceImpl } from "@main/services/word-lookup-service.js";
+import { beforeEach, describe, expect, test } from "vitest";
+import { createMockOllamaService } from "../../mocks/ollama-service.mock.js";
+
+const ENTRY = {
+  headword: "食べる",
+  reading: "たべる",
+  partOfSpeech: "verb",
+  translations: ["to eat", "to live on"],
+  examples: [
+    { sentence: "朝ご飯を食べる。", translation: "I eat breakfast." },
+    { sentence: "魚を食べる。", translation: "I eat fish." },
+    { sentence: "何を食べる？", translation: "What will you eat?" },
+    { sentence: "もう食べた。", translation: "I already ate." },
+  ],
+};
+
+describe("WordLookupService", () => {
+  let mockOllamaService: jest.Mocked<OllamaService>;
+  let service: WordLookupServiceImpl;
+
+  const request = {
+    text: "食べた",
+    context: "もう食べた。",
+    sourceLanguage: "ja" as const,
+    targetLanguage: "en" as const,
+    modelName: "llama3:latest",
+  };
+
+  beforeEach(() => {
+    mockOllamaService = createMockOllamaService();
+    mockOllamaService.chat.mockResolvedValue({
+      content: JSON.stringify(ENTRY),
+    });
+    service = new WordLookupServiceImpl(mockOllamaService);
+  });
+
+  test("asks the model for a JSON entry following the schema", async () => {
+    const lookup = await service.lookUp(request);
+
+    expect(lookup).toEqual({ ...ENTRY, examples: ENTRY.examples.slice(0, 3) });
+    const chatRequest = mockOllamaService.chat.mock.calls[0][0];
+    expect(chatRequest.model).toBe("llama3:latest");
+    expect(chatRequest.format).toMatchObject({
+      type: "object",
+      required: expect.arrayContaining(["headword", "translations"]),
+    });
+    expect(chatRequest.messages[0].content).toContain("Japanese-English");
+    expect(chatRequest.messages[1].content).toBe(
+      "Word: 食べた\nContext: もう食べた。",
+    );
+  });
+
+  test("caches entries for the session", async () => {
+    await service.lookUp(request);
+    await service.lookUp({ ...request, text: " 食べた " });
+    await service.lookUp({ ...request, context: "昨日は寿司を食べた。" });
+    await service.lookUp({ ...request, targetLanguage: "de" });
+
+    expect(mockOllamaService.chat).toHaveBeenCalledTimes(2);
+  });
+
+  test("drops empty optional fields", async () => {
+    mockOllamaService.chat.mockResolvedValue({
+      content: JSON.stringify({
+        headword: "run",
+        reading: " ",
+        partOfSpeech: "",
+        translations: ["laufen"],
+      }),
+    });
+
+    expect(
+      await service.lookUp({
+        ...request,
+        text: "run",
+        sourceLanguage: "en",
+        targetLanguage: "de",
+      }),
+    ).toEqual({ headword: "run", translations: ["laufen"], examples: [] });
+  });
+
+  test("rejects replies that do not match the schema", async () => {
+    mockOllamaService.chat.mockResolvedValue({
+      content: JSON.stringify({ headword: "食べる", translations: [] }),
+    });
+    await expect(service.lookUp(request)).rejects.toThrow(InternalError);
+
+    mockOllamaService.chat.mockResolvedValue({ content: "to eat" });
+    await expect(service.lookUp(request)).rejects.toThrow(
+      "did not return a dictionary entry",
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import type { GlossaryService } from "@main/services/glossary-service.js";
+import { glossaryRouter } from "@main/trpc/routers/glossary.js";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { createGlossaryEntry } from "../../factories/glossary.factory.js";
+import { createMockGlossaryService } from "../../mocks/services.mock.js";
+
+// Mock the DI container
+vi.mock("@main/di/container.js", () => ({
+  container: {
+    getGlossaryService: vi.fn(),
+  },
+}));
+
+describe("Glossary Router", () => {
+  let mockGlossaryService: jest.Mocked<GlossaryService>;
+  let caller: ReturnType<typeof glossaryRouter.createCaller>;
+
+  beforeEach(async () => {
+    mockGlossaryService = createMockGlossaryService();
+
+    const { container } = await import("@main/di/container.js");
+    vi.mocked(container.getGlossaryService).mockResolvedValue(
+      mockGlossaryService,
+    );
+
+    caller = glossaryRouter.createCaller({});
+  });
+
+  test("list passes the language pair to the service", async () => {
+    const entries = [createGlossaryEntry()];
+    mockGlossaryService.listEntries.mockResolvedValue(entries);
+
+    const result = await caller.list({
+      sourceLanguage: "en",
+      targetLanguage: "ja",
+    });
+
+    expect(mockGlossaryService.listEntries).toHaveBeenCalledWith({
+      sourceLanguage: "en",
+      targetLanguage: "ja",
+    });
+    expect(result).toEqual(entries);
+  });
+
+  test("create applies schema defaults", async () => {
+    await caller.create({
+      sourceLanguage: "en",
+      targetLanguage: "ja",
+      sourceTerm: "Workspace",
+      targetTerm: "ワークスペース",
+    });
+
+    expect(mockGlossaryService.createEntry).toHaveBeenCalledWith({
+      sourceLanguage: "en",
+      targetLanguage: "ja",
+      sourceTerm: "Workspace",
+      targetTerm: "ワークスペース",
+      caseSensitive: false,
+      doNotTranslate: false,
+    });
+  });
+
+  test("create rejects unsupported languages", async () => {
+    await expect(
+      caller.create({
+        sourceLanguage: "xx" as never,
+        targetLanguage: "ja",
+        sourceTerm: "Workspace",
+      }),
+    ).rejects.toThrow();
+    expect(mockGlossaryService.createEntry).not.toHaveBeenCalled();
+  });
+
+  test("update and delete forward the entry id", async () => {
+    await caller.update({ id: "entry-1", changes: { caseSensitive: true } });
+    await caller.delete({ id: "entry-1" });
+
+    expect(mockGlossaryService.updateEntry).toHaveBeenCalledWith("entry-1", {
+      caseSensitive: true,
+    });
+    expect(mockGlossaryService.deleteEntry).toHaveBeenCalledWith("entry-1");
+  });
+
+  test("import defaults to merge mode", async () => {
+    mockGlossaryService.importEntries.mockResolvedValue({
+      imported: 2,
+      updated: 0,
+      skipped: 1,
+    });
+
+    const result = await caller.import({ format: "csv", content: "a,b" });
+
+    expect(mockGlossaryService.importEntries).toHaveBeenCalledWith({
+      format: "csv",
+      content: "a,b",
+      mode: "merge",
+    });
+    expect(result).toEqual({ imported: 2, updated: 0, skipped: 1 });
+  });
+
+  test("export returns the serialized glossary", async () => {
+    mockGlossaryService.exportEntries.mockResolvedValue("<tbx/>");
+
+    const result = await caller.export({ format: "tbx" });
+
+    expect(mockGlossaryService.exportEntries).toHaveBeenCalledWith(
+      "tbx",
+      undefined,
+    );
+    expect(result).toBe("<tbx/>");
+  });
+});
@@ -0,0 +1,58 @@
+import type { TranslationHistoryService } from "@main/services/translation-history-service.js";
+import { historyRouter } from "@main/trpc/routers/history.js";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { createMockTranslationHistoryService } from "../../mocks/services.mock.js";
+
+// Mock the DI container
+vi.mock("@main/di/container.js", () => ({
+  container: {
+    getTranslationHistoryService: vi.fn(),
+  },
+}));
+
+describe("History Router", () => {
+  let mockHistoryService: jest.Mocked<TranslationHistoryService>;
+  let caller: ReturnType<typeof historyRouter.createCaller>;
+
+  beforeEach(async () => {
+    mockHistoryService = createMockTranslationHistoryService();
+
+    const { container } = await import("@main/di/container.js");
+    vi.mocked(container.getTranslationHistoryService).mockResolvedValue(
+      mockHistoryService,
+    );
+
+    caller = historyRouter.createCaller({});
+  });
+
+  test("search applies the default limit", async () => {
+    await caller.search({ text: "file", modelName: "llama3:latest" });
+
+    expect(mockHistoryService.search).toHaveBeenCalledWith({
+      text: "file",
+      modelName: "llama3:latest",
+      limit: 100,
+    });
+  });
+
+  test("updateSettings accepts clearing the age limit", async () => {
+    mockHistoryService.updateSettings.mockResolvedValue({
+      enabled: true,
+      maxAgeDays: null,
+      maxItems: 100,
+    });
+
+    const settings = await caller.updateSettings({ maxAgeDays: null });
+
+    expect(mockHistoryService.updateSettings).toHaveBeenCalledWith({
+      maxAgeDays: null,
+    });
+    expect(settings.maxAgeDays).toBeNull();
+  });
+
+  test("purge removes the whole history", async () => {
+    await caller.purge();
+
+    expect(mockHistoryService.purge).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,60 @@
+import { I18nResourceServiceImpl } from "@main/services/i18n-resource-service.js";
+import { i18nResourcesRouter } from "@main/trpc/routers/i18n-resources.js";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { createMockTranslationService } from "../../mocks/services.mock.js";
+
+// Mock the DI container
+vi.mock("@main/di/container.js", () => ({
+  container: {
+    getI18nResourceService: vi.fn(),
+  },
+}));
+
+describe("i18n Resources Router", () => {
+  let caller: ReturnType<typeof i18nResourcesRouter.createCaller>;
+
+  beforeEach(async () => {
+    const service = new I18nResourceServiceImpl(createMockTranslationService());
+
+    const { container } = await import("@main/di/container.js");
+    vi.mocked(container.getI18nResourceService).mockResolvedValue(service);
+
+    caller = i18nResourcesRouter.createCaller({});
+  });
+
+  test("translate streams progress and the translated file", async () => {
+    const stream = await caller.translate({
+      content: JSON.stringify({ greeting: "Hello" }),
+      sourceLanguage: "en",
+      targetLanguage: "ja",
+    });
+    const events: unknown[] = [];
+    for await (const event of stream) {
+      events.push(event);
+    }
+
+    expect(events).toEqual([
+      { type: "progress", completedKeys: 0, totalKeys: 1 },
+      { type: "progress", completedKeys: 1, totalKeys: 1 },
+      {
+        type: "done",
+        result: {
+          content: '{\n  "greeting": "こんにちは世界"\n}\n',
+          translatedKeys: 1,
+          copiedKeys: 0,
+          failedKeys: [],
+        },
+      },
+    ]);
+  });
+
+  test("translate rejects auto-detect as the source language", async () => {
+    await expect(
+      caller.translate({
+        content: "{}",
+        sourceLanguage: "auto" as never,
+        targetLanguage: "ja",
+      }),
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,55 @@
+import type { PostEditService } from "@main/services/post-edit-service.js";
+import { postEditsRouter } from "@main/trpc/routers/post-edits.js";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { createMockPostEditService } from "../../mocks/services.mock.js";
+
+// Mock the DI container
+vi.mock("@main/di/container.js", () => ({
+  container: {
+    getPostEditService: vi.fn(),
+  },
+}));
+
+describe("Post-edits Router", () => {
+  let mockPostEditService: jest.Mocked<PostEditService>;
+  let caller: ReturnType<typeof postEditsRouter.createCaller>;
+
+  beforeEach(async () => {
+    mockPostEditService = createMockPostEditService();
+
+    const { container } = await import("@main/di/container.js");
+    vi.mocked(container.getPostEditService).mockResolvedValue(
+      mockPostEditService,
+    );
+
+    caller = postEditsRouter.createCaller({});
+  });
+
+  test("record returns null while capture is disabled", async () => {
+    const input = {
+      sourceLanguage: "en" as const,
+      targetLanguage: "de" as const,
+      modelName: "llama3:latest",
+      sourceText: "Open the file.",
+      machineText: "Öffne die Akte.",
+      editedText: "Öffne die Datei.",
+    };
+
+    expect(await caller.record(input)).toBeNull();
+    expect(mockPostEditService.record).toHaveBeenCalledWith(input);
+  });
+
+  test("record rejects an empty edit", async () => {
+    await expect(
+      caller.record({
+        sourceLanguage: "en",
+        targetLanguage: "de",
+        modelName: "llama3:latest",
+        sourceText: "Open the file.",
+        machineText: "Öffne die Akte.",
+        editedText: "  ",
+      }),
+    ).rejects.toThrow();
+    expect(mockPostEditService.record).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,99 @@
+import type { GlossaryService } from "@main/services/glossary-service.js";
+import type { PromptTemplateService } from "@main/services/prompt-template-service.js";
+import { promptTemplatesRouter } from "@main/trpc/routers/prompt-templates.js";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { createGlossaryEntry } from "../../factories/glossary.factory.js";
+import { createPromptTemplate } from "../../factories/prompt-template.factory.js";
+import {
+  createMockGlossaryService,
+  createMockPromptTemplateService,
+} from "../../mocks/services.mock.js";
+
+// Mock the DI container
+vi.mock("@main/di/container.js", () => ({
+  container: {
+    getPromptTemplateService: vi.fn(),
+    getGlossaryService: vi.fn(),
+  },
+}));
+
+describe("Prompt Templates Router", () => {
+  let mockPromptTemplateService: jest.Mocked<PromptTemplateService>;
+  let mockGlossaryService: jest.Mocked<GlossaryService>;
+  let caller: ReturnType<typeof promptTemplatesRouter.createCaller>;
+
+  const previewInput = {
+    text: "Open the workspace",
+    sourceLanguage: "en" as const,
+    targetLanguage: "ja" as const,
+  };
+
+  beforeEach(async () => {
+    mockPromptTemplateService = createMockPromptTemplateService();
+    mockGlossaryService = createMockGlossaryService();
+
+    const { container } = await import("@main/di/container.js");
+    vi.mocked(container.getPromptTemplateService).mockResolvedValue(
+      mockPromptTemplateService,
+    );
+    vi.mocked(container.getGlossaryService).mockResolvedValue(
+      mockGlossaryService,
+    );
+
+    caller = promptTemplatesRouter.createCaller({});
+  });
+
+  test("create validates the template input", async () => {
+    await expect(
+      caller.create({ name: " ", systemPrompt: "", userPrompt: "{{text}}" }),
+    ).rejects.toThrow();
+    expect(mockPromptTemplateService.createTemplate).not.toHaveBeenCalled();
+  });
+
+  test("assign forwards scope and template id", async () => {
+    await caller.assign({
+      scope: { type: "model", modelName: "llama3:latest" },
+      templateId: null,
+    });
+
+    expect(mockPromptTemplateService.assignTemplate).toHaveBeenCalledWith(
+      { type: "model", modelName: "llama3:latest" },
+      null,
+    );
+  });
+
+  test("preview renders the unsaved draft with matching glossary terms", async () => {
+    const entries = [createGlossaryEntry()];
+    mockGlossaryService.findMatchingEntries.mockResolvedValue(entries);
+    const draft = { systemPrompt: "", userPrompt: "{{text}}" };
+
+    await caller.preview({ ...previewInput, draft });
+
+    expect(mockPromptTemplateService.resolveTemplate).not.toHaveBeenCalled();
+    expect(mockPromptTemplateService.renderMessages).toHaveBeenCalledWith(
+      draft,
+      { ...previewInput, context: undefined, glossaryEntries: entries },
+    );
+  });
+
+  test("preview resolves the assigned template without a draft", async () => {
+    const template = createPromptTemplate({ id: "custom" });
+    mockPromptTemplateService.resolveTemplate.mockResolvedValue(template);
+
+    const messages = await caller.preview({
+      ...previewInput,
+      modelName: "llama3:latest",
+    });
+
+    expect(mockPromptTemplateService.resolveTemplate).toHaveBeenCalledWith(
+      "llama3:latest",
+      "en",
+      "ja",
+    );
+    expect(mockPromptTemplateService.renderMessages).toHaveBeenCalledWith(
+      template,
+      expect.objectContaining({ text: "Open the workspace" }),
+    );
+    expect(messages).toEqual([{ role: "user", content: "Hello World" }]);
+  });
+});
@@ -0,0 +1,57 @@
+import type { TranslationCacheService } from "@main/services/translation-cache-service.js";
+import { translationCacheRouter } from "@main/trpc/routers/translation-cache.js";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { createMockTranslationCacheService } from "../../mocks/services.mock.js";
+
+// Mock the DI container
+vi.mock("@main/di/container.js", () => ({
+  container: {
+    getTranslationCacheService: vi.fn(),
+  },
+}));
+
+describe("Translation Cache Router", () => {
+  let mockCacheService: jest.Mocked<TranslationCacheService>;
+  let caller: ReturnType<typeof translationCacheRouter.createCaller>;
+
+  beforeEach(async () => {
+    mockCacheService = createMockTranslationCacheService();
+
+    const { container } = await import("@main/di/container.js");
+    vi.mocked(container.getTranslationCacheService).mockResolvedValue(
+      mockCacheService,
+    );
+
+    caller = translationCacheRouter.createCaller({});
+  });
+
+  test("updateSettings passes only the changed fields", async () => {
+    mockCacheService.updateSettings.mockResolvedValue({
+      enabled: true,
+      persist: false,
+      maxEntries: 500,
+      entries: 0,
+      hits: 0,
+      misses: 0,
+    });
+
+    const stats = await caller.updateSettings({ enabled: true });
+
+    expect(mockCacheService.updateSettings).toHaveBeenCalledWith({
+      enabled: true,
+    });
+    expect(stats.enabled).toBe(true);
+  });
+
+  test("updateSettings rejects an invalid entry limit", async () => {
+    await expect(caller.updateSettings({ maxEntries: 0 })).rejects.toThrow();
+    expect(mockCacheService.updateSettings).not.toHaveBeenCalled();
+  });
+
+  test("clear empties the cache and returns fresh stats", async () => {
+    const stats = await caller.clear();
+
+    expect(mockCacheService.clear).toHaveBeenCalled();
+    expect(stats.entries).toBe(0);
+  });
+});
@@ -0,0 +1,64 @@
+import { TranslationJobManagerImpl } from "@main/services/translation-job-manager.js";
+import { translationJobsRouter } from "@main/trpc/routers/translation-jobs.js";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+
+// Mock the DI container
+vi.mock("@main/di/container.js", () => ({
+  container: {
+    getTranslationJobManager: vi.fn(),
+  },
+}));
+
+describe("Translation Jobs Router", () => {
+  let jobManager: TranslationJobManagerImpl;
+  let caller: ReturnType<typeof translationJobsRouter.createCaller>;
+
+  beforeEach(async () => {
+    jobManager = new TranslationJobManagerImpl();
+
+    const { container } = await import("@main/di/container.js");
+    vi.mocked(container.getTranslationJobManager).mockResolvedValue(jobManager);
+
+    caller = translationJobsRouter.createCaller({});
+  });
+
+  test("list returns the tracked jobs", async () => {
+    await jobManager.start({
+      id: "job-1",
+      kind: "stream",
+      sourceLanguage: "auto",
+      targetLanguage: "ja",
+      text: "Hello",
+    });
+
+    const jobs = await caller.list();
+
+    expect(jobs).toEqual([
+      expect.objectContaining({ id: "job-1", status: "running" }),
+    ]);
+  });
+
+  test("status fails for unknown jobs", async () => {
+    await expect(caller.status({ jobId: "missing" })).rejects.toThrow(
+      "not found",
+    );
+  });
+
+  test("cancel stops the given job", async () => {
+    const job = await jobManager.start({
+      id: "job-1",
+      kind: "translate",
+      sourceLanguage: "en",
+      targetLanguage: "ja",
+      text: "Hello",
+    });
+
+    await expect(caller.cancel({ jobId: "job-1" })).resolves.toEqual({
+      cancelled: true,
+    });
+    expect(job.signal.aborted).toBe(true);
+    await expect(caller.status({ jobId: "job-1" })).resolves.toMatchObject({
+      status: "cancelled",
+    });
+  });
+});
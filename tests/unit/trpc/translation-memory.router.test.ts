@@ -0,0 +1,81 @@
+import type { TranslationMemoryService } from "@main/services/translation-memory-service.js";
+import { translationMemoryRouter } from "@main/trpc/routers/translation-memory.js";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { createTranslationMemoryEntry } from "../../factories/translation-memory.factory.js";
+import { createMockTranslationMemoryService } from "../../mocks/services.mock.js";
+
+// Mock the DI container
+vi.mock("@main/di/container.js", () => ({
+  container: {
+    getTranslationMemoryService: vi.fn(),
+  },
+}));
+
+describe("Translation Memory Router", () => {
+  let mockMemoryService: jest.Mocked<TranslationMemoryService>;
+  let caller: ReturnType<typeof translationMemoryRouter.createCaller>;
+
+  beforeEach(async () => {
+    mockMemoryService = createMockTranslationMemoryService();
+
+    const { container } = await import("@main/di/container.js");
+    vi.mocked(container.getTranslationMemoryService).mockResolvedValue(
+      mockMemoryService,
+    );
+
+    caller = translationMemoryRouter.createCaller({});
+  });
+
+  test("list passes the language pair to the service", async () => {
+    const entries = [createTranslationMemoryEntry()];
+    mockMemoryService.listEntries.mockResolvedValue(entries);
+
+    const result = await caller.list({
+      sourceLanguage: "en",
+      targetLanguage: "de",
+    });
+
+    expect(mockMemoryService.listEntries).toHaveBeenCalledWith({
+      sourceLanguage: "en",
+      targetLanguage: "de",
+    });
+    expect(result).toEqual(entries);
+  });
+
+  test("add rejects empty translations", async () => {
+    await expect(
+      caller.add({
+        sourceLanguage: "en",
+        targetLanguage: "de",
+        sourceText: "Save",
+        targetText: "  ",
+      }),
+    ).rejects.toThrow();
+    expect(mockMemoryService.addEntry).not.toHaveBeenCalled();
+  });
+
+  test("import defaults to merge mode", async () => {
+    mockMemoryService.importTmx.mockResolvedValue({
+      imported: 2,
+      updated: 1,
+      skipped: 0,
+    });
+
+    const result = await caller.import({ content: "<tmx/>" });
+
+    expect(mockMemoryService.importTmx).toHaveBeenCalledWith({
+      content: "<tmx/>",
+      mode: "merge",
+    });
+    expect(result).toEqual({ imported: 2, updated: 1, skipped: 0 });
+  });
+
+  test("export returns the TMX document", async () => {
+    mockMemoryService.exportTmx.mockResolvedValue("<tmx/>");
+
+    const result = await caller.export({});
+
+    expect(mockMemoryService.exportTmx).toHaveBeenCalledWith(undefined);
+    expect(result).toBe("<tmx/>");
+  });
+});
@@ -1,3 +1,4 @@
+import type { TranslationSettingsRepository } from "@main/repository/translation-settings-repository.js";
 import type { OllamaService } from "@main/services/ollama-service.js";
 import type { TranslationService } from "@main/services/translation-service.js";
 import { translationRouter } from "@main/trpc/routers/translation.js";
@@ -6,8 +7,10 @@ import { createOllamaModel } from "../../factories/ollama.factory.js";
 import {
   createTranslationRequest,
   createTranslationResponse,
+  createTranslationSettings,
 } from "../../factories/translation.factory.js";
 import { createMockOllamaService } from "../../mocks/ollama-service.mock.js";
+import { createMockTranslationSettingsRepository } from "../../mocks/repositories.mock.js";
 import { createMockTranslationService } from "../../mocks/services.mock.js";
 
 // Mock the DI container
@@ -15,23 +18,29 @@ vi.mock("@main/di/container.js", () => ({
   container: {
     getTranslationService: vi.fn(),
     getOllamaService: vi.fn(),
+    getTranslationSettingsRepository: vi.fn(),
   },
 }));
 
 describe("Translation Router", () => {
   let mockTranslationService: jest.Mocked<TranslationService>;
   let mockOllamaService: jest.Mocked<OllamaService>;
+  let mockSettingsRepo: jest.Mocked<TranslationSettingsRepository>;
   let caller: ReturnType<typeof translationRouter.createCaller>;
 
   beforeEach(async () => {
     mockTranslationService = createMockTranslationService();
     mockOllamaService = createMockOllamaService();
+    mockSettingsRepo = createMockTranslationSettingsRepository();
 
     const { container } = await import("@main/di/container.js");
     vi.mocked(container.getTranslationService).mockResolvedValue(
       mockTranslationService,
     );
     vi.mocked(container.getOllamaService).mockResolvedValue(mockOllamaService);
+    vi.mocked(container.getTranslationSettingsRepository).mockResolvedValue(
+      mockSettingsRepo,
+    );
 
     caller = translationRouter.createCaller({});
   });
@@ -65,6 +74,17 @@ describe("Translation Router", () => {
       await expect(caller.translate(invalidInput)).rejects.toThrow();
     });
 
+    test("accepts auto as source language", async () => {
+      const input = createTranslationRequest({ sourceLanguage: "auto" });
+      mockTranslationService.translate.mockResolvedValue(
+        createTranslationResponse(),
+      );
+
+      await caller.translate(input);
+
+      expect(mockTranslationService.translate).toHaveBeenCalledWith(input);
+    });
+
     test("rejects invalid input - invalid source language", async () => {
       const invalidInput = {
         text: "Hello",
@@ -109,6 +129,37 @@ describe("Translation Router", () => {
     });
   });
 
+  describe("translateStream", () => {
+    test("forwards stream events from the service", async () => {
+      const input = createTranslationRequest();
+
+      const stream = await caller.translateStream(input);
+      const events: unknown[] = [];
+      for await (const event of stream) {
+        events.push(event);
+      }
+
+      expect(mockTranslationService.translateStream).toHaveBeenCalledWith(
+        input,
+        undefined,
+      );
+      expect(events).toEqual([
+        { type: "delta", delta: "こんにちは" },
+        { type: "done", response: createTranslationResponse() },
+      ]);
+    });
+
+    test("rejects invalid input - empty text", async () => {
+      await expect(
+        caller.translateStream({
+          text: "",
+          sourceLanguage: "en",
+          targetLanguage: "ja",
+        }),
+      ).rejects.toThrow();
+    });
+  });
+
   describe("translateText", () => {
     test("calls service with converted input format", async () => {
       const input = {
@@ -161,6 +212,35 @@ describe("Translation Router", () => {
     });
   });
 
+  describe("detectLanguage", () => {
+    test("returns the detection result from the service", async () => {
+      const detection = {
+        language: "ja" as const,
+        confidence: 0.9,
+        isReliable: true,
+        method: "script" as const,
+      };
+      mockTranslationService.detectLanguage.mockReturnValue(detection);
+
+      const result = await caller.detectLanguage({ text: "こんにちは" });
+
+      expect(mockTranslationService.detectLanguage).toHaveBeenCalledWith(
+        "こんにちは",
+        undefined,
+      );
+      expect(result).toEqual(detection);
+    });
+
+    test("passes the fallback language to the service", async () => {
+      await caller.detectLanguage({ text: "ok", fallbackLanguage: "ja" });
+
+      expect(mockTranslationService.detectLanguage).toHaveBeenCalledWith(
+        "ok",
+        "ja",
+      );
+    });
+  });
+
   describe("getAvailableModels", () => {
     test("returns list of models from ollama service", async () => {
       const expectedModels = [
@@ -296,16 +376,18 @@ describe("Translation Router", () => {
     test("calls service cancel method and returns result", async () => {
       mockTranslationService.cancelTranslation.mockReturnValue(true);
 
-      const result = await caller.cancelTranslation();
+      const result = await caller.cancelTranslation({ jobId: "job-1" });
 
-      expect(mockTranslationService.cancelTranslation).toHaveBeenCalled();
+      expect(mockTranslationService.cancelTranslation).toHaveBeenCalledWith(
+        "job-1",
+      );
       expect(result).toEqual({ cancelled: true });
     });
 
     test("returns false when no active translation to cancel", async () => {
       mockTranslationService.cancelTranslation.mockReturnValue(false);
 
-      const result = await caller.cancelTranslation();
+      const result = await caller.cancelTranslation({ jobId: "job-1" });
 
       expect(result).toEqual({ cancelled: false });
     });
@@ -315,7 +397,108 @@ describe("Translation Router", () => {
         throw new Error("Service error");
       });
 
-      await expect(caller.cancelTranslation()).rejects.toThrow("Service error");
+      await expect(
+        caller.cancelTranslation({ jobId: "job-1" }),
+      ).rejects.toThrow("Service error");
+    });
+  });
+
+  describe("rememberLanguagePair", () => {
+    test("stores the pair through the settings repository", async () => {
+      const settings = createTranslationSettings({
+        lastLanguagePair: { sourceLanguage: "fr", targetLanguage: "ja" },
+        preferredTargetLanguages: { fr: "ja" },
+      });
+      mockSettingsRepo.rememberLanguagePair.mockResolvedValue(settings);
+
+      const result = await caller.rememberLanguagePair({
+        sourceLanguage: "fr",
+        targetLanguage: "ja",
+      });
+
+      expect(mockSettingsRepo.rememberLanguagePair).toHaveBeenCalledWith({
+        sourceLanguage: "fr",
+        targetLanguage: "ja",
+      });
+      expect(result).toEqual(settings);
+    });
+
+    test("rejects unregistered languages", async () => {
+      await expect(
+        caller.rememberLanguagePair({
+          sourceLanguage: "xx",
+          targetLanguage: "ja",
+        } as never),
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("rememberStyle", () => {
+    test("stores the style for the pair", async () => {
+      const settings = createTranslationSettings({
+        stylePreferences: { "en>ja": { formality: "formal", domain: "legal" } },
+      });
+      mockSettingsRepo.rememberStyle.mockResolvedValue(settings);
+
+      const result = await caller.rememberStyle({
+        pair: { sourceLanguage: "en", targetLanguage: "ja" },
+        style: { formality: "formal", domain: "legal" },
+      });
+
+      expect(mockSettingsRepo.rememberStyle).toHaveBeenCalledWith(
+        { sourceLanguage: "en", targetLanguage: "ja" },
+        { formality: "formal", domain: "legal" },
+      );
+      expect(result).toEqual(settings);
+    });
+
+    test("rejects unknown formality levels", async () => {
+      await expect(
+        caller.rememberStyle({
+          pair: { sourceLanguage: "en", targetLanguage: "ja" },
+          style: { formality: "royal" },
+        } as never),
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("compareModels", () => {
+    test("delegates to the translation service", async () => {
+      const input = {
+        text: "Hello",
+        sourceLanguage: "en" as const,
+        targetLanguage: "ja" as const,
+        modelNames: ["llama2:latest", "llama3:latest"],
+      };
+
+      await caller.compareModels(input);
+
+      expect(mockTranslationService.compareModels).toHaveBeenCalledWith(input);
+    });
+
+    test("requires at least two models", async () => {
+      await expect(
+        caller.compareModels({
+          text: "Hello",
+          sourceLanguage: "en",
+          targetLanguage: "ja",
+          modelNames: ["llama2:latest"],
+        }),
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("setLanguagePairModel", () => {
+    test("stores the model for the pair", async () => {
+      await caller.setLanguagePairModel({
+        pair: { sourceLanguage: "en", targetLanguage: "ja" },
+        modelName: "llama3:latest",
+      });
+
+      expect(mockSettingsRepo.setLanguagePairModel).toHaveBeenCalledWith(
+        { sourceLanguage: "en", targetLanguage: "ja" },
+        "llama3:latest",
+      );
     });
   });
 
@@ -0,0 +1,78 @@
+import type { OllamaService } from "@main/services/ollama-service.js";
+import { WordLookupServiceImpl } from "@main/services/word-lookup-service.js";
+import { wordLookupRouter } from "@main/trpc/routers/word-lookup.js";
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { createMockOllamaService } from "../../mocks/ollama-service.mock.js";
+
+// Mock the DI container
+vi.mock("@main/di/container.js", () => ({
+  container: {
+    getWordLookupService: vi.fn(),
+  },
+}));
+
+describe("Word Lookup Router", () => {
+  let mockOllamaService: jest.Mocked<OllamaService>;
+
+  const request = {
+    text: "食べた",
+    sourceLanguage: "ja" as const,
+    targetLanguage: "en" as const,
+    modelName: "llama3:latest",
+  };
+
+  beforeEach(async () => {
+    mockOllamaService = createMockOllamaService();
+
+    const { container } = await import("@main/di/container.js");
+    vi.mocked(container.getWordLookupService).mockResolvedValue(
+      new WordLookupServiceImpl(mockOllamaService),
+    );
+  });
+
+  test("lookUp streams the dictionary entry", async () => {
+    const entry = {
+      headword: "食べる",
+      translations: ["to eat"],
+      examples: [],
+    };
+    mockOllamaService.chat.mockResolvedValue({
+      content: JSON.stringify(entry),
+    });
+    const caller = wordLookupRouter.createCaller({});
+
+    const lookups: unknown[] = [];
+    for await (const lookup of await caller.lookUp(request)) {
+      lookups.push(lookup);
+    }
+
+    expect(lookups).toEqual([entry]);
+  });
+
+  test("stopping the lookup aborts the model request", async () => {
+    let chatSignal: AbortSignal | undefined;
+    mockOllamaService.chat.mockImplementation(
+      ({ signal }: { signal?: AbortSignal }) => {
+        chatSignal = signal;
+        return new Promise((_resolve, reject) => {
+          signal?.addEventListener("abort", () =>
+            reject(new Error("Request aborted")),
+          );
+        });
+      },
+    );
+    const controller = new AbortController();
+    const caller = wordLookupRouter.createCaller(
+      {},
+      { signal: controller.signal },
+    );
+
+    const iterator = (await caller.lookUp(request))[Symbol.asyncIterator]();
+    const next = iterator.next();
+    await vi.waitFor(() => expect(chatSignal).toBeDefined());
+    controller.abort();
+
+    expect(chatSignal?.aborted).toBe(true);
+    await expect(next).rejects.toThrow("Request aborted");
+  });
+});